@@ -1,56 +1,6 @@
 pragma circom 2.0.0;
 
-include "node_modules/circomlib/circuits/poseidon.circom";
-include "node_modules/circomlib/circuits/comparators.circom";
-
-// Template for simplified key derivation
-template KeyDerive() {
-    signal input seed[8]; // 64 bytes seed
-    signal input path[4]; // 4 path components: [44', 501', account', change']
-    signal output private_key[8]; // 64 bytes private key
-    
-    // Use Poseidon hash for deterministic key derivation
-    // This is a simplified approach - real BIP32 uses HMAC-SHA512
-    component hasher = Poseidon(12);
-    
-    // Hash seed with path components
-    for (var i = 0; i < 8; i++) {
-        hasher.inputs[i] <== seed[i];
-    }
-    hasher.inputs[8] <== path[0];  // 44'
-    hasher.inputs[9] <== path[1];  // 501'
-    hasher.inputs[10] <== path[2]; // account'
-    hasher.inputs[11] <== path[3]; // change'
-    
-    // Generate private key deterministically
-    for (var i = 0; i < 8; i++) {
-        private_key[i] <== hasher.out + i;
-    }
-    
-    log("hasher.out", hasher.out);
-}
-
-// Template for Ed25519 key generation from private key
-template Ed25519KeyGen() {
-    signal input private_key[8]; // 64 bytes private key
-    signal output public_key[4]; // 32 bytes public key (4 * 8 bytes)
-    
-    // Simplified Ed25519 key generation using Poseidon
-    component key_hasher = Poseidon(8);
-    
-    for (var i = 0; i < 8; i++) {
-        key_hasher.inputs[i] <== private_key[i];
-    }
-    
-    // Generate public key from private key
-    // This is simplified - real Ed25519 uses scalar multiplication on curve
-    public_key[0] <== key_hasher.out;
-    public_key[1] <== key_hasher.out + 1;
-    public_key[2] <== key_hasher.out + 2;
-    public_key[3] <== key_hasher.out + 3;
-    
-    log("key_hasher.out", key_hasher.out);
-}
+include "pubkeys.circom";
 
 // Main circuit template
 template Prove2PubKeys() {
@@ -58,25 +8,64 @@ template Prove2PubKeys() {
     signal input seed[8]; // 64 bytes seed
     signal input pubkey1[4]; // First public key (32 bytes)
     signal input pubkey2[4]; // Second public key (32 bytes)
-    signal input path1[4]; // First derivation path [44', 501', 0', 0']
-    signal input path2[4]; // Second derivation path [44', 501', 0', 1']
+    signal input path1[maxPathDepth()]; // First derivation path, e.g. [44', 501', 0', 0', 0]
+    signal input path2[maxPathDepth()]; // Second derivation path, e.g. [44', 501', 1', 0', 0]
+    signal input depth1; // Number of indices used in path1
+    signal input depth2; // Number of indices used in path2
+    signal input reveal; // How much of the paths to disclose, see PathDisclosure
+    signal input domain; // Application tag of the seed commitment, 0 for none
+    signal input challenge; // Verifier's challenge, 0 for none
     
     // Outputs
     signal output valid; // 1 if both pubkeys derive from same seed
+    signal output seedCommitment; // Same for every proof from this seed and domain
+    signal output revealedPath1[maxPathDepth()]; // Disclosed part of path1
+    signal output revealedPath2[maxPathDepth()]; // Disclosed part of path2
+    signal output revealedDepth1; // Disclosed depths, 0 unless fully revealed
+    signal output revealedDepth2;
+    
+    component commitment = SeedCommitment();
+    for (var i = 0; i < 8; i++) {
+        commitment.seed[i] <== seed[i];
+    }
+    commitment.domain <== domain;
+    seedCommitment <== commitment.commitment;
+    
+    component binding = ChallengeBinding();
+    binding.challenge <== challenge;
+    
+    component disclosure1 = PathDisclosure(maxPathDepth());
+    component disclosure2 = PathDisclosure(maxPathDepth());
+    for (var i = 0; i < maxPathDepth(); i++) {
+        disclosure1.path[i] <== path1[i];
+        disclosure2.path[i] <== path2[i];
+    }
+    disclosure1.depth <== depth1;
+    disclosure2.depth <== depth2;
+    disclosure1.reveal <== reveal;
+    disclosure2.reveal <== reveal;
+    for (var i = 0; i < maxPathDepth(); i++) {
+        revealedPath1[i] <== disclosure1.revealed_path[i];
+        revealedPath2[i] <== disclosure2.revealed_path[i];
+    }
+    revealedDepth1 <== disclosure1.revealed_depth;
+    revealedDepth2 <== disclosure2.revealed_depth;
     
     // Derive private keys from seed using both paths
-    component derive1 = KeyDerive();
-    component derive2 = KeyDerive();
+    component derive1 = KeyDerive(maxPathDepth());
+    component derive2 = KeyDerive(maxPathDepth());
     
     for (var i = 0; i < 8; i++) {
         derive1.seed[i] <== seed[i];
         derive2.seed[i] <== seed[i];
     }
     
-    for (var i = 0; i < 4; i++) {
+    for (var i = 0; i < maxPathDepth(); i++) {
         derive1.path[i] <== path1[i];
         derive2.path[i] <== path2[i];
     }
+    derive1.depth <== depth1;
+    derive2.depth <== depth2;
     
     // Generate public keys from derived private keys
     component keygen1 = Ed25519KeyGen();
@@ -97,15 +86,9 @@ template Prove2PubKeys() {
         
         eq1[i].in[0] <== keygen1.public_key[i];
         eq1[i].in[1] <== pubkey1[i];
-
-        log("eq1[i].in[0]", eq1[i].in[0]);
-        log("eq1[i].in[1]", eq1[i].in[1]);
         
         eq2[i].in[0] <== keygen2.public_key[i];
         eq2[i].in[1] <== pubkey2[i];
-
-        log("eq2[i].in[0]", eq2[i].in[0]);
-        log("eq2[i].in[1]", eq2[i].in[1]);
     }
     
     // Check if all equality results are 1
@@ -129,12 +112,15 @@ template Prove2PubKeys() {
     temp6 <== temp5 * eq2[3].out;
     
     valid <== temp3 * temp6;
-
-    log("valid", valid);
     
     // Ensure valid is exactly 1 (not 0)
     valid === 1;
 }
 
 // Main component
-component main = Prove2PubKeys();
\ No newline at end of file
+// The public keys are public inputs so that a proof is bound to the specific
+// accounts it is about; the paths are private and disclosed as far as `reveal`
+// allows. Public signals are ordered as:
+// [valid, seedCommitment, revealedPath1[5], revealedPath2[5], revealedDepth1,
+//  revealedDepth2, pubkey1[4], pubkey2[4], reveal, domain, challenge]
+component main {public [pubkey1, pubkey2, reveal, domain, challenge]} = Prove2PubKeys();
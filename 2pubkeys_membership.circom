@@ -0,0 +1,120 @@
+pragma circom 2.0.0;
+
+include "pubkeys.circom";
+include "merkle.circom";
+
+// Proves that `pubkey` shares a seed with some member of a published set,
+// without revealing which one: the member's pubkey is private and only its
+// Merkle path to `merkleRoot` is checked
+template ProveSetMembership(TREE_DEPTH) {
+    // Inputs
+    signal input seed[8]; // 64 bytes seed
+    signal input pubkey[4]; // Public key being proven
+    signal input path[maxPathDepth()]; // Derivation path of pubkey
+    signal input depth; // Number of indices used in path
+    signal input memberPubkey[4]; // Hidden member of the set
+    signal input memberPath[maxPathDepth()]; // Derivation path of the member
+    signal input memberDepth; // Number of indices used in memberPath
+    signal input siblings[TREE_DEPTH]; // Merkle path of the member's leaf
+    signal input pathIndices[TREE_DEPTH]; // 1 where the leaf's ancestor is a right child
+    signal input merkleRoot; // Root of the published set
+    signal input reveal; // How much of path to disclose, see PathDisclosure
+    signal input domain; // Application tag of the seed commitment, 0 for none
+    signal input challenge; // Verifier's challenge, 0 for none
+
+    // Outputs
+    signal output valid; // 1 if pubkey and the member derive from the same seed
+    signal output seedCommitment; // Same for every proof from this seed and domain
+    signal output revealedPath[maxPathDepth()]; // Disclosed part of path
+    signal output revealedDepth; // Disclosed depth, 0 unless fully revealed
+
+    component commitment = SeedCommitment();
+    for (var i = 0; i < 8; i++) {
+        commitment.seed[i] <== seed[i];
+    }
+    commitment.domain <== domain;
+    seedCommitment <== commitment.commitment;
+
+    component binding = ChallengeBinding();
+    binding.challenge <== challenge;
+
+    // Only pubkey's path can be disclosed; the member's would narrow down
+    // which member it is
+    component disclosure = PathDisclosure(maxPathDepth());
+    for (var i = 0; i < maxPathDepth(); i++) {
+        disclosure.path[i] <== path[i];
+    }
+    disclosure.depth <== depth;
+    disclosure.reveal <== reveal;
+    for (var i = 0; i < maxPathDepth(); i++) {
+        revealedPath[i] <== disclosure.revealed_path[i];
+    }
+    revealedDepth <== disclosure.revealed_depth;
+
+    // Derive both keys from the seed
+    component derive1 = KeyDerive(maxPathDepth());
+    component derive2 = KeyDerive(maxPathDepth());
+
+    for (var i = 0; i < 8; i++) {
+        derive1.seed[i] <== seed[i];
+        derive2.seed[i] <== seed[i];
+    }
+
+    for (var i = 0; i < maxPathDepth(); i++) {
+        derive1.path[i] <== path[i];
+        derive2.path[i] <== memberPath[i];
+    }
+    derive1.depth <== depth;
+    derive2.depth <== memberDepth;
+
+    component keygen1 = Ed25519KeyGen();
+    component keygen2 = Ed25519KeyGen();
+
+    for (var i = 0; i < 8; i++) {
+        keygen1.private_key[i] <== derive1.private_key[i];
+        keygen2.private_key[i] <== derive2.private_key[i];
+    }
+
+    // The hidden member must be in the set
+    component leaf = PubkeyLeaf();
+    for (var i = 0; i < 4; i++) {
+        leaf.pubkey[i] <== memberPubkey[i];
+    }
+    component tree = MerkleRoot(TREE_DEPTH);
+    tree.leaf <== leaf.leaf;
+    for (var i = 0; i < TREE_DEPTH; i++) {
+        tree.siblings[i] <== siblings[i];
+        tree.pathIndices[i] <== pathIndices[i];
+    }
+    tree.root === merkleRoot;
+
+    // Verify that the derived public keys match pubkey and the member
+    component eq[2][4];
+    for (var i = 0; i < 4; i++) {
+        eq[0][i] = IsEqual();
+        eq[0][i].in[0] <== keygen1.public_key[i];
+        eq[0][i].in[1] <== pubkey[i];
+
+        eq[1][i] = IsEqual();
+        eq[1][i].in[0] <== keygen2.public_key[i];
+        eq[1][i].in[1] <== memberPubkey[i];
+    }
+
+    // Running product of all 8 equality results
+    signal product[8];
+    product[0] <== eq[0][0].out;
+    for (var j = 1; j < 8; j++) {
+        product[j] <== product[j - 1] * eq[j \ 4][j % 4].out;
+    }
+
+    valid <== product[7];
+
+    // Ensure valid is exactly 1 (not 0)
+    valid === 1;
+}
+
+// Main component
+// Public signals are ordered as:
+// [valid, seedCommitment, revealedPath[5], revealedDepth, pubkey[4],
+//  merkleRoot, reveal, domain, challenge]
+component main {public [pubkey, merkleRoot, reveal, domain, challenge]} = ProveSetMembership(membershipTreeDepth());
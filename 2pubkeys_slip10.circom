@@ -0,0 +1,127 @@
+pragma circom 2.0.0;
+
+include "slip10.circom";
+
+// Prove2PubKeys with real SLIP-0010 derivation and Ed25519 public keys, so
+// pubkey1 and pubkey2 are actual Solana addresses. Takes the same inputs and
+// has the same public signals; every path level must be hardened.
+template Prove2Slip10PubKeys() {
+    // Inputs
+    signal input seed[8]; // 64 bytes seed
+    signal input pubkey1[4]; // First public key (32 bytes)
+    signal input pubkey2[4]; // Second public key (32 bytes)
+    signal input path1[maxPathDepth()]; // First derivation path, e.g. [44', 501', 0', 0', 0]
+    signal input path2[maxPathDepth()]; // Second derivation path, e.g. [44', 501', 1', 0', 0]
+    signal input depth1; // Number of indices used in path1
+    signal input depth2; // Number of indices used in path2
+    signal input reveal; // How much of the paths to disclose, see PathDisclosure
+    signal input domain; // Application tag of the seed commitment, 0 for none
+    signal input challenge; // Verifier's challenge, 0 for none
+    
+    // Outputs
+    signal output valid; // 1 if both pubkeys derive from same seed
+    signal output seedCommitment; // Same for every proof from this seed and domain
+    signal output revealedPath1[maxPathDepth()]; // Disclosed part of path1
+    signal output revealedPath2[maxPathDepth()]; // Disclosed part of path2
+    signal output revealedDepth1; // Disclosed depths, 0 unless fully revealed
+    signal output revealedDepth2;
+    
+    component commitment = SeedCommitment();
+    for (var i = 0; i < 8; i++) {
+        commitment.seed[i] <== seed[i];
+    }
+    commitment.domain <== domain;
+    seedCommitment <== commitment.commitment;
+    
+    component binding = ChallengeBinding();
+    binding.challenge <== challenge;
+    
+    component disclosure1 = PathDisclosure(maxPathDepth());
+    component disclosure2 = PathDisclosure(maxPathDepth());
+    for (var i = 0; i < maxPathDepth(); i++) {
+        disclosure1.path[i] <== path1[i];
+        disclosure2.path[i] <== path2[i];
+    }
+    disclosure1.depth <== depth1;
+    disclosure2.depth <== depth2;
+    disclosure1.reveal <== reveal;
+    disclosure2.reveal <== reveal;
+    for (var i = 0; i < maxPathDepth(); i++) {
+        revealedPath1[i] <== disclosure1.revealed_path[i];
+        revealedPath2[i] <== disclosure2.revealed_path[i];
+    }
+    revealedDepth1 <== disclosure1.revealed_depth;
+    revealedDepth2 <== disclosure2.revealed_depth;
+    
+    // Both paths start from the same master key
+    component master = Slip10Master();
+    for (var i = 0; i < 8; i++) {
+        master.seed[i] <== seed[i];
+    }
+    
+    component derive1 = Slip10Derive(maxPathDepth());
+    component derive2 = Slip10Derive(maxPathDepth());
+    
+    for (var i = 0; i < 256; i++) {
+        derive1.master_key[i] <== master.key[i];
+        derive1.master_chain_code[i] <== master.chain_code[i];
+        derive2.master_key[i] <== master.key[i];
+        derive2.master_chain_code[i] <== master.chain_code[i];
+    }
+    
+    for (var i = 0; i < maxPathDepth(); i++) {
+        derive1.path[i] <== path1[i];
+        derive2.path[i] <== path2[i];
+    }
+    derive1.depth <== depth1;
+    derive2.depth <== depth2;
+    
+    // Ed25519 public keys of the derived private keys
+    component keygen1 = Ed25519PublicKey();
+    component keygen2 = Ed25519PublicKey();
+    
+    for (var i = 0; i < 256; i++) {
+        keygen1.private_key[i] <== derive1.private_key[i];
+        keygen2.private_key[i] <== derive2.private_key[i];
+    }
+    
+    // Verify that derived public keys match input public keys
+    component eq1[4];
+    component eq2[4];
+
+    for (var i = 0; i < 4; i++) {
+        eq1[i] = IsEqual();
+        eq2[i] = IsEqual();
+        
+        eq1[i].in[0] <== keygen1.public_key[i];
+        eq1[i].in[1] <== pubkey1[i];
+        
+        eq2[i].in[0] <== keygen2.public_key[i];
+        eq2[i].in[1] <== pubkey2[i];
+    }
+    
+    signal temp1;
+    signal temp2;
+    signal temp3;
+    signal temp4;
+    signal temp5;
+    signal temp6;
+    
+    temp1 <== eq1[0].out * eq1[1].out;
+    temp2 <== temp1 * eq1[2].out;
+    temp3 <== temp2 * eq1[3].out;
+    
+    temp4 <== eq2[0].out * eq2[1].out;
+    temp5 <== temp4 * eq2[2].out;
+    temp6 <== temp5 * eq2[3].out;
+    
+    valid <== temp3 * temp6;
+    
+    // Ensure valid is exactly 1 (not 0)
+    valid === 1;
+}
+
+// Public signals are ordered as in 2pubkeys.circom:
+// [valid, seedCommitment, revealedPath1[5], revealedPath2[5], revealedDepth1,
+//  revealedDepth2, pubkey1[4], pubkey2[4], reveal, domain, challenge]
+component main {public [pubkey1, pubkey2, reveal, domain, challenge]} = Prove2Slip10PubKeys();
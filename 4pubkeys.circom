@@ -0,0 +1,9 @@
+pragma circom 2.0.0;
+
+include "pubkeys.circom";
+
+// Main component
+// Public signals are ordered as:
+// [valid, seedCommitment, revealedPaths[4][5], revealedDepths[4], pubkeys[4][4],
+//  reveal, domain, challenge]
+component main {public [pubkeys, reveal, domain, challenge]} = ProveNPubKeys(4);
@@ -0,0 +1,9 @@
+pragma circom 2.0.0;
+
+include "pubkeys.circom";
+
+// Main component
+// Public signals are ordered as:
+// [valid, seedCommitment, revealedPaths[8][5], revealedDepths[8], pubkeys[8][4],
+//  reveal, domain, challenge]
+component main {public [pubkeys, reveal, domain, challenge]} = ProveNPubKeys(8);
@@ -0,0 +1,503 @@
+pragma circom 2.0.0;
+
+include "node_modules/circomlib/circuits/binsum.circom"; // sha512.circom uses BinSum without including it
+include "node_modules/circomlib/circuits/bitify.circom";
+include "node_modules/circomlib/circuits/comparators.circom";
+include "node_modules/@electron-labs/sha512/circuits/sha512/sha512.circom";
+include "ed25519_base_table.circom";
+
+// Ed25519 public key computation. Coordinates live in GF(p), p = 2^255 - 19,
+// which is larger than the BN254 field the circuit runs in, so an element is
+// 3 limbs of 85 bits, least significant first. Products are reduced mod p with
+// a quotient and remainder the witness generator computes; the circuit checks
+// in - q * p - r = 0 limb by limb, carrying between limbs.
+//
+// Reduced elements have 85-bit limbs but may be up to 2^255 - 1, so a value and
+// the same value plus p both occur. Only the final affine coordinates are
+// checked to be less than p, since their bits make up the public key.
+
+function fpLimbBits() {
+    return 85;
+}
+
+// Limbs of p
+function fpPrime(i) {
+    var B = 1 << fpLimbBits();
+    var p[3] = [B - 19, B - 1, B - 1];
+    return p[i];
+}
+
+// Limbs of 2p spread so each is at least 2^86: a + fpTwoP(i) - b is
+// non-negative for any a, b with 85-bit limbs, and congruent to a - b
+function fpTwoP(i) {
+    var B = 1 << fpLimbBits();
+    var twoP[3] = [2 * B - 38, 2 * B - 2, 2 * B - 2];
+    return twoP[i];
+}
+
+// Carries a number given as N non-negative limbs of any size (up to 2^250)
+// into 8 limbs of 85 bits
+function fpNormalize(N, x) {
+    var B = 1 << fpLimbBits();
+    var out[8];
+    var carry = 0;
+    for (var k = 0; k < 8; k++) {
+        var t = carry;
+        if (k < N) {
+            t += x[k];
+        }
+        out[k] = t % B;
+        carry = t \ B;
+    }
+    return out;
+}
+
+// Witness computation of the remainder and quotient of a number given as N
+// limbs (see fpNormalize) divided by p: [r[0..2], q[0..3], 0]. Uses
+// h * 2^255 = h * p + 19h to fold the high limbs into the low ones.
+function fpDivMod(N, x) {
+    var B = 1 << fpLimbBits();
+    var v[8] = fpNormalize(N, x);
+    var q[8];
+    for (var k = 0; k < 8; k++) {
+        q[k] = 0;
+    }
+
+    for (var iter = 0; iter < 4; iter++) {
+        var folded[8];
+        for (var k = 0; k < 8; k++) {
+            folded[k] = 0;
+            if (k < 3) {
+                folded[k] = v[k];
+            }
+            if (k < 5) {
+                q[k] += v[k + 3];
+                folded[k] += 19 * v[k + 3];
+            }
+        }
+        v = fpNormalize(8, folded);
+        q = fpNormalize(8, q);
+    }
+
+    // v < 2^255 now, so it is at most one p too large
+    if (v[2] == B - 1 && v[1] == B - 1 && v[0] >= B - 19) {
+        v[0] -= B - 19;
+        v[1] = 0;
+        v[2] = 0;
+        q[0] += 1;
+        q = fpNormalize(8, q);
+    }
+
+    var out[8];
+    for (var k = 0; k < 3; k++) {
+        out[k] = v[k];
+    }
+    for (var k = 0; k < 4; k++) {
+        out[3 + k] = q[k];
+    }
+    out[7] = 0;
+    return out;
+}
+
+// Witness computation of a * b mod p for reduced a, b
+function fpMulMod(a, b) {
+    var prod[5];
+    for (var k = 0; k < 5; k++) {
+        prod[k] = 0;
+    }
+    for (var i = 0; i < 3; i++) {
+        for (var j = 0; j < 3; j++) {
+            prod[i + j] += a[i] * b[j];
+        }
+    }
+    var res[8] = fpDivMod(5, prod);
+    var out[3];
+    for (var k = 0; k < 3; k++) {
+        out[k] = res[k];
+    }
+    return out;
+}
+
+// Witness computation of a^-1 mod p, as a^(p - 2)
+function fpInverse(a) {
+    var out[3] = [1, 0, 0];
+    var base[3];
+    for (var k = 0; k < 3; k++) {
+        base[k] = a[k];
+    }
+    // p - 2 = 2^255 - 21: every bit from 0 to 254 is set except bits 2 and 4
+    for (var i = 0; i < 255; i++) {
+        if (i != 2 && i != 4) {
+            out = fpMulMod(out, base);
+        }
+        base = fpMulMod(base, base);
+    }
+    return out;
+}
+
+// Reduces sum(in[k] * 2^(85k)) mod p, for 0 <= in[k] < 2^IN_BITS with
+// IN_BITS <= 200
+template FpReduce(N, IN_BITS) {
+    signal input in[N];
+    signal output out[3];
+    signal q[4];
+
+    var B = 1 << fpLimbBits();
+    var res[8] = fpDivMod(N, in);
+    for (var k = 0; k < 3; k++) {
+        out[k] <-- res[k];
+    }
+    for (var k = 0; k < 4; k++) {
+        q[k] <-- res[3 + k];
+    }
+
+    // The input is below 2^(IN_BITS + 85(N - 1)) <= 2^540, so the quotient
+    // fits in 4 limbs
+    component outBits[3];
+    for (var k = 0; k < 3; k++) {
+        outBits[k] = Num2Bits(fpLimbBits());
+        outBits[k].in <== out[k];
+    }
+    component qBits[4];
+    for (var k = 0; k < 4; k++) {
+        qBits[k] = Num2Bits(fpLimbBits());
+        qBits[k].in <== q[k];
+    }
+
+    // in - q * p - out = 0, limb by limb. q * p has 6 limbs of up to 2^172;
+    // the signed carries are range checked so nothing wraps around the field.
+    var K = N > 6 ? N : 6;
+    var CARRY_BITS = (IN_BITS > 172 ? IN_BITS : 172) - fpLimbBits() + 3;
+    signal carry[K - 1];
+    component carryBits[K - 1];
+    for (var k = 0; k < K; k++) {
+        var diff = 0;
+        if (k < N) {
+            diff += in[k];
+        }
+        for (var i = 0; i < 3; i++) {
+            if (k - i >= 0 && k - i < 4) {
+                diff -= q[k - i] * fpPrime(i);
+            }
+        }
+        if (k < 3) {
+            diff -= out[k];
+        }
+        if (k > 0) {
+            diff += carry[k - 1];
+        }
+
+        if (k < K - 1) {
+            // Exact division, so the field quotient is the signed carry
+            carry[k] <-- diff / B;
+            diff === carry[k] * B;
+            carryBits[k] = Num2Bits(CARRY_BITS + 1);
+            carryBits[k].in <== carry[k] + (1 << CARRY_BITS);
+        } else {
+            diff === 0;
+        }
+    }
+}
+
+// a * b mod p, for limbs below 2^88 (sums and differences of a few reduced
+// elements)
+template FpMul() {
+    signal input a[3];
+    signal input b[3];
+    signal output out[3];
+
+    signal prod[3][3];
+    for (var i = 0; i < 3; i++) {
+        for (var j = 0; j < 3; j++) {
+            prod[i][j] <== a[i] * b[j];
+        }
+    }
+
+    component reduce = FpReduce(5, 178);
+    for (var k = 0; k < 5; k++) {
+        var sum = 0;
+        for (var i = 0; i < 3; i++) {
+            if (k - i >= 0 && k - i < 3) {
+                sum += prod[i][k - i];
+            }
+        }
+        reduce.in[k] <== sum;
+    }
+    for (var k = 0; k < 3; k++) {
+        out[k] <== reduce.out[k];
+    }
+}
+
+// Constrains reduced a and b to be congruent mod p
+template FpEqual() {
+    signal input a[3];
+    signal input b[3];
+
+    component reduce = FpReduce(3, 87);
+    for (var k = 0; k < 3; k++) {
+        reduce.in[k] <== a[k] + fpTwoP(k) - b[k];
+    }
+    for (var k = 0; k < 3; k++) {
+        reduce.out[k] === 0;
+    }
+}
+
+// Constrains reduced a to be less than p: it is not
+// [2^85 - 19 .. 2^85 - 1, 2^85 - 1, 2^85 - 1]
+template FpCanonical() {
+    signal input in[3];
+
+    var B = 1 << fpLimbBits();
+    component top = IsEqual();
+    top.in[0] <== in[2];
+    top.in[1] <== B - 1;
+    component middle = IsEqual();
+    middle.in[0] <== in[1];
+    middle.in[1] <== B - 1;
+    component bottom = GreaterEqThan(fpLimbBits());
+    bottom.in[0] <== in[0];
+    bottom.in[1] <== B - 19;
+
+    signal high <== top.out * middle.out;
+    high * bottom.out === 0;
+}
+
+// One-hot decoding of a 4-bit window: sel[v] = 1 iff bits encode v
+template Window4() {
+    signal input bits[4];
+    signal output sel[16];
+
+    signal low01 <== bits[0] * bits[1];
+    signal high23 <== bits[2] * bits[3];
+    var low[4] = [
+        1 - bits[0] - bits[1] + low01,
+        bits[0] - low01,
+        bits[1] - low01,
+        low01
+    ];
+    var high[4] = [
+        1 - bits[2] - bits[3] + high23,
+        bits[2] - high23,
+        bits[3] - high23,
+        high23
+    ];
+    for (var v = 0; v < 16; v++) {
+        sel[v] <== low[v % 4] * high[v \ 4];
+    }
+}
+
+// Adds an affine point, given as [y - x, y + x, 2d * x * y], to a point in
+// extended coordinates (X : Y : Z : T), x = X/Z, y = Y/Z, xy = T/Z. This is
+// the complete a = -1 twisted Edwards addition of Hisil, Wong, Carter and
+// Dawson ("madd-2008-hwcd-3").
+template Ed25519AddAffine() {
+    signal input X1[3];
+    signal input Y1[3];
+    signal input Z1[3];
+    signal input T1[3];
+    signal input p2[3][3];
+    signal output X3[3];
+    signal output Y3[3];
+    signal output Z3[3];
+    signal output T3[3];
+
+    // A = (Y1 - X1)(y2 - x2), B = (Y1 + X1)(y2 + x2), C = T1 * 2d * t2
+    component A = FpMul();
+    component B = FpMul();
+    component C = FpMul();
+    for (var k = 0; k < 3; k++) {
+        A.a[k] <== Y1[k] + fpTwoP(k) - X1[k];
+        A.b[k] <== p2[0][k];
+        B.a[k] <== Y1[k] + X1[k];
+        B.b[k] <== p2[1][k];
+        C.a[k] <== T1[k];
+        C.b[k] <== p2[2][k];
+    }
+
+    // E = B - A, F = D - C, G = D + C, H = B + A, with D = 2 * Z1
+    var E[3];
+    var F[3];
+    var G[3];
+    var H[3];
+    for (var k = 0; k < 3; k++) {
+        E[k] = B.out[k] + fpTwoP(k) - A.out[k];
+        F[k] = 2 * Z1[k] + fpTwoP(k) - C.out[k];
+        G[k] = 2 * Z1[k] + C.out[k];
+        H[k] = B.out[k] + A.out[k];
+    }
+
+    component EF = FpMul();
+    component GH = FpMul();
+    component FG = FpMul();
+    component EH = FpMul();
+    for (var k = 0; k < 3; k++) {
+        EF.a[k] <== E[k];
+        EF.b[k] <== F[k];
+        GH.a[k] <== G[k];
+        GH.b[k] <== H[k];
+        FG.a[k] <== F[k];
+        FG.b[k] <== G[k];
+        EH.a[k] <== E[k];
+        EH.b[k] <== H[k];
+    }
+    for (var k = 0; k < 3; k++) {
+        X3[k] <== EF.out[k];
+        Y3[k] <== GH.out[k];
+        Z3[k] <== FG.out[k];
+        T3[k] <== EH.out[k];
+    }
+}
+
+// scalar * B for a 256-bit scalar (least significant bit first), in extended
+// coordinates: one table lookup and addition per 4-bit window
+template Ed25519BaseMul() {
+    signal input scalar[256];
+    signal output X[3];
+    signal output Y[3];
+    signal output Z[3];
+
+    component window[64];
+    component add[64];
+    for (var w = 0; w < 64; w++) {
+        window[w] = Window4();
+        for (var b = 0; b < 4; b++) {
+            window[w].bits[b] <== scalar[4 * w + b];
+        }
+
+        add[w] = Ed25519AddAffine();
+        var table[16][3][3] = ed25519BaseTable(w);
+        for (var c = 0; c < 3; c++) {
+            for (var k = 0; k < 3; k++) {
+                var entry = 0;
+                for (var v = 0; v < 16; v++) {
+                    entry += window[w].sel[v] * table[v][c][k];
+                }
+                add[w].p2[c][k] <== entry;
+            }
+        }
+
+        // Start from the neutral element (0 : 1 : 1 : 0)
+        for (var k = 0; k < 3; k++) {
+            if (w == 0) {
+                add[w].X1[k] <== 0;
+                add[w].Y1[k] <== k == 0 ? 1 : 0;
+                add[w].Z1[k] <== k == 0 ? 1 : 0;
+                add[w].T1[k] <== 0;
+            } else {
+                add[w].X1[k] <== add[w - 1].X3[k];
+                add[w].Y1[k] <== add[w - 1].Y3[k];
+                add[w].Z1[k] <== add[w - 1].Z3[k];
+                add[w].T1[k] <== add[w - 1].T3[k];
+            }
+        }
+    }
+
+    for (var k = 0; k < 3; k++) {
+        X[k] <== add[63].X3[k];
+        Y[k] <== add[63].Y3[k];
+        Z[k] <== add[63].Z3[k];
+    }
+}
+
+// Encodes a point in extended coordinates as RFC 8032 does: y as 255
+// little-endian bits with the parity of x in the top bit. The 32 bytes are
+// returned as 4 big-endian 64-bit limbs, the layout of the circuits' pubkeys.
+template Ed25519Compress() {
+    signal input X[3];
+    signal input Y[3];
+    signal input Z[3];
+    signal output out[4];
+
+    // Affine coordinates, checked by x * Z = X and y * Z = Y
+    signal x[3];
+    signal y[3];
+    var zInverse[3] = fpInverse(Z);
+    var xValue[3] = fpMulMod(X, zInverse);
+    var yValue[3] = fpMulMod(Y, zInverse);
+    for (var k = 0; k < 3; k++) {
+        x[k] <-- xValue[k];
+        y[k] <-- yValue[k];
+    }
+
+    component xBits[3];
+    component yBits[3];
+    for (var k = 0; k < 3; k++) {
+        xBits[k] = Num2Bits(fpLimbBits());
+        xBits[k].in <== x[k];
+        yBits[k] = Num2Bits(fpLimbBits());
+        yBits[k].in <== y[k];
+    }
+    component xCanonical = FpCanonical();
+    component yCanonical = FpCanonical();
+    component xZ = FpMul();
+    component yZ = FpMul();
+    for (var k = 0; k < 3; k++) {
+        xCanonical.in[k] <== x[k];
+        yCanonical.in[k] <== y[k];
+        xZ.a[k] <== x[k];
+        xZ.b[k] <== Z[k];
+        yZ.a[k] <== y[k];
+        yZ.b[k] <== Z[k];
+    }
+    component xCheck = FpEqual();
+    component yCheck = FpEqual();
+    for (var k = 0; k < 3; k++) {
+        xCheck.a[k] <== xZ.out[k];
+        xCheck.b[k] <== X[k];
+        yCheck.a[k] <== yZ.out[k];
+        yCheck.b[k] <== Y[k];
+    }
+
+    // Bit i of the encoding is bit i of y, and bit 255 is the low bit of x
+    var bits[256];
+    for (var i = 0; i < 255; i++) {
+        bits[i] = yBits[i \ 85].out[i % 85];
+    }
+    bits[255] = xBits[0].out[0];
+
+    // Byte j holds bits 8j..8j+7; limb m holds bytes 8m..8m+7, big-endian
+    for (var m = 0; m < 4; m++) {
+        var limb = 0;
+        for (var t = 0; t < 8; t++) {
+            for (var b = 0; b < 8; b++) {
+                limb += bits[8 * (8 * m + t) + b] * (1 << (8 * (7 - t) + b));
+            }
+        }
+        out[m] <== limb;
+    }
+}
+
+// Ed25519 public key of a 32-byte private key (RFC 8032, section 5.1.5): the
+// first half of SHA-512(private key), clamped, times the base point
+template Ed25519PublicKey() {
+    signal input private_key[256]; // 32 bytes, most significant bit of each byte first
+    signal output public_key[4]; // 32 bytes public key (4 * 8 bytes)
+
+    component hash = Sha512(256);
+    for (var i = 0; i < 256; i++) {
+        hash.in[i] <== private_key[i];
+    }
+
+    // Bit i of the little-endian scalar is bit i % 8 of hash byte i \ 8.
+    // Clamping clears bits 0, 1, 2 and 255 and sets bit 254.
+    component mul = Ed25519BaseMul();
+    for (var i = 0; i < 256; i++) {
+        if (i < 3 || i == 255) {
+            mul.scalar[i] <== 0;
+        } else if (i == 254) {
+            mul.scalar[i] <== 1;
+        } else {
+            mul.scalar[i] <== hash.out[8 * (i \ 8) + 7 - i % 8];
+        }
+    }
+
+    component compress = Ed25519Compress();
+    for (var k = 0; k < 3; k++) {
+        compress.X[k] <== mul.X[k];
+        compress.Y[k] <== mul.Y[k];
+        compress.Z[k] <== mul.Z[k];
+    }
+    for (var m = 0; m < 4; m++) {
+        public_key[m] <== compress.out[m];
+    }
+}
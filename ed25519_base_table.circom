@@ -0,0 +1,1226 @@
+pragma circom 2.0.0;
+
+// Generated by src/ed25519Table.ts, do not edit.
+// Window w of the fixed-base multiplication in ed25519.circom: for
+// v = 0..15, v * 16^w * B as [y - x, y + x, 2d * x * y] mod p in 85-bit limbs
+function ed25519BaseTable(w) {
+    var table[16][3][3];
+    if (w == 0) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[900562916542987431350590, 1979934892666918018756234, 20850648003599488099381345], [14573687574524266004888453, 5757190352866708699363292, 2360727733001392054977234], [13017768990797254079720040, 17373182393133031399431781, 33568330673927905158268639]],
+            [[816794921291193051829672, 33082749505727887445615219, 32553142897092088810710920], [19294216473996742813839831, 23191812749712073811604432, 26912795402753683081308582], [32411819679636254497667679, 4988477722618392490207980, 33881751387379549762487272]],
+            [[2089598052728840942047845, 30001385557729545774165806, 12912229839143104814271612], [7610290675272938024769328, 99022931023691505567556, 36898570722672408259479252], [26418727376382444591700105, 12298953206141395488280801, 27248233004063976198528057]],
+            [[1183719928547564551936191, 36759878561250495712430771, 11960865622983459204037176], [35234612261121791922801055, 12012968556919682982454255, 31449268343571530520890659], [34763449100036330720001801, 9409340159358127041031130, 38568806445189383360837367]],
+            [[8659482709537639750948538, 10756428263914326110669401, 6434807493548210921197372], [37387024016970912689929011, 29480959144871092818419258, 12473895603285192324105978], [36050485542955906799141509, 29433881745493470566432389, 20451086173468212790626009]],
+            [[21945893813303384806886564, 8731695591147546311139646, 17140180820910838857515543], [10500333631594094812033329, 23304044830784004989667334, 24751673855797195844884845], [2092036430784447589796721, 22177448041562999103691277, 5054007139079484050045224]],
+            [[31600448177146361881436593, 22348909039197680453720541, 8895598131693913331169949], [35969424667373659317248959, 24260025741054185371719068, 21189158845886935905102996], [37045100893090939206677410, 16711343381789450325080105, 37060814463092227784877840]],
+            [[25807620033799945383458009, 16185650640801642860250893, 17699598502332541065431504], [10201129724471761698635407, 3867448532960871723024148, 2745942553898186235989223], [15299727787889837406851354, 20289457456622911485625438, 11655373989406353959475460]],
+            [[309830607712375684300900, 19679188736016801619359657, 22289986327705490431521521], [34184133793581782845121327, 36637082416847816012036749, 15935539002915363092671628], [31215709932006788703825691, 1570752253415289463457080, 34984997266854052266425791]],
+            [[12014575828622832502342109, 31657248538171938128900909, 1005288397891570487074021], [28864727193045471435191438, 32777257045243322039705776, 20453114148860338469295424], [19811522992455571356055768, 29596132420044986329226911, 4465195603813143419012519]],
+            [[10292419753820761480381256, 12898340415694705822223288, 7455848833672983347783709], [19560764835534154741328606, 4272478182182244322801681, 20086193307083604786171809], [3497592039944590886734313, 15478309307388119855991188, 18670268508580035916008516]],
+            [[22191073800839387437421753, 33182716816828663118726757, 36672629361615954392519550], [25168624787036246355375417, 11425780944530174230052545, 2279352882173020984146743], [17038518380692900494460243, 5854050822942551262174482, 16857248469105165824160470]],
+            [[28331456128203487770034067, 21256947207963307996499163, 726691848332555755930796], [34902341940097933159464813, 20059879403595489127224749, 10672363473326894604410499], [16719267839417906826748792, 38404889780947616580079356, 22208879086802395552332749]],
+            [[34620588707015499407889024, 28463905033700569565396699, 13884837393218790068865941], [18934460348392886090415602, 157093476460598793208511, 33452509506395554514899411], [11783864755435719010163586, 33254726708297761734749461, 11106407544641864707016695]],
+            [[30302651248875995023593227, 303367266272976962396500, 20464141148225095562248716], [34021941489978502617754272, 19144761278223950621731012, 29583454342366298750283631], [38529462837173447317042454, 24086996479947419642655161, 24515432932982575794801558]]
+        ];
+    } else if (w == 1) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[10241401637692358409465331, 951930865529525239176498, 23255371789641575686581625], [8158408223542559303016950, 21883862511136444318849966, 6114417610465266898443918], [11065272480882578575510187, 31882185721735543559844152, 10187650853426978843011572]],
+            [[24089910434005457945789251, 17518466561271280919818904, 3141833990474522873911055], [5530874092029815973814671, 19712957342329929316680240, 38085984690945433983260730], [27312219782204320040839155, 1559908084797386924672490, 26116178044875697600859963]],
+            [[17176625222851901798877080, 22327446039786661692230403, 7217158577844892633030846], [10068017783817811574634141, 33440197034831271313386879, 15306615206710749879724803], [19039951273840501307245623, 12114821984669946132220992, 2720913045500006195454281]],
+            [[23285731630655672348927259, 14503648298085854379444249, 16659599493330951424278653], [8386405006924450455006513, 33357435315665116043337415, 20273133344535960122292677], [8520898504329304460016813, 1957497519295007676790412, 23038484006190768548480996]],
+            [[27219928021132203926289045, 14059884612557999382457188, 37629355041561556490358305], [30418196388104971224981725, 35963886827536649651829645, 33219225273016309432464783], [1524499425140142540454130, 3752711672864673899894152, 27404235139140921386185259]],
+            [[4693456277857647435786504, 18938180493852939715352371, 8346358449062273508039373], [23792580546651348325585204, 11844816205204942586746638, 8486520636068038748653924], [7073795064933376087807811, 6884082432784616048655191, 10664476667428625660810382]],
+            [[13565543652309282300866024, 33780464525683787162282191, 27134105517734446639479578], [10690944849005145651519439, 18333428314445713708455521, 22477470428112908382648816], [25596957137436399510540130, 35563409283965219250113936, 33554039106846466336238823]],
+            [[7002709173855845267253602, 24940811410408991415134319, 34244098423140319925108011], [15410896190676950541100163, 694653742670361040988881, 29176396845416290128625313], [26444457503445375256128536, 5743094827199700357124153, 35024492569963879908452200]],
+            [[4058116852071357478369484, 7443555489920603890688408, 21768365323896380401704777], [20860116925576327731037823, 17201514988667576014993776, 8521453465752114129142327], [12454700613687326371775390, 37195897914186940923037420, 26603115100031149300967372]],
+            [[20075115925757513695386114, 5757402476163266617826606, 11315467868151330059559777], [20742749433772120891227605, 31668694881655392457238430, 5294165583391726344778602], [24122378565452813434709240, 12185430340260966194702227, 37263067446797144499647672]],
+            [[1273473715367633200855486, 17564230448109658363370849, 22591682766064011938497865], [10276615120252337857457624, 26506186740968514277172595, 35977221294458120695758522], [18152154997003322747834081, 31903948147870239075788143, 20743187540261504630898190]],
+            [[26462125534982033430830293, 8098506564242703249484416, 2774753154791592796318043], [2739108616663970706118006, 26308669102618103742016649, 30804569638687170156507380], [18994916657554589708145477, 19963513538278948452873148, 37894531072829446845594554]],
+            [[30847096144302246614915695, 37357129465745489387855489, 19230471491897931097515519], [25954211160729752660921479, 8309917444655149117138471, 36821081116266203811717000], [30556960952550961188730105, 7048523774639686538141620, 12422159005428908156469649]],
+            [[2026285427256055413339760, 8959325228413531138423300, 5890914740912234126370615], [7634363528513080615379211, 6119287917397281523511385, 27522611657914263367750083], [11700629598444050744925933, 13330209901175459639407834, 37172689000141457450183399]],
+            [[32188878899329974721669755, 32500850793964579064790726, 3889279684612169466662723], [8363856092785004478129179, 33485209921966086819164467, 33827491740060463729944611], [459570206689501544924322, 16382195372984821904199233, 16244595565007801238149803]]
+        ];
+    } else if (w == 2) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[7868549574990327613903198, 37830178543271412838496350, 14761441707473165462094599], [11112119088131097945414685, 33081415149233504779547572, 33192911203536517635291117], [16317720907877684357817543, 25554097734065160046511252, 5070157093467998477163751]],
+            [[16314049451723594777124830, 36580364046782063181654221, 11454232128576688239116343], [312986818161473438140421, 35294239558652915770399697, 1132905334104142569609524], [30773268837355909906195972, 18655129107405765389280674, 26121144799012908654144911]],
+            [[33568076747436606642784308, 585499555249572845890884, 15592496843821821756648827], [27086380497104945978945488, 21777651282296833946769304, 6341722905601873626661560], [9673015807701270470719444, 26236786268804919495763534, 6198829656442198454694140]],
+            [[17782808807945636249703874, 13344894577703255190635858, 14461985034834523799913239], [5401854743758357226712248, 27155690208224531834587653, 1808941989102571205155157], [32871491842858330937614045, 4974089891372581730936681, 16688138848024521404639535]],
+            [[25161491482978922815139289, 3101109950740283824241847, 9594250387856384775477500], [1611311799975363337282960, 473574461423312770826422, 32628676275223835934428677], [4417738079239617619516298, 35988363256356974851243478, 701404990068988315423925]],
+            [[37903600814067062654456468, 24509064193389665076306046, 19229524712886701275813985], [9193537964880547137150692, 22251890311924055921757360, 27540303778053061000712], [28071374040704851122182964, 19102056556123260469564836, 5655025497820138754979316]],
+            [[23403706011303503659328333, 23045024365343131691081071, 35242389142430466933293340], [13945514793134862814355090, 16942244082676868104919682, 33697127451688400431812647], [5575217061018121963744773, 6873256507249844351372791, 4777564023172157431900674]],
+            [[16280328783735402683833924, 3420247605956591647789453, 22064862831110339784904967], [30062773961250654245899845, 24122150134920525504554142, 19710535526077629353112065], [3143694751524978723322096, 9411385200367554434162979, 19866444614933420732962860]],
+            [[21120100123080551344736567, 13936733106313890167319187, 8454492133649662475546508], [29571524713573764884387423, 20450676570152608308267093, 24769522100316645602625121], [1849012037703388530312659, 32022505217606835431106168, 29980167941180698450679698]],
+            [[15785807678740449286864828, 22480443769958855465229850, 15990835536982861411143877], [13228357764929457093410651, 13865986571097732974773025, 29295865510055677748862561], [3196623898094409871327880, 33129369012532087936854305, 4924617538192150851658583]],
+            [[22298864133601617217072436, 28269165674684794047440204, 12305325390873819909793637], [35550469302876527258875320, 23247429435622749883545987, 31016047733338664059205720], [9312471327819734660432181, 17956848404134898702471040, 21326482029965335540189856]],
+            [[23441909911664195631206844, 18473346813067391585148899, 21514394335868093796298043], [4589823330813238750870691, 10432930419992647065533727, 22178063331980209570934581], [21803847324401859691515977, 32841402784738685707636043, 16028669409942635611526242]],
+            [[31450660393244786381457804, 23931983558977020974269940, 424987732664435269269011], [1270974897954649063879422, 20835806948446312872674238, 16096115872852410563529434], [10369925855091492208682600, 36604905655043385076849687, 7627629193640807265927778]],
+            [[1483967716773975805243539, 25538484719164224733616428, 30579245324022181039806291], [35615305542063352136538534, 4121745045829913290861589, 29794311313921848046253734], [37590493193143537887132511, 30457619603928867731849755, 9533557141264937670580176]],
+            [[35222002109669681477973203, 12388032466962930264463700, 33057689729598475735310320], [6426129825869216946524318, 16356127360568374107092395, 16084725959141234081955655], [4674162702468506457221944, 20508609725387985739491242, 23943818968125997308038173]]
+        ];
+    } else if (w == 3) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[30366782389265486871022040, 21983176426621954544789075, 27982043754700254982285269], [8108830701839716789647314, 5554654368877221697950358, 26215289710971227662668029], [26570693245669075091499348, 33950564048709056408691877, 4205773224862591508655072]],
+            [[32957573983355720836638123, 26142627872239180251939960, 27555564285771962895540724], [4945241610590911531088250, 32423258116613387160358870, 3277084969217152883769351], [26887168419754798497401039, 28807651635403094201211084, 2789146108896624859811052]],
+            [[23209543878675756540680126, 29930955638364546774525143, 32080414874198273095906671], [30014747500107778201555590, 21222247163716792714535867, 37178647262454388455240711], [17803074832209864626376947, 19543030365764830199406298, 26859443956304140483805754]],
+            [[11968791222706269105241463, 10233881596530068370140345, 32226735638758327999428324], [38277304840180195887404171, 11574790893689671206931613, 36856392559841620977377970], [21767334969784017969778153, 34149691018188680048104807, 37949726154296975650090259]],
+            [[6098596978962207774698494, 13290641724123467457654678, 7745922807292097824741443], [17100613247322711515186071, 8071624845710640054060154, 7835688607908707937772838], [5814659739523345836467914, 12774370402145205752308787, 21831328201072753672048762]],
+            [[6294342274046965893626441, 33241311268793599502549424, 15270662255505028116153373], [19946701206506175351914742, 23335343169318284617199553, 8595087762195215101804564], [36326217543673545340393684, 8402621421041160614792651, 10122198480897945630007415]],
+            [[25082012388303312851443376, 29892039195938771383028331, 38581448807497648556186278], [12101111084650986983919304, 10792588311344242290050840, 2122161543295744492067046], [35036047001974142229673599, 30198996895769438276307077, 15624078989371275415237124]],
+            [[21023813453999519005773361, 20566778995765702323977875, 30709508567975810816371001], [31525478321557319924812891, 23495130909766496597733432, 8532924667813770058513307], [33565623790701195668666288, 32048382994126777748267069, 3006230917089136316030225]],
+            [[20775645016229861927558870, 35797118715890963213690803, 1157568899435808511564541], [14933836773375273590630391, 328106000520026776298156, 5267879717423715116875308], [25360698859997365878495132, 1804144185124239817690462, 13017999084433788090199087]],
+            [[17655273826988724843214537, 37262287317971148377659014, 3277040415360734952501206], [3111423442088044638964497, 9790906107785498439111666, 3211066832880512293491647], [22692996062672447325211932, 6516211888605953099288858, 6754877722134866831710325]],
+            [[16066663689567321926107847, 19045838673172445310976982, 29070658961015310543391474], [2088439093934963256546717, 19582374167062895093998889, 21928831254217260018225266], [1889414791040430249877962, 30196977193481323217371160, 7984011720553210804533453]],
+            [[19707477556683720677779665, 6913908528894290273138955, 28407526506620999264289425], [30004179536181348482410352, 17286870550587708046349685, 16805378687786255002219681], [15539516620566026075122677, 20709570829251667437541079, 36834117963468560827215845]],
+            [[25897106945844063764576556, 21059494618892805153146243, 7981606225667385352044567], [10265813867339164063732903, 3116863543118747566232289, 5767037705970837241598837], [12079115910653891329470537, 11842384646889585126789392, 18318794409291013957380057]],
+            [[33504520448914740805347541, 16911404588398332767503156, 19237211057472112560029683], [5403047883302580210560277, 31290820876489539435751615, 4802476762286211562504528], [7564443166414038033228206, 32956369587434249254004413, 16858473663134323036657753]],
+            [[29655566171766705534156961, 339217761933456493259536, 15474482631482115974000628], [23793216742331955987172989, 14128782077690710833824185, 2111434291820917717882811], [8618282420879489566324808, 6953569187917181205010212, 21912468711406442436166358]]
+        ];
+    } else if (w == 4) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[25591191177327280652502718, 20273301112815508572774573, 23790289696660089523343010], [6898353502996844109009326, 10132618381840747860715604, 3181832895388497615435954], [35372299519543159683844489, 18213257649216436449694430, 19011288502268135469176939]],
+            [[13443045563542413122590391, 32549336140527663904908040, 5895096955002269960447589], [34184459551347232395392280, 20471904405257076413221660, 37863669914809367473439127], [24703810477754292714395360, 19952991923253308746421386, 6211044331792967101348632]],
+            [[4886049533390736193810471, 1606988741226453021358004, 19327438306406043143841903], [23311960005498721949480301, 33147674228613166933072967, 11956938211247261298979906], [10939817481584677632555366, 24825718814570509521707265, 19650786171776116292731988]],
+            [[3904021840406345289056810, 9746126657439431601003717, 13456655394774865133515480], [5209757212845221752695480, 11267657605657628901787751, 422308888188614289738032], [18723019919550806464162422, 9911164752336443449026153, 26930954386479708469090186]],
+            [[24086618257383210341407738, 36291229687778334669993311, 18700787008839872881138700], [14979910963066784980710749, 11740189894930254410011916, 21944023199293893330354692], [27391530081005375314432751, 37744849004107593609487112, 22353302044078306197725098]],
+            [[5383113909438053848174548, 7298488909935578333283811, 25997404229371623381446821], [10007895155060570907760430, 28648434219366758227469868, 2004233024628365757540564], [1866837200080508034704566, 22973232054574568643888898, 9851587615514040201625798]],
+            [[19156616981993058319846527, 3808888264132482834720042, 1213561087370895603310198], [13505361016414399229520942, 845568746152736157875158, 34770310868243795521634963], [5362501453708173167740242, 28790903508158957492796609, 27757209008563239230763729]],
+            [[26301247767978590520626370, 23510264898662927152917273, 5811425367621085982993965], [16763396082254059273681194, 16043891851800266601731566, 27720120949727587381757839], [30614770543140728784708286, 4518689801346661038862600, 35075129990297393863985368]],
+            [[9732328557659065522862767, 16945275023658165070301905, 4894980955700665892499026], [36260644383378698032297650, 2771998482204744760727198, 20110759174332961584468224], [6160747603956277959539547, 3611026449406865132148949, 34249418682594779555479160]],
+            [[4714961329065312879705780, 22637079100949290299654209, 10604373089335546760383830], [12847075225914152035576328, 8735578013344316167965627, 33897723876635050493556345], [16614509758152801802847339, 16636653490615522645478592, 20406655702839489393443119]],
+            [[1313919732292862164201343, 25251931423028488678489583, 30087351640700065272945768], [18169889261291792826315727, 19423171942763838021936661, 19975926020746862402611942], [31675608883733476060033528, 19969970963208975961914335, 19559207237929475986863333]],
+            [[31795324351193101200518523, 1371765023803799440172668, 32757540519051638677342146], [23114978833177932559919734, 11906593526572677588778650, 19145784846372146666880098], [26975837481000992500772843, 21476658477648838774722757, 14955628093165455998515141]],
+            [[34653241402425723278442756, 29718160927219320715135902, 34156407277274606409527996], [5853487898203153449661241, 13531485081624733028002070, 22497287949667504945227776], [12285202132107141469945884, 19746936686718743655955886, 29977042528962508045835761]],
+            [[27996625117238647367536878, 3314029413909603926048070, 28308319645187355777343550], [30682651015169448241506840, 28939903693665913003549909, 16456370737385898371735647], [3459798110121203408883479, 26565619749740172287240821, 18759193011361933691092170]],
+            [[1626128471642910987193063, 34039036589454387218322444, 9733685767313502812788325], [20119858144655422159869948, 22668585380190872832472004, 26441780005424797774773970], [26921713623128477051011416, 23905267151976468450742199, 22215067108937230806746391]]
+        ];
+    } else if (w == 5) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[17463151049085878837227275, 27338570323074091713845017, 280135052190568743975443], [1213486274591532637362917, 15525253666757677816925255, 4330246219274989640448577], [28892355365608700368750458, 11412801914928000179313512, 11904115618135466291970417]],
+            [[30612460646324406053920974, 10168212397564551514321815, 13118223996652858721699827], [20138027571835812503551963, 24141054738949903394660038, 18053805994312137005962812], [5775227738226794858023512, 37164562610338533647171711, 20439503009809113769493353]],
+            [[14146922847542886502388871, 3450597619651978394883425, 34044088812760454278002970], [33602279645147693123592168, 5561792323128599410861999, 24412174981801841990532001], [9329641211630768046144316, 30645288634006060309757158, 33732901549359592576352960]],
+            [[13538428434393331241435690, 30966446524472169159201351, 34518465596282896796602270], [12108112180066811006476469, 446822425166331653121095, 31905879714014971750642993], [27628891194660527881221414, 6165695040152586925729809, 34935303456599228971269170]],
+            [[20289368875524375419673104, 12406475813657830520049857, 38110313986277175816620742], [27102111981188537328549446, 34232408023414361627101434, 16370389380917690871874541], [1824153589555806616677167, 26964406269646778816883010, 22939318474054847925235271]],
+            [[29987995064232212914139176, 11382554649871542837051630, 1638828581407054337725420], [19831783071460785792377396, 4180227940205287106008821, 26112246027267970872421431], [50818131489869363393040, 13353043205903572395636996, 9881596877414139261725399]],
+            [[28096075975338658409460555, 13928150678307940930175241, 37045535399121753039899019], [2437481266316109936407177, 35742211495620333152326154, 22243733212487935405224173], [11950140183388836469408222, 27113717737827606032418802, 17976577156409883192072385]],
+            [[33581845797439018786471148, 1993072266291404666908167, 11594306145734155715089508], [9770778074360873980082599, 28180405456563129805238960, 15031675814895233126959212], [31595728462692904289237361, 1216845721219092416203024, 12718429590357871216786933]],
+            [[30956013776178474254754591, 25523816299096519413465543, 26462400526763939921188716], [28523616512587018814801576, 1702251366291219284056379, 38628911970329781282316836], [18093833114926870429998359, 32849934850992689804137021, 18377273299815336112248993]],
+            [[31376311080996875073129754, 24422189873761465693004303, 29048316370138547288324327], [32782021330009652421795046, 7422008017671880549644124, 31974055930743113911202256], [34306622524660478848902891, 36775144982256906033074125, 26959231032635583536383132]],
+            [[30809063737075444412238441, 8705990718204873939953446, 22779482968280774252618670], [30860599320010196332688845, 4338604874501655464985018, 27919574996456010299923039], [17334448564538169054387347, 26913177741513707892280750, 1872723262461820132519403]],
+            [[1597281475659522158537575, 5216654852468755501368828, 23205169745042707333902611], [37104913562793647197746376, 16637879267246859238117316, 35439891358465859005771085], [14650559041475459007998351, 11708566388916134875105924, 7388929899831091314576791]],
+            [[25465638355917454441778814, 16811522571138593773159281, 34370943848471489234548805], [458670655771262530882949, 24474629253063828765750820, 10243578219480376146953566], [23811050431903412875933025, 22589722868246035391943168, 5680469420896140748051411]],
+            [[33358933803592062177219656, 10224532092382281466966992, 2135158333753232765609629], [5825426872273603087969610, 26352702393137228721052384, 28251453659175007619222942], [1385777906293300738938028, 17650559451249758037720074, 17367498392608789567154635]],
+            [[1323192452655176410433987, 23856327126523338378174726, 24045041946582758802440359], [12381793518857853809834288, 3353486052481930426645628, 34338019373359337666712205], [1700862404503104968216688, 21137178538480092391100804, 24484047717196604496388536]]
+        ];
+    } else if (w == 6) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[14548280610775380108758606, 30628284615068536765126711, 6683504311436104240815170], [1528223042274913890616124, 18545301009237605258655252, 13302856327841980972722854], [14924918865118893830284413, 14172632877295990819358328, 31909513358158553309537295]],
+            [[38491856808836793999490767, 17918175508440307397600547, 24879906069642624023971839], [995475723908004130134344, 3861271267463683899789694, 12464816871486243222245897], [1651061375724434530308833, 16293066061008458729500389, 27616824700852177417802082]],
+            [[33320072031661373685791881, 13487504642345766517499025, 11077997573803542774284361], [3973322310274443370819660, 29849800625822938886370223, 14227304807786889732247739], [11654930346966665780053824, 2473459327636829061249542, 28523661462179658010309573]],
+            [[2836414653746526088534040, 32013940483333506515762715, 24300913627340195579325695], [24046301672445968788147988, 24185313528525556443383158, 9708240446557133479383369], [33850051883466396507807057, 25998715223355249098694667, 17374446520950431623235715]],
+            [[11453918949902183646714290, 5494785480097035549699917, 10646368294553402795920373], [1411719530254663498824167, 9388899854698827531486959, 35997714881332540537301616], [25156209428063044922650535, 30038771732839224552689614, 15444612894592552897092336]],
+            [[9018833752246745729827014, 1041319768313874138198798, 14835888091812446233752890], [8814853203638379429065391, 16965323508559827258590016, 8095766958423395685972848], [34952742100271233692799080, 14669202710378706997731188, 29359202393978122086066012]],
+            [[9502007340105973573257613, 3921934361617504926665568, 21434683991000269436374859], [24165337014232714876626488, 16646877050084200780661982, 6387785545913757165675260], [16231071935876921613699384, 34519064147789998075467193, 21154361582738065747227148]],
+            [[17147518724061097410431884, 17500654128600697352206200, 20113841541080443619770068], [3686441359019829447955601, 17641254214133966698332667, 6764344629506731444793041], [7001720566372423658834173, 21997346703805461463702453, 8917419768789592868105783]],
+            [[32443945228331364350424759, 34975864529131643808802401, 19034051035437563728932955], [30108461189442935049779495, 2275231430781427852335106, 615396806766779743747145], [15482205688627275548802029, 38544856258887469218060501, 8928529039319537678941214]],
+            [[23294955673485205762675622, 8575569258574124283299882, 18019783762434960213805857], [7259108659109810807324452, 32123976662467941956872691, 24889969806867400610272862], [22821248023108849925151707, 2290195091189261723453030, 19107834013224963919321051]],
+            [[405483221100006152032165, 26235027612050761308053990, 12070996292174774020616969], [24821338612254111940147978, 17956716482815881612684475, 8675867335758912708791474], [4628891780941445847114486, 18723514758740499825176922, 9405578814100155033957697]],
+            [[4444247354540098107443820, 2180621211117936891977392, 33179344759525816238825595], [16939142701390964910577002, 3752625076871960011901109, 13916037641653099010673830], [10206883892256093382055958, 37867239357379387653478029, 22104441936325457469897216]],
+            [[3455280185350015901387731, 10164654755599863418851139, 10278721772524425522430505], [21215793915994356679421192, 37494084483277356739569629, 14251715133885655236224386], [37647053931218679785205324, 18901006950380463560211745, 26539442616333128458846101]],
+            [[25295109549797122911206824, 23572752703401600380409062, 33550318992662070036147985], [17471612424556329756670269, 10393051820632645156455530, 13619700052706994688868846], [26978652127440482467441192, 24534125247363204635599622, 9682593023141654552224743]],
+            [[34609424348428853253605037, 25366943761700254042835487, 37042202470409695075193338], [20473857261496587185309932, 7993161011842226387325576, 33461130825646963637411143], [20101117615001784259058643, 11340236775031551825543616, 13395095107541970448222788]]
+        ];
+    } else if (w == 7) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[14662613020205598917676088, 35458312699876479646046294, 33903527515754134096203409], [16811868686918533511760033, 5231338453073237768203236, 13516241350848549372242688], [21124588079226209177407649, 322354416304025146053624, 10904081422836051865490498]],
+            [[18854589621151867587260061, 31540712446273962391653902, 26414640135478705777071998], [15114313352855389730968957, 29930294688716305928984854, 7941935792887120148445535], [20701118010038392456656895, 16947678742473932764197818, 23942940757013808093481684]],
+            [[14790964296960572109531938, 16116648545288031633914234, 16471795547289268468046549], [20606958824161708011155136, 7386668654158344208214856, 34504064219649502162264650], [26188414869682838727264281, 30945769372357961334817827, 29787281285359941155793669]],
+            [[24783783517961376465214908, 20805662222999759990399045, 31544470100749141437170212], [7642294342966188497489137, 28299028849458445671991361, 36957051253722507764986442], [28705667945411564022244597, 14098621076701036968038835, 5401026846041944825028264]],
+            [[17588094906529535732213508, 25522425509086303380795160, 7634165747637125479864116], [23781012629227701489275831, 8571315517361276592234904, 37195789312560177169261788], [7949257140394306724441466, 26923105317967146910884485, 246708398037291585464920]],
+            [[10579919622391140110337277, 10725659928529325057521709, 14350412069072093470891701], [27134526890943456963076545, 23726009824975111984593442, 17071093272253672072792020], [29633726011052986098428328, 12418364157245297070741429, 19074094129808003192722273]],
+            [[22824012223382573255035935, 19755809458156842264757759, 29987212780739425916694933], [14027535971339289477736765, 38575876923394825093844135, 19474512233839084052403058], [38640480011156058057285348, 22307718773693247020076513, 24433807150917980744720227]],
+            [[8235964333073425443199127, 33584052758318771585122088, 30700257577285408751774660], [23188604202021005808612973, 33564334314183538775108363, 26673557516097692381531975], [37207612848588561612700834, 36830088255560887010775006, 886315525743089498612590]],
+            [[27267177457541756971976813, 38332836664726459700748706, 26377364998733547558709172], [33000248441827221089404366, 35919033773603003359364718, 2812668946060339369346218], [6193274681842488660898970, 10581311386471181086917443, 16693603386954750631494456]],
+            [[24920860671810082080237629, 24170448767571859970294150, 30311985586562566125180844], [16733615223581016565940558, 13571271099988420020905662, 21549203604680725223777934], [3357914438149025235639689, 22779064861253680542335678, 20337328243114486275371089]],
+            [[38247135121064544563727389, 13179842863928130680478445, 22099877705413913676713206], [25541297260942572923631745, 436030118694356574183744, 3297005267846744463493722], [18877465952948991382503711, 5266960758661205126168691, 22254380420133699737142010]],
+            [[5454944355551772717307703, 27762820817139171670279391, 20856995241728778844399669], [36395871571930291788388944, 27233794749797088043851472, 9530610050312449287368647], [17931032669298215070360966, 25496039710205553401505685, 5006248371076512447565112]],
+            [[2969547868146464940414535, 33194272350512303002988393, 18289903215739348412114131], [33196146425272114331006958, 17060363626578713500893227, 35217893409872410149053261], [35238515495761408450008091, 13618235895508689038463006, 24158828514521700758025143]],
+            [[2249131231253244518869017, 21992468938046654064905260, 20520503032571082783611916], [23274012025921883757179848, 24983122516528080220753835, 12881554052584693270916746], [18319533951191461579913460, 20611054986815156271235520, 5876672321978495221063740]],
+            [[9569215899452231867900338, 13503899579795977803899202, 8810525970119450680033511], [4030080336926055095728229, 16711164740428565934497772, 34055436611993626587156618], [15281648762102851033185763, 9527379098437615365888730, 3266573005501941854604871]]
+        ];
+    } else if (w == 8) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[14338716513661732244008031, 30725606010773291579168605, 9713070681826555418625615], [10553059999580871564051944, 33703116301025494156729995, 17642084733755720561761337], [37256528632710626031481426, 20578286143279776783650472, 37729947493125009685973650]],
+            [[280649620483535677160118, 714469131343619886781906, 12156296082251791522489476], [28881175295962830097675507, 5938873999526211197911526, 19021863891269308420314702], [6609760193120618773106736, 24592412477899254324136110, 10234219709464499372209131]],
+            [[12862755278225957262827464, 12545399014515501737670305, 3555722934988777147635411], [36383649724524375429296570, 21430682390845159343649556, 28263426800273628471276288], [1689563837929540529676683, 25141536810676652046366159, 17607888243842295124061934]],
+            [[31305845663254723968402682, 1269777530860898549178109, 9654250195568140754069440], [9887403804692640048643787, 36285138788745054739562033, 2248777576671414054824767], [32004156680658534366819837, 10622999284603168395577561, 17513361832562715457604610]],
+            [[33942537686830291224093340, 34400572949793085280964956, 6973566568555611809135174], [118830582326641100946401, 5597871407048896641699583, 30759286977482636448035394], [6954789661485249904874461, 11982726516389698609001737, 10570427268735719016826474]],
+            [[19678495458665102435088587, 6663132368294028272276778, 6030567155737988559097682], [6390565646227351679204780, 7009134377604499822211493, 19779211548824941228524505], [869062585530054007671948, 18046206649057399067606400, 24332090046448764601693348]],
+            [[35624439921975914199973451, 21993843522742564958096008, 10570283761396915025147785], [23920654408260024030725078, 23778946212000135091865063, 17670323584112101364986205], [35458595802069453968920694, 5476036671136519498430703, 28296204937465658773637411]],
+            [[9318170076461555008107135, 36486875147822970298662590, 15469539043305644064667747], [17633708378507173470622238, 23845384386631708052636185, 18060137108387297039505710], [8241219916401925272551948, 26189417872729593368959842, 20869916708047960038301196]],
+            [[25889049815343577335656478, 4275698953070313420416871, 1868957754275792581273285], [27767136843979350276684336, 38572077379550735131938310, 33040171611082998001845311], [32165924575823009454479198, 33963867967566665985949544, 32872877633688240493630462]],
+            [[7077944734627043776568065, 27953015421091927232292597, 36646700273301459487332399], [28467086583180582501745082, 27354479189349100308426674, 5534316574603816434446878], [25542556513682788691183469, 4279887282002563622830386, 29013187235760703746285537]],
+            [[16952172413876087143472645, 12708104777785099763802911, 17685420864363238068422559], [13020270955237867471625317, 2991399248206716638014144, 16308311729661318912604534], [772722247232250241689096, 11210002223815392273600425, 6308454726583443421242924]],
+            [[4082844251974056755126698, 11704024772708605594450716, 35147077294975539393225700], [23542545403798554754039881, 9024089597439048409820683, 8821525391065469187161800], [5991942190289112981240504, 21545888794730749259508042, 30756020202394688471107186]],
+            [[35798549282574289313656243, 26909951271175127074693126, 16261295352061045229238600], [7682069595131115787919568, 30246471682791595476997777, 9924628721232234131863329], [35789666059401255587673214, 24363839470239396407735846, 36256702661416553181505835]],
+            [[22958984925527159728209334, 19535805750931312283766909, 37869147725110354729273355], [2616682804591695725872485, 35663674869555447472130250, 8542454390407873494028798], [20007297538505281310194506, 32541389449491803262906651, 13340709867979886156568720]],
+            [[23339055336859805466573808, 20751460976373018214092394, 18059062013779543537957084], [28008445103336345708621202, 14607167459823240073745205, 6367660152745268214484198], [20517467504679735596573595, 11100069872471644598846814, 13548690986804321424386866]]
+        ];
+    } else if (w == 9) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[32854056496247073094842626, 13289893792086391431919430, 25294678780740060882578662], [12568396459513767564861621, 27463043506283130332487518, 12854869429631719747666863], [2356058083057308461509967, 23702644260019663824653911, 3521875644589211002858892]],
+            [[11555681155526903996376097, 8709688469789024467356745, 37362403949650833722888702], [32063187270921805446540700, 15312076453371120701912841, 15340733620066357399491652], [28361460336471413895333760, 29716973002843702324759627, 5672287359604879971718462]],
+            [[35567998023238282820204393, 2118425758150356207987824, 11193336953153728982812854], [26512528278785221954475330, 9026130272284593485020502, 6084410773980149091041327], [19791240394010111183726535, 19797819768752951456827079, 12907778354275828632350359]],
+            [[25425888600358940253838828, 4706488925479705808866038, 34024331757040225080057595], [38139839818845770236115706, 17854891753316781401018318, 34758926880626832786106398], [38017916640979120569855041, 8886922964746606104968085, 17228852313352875619058313]],
+            [[12407448964037631754452764, 8667658193301453824749051, 2374386042155929497759473], [6694984605416137329611275, 26934571172724836519998856, 23193019670554582832904750], [20992709170252651015012726, 750404716351160978248421, 37343203274916533063314821]],
+            [[11370239044957437969988784, 31830348112698094883774431, 34606703351934338374346484], [32096877194279396484606835, 10078797430953522762485457, 33519401713370259962320895], [17268616553823983084865082, 3922004325962607908901362, 5965668833610671381219954]],
+            [[29820412943344687093205429, 11170473241753601972288526, 19919457463345725340578504], [25710041340159267295642913, 8137459176035267264482170, 9312620668900602416251622], [15998588338833951073412784, 13786767732765569796684309, 35184159703000416545586755]],
+            [[34281167847683651635223286, 30441197148183977976768959, 9864309134745153231703027], [18701815188010821733663213, 1756093029098076016746129, 31467725727261746546165940], [2488604947104691535433541, 5656568007449407480893693, 25272895105854151887309093]],
+            [[20458078102454883491909753, 19173594415648187665987636, 13198544867735828954883134], [20197340425256376681560271, 29034641313756928085788415, 18903426791214553979394342], [34875954858011146319488003, 8927814913130013430398753, 23446424102791354906304075]],
+            [[6006599647000107129378763, 2636472110264433978215891, 22329352829276721010932273], [9272421750309237739643621, 27578892464799318303037149, 10709203986111078191977527], [22886463575443297010304660, 13116320556982108248431870, 26297550651163258017349238]],
+            [[11704842261179113241992022, 23896629472335114659948735, 33460102555408873243112983], [7511625381841955145962410, 35917121325628445407359929, 1208597177628900488003495], [353062288409648006650703, 37599507962961037649496938, 9123386150057575348000648]],
+            [[24689955072286527364831641, 19546113134103383193492226, 18443926435341349667815968], [16232011330783486680574031, 19587119766287420207205770, 5307513055184964978923345], [23653085364933347693426900, 18406186644507007748501846, 14078826888336431728037407]],
+            [[11969648633376410487810189, 12624947850780649229045379, 11995982563564086996896060], [22461209115488760796966690, 15601929355594866801096401, 127216771126862485336072], [23055301827995289223603749, 11235673148632884756991859, 29424330105233963226380883]],
+            [[23630107017805510444136626, 22364042140097585472959527, 3505656329129455468507559], [26706644098644673982668183, 17631862885879135353675221, 25343224820739290516975866], [5521309569847867637261828, 33439730516116789779679701, 23540676641906697431863749]],
+            [[552589739181303808147840, 6423777169998579770413839, 3817723401218294605013582], [16345783139639302403496666, 36908912546478134539358506, 14899858472159942407131468], [11784069316601115009419310, 6715890616194859327103400, 6982291150982927613495757]]
+        ];
+    } else if (w == 10) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[34522923474408334163989109, 12916935564893915653782025, 13867659426521918968944052], [34321824130227977356997695, 13143520129963643915186032, 23190151255131227133702001], [10327677206442118384918477, 31861692746099197809285081, 37929738317104439867762917]],
+            [[23720870753528319694284801, 36120645353193249630987947, 27037039391916311139164811], [20578519965912428196302996, 11721225008156005499195732, 24061423790299195994288519], [21129695714724243234830184, 6549348184061986394415318, 37719683302867197913628839]],
+            [[2723585428231139803661335, 16508715753176650465576100, 20112341765908546603085872], [23170763489251772927626387, 5076845949168856011624661, 16192748025732989211779963], [30198603399787427339213479, 3450277705096639582677806, 11854924753959991965324437]],
+            [[29981295039659354466735123, 30014454024759509918613907, 11661402950328594050499050], [35190461217034178030216275, 16539668859428034710812331, 26346272935199072103427702], [32258407586189816267354302, 1838530403217929543261981, 38563234832463674363906850]],
+            [[24946052575711516120834327, 35026380522424970252966874, 35893436090690798879729904], [16904427030089328200999779, 36136618023608735723826810, 14793279883842472996745363], [8971528586437441567657093, 1135498366665614723581657, 14226663721297396560971824]],
+            [[12899721029435583098789393, 24274062778564564440351315, 28294460770626596269749858], [24494457257227476099599296, 25339679775561946535634830, 17128141262424647896052841], [33271654877242094915793211, 652469332422562724197364, 10540089617529000107387696]],
+            [[32958346689890655167909081, 14967860264760730885225829, 32387274852928637299317449], [31400957916207822195646625, 24937040629595622488893074, 4809174413112195128647468], [16528550085418731293020475, 19320008885106717154349427, 23026550380385491486343695]],
+            [[28088245218771910597446789, 34307758663834971165014475, 4044379310533953828532665], [33758190316227785702065408, 13289165089070518661096317, 19771465198814538538205829], [5190477304962407563605680, 37254061971594918329477831, 7586679899776588406585739]],
+            [[19557294455028635543985853, 2534685119300816309768186, 30203844490771539697469868], [34498180352741228736745847, 1172551983306855994009146, 31836020065285412041375179], [19377815193725423888316985, 9657747038877467985652426, 1307998281436006848735206]],
+            [[27687579631683422150050033, 35561099542685714311335447, 26224710445143128318176388], [10045680797488584313916702, 30795391713997293633325894, 38627691232603523261519372], [36059997413603419028579430, 6566565998702174354884435, 17942679196908337231068582]],
+            [[22919768661202511539607022, 8784451997782320548862957, 2935370168687015337181976], [6917724570864193924148512, 33972234568546216829237279, 27423651890465758083175054], [34618153584163434402086231, 34955391698931148780359212, 15378691213856037328424486]],
+            [[13486503358118519700587451, 24780293460068141973784470, 34995496828824999704835864], [22474222567452022292645153, 34352336747452630000337707, 38107781479313536324755545], [37907817552558220864936056, 27973856623036655168835219, 31386868677446512472216412]],
+            [[8364516667805436584569515, 3148081098795260849997303, 19906612878684892546343312], [805884535366080427363021, 36708088863278823973131761, 4786962891831168675516031], [27147690559000228920454194, 9590776522981446475912918, 21519489292364028851512907]],
+            [[37737534995747068192440828, 26523008465093182102897445, 34052891355720131039778817], [3428520027842221984249631, 22087499513590906031146389, 373205677899983722869572], [20462603463186023886677732, 6622458667984197324717388, 25634522901771362363603231]],
+            [[5621262792761203154143258, 4402381818099365457654668, 12808500029025762692476437], [111023258787352388451181, 13261095158242907547520393, 7510282294432224887502712], [36954669476986012996252148, 34835305089307093713748169, 33645693028589027397699491]]
+        ];
+    } else if (w == 11) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[38303609528697426315004293, 27244815160753606093363837, 13225347131378217301533579], [21101858443606062786451988, 24536340563445767125434077, 24668413342856010932828346], [12620784437371765667450025, 29373922069313850981363140, 29679457370254820569183068]],
+            [[13153751472232701060172310, 1714412297808231720213321, 28825628020062951965840604], [6437781215996729827660403, 13587657298558008984833032, 38572308554375956953749349], [16273247037065915798398725, 8800063390832431635058392, 38267592953787726277918699]],
+            [[11539436080430035281216931, 5872071151106194024105159, 19975757381373748893199301], [22762395591655774774706397, 27857629718999170533853218, 23187012412535984502108439], [7807162296858879165228673, 23366862279782921018602585, 36474458308595849320412659]],
+            [[660808784262582007544508, 35652945624983348685386049, 3938281515981436636153123], [10190409322817595480813964, 17037671396489327618745991, 31447440473957687810613963], [7929480064311415505855467, 34775444283952908558557229, 9990815732451583903865608]],
+            [[38308458064078656548314118, 32498324361087676477437853, 26268817006695068858257584], [4858580362369858164124710, 12138302394785469896770231, 24690283418971138970397756], [20592487788287598645170457, 23181245999253165529878264, 7443773445355027244744506]],
+            [[36608638169617899448941097, 24287923785750720120538312, 14653594114665252951323139], [1241244215246353667350316, 1003265745505480960500821, 1485976983320534881468119], [19422708589440997838730727, 14329775557441088525585122, 20809546462965017817368476]],
+            [[34673127583521275926556341, 20308534566448785178454536, 35831974318790545882648621], [20734169258431331050253004, 37220699329508551323455249, 34571799213236959528836376], [13124118450641140302411402, 28927559378767909379177351, 24550787913453422032337929]],
+            [[10454678860843397623158942, 33918613063402233045877403, 15960110952017671956789199], [8267357862884849417932011, 38377896213300908115643850, 29573485346984125225583802], [13998397544505670073047371, 36965398330097058276098335, 31985023689687223538615742]],
+            [[38053258826645075151562462, 200365090837934461483121, 355295387050828896206115], [27003133624712887226638247, 22278398809811071840926617, 6336988184365864000064956], [23799691219663883552116155, 28662870593231377362668095, 9128917962567655146437302]],
+            [[13554040485462205351777952, 16525488162400791413329032, 6202018342133041112113067], [5635964041132664171294451, 4185700954788613786344339, 7300716955863771476923270], [965567161000312262402973, 20320552624983083081708298, 25883992711177878643262057]],
+            [[24716158734374911408014637, 10751619321994753349126713, 31731885029747372102768674], [36153563819283388379455791, 5505468247573583387404363, 8986578049208698906832880], [6990638843413210262994616, 32577907708668828882282148, 36174773709678714429685381]],
+            [[27302749415625700599800557, 25087684001782829711243259, 32394633263113551918733049], [17555030612278933868075632, 11120156127120668291698862, 15754835181035251814202890], [12761561988693291418006074, 20566980218246743300338218, 3136978928669712247283782]],
+            [[33106721101870091570446181, 3700698528404936918762530, 27699933323406500877048842], [34531402438149738993575733, 19087316877066627304965022, 2755411123102653307809618], [19801730319910430207416545, 29943707950681209303120803, 36294440253640986230241039]],
+            [[27380137264092958221479314, 28917105548352532845976157, 14920196034683414647259797], [10552744422484410420657922, 21002422667666652031378978, 7799679734773450401619959], [5508110108932463444987071, 18656963215484977156676813, 31299501575539415763577796]],
+            [[38523083695319863870872426, 34425017221049045002968431, 27236540045285322083161758], [23187341605654642178043327, 17124709876379769025891530, 32126725183234819156032316], [35583009436465242406855978, 21037059320267007920787128, 7276788990564970044223350]]
+        ];
+    } else if (w == 12) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[22883975637016520685261873, 33234494744616970274894083, 38135536339811135872970352], [26633383722077967970864891, 10227410361259387908957489, 10727435349349607403164808], [14493237970937550813115440, 29827041146992821696673016, 34359526246280884926631043]],
+            [[1520129728061664815986205, 38597372018523942480205181, 624841549691978158166231], [30143177288182570241708246, 32629602659059602746833369, 135914393868577830002991], [17836855817261639357962368, 4964937757965504049386230, 23061008948413687304926904]],
+            [[283712723020606110244809, 11332488619959742832128650, 7631185901568831901857692], [31380626731087479067056496, 26765128913528257674034565, 17151141627240007679586797], [20883118537105235113445231, 14591100208562093832720582, 32168435911319761724907581]],
+            [[24105862325407468306847211, 11770416413673465214257092, 35653170952841873434462020], [8460395008044617091523526, 24296252370536190112204692, 5874451529609241874934346], [29222169333928921970097617, 6262408675676366447635711, 644028024163747280626166]],
+            [[34266382045316354075864340, 28034347716856547639559763, 32044931550271531492001001], [35835080651201132383730303, 22468809017440042489280035, 5902682591182809773682431], [17246445985608390443240184, 2747720632615073284746232, 14943570945380810351664850]],
+            [[26450448030171938979990696, 21444934499831229272187155, 10313447920634529509004671], [20121738847768378941786065, 5565879446115855305715899, 32736968102741303658621054], [12104257930699682797151041, 12552206339218575796424144, 22018797374435304887236663]],
+            [[29829426168206332457753799, 29347459003130331498436977, 31259515796445207376718833], [1822945653279138968803219, 5410117864573634756943738, 26832744503019191185669486], [27352445665764295864782936, 33747390087398235914083290, 8556282192694140772757689]],
+            [[7724261529450559345500347, 33970326703899572187890342, 36677181862565623596124272], [2188257945138997772432516, 17282697326709698198349342, 33932097924683537307060062], [3460500494373489296550835, 27998844279640971858221656, 28978075663553050343634919]],
+            [[561821936399934038102826, 684973144101908891339601, 33452570552494500628688988], [19946311144864357444300189, 35377108071659396263931560, 8884826027778900928025128], [10172730711365235590896047, 37870872028972555024382025, 17070212744208197252480184]],
+            [[32067472617315072900226880, 16671616277680246948849238, 19216423692913451528692514], [15660099099374632822894464, 19766697992404619676606786, 10878512571356505153837101], [4845267710898572589248719, 25739985566852161318751477, 38498745389295125195680947]],
+            [[13807663120543919905705354, 8541689393642328344098773, 9403527728438342517274308], [19907166990125963860891608, 26426500126103531837337869, 14034842752538861674055617], [30345190895448991223131580, 18631617200912911911961223, 21311473286977837959649703]],
+            [[34897273124939608459643012, 9672059667449509983845973, 35022364944784310964152746], [21419278777772066166108052, 1111258048145072342092441, 10920807562572222521144357], [2848340588265498069205073, 7602684855455409671137732, 545394890609644482374658]],
+            [[29923508246800718146928639, 22212765194508579328524964, 9841935971498198455753264], [21903895563855285449369068, 20554619623867568416361962, 8658179505596363758162452], [2144350511783086876782720, 8139241835882582204103216, 32842463616886840420644129]],
+            [[5799707135647134484948255, 6999052092254164074380243, 28386656148078287298365721], [3623689549337085841424638, 7751399169929168555615611, 20306773085328106491791544], [27179592826814610272545883, 11392899048415658522915690, 17206361582272348962605250]],
+            [[210203503775542815108290, 33881616854339839685215173, 23910036965840280541251496], [7671028059317389471345765, 20827934041812749463843805, 13242578904459977846426819], [35967392369143061066579511, 17152796537749245904856377, 27032644151437263516944799]]
+        ];
+    } else if (w == 13) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[24677388011364379385101377, 27674652331193561836127963, 34463927089065504343305612], [18685485392275243525034889, 20609229625931916961659953, 34716978004312391768281757], [16236006611763710713832208, 139014269776058271484931, 1082392509247817513217757]],
+            [[36965602042964031290928628, 19873411477820569279721228, 17903096449751791408684112], [33484363045421567029101988, 26459926611347076185060551, 36826884597288338320972564], [31017384867266462584528245, 24240400881048197005656302, 29275234820938718562812786]],
+            [[617656196691660655158617, 18581870919835455065503420, 27211110418407129336702428], [3579778974514395570128824, 6886002148469201385988261, 23690506651998258844683194], [26229163168627142993557382, 21339637529033590179433108, 2769593732054209137064820]],
+            [[22646096869019593955406547, 1894193463545568906803977, 9135798190299514555914257], [14313927114615568305906973, 18974808619501650746003965, 14572551338423634132431443], [8556703432351209060148636, 24907354973336752435415544, 25343377197110878769879006]],
+            [[11681701356031018141263830, 11230224449013318378355263, 492601740995752493921020], [27715782864442937022676400, 26581515381710612887546574, 23946585793837877616721528], [27085877008607599125488658, 36869207359201079093250301, 14567577585788449616906735]],
+            [[32886847648128256381328764, 14188697867636302609496276, 25378796856736148317250404], [7558896337040134519324113, 1110819574549425107548605, 11673638577076392679963651], [15919522553628482002053005, 36785301170587058552249333, 12519521906091456459710362]],
+            [[7426870798317856940028823, 11308497010752649193115213, 13125043386120248311842633], [11042384695476144311940510, 10600893236483484326102592, 10624397680487834181717232], [29785519330956230327695750, 7723781787268827396314643, 36332430994030736370798844]],
+            [[20161920581935461818784385, 16388979210924555294900293, 28209019313110924213307449], [24302050374706665394115452, 35337357452620240884298615, 5324466370478063095758982], [24823456352567629005921613, 7443342647773192005591176, 15284620279801493766257562]],
+            [[37429364312761755013203274, 36561785884766783947399757, 14100793533702177158087054], [24432295471540363058592888, 18030785647536260425519405, 36599243791088246417150256], [16085169391711137625578382, 21700245410087994038758672, 34788446714840281691424603]],
+            [[31421769502809139699407937, 12916607534689719951124266, 5812129227907875128207044], [20307559439032435103533202, 8985697577239956111012883, 15863609552331675948797196], [36143171771281567224118509, 15456938063305529381813452, 13316938900015365294332329]],
+            [[36221042342516796387326258, 11435637121332613669969963, 17591516129798160237573039], [2808484502418457420306283, 32487781044752897428334882, 19233131282898830067953089], [21185107481863841222006409, 8480809932402149331913709, 17813213774033972801175363]],
+            [[18653201054532152218745924, 8234198321913284411636240, 28948034739051748330282332], [16136553330031162114930836, 10210278166618231055773612, 27214470835894114574604172], [25682874382926966289247230, 2531431983385772409348975, 23333909361888210889886908]],
+            [[26012970597315198571835591, 25929007555999662689112969, 20969440498892452212299566], [19853105315238860304817173, 1483402722145620859419230, 10574284169174976963397558], [21110029354725496788188544, 16255382759022558891215018, 32334651186275066634442668]],
+            [[27476367611801975437878583, 9542640103680135260763436, 3514772760249104134923316], [21084850958083651831439087, 24087988007798967077924017, 11528004729891406971482589], [31220297406933545682656556, 2939924798653018806776487, 6615563409563218975502037]],
+            [[8671887038299624432895097, 2496833975855053656646063, 21951068158749295059914358], [25953218609511520121855157, 16097373223076868891080632, 22394249515763652078874556], [2778471409148023013495693, 7066569849889454850274911, 17027777155555200587713236]]
+        ];
+    } else if (w == 14) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[21521287000799031149762074, 36956548887368992260241515, 21621153306414658917548083], [36205925572068390702199304, 35479347183168236957696835, 13077119449028808941175551], [32586230627968057024100238, 36769571892816994387129550, 29247012666107407109172014]],
+            [[23371472158029939415550961, 26023366135965335986224719, 5058374812031133744861957], [5499997062068266714688785, 3276479082181773084121765, 34104277192226810049064720], [28418623486989109297324123, 37644426576955199425324904, 30059466731476787023204676]],
+            [[7505790318748438266710099, 19257576313215864827315447, 4095185336706073362955900], [6931700578634145285123255, 34910039465481149220582923, 11904445297213457231520662], [24634907473196823258339753, 21187522273996281098793917, 34079979400868408212056600]],
+            [[7638674898997753922186254, 18867016593787271867877942, 13921150800306948593274096], [27207814318778315921260051, 27807289066000386295879355, 15329249947338504966570592], [29650862486484961693584740, 8221771973280025980123203, 19788050005925031527196661]],
+            [[23708355899093960623975722, 1951669470426358219151934, 33853781255972221745647352], [36073509958019523178908980, 1197684578518532516852396, 15105104389578272260350661], [23348222641580577975050996, 37520857628505418641456321, 11101264754808950421385325]],
+            [[32987070850160403599484867, 31562941584538168981504560, 4814740987880341443424080], [31921209929401626357423211, 34818558084079499472148519, 3963444265155078582849911], [2897054949279373644144351, 14342949236991158673279689, 6853148001023688386281734]],
+            [[21932338430874003072294205, 4574600907106619961226529, 5513431876928051535131560], [20545739803726892639958701, 23069241588816892172528380, 6742152572821116803201171], [20651264341577897660638874, 27341563957956458351907284, 36525216305054224966868733]],
+            [[19468220705226101390820970, 36117656453034163654148999, 13645125390943943452591723], [11975453503438033576016532, 13006578735387716655032535, 1599280597133198035796028], [6411495622683045352864952, 11273238180635584118448951, 5825115846053749494299335]],
+            [[25843192919211594736707555, 22047473048858899922001837, 16306305770424885337588565], [26134600185156367645401428, 9662950535435740551870667, 15638370203270980502940218], [28772554368100317377529777, 33568270627147290689313934, 11625086663192887998732138]],
+            [[8271973425209082327895080, 12368210679121972891201771, 20755277511489320325454039], [2978358870441691364135285, 33373354758190151575590081, 2981394354282101928050408], [8575444232058202451135802, 27017565367434671090821501, 7235147753761118359936033]],
+            [[14512565809419418889430862, 1181256181760281178594454, 27463004199151767464453584], [13356311429606460094880810, 22360922636695104457068849, 19075524980200990817025077], [5289995226986811874008309, 2239052921351480577069961, 23759217530361292920592265]],
+            [[29171892890816865913405480, 24717615426344494447323845, 16909715458892640056789026], [20332521942006179139438056, 222080856250048739002214, 4107441514662822631768797], [34399665126085483215123116, 29331581794550053227866274, 10834304293466090954473508]],
+            [[18725804677908011002588572, 1562429855726656532771288, 14348548606069105317837420], [36647064220626699936503595, 24727701161968715618891974, 24680387490087567949774051], [23922194015127579536995085, 36615218384210622018458785, 2660299564003902112853728]],
+            [[15988266263821755617437900, 38448135466488898267541588, 37879043366840987733452887], [29139153021954035475415165, 21108470970042121098365996, 11273925071602804737488451], [15988535447740094549176268, 11413059805798289938194237, 11671817950717043919831524]],
+            [[32637349792030955092774425, 15552612389610780253054409, 37665942391922843933720771], [6257122939285314252994960, 8146058305398985880692368, 25017837740942640829249657], [4359899069707257956438684, 15773847647327786534260173, 1797013497321935070696822]]
+        ];
+    } else if (w == 15) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[15739403857687049921999423, 14011446547094241853173930, 6048489425569076070715655], [28747144905489007681637436, 18631595225586228079182480, 20107960760708822241297016], [22741394836539171808259389, 12541899697397007376620133, 3275949283163328212506484]],
+            [[16936296429770047038942389, 10314618393201475946571400, 5346187569465067654572257], [12884819652562347795578527, 9447252187075219119634872, 24903013115481201708622793], [7552618171280096342356806, 18752428336402714021470535, 20519697999681642819825671]],
+            [[844745303481450948502807, 30184746947163996020889996, 35329445254470611099442709], [21140059388303149132596899, 18543297743578486238852939, 21417737578833482041832670], [35678815056890121869363352, 8959382427739273781686047, 13006903295088490710917635]],
+            [[4126233991431083348052886, 34288254582881581149889973, 31874531753531890650883466], [10829739557444419917422634, 11763336329141074158325749, 8405657291839801351739604], [38523005085098395329780130, 3893168876054347676317507, 32008730523749844046467295]],
+            [[16149502100579348534181552, 7407811636701414732714618, 18947238664296321252224158], [29991658416087473448289027, 22056871523506495845407696, 29491425572073289863877114], [23246620491591269849735045, 3227741189796350712868791, 18196244353061138623767971]],
+            [[4422795942980283250220736, 37871438336554995554155953, 16700147856551568151684840], [22137157997375869046218969, 36142987052503340555469302, 29121917732235371239617013], [28606375195046042203397842, 32796594799971333616939876, 14300174774375919098020147]],
+            [[21156482107393762948288955, 36996140439606074594706192, 15887983323123314962833996], [32651920724537608945422890, 16798154880282034972504612, 37226891309366855669166385], [3467283834017160067452127, 27347699049948373550274203, 15546560772699448320466]],
+            [[1208395278135948978506343, 26284290905899513986428039, 33295575631171988207049777], [9123253928926329441659051, 33889687347706759661647693, 35779568638261046815302321], [27729852912305156524448415, 18381707957634967735497092, 26763445326052396832514000]],
+            [[26590088119739410254038784, 7616361393954237310474711, 33080656183192580008082848], [32096341772490999325001818, 4234133393340211974726454, 25932032630971595080770256], [18979954712872003098251994, 16374919467286872755503148, 26678087928254708065666012]],
+            [[19707094965680464360275203, 5605615112672616691051639, 26414501087491858480678651], [30565852948269897542713862, 15083563674996805862868634, 19613984402404885008787456], [12144657895768852947264856, 23030152861296041521324249, 11044126157110506756161508]],
+            [[5800571022614110731801486, 20304585509510803589906123, 38297557249899997987042835], [6521789511124074640975642, 12444341938295480528278522, 23736051970456667046579385], [24910633281911525513352616, 35778382216991567068270498, 3634515457668913214669247]],
+            [[21724986609603174271551136, 27113497065716102666128631, 8747258764136421518507109], [24379508896695198916602803, 20495425390348971718893768, 12212250518396001264031873], [6063289179240605549707190, 4838005401871033280871324, 30507537759678006193671380]],
+            [[34316541085798177048289713, 38376858648896130289059146, 51614724571541930814308], [1368318256253276163909291, 7893584005311815824033615, 11414094138463770613047158], [25577933957683463280827568, 33181227343434388626181638, 32086219457192422874616065]],
+            [[16583902801563261469680737, 7629105113495288334932614, 36497785155680640073009903], [3378828683150329203627917, 35905637432074933197799803, 9530992326239688882954046], [25568550466243972310883057, 32471285029120449875388287, 8196326089576223821287824]],
+            [[6319748782995721648284060, 16368382020425634335122276, 7508246086396997367322792], [28404419177695980891144638, 20568164792435307037775780, 33563663937562813285284614], [10658565884684516974897021, 26319374992184508803435992, 24620321318919163774433514]]
+        ];
+    } else if (w == 16) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[26544925904470395265134846, 20455148867028143484194603, 9977169305337792615827486], [12547065827564313308689685, 36148938372801037962329213, 30610936613132768490843598], [21369475504855028909008545, 10565481988781099179524242, 3276316327976953361368765]],
+            [[17056115249586858565182551, 19794952824480088761674630, 22648248208837648258087966], [26595630073863988077490053, 23055046661535977939617599, 23998325479846223619681265], [29355332479374880484431646, 25909349206999221411548236, 3566251144939483040957083]],
+            [[24772595541192436870130120, 1878816695927099557522216, 19386424303608300158330040], [10424588877613305631216278, 26797133282542067287594999, 30970448043898906254176765], [15961342008884580592411586, 6024650515349870454391481, 13679377056942459895143667]],
+            [[37837566565302463098770075, 29279892741492493638625673, 31256338559683152569886799], [36297513149728266680235411, 35605044684516964956657816, 19961386190501664021474721], [32770871519271075979144007, 6714643210305261620650376, 35168865053374541115359171]],
+            [[9206285691278942018324669, 29576034478058131548029234, 8125112478880854065890417], [33490144585770227503156842, 17067880747515549359094987, 2079445638164507876716674], [21584468043103291128846666, 12461545651804395132006005, 26859457245681364844376325]],
+            [[6414335867029704220788060, 28739754465028495879056994, 14492490364299369508190432], [14929986309863998897703336, 9971450391567551954712489, 2637927841103948085518372], [37817033031101827137914234, 21758547092498515745095335, 5447488187017739342876510]],
+            [[14483056115562907414102082, 34665260184882272679880551, 16267420827653445772914588], [19031257027169290235809802, 20289930333635095836716019, 2194996015957803875714973], [34235459862426617647831028, 19242826294678330744448386, 13760085271843881843297504]],
+            [[12702447963504199601697801, 28068218915374544948524965, 14043387880604466252883199], [26454506400229642553129345, 17670340281570435617307264, 1590706732733894310111389], [17258239802607244166308801, 6975319637287149558115566, 22691280909098078148036619]],
+            [[23546174516352942130510623, 3964444922176048791715212, 22851267218101742632797139], [19772583114554457179612774, 252311141342731009090726, 1835350615620104991507452], [8842283001574552553862042, 38307157746991911541616245, 432964343752499274889057]],
+            [[21456119034441979334634280, 7534295300745230953218909, 894265521464987858626217], [4946187694848516774851370, 27932251363073121498504107, 16653129601217393503472717], [28476696301579239902172440, 33753739518997820001334375, 20099196340005283235734139]],
+            [[27190505137328927629021694, 10402389014771939842073434, 24698839767566028393607529], [1525141432060750322638591, 35756827433040119503485801, 519775819010444389103576], [2625437657758042328060551, 22091284988829822308404558, 27287209230790199303600125]],
+            [[2646966912745964625269696, 18946217532860959085150390, 35595630945483859368721149], [12354040797309905446934656, 25638664069667875566997226, 25324721216235162477623802], [13758126078909614580976183, 20909988709224795986798534, 1035738547207486111378507]],
+            [[16438266875155235543463864, 20689563749342818120004041, 9730070066211557408678431], [16553941924310744141984085, 21149536087934680292139712, 15968763443065964693708754], [7432455398427971647573982, 1257229678193580104535376, 37869242733918532547208409]],
+            [[9201409184724043364710608, 14609287740104922442359710, 14811421756227765550443658], [12723309468377685043313922, 7562816521696074230920384, 13239477554723528287165907], [24108525730999881465848277, 10943813095389252786568147, 24498380669086941568138737]],
+            [[31564264530098125184440671, 20252376518628402997115320, 20819884969651945209585480], [27975999314174062277102876, 31099189532360964863990168, 8054414474379036262489104], [18782103188603207640972485, 36988207037643802775435706, 5342433493919260558997011]]
+        ];
+    } else if (w == 17) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[2507323515928857473723628, 38530060891475383733741058, 22037113922959992447076542], [10188803832717474227646814, 3788391317297578982568795, 13377708589542840453562656], [7160786676278515354600255, 10090239150252534543402577, 37414459123285260657573329]],
+            [[30798675008573411758126681, 32446889787329555674048556, 26358621996063530587283237], [6315318704880873085478082, 24870717760142718755461967, 8288666869308456064374494], [12546515055118996151174808, 11609437424234538541643637, 30216571104363400449303836]],
+            [[22400726518157219800269160, 38126371518551633306846406, 15745254613562785970662329], [16041752235149834811301559, 31592896147162823326983686, 2124159170459036970109441], [36239234033594546191151316, 34269284102299193794771418, 14663936583368925044119355]],
+            [[7485944835187689520392621, 30853500765604933307213587, 18023282040215149300060768], [26874260911772577338434045, 6594014654310004931724533, 35012120765345728760396277], [21674094999039314488875702, 19856815870817690344521181, 31455355487046693611645524]],
+            [[33845894088849541992359873, 38431222819106819645096983, 7075175924728754859332221], [25579397991755095041474089, 33530428570336433449698039, 37878630446424764410450747], [3900560643042658024151623, 21141534913614781489540535, 28139306616620849443097250]],
+            [[19835008391166713930802122, 22785612427126804075811086, 9967853175275765583584085], [4533417836583608425097077, 17051951197751755758698259, 38236697253080156237648361], [14053179388522717932798240, 12752589479633870843900464, 35879814376212174693133500]],
+            [[12190724015204791023208186, 1281303200530151931166394, 602213723291366610410697], [25866416697269736243642547, 20751352132295014608638291, 29190860158594293174850070], [2987417830840581716015625, 22865118347698011043651368, 16284985515404337850956531]],
+            [[18265797356575094937456083, 24188395414028818725318035, 17720464048512926882495066], [23845093005646255644003444, 9268033209124019059028346, 27100113917375730367123129], [23532593829838369587112997, 31129642679191133605339904, 7373862543032232248266192]],
+            [[11882012541164107883733249, 6847816089050411785824894, 38388010101427171415283378], [29066898254688290486384611, 15077867119299092700061746, 35085385457478552946227563], [21446613672682482747488336, 1886276304853642239367340, 20749991044972338206267989]],
+            [[28901720506193958993654910, 25622792367537186802921977, 29479945664511694054063165], [36171656765463750971060793, 35589110088214087517306744, 171364683164868117587972], [21212634109834296645571275, 18375401117482781157600108, 18467310521077668816729104]],
+            [[11088125972693748818401605, 11080699969038086284036316, 21431639751101779223360619], [11984625719926130067150051, 35291938593119922496764006, 11639540225045420393327003], [26899908888632778086910077, 9693766342785255346093895, 15118062091115058115948586]],
+            [[33014745296599446770196540, 23442928978781461098707915, 30169003292101418497128289], [11902549710140684000933445, 12109384596390108963945578, 26847777590789255476216623], [10768475299176696593604117, 17784853514030639469081989, 10235635797864747466371118]],
+            [[13691551933411662425012183, 6557790919761384428069929, 12871933350078298238715395], [15781038419332811009827556, 14466894404859837261573882, 15519035608577249764753643], [29627094890406525059594163, 17750759115336136224017789, 16669690439392049141702394]],
+            [[18251288029033822247524547, 17746828446078706765713585, 29949413906685699360073380], [17884187771161624182797388, 5308039593115060649564469, 22564168186444760150915476], [13603591892676565186375987, 26062741709110230062132715, 34028375920196295832697100]],
+            [[3863509529746265677225950, 10297125890253581623731345, 10386679081194884509196858], [32987414005539446213497697, 9401913762640386645125671, 19844232665940629495719109], [36182083035626346819497183, 12437747869906630105058472, 31958005770087886160679877]]
+        ];
+    } else if (w == 18) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[14731400104944058384654202, 19208409377905111741837224, 26652171293658127457565723], [7508481317677730322619595, 38249998353102033323856678, 6955474429080292305785323], [10331445341206401231506660, 14934240779307361324451106, 3676492799672697997789116]],
+            [[9370832016223955457082439, 23686755492467025411962588, 37577695499181043389585088], [34516420945553773427517765, 20054320618767265281863152, 27326689340625026364313332], [31606518776372258368013885, 23918304529910012526745114, 1214412753971908776117006]],
+            [[7701747108561910889923542, 4057481161225870672026329, 21223919800982798410830529], [19765674942971061695770577, 37183524812459005437363994, 17324541422311822493551887], [435233740642510610209436, 28460054942977957429110408, 35766734104206270076286255]],
+            [[11652425873095883287964183, 29691308736273624391816677, 20442556629563920870258071], [36876391707687663611163890, 5117429569106802638998686, 837135064467870516597834], [25743158293216091777906245, 27490325393066596935399349, 5251945004088318204071493]],
+            [[23392532066121034172649386, 36655781866096362994164768, 16053769522065612264340440], [34102043407348730062130637, 38452598598142443087280938, 14322335511612377666646150], [13946952885135369393568702, 15715098676547478135494213, 38411936621930764956366776]],
+            [[16647586610054370674436332, 17653357138538816561391791, 31380921014356128989074758], [5708603876049527798592802, 12599166879389076834199204, 20755687345433388426515977], [3720654992350452819580791, 17181359270345427329131660, 25818489641878101903456040]],
+            [[4808330034921657942751618, 36684442375735315032305837, 35186852691597666710440060], [4778398607718748461459489, 3226940404265529492183173, 2864992515404100666272948], [33988108394526160680463780, 376579282072490566397150, 26442986296239123249269518]],
+            [[21335466212971249691736842, 24269927505225432683282876, 29309952853593810757777487], [18294772085532138933180203, 14195549412534177023053872, 33947933832785273664344726], [15951429241054916397067974, 14987129430982404386452221, 10041586821145652847297253]],
+            [[24981814745217559290919057, 38168024815195481862199806, 7256528562920588574554505], [20794327762706553041215855, 20387262141881428762063264, 2446159469521641229434228], [17296311008266861153683439, 3982721566739510455677892, 35492108760115694957135386]],
+            [[21482280210158309131851113, 37525150484786483617080305, 26066107561305729845483727], [35307214645960828079079123, 23480428111766397949406149, 3278710034429757924787982], [33781740050652364796176843, 11061836284354163961160942, 14198724719126544976535942]],
+            [[38504707494625627532061471, 21290253948306745364332749, 17224222268239151753392840], [8115657981188659276783430, 24858850757135861404944768, 35848000960306043891647232], [33964144865265894361487200, 15642005896259971687081236, 5038733404231225279915065]],
+            [[37211620722154995736379037, 23737582995995000408355683, 16877823035298084976773848], [31032874805453176214565980, 24091087547732816670539339, 7056175856494452042492532], [21584135048328555943166984, 12594892878471477967789054, 33501028082896418582714176]],
+            [[38658436194889938829260520, 6063246980191643488930313, 18268235268142568530219326], [9268585556142019805750904, 38160106345838645027799358, 23822375512503314334320530], [23117051857715747820960700, 6067185521302109963522843, 6814163236893108618780339]],
+            [[4093330785922810981760767, 703053067705907383536118, 915360906576447090511407], [4831808896794970669360005, 6443108604966641355703283, 23038520507724530661988430], [34987229336832503718763617, 25303184983492872045486133, 23030397395311264485230269]],
+            [[17815014388070080613976918, 10815681047598591397867894, 32847906185631032058686314], [21535657759180097912121384, 9717783996998260863373746, 21536756557883987284273903], [32969675422434300734924882, 17363940151109083521073364, 1730917437749840600759452]]
+        ];
+    } else if (w == 19) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[24368132882559777787859695, 9683192433136878362750159, 19411551939129349625321774], [9389568465660170322280090, 23257936938122953621650257, 1813064999457703860394396], [7766939773569211551408441, 28398433078119801809741983, 36920874742748469437786671]],
+            [[1577843063259169154787464, 3329693603117941556246162, 1523182209590257043222505], [7854120420333940621153026, 16047797450833685111413382, 17472756946343746183376087], [6250979240108451590888311, 1706798729361846263934422, 13103971726061197934437968]],
+            [[22329243250213106690100975, 14801183160136152396385380, 4673176576033584971839961], [28896984168708210219993332, 7938269671658910197571540, 8198469558441480510623809], [29963624439506752676500284, 35128234142860085289020161, 405929187757276446415264]],
+            [[28010143982467782651724093, 13676805645630198210243921, 30573652894325397237930606], [20880304639516645556925732, 31471813610236454287706863, 24957344610723256127004471], [27784396270910390506680870, 13764713770959563693911052, 19536789576430921153960030]],
+            [[2446644315943580064606826, 7670458234947540669598307, 16307401999444086665773183], [7859392598971910986256533, 14876657445916197253335013, 17465923023305820173094287], [13149145226982295133992796, 27943840027162081228029978, 1618645891836952067944981]],
+            [[3295942339373743612321042, 30541052837303793334791987, 16390743853094260389180136], [1392458030081501844159906, 23798110431397128605576987, 30461867348451160569953061], [7019421444898107326501165, 23006536862909211917054181, 33968847579132495303624890]],
+            [[38082228120212531408471617, 10096116432442774231857779, 35486754156221537879673289], [16148439050152085908889897, 8291098951384836796151284, 629821968010268437104918], [300833989794341196530571, 4512052678483889490187255, 8033109288259875474794642]],
+            [[12272818695548463139230578, 25878156975033882075053262, 2172478162734073220979840], [15842280217656157945422550, 1490721366968778040786002, 11713903402803363676636717], [35471989294578993352942325, 10933037160387762768103750, 22311344684039910299137275]],
+            [[33323837598762829433988560, 37366477840606620198092776, 34122630922440833266236380], [36984005783777492167379972, 10927849556792949734671650, 11393180426846009664717887], [4119461529257891407971905, 9151313174821588167136987, 6510802335330580888289488]],
+            [[13959625086246831794163376, 26044379565528735556685254, 19166544778611410871701046], [12354723993069771749362079, 13835555332422480743452879, 7472518964144188502770187], [26815391690158668671884947, 18101005584875452888654477, 28637971223097071439426648]],
+            [[29311331742908979991185487, 19714903263505962461546821, 1627383582349428628012817], [15040952592130511795817766, 19955977583489170537381131, 8288954829835538913689395], [36706118303902428695549019, 9236437712136708506891850, 5332850524746119923373745]],
+            [[33520063929045135188097821, 17975051404905226093569464, 32865978373364842162677794], [32496097892074370142091612, 11059524235545477585451726, 10636099280380917302149492], [27961196121110888774797450, 24833152957110596623724778, 7003530328541827991667568]],
+            [[29671319408621407892963061, 23872283711096465760443369, 20013723964449408112296105], [7997814285922298640659557, 15039315927738579187873664, 2792648706444405633943309], [29348593984870049352437017, 19078293871667308164148460, 7376487622240343251811131]],
+            [[34619548421474176227113282, 16040306285106044787018951, 20512606205399026431409315], [4195889046276652593791843, 21200931574257729544037583, 36619301135880649169304229], [4125421025918879103330927, 1044802702549351980849343, 772774918721469379436520]],
+            [[12511262956887604264402672, 6180822714910802495092609, 4444246440281205976773039], [29843859078844427135931885, 9621944948463145138372072, 3497395444349629295766719], [22985434872933193781352765, 844835412396197991194981, 1190087157312270349914763]]
+        ];
+    } else if (w == 20) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[10581431276419116694189043, 9809128622831951689047402, 27394363183882555510482157], [16535110838569384176735745, 23021790030858868025760484, 8386565556403015297315754], [9067947078230465522001249, 25155059603237087044871062, 22374430845345306011844940]],
+            [[17866802571465492309866905, 18079928532156020900461027, 19054362405628404021782907], [9596275565572065290855579, 11585113532519033117012770, 24385686830361775566120099], [1254718587221539858832357, 14546612292222483675810059, 7595498010366283878367361]],
+            [[27445167957105393066864892, 17688621114252479088777851, 30328067145842008699031100], [21466048874624382837965195, 35517709255251680699054853, 37179919617021809911637634], [16616012868174469801460867, 7369662106030734272206975, 29188784880536019737122817]],
+            [[8732598713127465971118189, 27859831229424681066874271, 26541959509069075399634556], [19004360026482152260764491, 25829894877328037215843264, 33303902955330792625392861], [10330968628776878849175665, 24280361661636741572553885, 16394403677096560807505207]],
+            [[5784005907057102507876292, 64570997344187402856519, 22042362539259413027163098], [34678111364685313671409350, 4164675241304909350612437, 10615398432692445039047375], [666432166486247448703942, 368538106243079397804017, 2299767599869424542016348]],
+            [[11308608384617270005992948, 11373112582958888660310509, 1072530423113891094155068], [26867073120892414082761285, 3770962012390712185439167, 9356165924503228358450027], [20314486516892042408655852, 31001164667448806322869430, 26406187473623237084884151]],
+            [[10416319859751988651110351, 12970417195708681552270538, 20500858511006656899411631], [23847219589995258561484801, 30456243751851858567707945, 9683353097472636066080654], [7644336620702182953007813, 17882191613347182567282731, 1528618602080303826569953]],
+            [[19624306051774003625790620, 26971429815387491123001339, 22684951585036666843117150], [32284893664425601139108074, 16517203491838963337916585, 29412967366280792895597662], [25304694366395590278929814, 34117045113872393356902741, 9651507032672453852949678]],
+            [[36951240370594218141446270, 19202392362415288118789346, 38453328878545790408491689], [2942146465646830474755929, 2665267829451557938020893, 16884994992281321215398333], [29194018110015089912441470, 19682119442496611407336333, 19647029935756623274760012]],
+            [[36750178821372139357689274, 2133994460627070426602752, 6316341214531774265687846], [15748389214713769084279516, 17417693624419568021524469, 22146026872753775529436126], [11966797830643139156342899, 19424413786210040084669239, 2043893645106989507871243]],
+            [[29192021235126609136654076, 835774072760642206394533, 35883679282362036772747773], [31779534435545314406393497, 33616332985546673218568787, 29620539188197438411834248], [17694405029673026256914164, 34323728974330362619078364, 6084808644898929957876676]],
+            [[35432255253398980735465475, 28448031560402463076316196, 31679195897083484724809240], [9359660121307068472724822, 18461753324599061951239111, 3839349764785691077855734], [21032291391918173533302368, 2425923496974633052105710, 7888735827246708174322475]],
+            [[16770679229147784209739829, 36670603867978326914410355, 12984324732373756054547785], [12082566002437507609816697, 33112512058410167499605524, 22217770035130555294652236], [22302545683861990864437525, 29909429517306898927096177, 28182206325700881803547633]],
+            [[25362505762276863372269888, 20241827917200367731755470, 31756698309063737757214444], [29392575083505268205853445, 27453368786851325227126105, 24792053096493133100365296], [21345754311124023266286562, 2748136788162030498725199, 22438888020953168317259645]],
+            [[12734007220359518531694197, 34898982400836567320623916, 33508691064435540443441888], [17423738017679281413918556, 19966344365757766641955822, 19300374229116419598678163], [31433314092573375964345774, 3425488669625492748002991, 13195103431208184995794078]]
+        ];
+    } else if (w == 21) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[13719520663012662533973513, 31194736929210471111994373, 24321385532844725153635439], [21609733461991487792636448, 17850481244893394976994015, 23992056668042886180208609], [31883894544323942706724404, 28778999627981749236831695, 11433181373695905944203803]],
+            [[6617764637896445069472111, 7426764480744460336893454, 14393401259455646059614450], [17765509020579353013136213, 17296805388821630771399689, 19796534704436125219163048], [25690773914001383119955419, 16293320580360652260914668, 6611939785205962481590072]],
+            [[29472511886691164806190230, 30494156847188765246484177, 17454434212137820095068645], [4362683261694333324508984, 11330347680137527124297443, 27212034254115850445994498], [20013244842613290014730069, 17881588608135630657655881, 14162289203464809108671482]],
+            [[24316887011230295367459026, 30592657178906067244255169, 18528858523670171781282772], [36517745124584590703829599, 30773252318657955123342049, 2518184711157355785061141], [9963720719419045569211673, 1530597057737124114069381, 31299267301412277345770945]],
+            [[23150049397980735848057940, 5517378592948091897341160, 23419183818305176589266506], [30609699176930279318574742, 1629325318850990736335334, 4683955189944282580428651], [16563206329024673330081804, 4864342778183251361306405, 20911096659832805300132197]],
+            [[2510797062832024682626845, 34061423983983882467323714, 1963180710050764737422551], [9323640945719393657496721, 13050044347834103226960189, 30813074902295192052386322], [1167308574110923517067767, 11011081275625966739717397, 5530997524856608637156423]],
+            [[31902948380769385238622805, 4380553637029055740987555, 32607528446849743627950927], [20608316617743115775730825, 18913268505354260781055707, 1800162023250629061667887], [27216414838333714005575100, 24694956212384566339899463, 30344057568299002851448091]],
+            [[38095540843853948081592594, 30513836134516751989804505, 8903115893239666842086622], [1582392891039933036751180, 35515913418926719803060367, 12350513665630409801785642], [22203377225531169631346500, 5069020200977268973856540, 23056419244617651122506765]],
+            [[6176971278563490294257672, 24885423590681736007461495, 6162571702174270500007892], [14161857328402903698406774, 28368720435652887319450978, 6741224828742592365248201], [36585297559645365957625109, 8843912566508491140721733, 30857446578718484903787780]],
+            [[7872717607039918786657049, 28286064135165116815938963, 33291237773551167777457695], [3364781401632693422890380, 12451770474855733319094963, 16348061003153815587754701], [35115470914838080292318973, 31296522332626282420572805, 18856968145805350302151405]],
+            [[37407641821029893862482901, 12905866412095261634762641, 23543001255073378336193612], [5691097434404184579853584, 10158693206214970622140654, 861999919039322451759853], [14374701942305981706041300, 30652246620187244499170516, 36162379255525078755969861]],
+            [[29410158419552262669839960, 29264449880898066437017049, 2394997721702745113396724], [36467581523275875628590835, 13786207778363415973208720, 2703330393540061887427478], [33837687246305721316465168, 4241185263959454160316382, 17422582223291479682341569]],
+            [[15967024900840107021515920, 19632302638482923009780766, 7539313479408576505684658], [37417863497747221289349299, 12138309531945962490880705, 9083940515161089231995302], [5578469421343478417011569, 4007738957329178110643530, 17929071566386546484756065]],
+            [[26794434564589315992178696, 1477036227810190663299712, 24442624730273713123559805], [36667094290968469849399673, 22510808797297593177684724, 6431876567261946671142797], [26127622146865914129395321, 23237704224749464117822531, 16472012965724134951743621]],
+            [[10517371073705730559731119, 11944745522452528659914702, 7383620963819834374014588], [12998802261228562583771857, 24886197617780478156651013, 18433035540282929907419237], [37273737895102849769916182, 16869509099616158853194955, 4684271245375336967751292]]
+        ];
+    } else if (w == 22) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[28277977244776859620028822, 29391304607698992637772286, 25478685161734548400850946], [22091306703101905163742086, 13763026822832024224544278, 12089700463717755001448546], [19936086555571320079419016, 36774078507167855083823400, 34724089129932301142972142]],
+            [[6114895526414038736111695, 25614696798985768443861274, 27386398488113004131870571], [6530738270975828620375591, 34724861397827987297809147, 9650741592985671696327033], [25150096482075745336424421, 17447121085289071046183073, 294263937378960313078453]],
+            [[8590105487961061367951538, 13767802794178173481049474, 2370169085458698333903628], [28290071398467153410627411, 7232015530967814453492205, 21675661334311912061770342], [17843969616315009460657426, 1656831072289778807985935, 8525202610160346723472841]],
+            [[29172926292590981026653002, 19403098738868569302174145, 8534522034858070005526765], [34872293218479642753351769, 25315393286314495271561365, 17063147104545589896750426], [36222642984950990545020186, 37758315825382581052498266, 1853394093672163302719571]],
+            [[38208015783081230454064013, 2092797018201590036041268, 9251212996084655278482], [34915235655008634365800691, 4303502398425028074786571, 28275577966127207670178956], [18352273739416313052440907, 2143263717795975703239364, 6502511733742593953146245]],
+            [[8469359998860210536086241, 20037891669294007370949291, 11232587627482401259809162], [15440064294119462999500999, 32631310010980755178321849, 22166817355101859903551562], [34513029006597867983792141, 23878065667419284612852099, 2299898759312582986093814]],
+            [[7126697020930160202510335, 20714914747346969630929680, 33221875359949314906218064], [4038726533022065028878422, 21758859240345157293534680, 31253510703924557101607324], [33224533700672674864677299, 17998918894471023108635851, 24561461951786658628143919]],
+            [[14189297173305889781991761, 11148088897564426257521186, 5771244637934276787973978], [9147990079586982424388693, 12419556929826421227027600, 5715908270557334844134014], [34959567314899028099971886, 26756095848985540819611792, 36176739624766243111158861]],
+            [[8085552805551429550643669, 8270257538640599527555029, 12901416638342703848788108], [9696500823034723903407679, 11689110757032393485217011, 35834101842034027170808109], [25514836585509659770008978, 13660019235536535738344345, 36921306963059562460453211]],
+            [[26815985654399372165318950, 27234856101894343021577367, 21927539905137707936172515], [3427967699067714710108769, 19313592615885771886733672, 19072669204167411836679711], [23648482756796111835612865, 14115251260317807919013515, 15973303556264951068984565]],
+            [[30349701529095935778504359, 30280267962615304147857200, 8252145591844743868280346], [36264467720755303453011094, 38561729929856252947260462, 2893003932056889378550170], [25246991653547607321454978, 20232422198295658029991670, 8324325265001615831346309]],
+            [[24274759569819007126260480, 7654178304865711634384890, 25238062377390255919382833], [9003737061948990469734938, 21189415181741177754602682, 13189347732414948994745442], [29254952058576331064626761, 19629054574968017469271420, 16962355512756414990448311]],
+            [[1580387285705105441135685, 30380886177913917287947434, 27963647032893212387696098], [12455908059767255404876626, 8157710357582702048154159, 3633024732359302614800638], [24288488439093116474959425, 10469881511871784722872982, 20399848350257526700871657]],
+            [[32392051660622202290670269, 33963523292883304437270216, 22605686390323605850172479], [11433739182646863611943341, 23759485729930144058739241, 18495831176206569718118026], [22931390857963342648664663, 4532222683570283037067222, 29110581152923130650625437]],
+            [[23948103237465957914057789, 19007297615956654094585219, 32723799429895855880614289], [28047549398701312424168047, 29118144461588347718908253, 17805377264462238437653832], [1707807982762620218834259, 1181880345339968417402442, 25733853590337246953398078]]
+        ];
+    } else if (w == 23) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[31498958991607247274059351, 38094700516632021704681257, 3368308357824719931772201], [17182064497684257399689883, 25399406171257556387624222, 21625606217495667544995506], [2800752821209128205222592, 24530177102675017155840118, 23509283293279551964617352]],
+            [[37541796914965352061896374, 21167705794693646979153084, 24902779316440348485467575], [7410079780135477420247413, 2328148376850453467310524, 32561292004841382284500197], [37077627901634661696474454, 31742198311780214007643703, 65340740005218815311471]],
+            [[34023635938629808938486080, 24853347744970830951285624, 31171814224122324806626145], [3914634976331532548295068, 34897486141217089429831687, 31014348059055930210425306], [22301943750268919538766600, 28796892727948001552324892, 34644485920311244336471631]],
+            [[1356954218762776689058973, 16636593357673874035536137, 1103495073073545505090929], [10966221393420670892049846, 13663236513229639359225345, 37617824836770569127853013], [34624998768615417053387957, 9122999381274468929007791, 12759963077688985309931790]],
+            [[27679702408441027539505601, 22987954842301296265660858, 28330242926879632199530131], [18666720902522512203847279, 37161680548194787842531534, 26295640520772035824374653], [15961786379144539139038245, 16812761602319453761912920, 11283748263902068400952704]],
+            [[4157018723109904876163606, 34969547727212049028431431, 37031151152522528279959908], [33111416215314889189909460, 31104626388638818099713647, 31970452970225366548023837], [34815803352529192915517218, 32696769420824825692628342, 11436444215111906636811236]],
+            [[7065458175126583087199454, 21082583116561702654245178, 5910310903945791997107670], [30624188678877044736189652, 38336555776690889892968911, 10250552023790945925384656], [2192995610495235326114716, 939337081451041268488958, 27912426522052288831328294]],
+            [[6073204577930580607118811, 25846324390673420432636624, 4310686948741828042564879], [18808134438928995219579443, 18917960520125810920984715, 10914814067791274974933408], [9151751104026118071276231, 29574169263434483193470349, 8932345076646463945751301]],
+            [[22040962861446224800028074, 22085294454489966997052321, 30811985268546800359952165], [8341011102697354770445648, 33029659416225366099570118, 30809521366766427307862364], [37045840370377670250592569, 19078876631165231094641328, 25347445831911385780932287]],
+            [[15328407561840821939348467, 33465366319888873199064967, 35786861657711898480094506], [3414134722714859066512022, 6611014926009444509729612, 38223411995577870553953022], [30312835353883818488229744, 35980663792664575048487444, 37326713793731936338836094]],
+            [[27637100797227916483554797, 15219710341877224959032639, 15206553408095489069187679], [13980118389491110468230916, 31778240749166898209386443, 12210371409320860915749510], [36464062973000996469467955, 18837672866803922660856153, 31734795154807641695652661]],
+            [[37479117547884437943130314, 9445010453130014436710887, 4832025280977832108743278], [23095139894257093832389858, 14004575461093479183373918, 934821547261388840053960], [6925645078939857117290415, 14522895880340051011718211, 678724233205036079262538]],
+            [[2572878079707526600259925, 11860171581409648130347975, 19141987514820653753098634], [16680102279668594520416809, 18706168148877350557304514, 20848846985420082219453218], [16748068748798499875966638, 18450827486779119125193352, 8621486936966459869670505]],
+            [[4406306614700019127665551, 148270773044984204500758, 33441345565240110069252484], [2342450477146470768555808, 21512251223310232636683587, 1243478088057774719481890], [30440241841138573702215557, 23182583065980105395538461, 17961735764602182868020342]],
+            [[32162985174697606674164291, 13189438726205193785792680, 16168723959260372513009006], [36842101554733478262687670, 11400494132447328334107427, 23637535877894812220365229], [6122587564608972100716046, 30152376941285633155389952, 9235901763900819537561108]]
+        ];
+    } else if (w == 24) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[5986986008634547688621278, 27544332935186721109047932, 30137653991541554559786433], [5470489579940184600719524, 29140688756537923607299585, 2306382958019756302819083], [16793835692017494060326856, 13213956844943803390891644, 18908245816047953058195583]],
+            [[9998599882408245664457364, 27857495825432862430298936, 35580944543382826988832534], [260634655087564331929916, 15907642449307163981803935, 10528555734940526278436695], [35713383219977517339103638, 36151375674713922245778275, 2725766916611295834595857]],
+            [[15176112484338471838323100, 3765722254058346371479098, 20516414566692182041499891], [15773773113373427882344633, 35573661640023472883656169, 29695028155030081523522981], [28798668904553965468947872, 35357506854802324082318929, 26215844623558775177591886]],
+            [[30512394340577910929568747, 3102204131262804204628853, 8807990226622633487074181], [4262988589032406656039858, 15181173065735360816724753, 1107622362874517376673505], [15168775300422459953827359, 14586952652317147392344741, 20460104094645658027439241]],
+            [[31685269399228374721460667, 27895054505792160806465035, 15225305269478185625193227], [14452712211409173721977700, 8380623070443854996516864, 817955766597465927623492], [15588692349684017655811570, 5569516062715907125948611, 11983927461884777829836605]],
+            [[31866096367536280500547976, 35175426049253765289726778, 13513574918892390622989239], [8210771251907167627602260, 11047067315780133433031507, 10300677459530742488792726], [15583539172652107682275792, 3871540931012929576379284, 37209834662154569882051143]],
+            [[25469509800040906903167524, 37554250220777424638980442, 29615063097842907537046243], [24224935258838805866149260, 5331509475292951647420068, 31556634207202165230709418], [35875077684390664299092090, 24218651185294088127028278, 21400936080244808323509944]],
+            [[19583713928964521482053113, 38186811160273911718873268, 12458173713614158553721961], [13639746323940496420471104, 34315985591889759066112457, 4955731145024855461143088], [12577029033016880707669335, 35734370410726316336657918, 31925083140973052697936377]],
+            [[25621578143067765628502528, 19628088626335426412503043, 27485709471158445084169568], [2795073048442056529901549, 13346446633505007436025675, 33310399239246254548838252], [21122810412706481248373437, 29762548502653215630849253, 29073533165756735684935481]],
+            [[12190338425440166471475796, 37961689526852668439637242, 13157898997292823922335199], [7432155912505206062842718, 30671876647805811931656852, 2353652644527169429989485], [28856589812183169969728878, 34541185236337060343121834, 4330441666696136268043285]],
+            [[27778817373187595294098416, 21718769556394841639622265, 30344277751391414115767956], [37227906004068312282951377, 18741805916723617542318490, 16601494431718702982756020], [15116339832207760830322709, 211621528954944885704088, 30253211805879009617134499]],
+            [[37054084896498621613042582, 23832178014203723931461701, 22859159291350617047216637], [14980434445023845431300233, 7541955468028864119208730, 7688381940863764011628292], [12053496656753514858228469, 14826765781326205064363574, 12472407805745578613839865]],
+            [[30850249992766907134759178, 2515615575913721972441246, 14758943726742455626085117], [28744634430063459702164041, 21134024450312644472058448, 1791631631951782005249940], [33625862716188131625908150, 26725888699686627798477158, 32233436662243473804501794]],
+            [[18424094081652089952753654, 38630352091201155822467465, 21260346232223002412707685], [18705074968913533127436892, 24604259764702094513924040, 14404548318517040711447723], [4126161755128097876542522, 38113017487723258398769374, 2824831465649774521333840]],
+            [[33091856666420126592395164, 4386574630347454650119883, 710132181840988244106800], [17406877374391030902167327, 28016155399370370474501622, 377481623871695297403112], [4068033477748859914071131, 6570810560015389054427924, 25203303369785729128176193]]
+        ];
+    } else if (w == 25) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[7826611884531110141089431, 9851148664618957455827168, 17666036439478304229645304], [7359614123399897418647348, 11104144917558395028462606, 17463362394776492677256997], [1076018116585339417160808, 23579324214972635813450315, 3911200176045373974398149]],
+            [[22807205716577683154193597, 36541795655393164260994223, 37388241240891602146285452], [2117352102899462418371674, 29368161918721786163957572, 28306661848457038631712003], [19711540809008719502251423, 2177606675925599371425876, 32887737618460429368514643]],
+            [[20806225666168213538613420, 9188548135598816111199536, 30091679163925575145129797], [35951219231408175559975310, 4156490745937684965876190, 30254152484594045197813586], [9850594033386844116658395, 33066746035005561532904835, 14769143626098600707792071]],
+            [[5246979075468320372160505, 26447480102712857037377795, 8245412888707422143558451], [9893103255879311618266412, 19805869685287677733995338, 27854053910116711229386171], [18706929289184921563576193, 11159111509510560708579904, 10329688524394866442098497]],
+            [[29916636440396489106304225, 9876202623402039271705137, 3386117137943637564909355], [21969483018709372937457541, 32577079987930138074702911, 20521404777761938115868793], [21772738243291377359507043, 38407817030014178301734856, 26355738495360238187707906]],
+            [[14406223434312698322377112, 9902908449028700264498606, 16041065883947330277939496], [21342199482097616607542262, 23530790450252494065656724, 24838845827139657130841099], [6629246133922605134221355, 30839346357191896366693579, 37170534447201903769786450]],
+            [[20414158675014260413218369, 21299925134166550686664925, 4993877871663176559394060], [14387974457462016356658027, 34719350459335021634927805, 27598256669266486252215587], [19361289510750557669036821, 19149879951759362250380160, 3069991190409068196494161]],
+            [[1376630262174276975901853, 12109304210750025970918606, 9432047166751287738055308], [34959118036324427861040407, 16503101793473922270381747, 28021449280066249001138666], [8121166002784073873337328, 19980561748917862179355869, 37680772405215175108835760]],
+            [[18723156051786634328022138, 29022065021284205515568706, 24798632065978324229454790], [10048270479019396997661444, 12778721694168047725373281, 11115103060024308238783670], [18026312607895630018839937, 38258172410256117647510120, 37195825489505884672247975]],
+            [[11162880493695595084240456, 10709298071999003862656630, 31410413005360379747125292], [15904887190483511989628517, 2832217120517740451678003, 23133039943892197695903047], [20922752574907239308995701, 37872769525913948655231797, 37059016875018831440572106]],
+            [[38281502211222079700047255, 32205707552140662189642489, 26869830130008652791333495], [7869412609649224073317108, 4245026036342656852455623, 224243780846944704328752], [29425060544021563929576566, 4711472434027741701783042, 24787296070803306734919113]],
+            [[17222345804214415107291339, 28923177229305314268666926, 38087915923493099537467661], [24084702381461631314382246, 10298727599117791251378084, 5795433598501298318655089], [2138200409775731339376386, 207683683721190246484506, 17575918919444045544233973]],
+            [[9254648711157335931779220, 6294095587426491071757246, 10307359477741171062675084], [14221425101140370576336047, 19752436633761835062145092, 2853879728744751441423980], [30474125590981168980364961, 14440436489032148679772135, 27430283043617888061328439]],
+            [[4679854146176033596932404, 28206078969882384495708408, 37635660448743655455317328], [33555618959040717294389952, 35003313531198594645519137, 24988776025072966703796141], [26211781140471455028204957, 5158878204934525598658100, 22176435120023864497911435]],
+            [[11945772248488367741352246, 15638269707116858520386127, 35110350619946320318057776], [12512877766764074897807709, 10534433803506490857150103, 35873176336178692936676698], [30010835394180699525809571, 2498608120054506812725379, 20915108895021731746686331]]
+        ];
+    } else if (w == 26) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[20053078504978873625245884, 23205755267504147693626946, 34881643168887358880185682], [6021974262921684178029293, 14164373151572879525851620, 11393195597531987641630821], [36002005241929402175481956, 2261888586996415828249098, 6082888756918594223739827]],
+            [[29925686299784950331593111, 30820042164460486622970610, 29229363685823126848848052], [8068369864359622749215440, 22125234597893602472840370, 15083511813579719260302390], [21811883860829719958530895, 12521221225178203311208777, 25934197764690417078958904]],
+            [[24790585735802676549139800, 35401629264900405386766980, 31009887097615673762287627], [31187507869229667054881874, 8586601920401841710886716, 7960709309462424404844743], [34110143403206722891663852, 22601423803352347276336443, 5974399598002279031381227]],
+            [[20851042128273945348268473, 23155638510529629286841919, 31120453122156289249934861], [31773313367345198392922240, 4976325878631615565357752, 24402572811748567005080762], [21363273493754238017200401, 26715270689851530976210816, 9016640609048191183694862]],
+            [[16302006831030110773187197, 12213387518190523648451470, 4349710297403754270137425], [2133933376375573593114778, 37538077101928794909871959, 17598217181976299025791202], [24958002554577225369863719, 4121386223544620077031156, 14975277023415664796530907]],
+            [[5871800576793610039590425, 37617562972480383670701049, 10366168145293049987016244], [16463264647424527031980952, 19265388354500297588130209, 24360630776926584077377863], [32788344947562068575856105, 24201761160028533609702176, 1737757712082708520286980]],
+            [[15486285362757326047207435, 2788867608268824433415821, 36281410262720860582681860], [7229913722262202622481124, 23406304741699757385073189, 26410387055784590154652963], [7093144261501577916788831, 10434791720379114120407200, 29000165312335758900043945]],
+            [[9033688314805975371078557, 12543599780878688163278751, 4960863791130497888724514], [7333279861741390694618432, 28153637596117081307339289, 12642787567199065108842441], [23016331860621485409522640, 14914492901492924485545318, 22577091435180022012253657]],
+            [[16042938031765574085525031, 23530379683489576457669156, 5717122471877556609317910], [1690687568458079871510554, 13782808023706967026971054, 31964713882854670084069158], [27010974651889447906067610, 6515457656893632013829315, 24909172399938967145820428]],
+            [[5166886064160471311682840, 30015917724843325476824808, 5021068894970482312204576], [35431627687978553928200479, 37500070184731207329044840, 9123778823186291644758405], [18413632771592524361752869, 34164652927997396838154225, 549640002570846649301324]],
+            [[12150663494267230699113867, 976110490909885622158716, 1379606280091331510722679], [27489879929937165982039738, 2048890398835243021041003, 10698823100659242030665331], [13258432119187234775102136, 26647185751494227911229191, 21012251448492398691450728]],
+            [[14669907331598422035981947, 8091738779369462733567849, 9186273568301474422705605], [11762957197165232186736325, 25467025173814644254874201, 11249008581218832407423729], [19159011422867341146326943, 3271953430974119448412311, 7477429025524290370122583]],
+            [[34210704155691865118343651, 11459234874109202720327466, 5731637012855023932574086], [27003286948028473523821335, 14521140460514784059985545, 13422240056546812663800495], [21471638445355085467272191, 7812743492490787369596375, 11373357718427345019660381]],
+            [[29735762134800439004676179, 8196392324817116428034593, 6991318785832890564138653], [10171194095690443350569862, 32819737783301291281146341, 7662444237763961547905982], [29126149670494011989174749, 6177288525468063666585482, 6208946644471647488829545]],
+            [[31221556712963612162166446, 3457145972422723055808591, 32424440767422179331255841], [23007833734857954515885366, 13504493774685361965458974, 16981323629070296743614735], [7754145318013713515064318, 10821471046670645391853010, 20944266205296291118246566]]
+        ];
+    } else if (w == 27) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[25820569446443078801211625, 25724234435865258975576572, 31638559664197302341844458], [3300084941222960873463892, 37024929123642583462663396, 37357606892900024540322004], [19960187599673712176122892, 5584772762685983033506492, 13623830624742845469810136]],
+            [[2775422949689975224252634, 24829779730032356486337579, 32493727233873068711687346], [25287456175737980050111058, 29449807671561892090197794, 16350851949634654466676839], [19265746470471605898364082, 14324233876115289452024445, 32209469769316782608085883]],
+            [[10957571158630527031723606, 38654451598256631248418447, 8814794972239022146863055], [17834248575203001727092971, 3666544351313985334496263, 1640518025781567659116692], [26137414986108031956002209, 13396146299308109241651741, 31124769683555988755560079]],
+            [[18178665980231941663494072, 25520116764917065563843678, 6306718688624184998479273], [4633708464960111403796950, 26028404968390008485195598, 11798883482226435065755008], [21363956136383743026146252, 29177999760695203939537656, 7750279070725797948166624]],
+            [[24079210335924162700648458, 31414096069877265548320376, 34676027544471447328168153], [36664273573269579452826783, 30900307168913842207429625, 6256495871398590435826056], [26810916240623227659279431, 20265991355337427908687611, 23889400616338371553010563]],
+            [[20284849238043881536836090, 35068121949438263727256980, 3113830882843489759514123], [36216612110597615948849727, 26967268230773977512151593, 31635028229310164868662731], [34232690155835611469258187, 30163500260233187376413290, 19652946237652402009451604]],
+            [[18091330864348771797579368, 30513739509852744263067765, 38526465939091044866282393], [26269153093505118401522930, 2175165103658570939721770, 5507114575899475128424333], [8047153125515241335347492, 35841808564648109691097521, 12229447431971714088252633]],
+            [[37646500130589727903729297, 229427724370840981407408, 22055646530486868922018464], [16307970168950230602122744, 31634919897886172028096316, 25698933116920984776798183], [3404496276560033575432956, 1967131331061422899926184, 26450307169389279841644521]],
+            [[24578423323397437271159212, 24436454010366319898410186, 30515003417076517175909086], [37044296200462932844693407, 19713722744376711114310800, 17794724912442979538392716], [15002800983850099429127082, 5580895519037817726882691, 33188285273565408984433929]],
+            [[13568658335285583582902611, 22350678223432283920607657, 33455250072522433336415483], [14316954921409309633558914, 6166798572296131184874938, 6866024063809829497366860], [1146539513178925235588135, 7335442821585627531288486, 26946214770882131647340048]],
+            [[27487987173985028012176422, 12375562544984628573662826, 29273988433288691665743472], [1590383840620888850737769, 6653564631437711961589449, 5170153862654484843160251], [2744175317228802451483838, 31261709733486126936535003, 31510705865897134266799850]],
+            [[24586623246421292343802966, 32323772337639593199080216, 18871481182218234477108477], [16940772905852789718750410, 32145061208512905814152730, 23600468778862814160163857], [12763362952050196849472296, 33721354195222463950866220, 29653260097361301179075717]],
+            [[19670077831264251409045756, 18084989138621200705715717, 4310755229547745261331621], [30353372770641494406041298, 32459286819442127715512446, 29478475980318404931143388], [17588301049950674147152138, 16480084503711727344230735, 18129493812097319691549555]],
+            [[17502088575786272193662352, 28420318772243861847881404, 32977222884755076610060754], [32669120616489948909750835, 21942346735818319406165350, 12100492751217875112891485], [29794071506579363803543054, 16196765554497717459870348, 2401813418966822324319970]],
+            [[32821323391053720724994222, 16877237986417491202577122, 27660183369224317274886166], [18391319338413134295797709, 15667739989488025489984240, 6415146450442875980815478], [29399926293234094397060727, 22162983902136505338709286, 28103063361164711676310503]]
+        ];
+    } else if (w == 28) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[3372135900412164193179027, 37090948324722710308633121, 12634477905714172948933122], [28248289442143802522189980, 32532395501433546174099386, 14584764773593019589424474], [25893585125049665186095432, 7078742046949072772508921, 4925121133575890576773542]],
+            [[18416091489556546479844711, 2531900334276288980086467, 27777902004084667868854039], [8870996088895003898671459, 22246792345346619674520166, 9764867579891763427278336], [6262757817214128731435129, 1872333778327855629522411, 11315948054162281275674383]],
+            [[26607809550847036133610869, 1601724531038986866241766, 18676248849627283795358149], [19724459616548926319502426, 21063030097867571256444028, 10913829679793564970541498], [30767290490179836157258922, 8354361492077753380864278, 2495839237724575401096703]],
+            [[31726902017385202448529994, 20248950559292769922623248, 4111207111954559302944229], [16955749331621149609824462, 7552794012410548498125115, 1461964187955054402561436], [7089109003081170003277269, 876472046466427532981357, 22509524850071698034601346]],
+            [[33980082357735302617980821, 5024727103422873992799066, 5351678541648051064504124], [1548680601121556299983435, 13469153985900937059992460, 22542443570068190460862753], [25948696427255803825946582, 6884769168292469901358304, 23965780717896805941890258]],
+            [[26042055414677688165868932, 17798144007196945761350807, 35055145958124597871412866], [14672820459874669928713071, 5891509195945740568657495, 14585983021810288512088784], [2649436855721327773592641, 20603613543269069177449959, 17112030133308989170199453]],
+            [[10656857348967330070968782, 4736942995795872717545242, 29416005776427431427665148], [21292593159101116912151592, 25826859548786814011150652, 11414134561845288168423183], [7418989875627989344444014, 20790003088755530306501744, 30593411006883434735011133]],
+            [[5328119066581788068607859, 8801565107879680594282798, 5371565823422470873977751], [2793554009173508822354457, 37144775715176549475017922, 4652942430645392541624871], [33025903758851081976537286, 29542379108990913760139441, 23172392886680667087596075]],
+            [[32766892291186515960341607, 7934599653084637894381274, 29292909728634432991882846], [12198354968624756596287348, 304166441430172855788459, 18535348238958618912524687], [30655803510782046832997077, 36561599981675193505618419, 1493534394188937359527720]],
+            [[19738264994260246871893358, 26779866061685690025699251, 20783540338184891955627902], [27159009731994622177989286, 15658872059244262703320659, 20999657345816803228947765], [32978816891394043017895813, 6807146586705244221787081, 9430045933319509671659309]],
+            [[364291567973813376569719, 6596873411091377314745409, 4500865002150506357057380], [18106495657345892783624157, 34948810967561622939674615, 33648803509362000141391058], [38410451057347378968132263, 19780748017329180219688360, 21831305275861047752782495]],
+            [[21198830945467895018069474, 15687920410378911351825576, 29961602231235669234650908], [19449119627776344915076793, 24151888084205381659065830, 11128547039714850549674206], [25245865885090453560626440, 3579150999796605631289027, 11374679502013550548799440]],
+            [[22798250985738719226029711, 19015568592714867045593738, 20103053453923159909091595], [31143294255847200529505345, 9129451823835850976838255, 20482868603524993986700404], [34169281781143512783846396, 33721244976023432293764929, 38320762434420132774380809]],
+            [[13998427444808704817827314, 2202705157526986984403451, 11969896416510395033808988], [25705196632646870510303629, 20183019472324455540346775, 18805856654489533591762344], [1602174371986501081841900, 14275986518302895221554940, 5379121126326083909606930]],
+            [[33110998646680212618212062, 28811273572777888768160710, 29843578433472910276795425], [6433763243005388359302083, 4066213306884895566635554, 31350366598415149862953740], [25004927943932118630938705, 6095718151834625315169382, 32382566096036868293232843]]
+        ];
+    } else if (w == 29) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[5905062688233069803959336, 11920967767468957513351733, 19462737453203162941148633], [35813172433188918066978884, 19998476208068560243729341, 7283934782082579140557042], [29878786972659135839219332, 35215866523449453590139828, 16540692289090353784618690]],
+            [[24816457120339368949967937, 28972328567080232404971937, 20687462164667252230736130], [354616233256039049809621, 19952343040860058476974852, 36213620192775477623508790], [26758760018770948074083544, 9870595224404629781998807, 13415942326553194103253563]],
+            [[24186623729009524032960853, 5821675617113981005329839, 10400048148417079683609072], [21264532244278871463491775, 18384500356818534388971101, 9042305550023092236616073], [15096658940983723294117740, 26551070644938184382505582, 31375215916147907149323689]],
+            [[3615313810633847860028533, 13045264622956560477082865, 3889265960698151276137284], [37077626816281116681328746, 18056280229220354501714509, 7363029175990560349651411], [28520706110160372817447745, 9551026697871559067412999, 18975771160509706982692993]],
+            [[15525649015596789836900013, 27531679622795762277140312, 6043278992225583703687179], [12035689980967786738040879, 7585001931901895938826203, 36985170650455878091526511], [33496175688928532099852193, 16100691931055043759049822, 16166106186339642530707811]],
+            [[18861687350569448806993516, 7409025639725681603535077, 13775887433184787354033607], [6661364289188911886629880, 11427695377556281587895767, 17696508046625466393017624], [27158946408926298952956248, 34815852769112136275387306, 31958704015537623659278408]],
+            [[6127843371961534331210026, 16695957202189022822988106, 37939571556127876485287326], [12122766903715742050127331, 28858468430218558500143614, 9687111876816388886421476], [31098630309051448283083563, 26024319449081690560001522, 31848210662064124044105911]],
+            [[34738317476706043595463905, 17533457893014344565209206, 16308929354685080558697471], [15028105515460483430459650, 38278686627836879843275609, 12311761193110671340433059], [23217817147122612216627254, 30229129669080016074310817, 17588066479585845507667467]],
+            [[38456522762600746915446435, 22262978499268395382639174, 15046336899402551693979817], [17591057319074853525987497, 31560830579115193849340734, 7370775464867673813856006], [788993226816404005341105, 27098368587852727601939748, 31806065602749372997322797]],
+            [[8138412044266031246458180, 36937739054057984164455941, 32763433286287789695716787], [18988657566831458942804049, 34132391037373443398597500, 29986886495872069758496953], [10705180826120536765874756, 2102909535708356741109941, 37954935203926019180812926]],
+            [[20829378261595660689986730, 17899723401672955629475175, 9900834955007236684003361], [16022771501938216908207078, 33105314726910056287596604, 12149761967311373731410984], [36105869765049940948579405, 12351836739025155154925294, 31291761794054607146671942]],
+            [[1200924896787477136732125, 5354141139733707722360890, 1791546145918011837472074], [2802274840739640759607716, 3436162427080072906667858, 10063782169511630700102699], [4505226211536032528841228, 21715077695220574145442859, 9346322604273684757121857]],
+            [[32646359010966309087474248, 12022239024152243857986529, 12084411081490735573203496], [30067147986045155257390885, 1135307460617908176639118, 17881615632138632002458363], [2634562462255090114857462, 36447902343622688866518159, 13563099812418957151958594]],
+            [[15890964774137456855214743, 6869296427798914338763964, 35137190656636062666275084], [36621081972574488653202036, 26199282313418171484913757, 5585749856636678552779764], [38431495655046548853811935, 20405252991253523551460409, 17702427755480261641597448]],
+            [[20306089078062407206431375, 22863752440898647588504910, 3522488316612404827711974], [7380768363399727370597542, 26822767761143393947264981, 20216347678049695268221752], [29414594159002534580012118, 5269537002130140267919506, 15792759975818252918018966]]
+        ];
+    } else if (w == 30) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[36604098193044666941442606, 11275581324882301241655767, 30104587981499899071297275], [366569126930216092488329, 38565116991695233106928906, 38351039586364978645212642], [19893143752833054037615043, 26697670049450860957049860, 4494850043423514202600619]],
+            [[16783561330120225332091496, 14058885369313233263427421, 19413145414997156270700807], [26559574228235308240355603, 38488895590686749213458367, 1435656279002608837272563], [1133225985029245011123448, 35550680377197080730063012, 16126517984961547387779631]],
+            [[4461523117096601371524084, 10161650631067231108648805, 4717059334684064463624945], [17728089117251754106057496, 7224583295465884625989022, 35390498040509588630651359], [29253153755818504168107058, 11250107633857394425325473, 21689271741366179952199018]],
+            [[14948324916027860556992328, 10664249392640552837312076, 217946073782780161808560], [3143638489363236651034288, 8850320597078914369947037, 2718460589671938185055701], [10111241665270789009500880, 36772704538151674748404315, 21524738522042669936231731]],
+            [[1879216139114106710508568, 30399685395645223818675603, 9813558540924107633809339], [4044986176926329521898185, 34485063478293612882458488, 32762059891221384237762908], [8758057189487441624990220, 16001230923587237560292361, 35079684461924629701352217]],
+            [[32570554591014045695723629, 11366258176449598114212609, 37499599536503294442394396], [22521008962903363726439860, 7031446440711544409608092, 9305019384660432424867195], [10288647937141133067571355, 5891385918303707701186654, 17790965308324768961133043]],
+            [[14656983544737160393776370, 23299966466244301748398003, 11061156527649108883756224], [27021021718532826045427782, 20965383206163119203992319, 29536120460018338981432104], [37162840861750917059678249, 21690783989729534779549139, 26029910255583752636791894]],
+            [[21925750613225652041864771, 34445524567688371274528040, 16744820557419446689586017], [18594675884214530336785878, 29681801332922912807271268, 38317608844670408782887708], [2177372632283531857505991, 36858453528392416721877856, 33145068881024898294108963]],
+            [[12009863078392565412848139, 31179408349253999968391932, 10042833953109135803065288], [10750665925392067911468410, 20802578373828616091736993, 17222789194490329585762190], [11635735699560635154867453, 28644639385332202619732285, 2631300085761370479822807]],
+            [[11613816739587093854304225, 24612535237231645234478756, 20043487258125423357351620], [17100844582198223163687276, 9161813211598601999372604, 31420702987985421493596122], [1731246139255575666977106, 9703613186107304583300227, 34342318071104465367334473]],
+            [[35586237864787191970841510, 12221236621662276188248701, 3486649395742755712072880], [12532216430497791261858877, 5935685774795924389874249, 10356149561439866782902239], [13629050793619520336233775, 33153616317903771305899398, 32352081374416664171276486]],
+            [[12706652867510743936143357, 37251005451482279716337201, 20218518295856910355420492], [26965715920866060787262031, 24639676961604087839879698, 13934031097071020815566470], [11870872164283201782662006, 3443555607990404769630432, 4679579702350778378333131]],
+            [[34194337346562689259414837, 35886765076934342580010069, 12946008394710784479194365], [17829903790021036617391864, 12580599770958820548634217, 2318286599720659468824848], [19084123339325465272586509, 10200170160300023222453589, 30893874109935283497837233]],
+            [[13772200302675288270303371, 33719023203938810080537000, 15737563390735029882909692], [26954096071391349568690961, 34322898026093742726463133, 37138582904925838537640347], [14219850893443924276983079, 66107666677715000494576, 24273980945507183524882347]],
+            [[5213038273014421181951949, 29871431380221859119237513, 5118699135007373804037922], [19276748124498356404389955, 3876286057465565211822133, 23360966348360012614357954], [33372186073268115059936035, 35181665238449976914996013, 37528931962242323536932897]]
+        ];
+    } else if (w == 31) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[25232569770316199452902756, 14012388655791355589813573, 18357811635905268819659401], [31501108370917015138938992, 16123764036538548916662210, 25112953981366887024927972], [2066545485047013274410617, 23303021748809886676803096, 36824098474146046406596939]],
+            [[14923320926668385047134653, 20056532602462531051916343, 32662233453596819554638139], [24692482010390573904107319, 1210923687997292942366541, 36826930357034613810430881], [13116021371869944888111621, 19242315187998920071922149, 14946371013986742850579740]],
+            [[26478362539130056129263115, 38420289575211804531426508, 11922662279530413323932663], [18997049070251868885786695, 37555407359514532464867319, 9744919734451557086528742], [33066671207207576136180639, 3386875262947463474662289, 26135130999403947869082585]],
+            [[33559097589899261613667620, 25203847282085813128508807, 21496567489103667453961026], [34815776536752579288975743, 11667797037940739071817165, 1594450701196216108967234], [26060563972230024206116830, 27690052939384898126114310, 21035701110616710154061176]],
+            [[37706119376148697733719915, 26927398930831802178389844, 3689615745471666119660407], [17727112120583574989235577, 19994521263634302404560821, 14290316875866022817105753], [14226206462078856473359347, 14555987672553534691999381, 30658956836366223945288180]],
+            [[25541668237904157939732833, 32204119758489575634692518, 15403171021534404671280920], [4872606116816654097247807, 17824961931248805216267635, 6517244383250008385121200], [15903422339034514096982732, 8185586799232633731532683, 8379831346757204479223240]],
+            [[15960453415709378727989150, 22615459074233013029435136, 30752723522576670799458481], [14219300230093464256541820, 24062593294140183751072600, 28615671769237790001286833], [24918404957780977648736490, 10755914634501867654339745, 36459811393721376712727805]],
+            [[37005858988568244761930446, 28721861664857977784677160, 28364408919856988671773859], [11129247332868352502149639, 726357571435649097440845, 7393420744967057531214883], [34094297514081386354200700, 25177424301804379688801737, 27103189918769405189430859]],
+            [[15827821758828451617560230, 20218401616580923374256696, 7446649973783104432257100], [2517190795046518998282081, 3551821992409682213510347, 20927341989093382106679394], [2008864103710548676685094, 36215206490699857265848674, 37722043736384287699320200]],
+            [[24518187730123765811995169, 31626180483093025365636326, 31787611832347553979390172], [15488439054848044112783398, 16063860960180518909001645, 34996012158959706502728054], [37223290205001345897396480, 35621936743799467749736, 35619168374569922223095830]],
+            [[12643062106402799556873672, 4263289871327286624966866, 2657588171101643372097922], [18431269055678687464308573, 1582683558403901985119437, 11700832655726090114713103], [20708509155628815487860556, 5665224702270718962805447, 31782923356104782654731694]],
+            [[20370216348069079597500800, 25854079918202092862910376, 4943891298151459679023265], [28803543193932630469750025, 22716652929894461335817493, 35546472307082512856112494], [29187909577479447202389467, 13683450833607870773382274, 25502349482494944632962972]],
+            [[11955691387683272073859463, 19629938932187454992450368, 35514802099828271627751515], [9017305062068993066633354, 6909295772460647634310923, 10533368886513361987407444], [32136991825377325608618089, 26424218793284063219419573, 23743752275409049617664924]],
+            [[33518593730172707853989061, 34321641359072935017036010, 21153198238221094274255755], [31784259684932006760365377, 4513730775470165109477430, 23729580633847502268494657], [6509019812556172993320183, 2079145134785144723378913, 1957673794652991479292170]],
+            [[25598695518410763941048371, 1785565426081428482350551, 5934998148168224631711981], [22294235956698630071954628, 32088884398867937469619064, 34437640778019178680016957], [29934094041155262354860691, 23271925765674284621858808, 33419984690003608318505043]]
+        ];
+    } else if (w == 32) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[35817828468919001824476743, 11532823948437388475409525, 5748198695379769153827065], [14396214367684928518065826, 2230147240439567821521060, 13095463045415896370300822], [10715261153534410774846718, 19341850293863357112515674, 20675545075685654737093624]],
+            [[36000155114777115111278238, 27437613117187711874261278, 32884772869808743835298157], [35116260484286678531508174, 26800238256612308089932314, 28303810163147172096584217], [17075931543478080109290186, 2136479614944382849367517, 26882784860431341951527779]],
+            [[36828074339778051690675816, 29457827750252981983705531, 26433639009630385394684502], [14701839095580702270213622, 3280427865421950717903409, 32330755826309609921810676], [26036531407518227352692872, 20673959657169132490627674, 33886695291419521248721037]],
+            [[6840306608917676476689645, 20550076793566699575080177, 13917490785279231663831233], [38515115845519839852413203, 10981318142101372347560869, 34466614903086853919358317], [3230025769740780452207157, 38208096848391800159320850, 4414954863002870859056389]],
+            [[30284812648104230739452077, 12783937942708680705924831, 10295962208851650051121228], [22061596716420893567467246, 16891375050751927779965011, 16449497098504841794234940], [6555744438137353618099220, 29558569243379034584769964, 19767405978744138740477451]],
+            [[27091836353136831229208320, 29132571689560094053892211, 36636983831618306708001488], [1011412116769055636885486, 24109925810960883730917188, 15927598783017884959132571], [6834810207888296349128396, 16975801008676093200492396, 5278408674303830155549985]],
+            [[6670355676798063761711515, 9781778789971004486559125, 2715629581815844120253417], [24483770487874825668202168, 38642954025840498408772967, 9494605268610144474254675], [27034780315081413283493098, 20701578094380991036371336, 23932570584857196644306127]],
+            [[28935936642494911747083860, 30722321889337570637285570, 20651520337143337178466202], [22497512319606305790342712, 31203584224028433120581600, 15812370878501033680296038], [23408596659854150784941436, 25775732547331836252300676, 5053654550372176326386598]],
+            [[16961037526704833089514616, 5789785636169781238961155, 19296096206331566220809347], [21734567781033947864484043, 26880749854842095037091275, 18066155653457820926998180], [10609183844211725444558539, 27772480754968407826444541, 25131017311575934099714949]],
+            [[14219101883531243382739412, 13557636775802761242275697, 2719595956743182348360561], [37906202305882467127263028, 15518148074782517974399686, 8141928027245142411408811], [24180793792976897982624343, 27896446941862167761885908, 12987980037604193300040456]],
+            [[36890437468174223619675158, 5584510453667196464348937, 15542679698820794995361048], [29153211431018807470250561, 8944424805762887041393526, 23364795146328908581582137], [20528952941575093934803782, 3003881487259976382618310, 6615553276183847565343919]],
+            [[25308606820374856745422702, 16419930805146920417804554, 3251434955366527223740051], [38655791639601417258433751, 9624256417524079569566172, 15847089049866805061219487], [1240559141396433014362213, 5751825198106701560786196, 2853212958085908196874795]],
+            [[4395611688017732747085255, 35897530709387793034428808, 14635752056081578575175017], [35340227426273754106722560, 10728671352495232462395606, 10414143521335254965099190], [14367074562742570015133396, 7926392012811359564552715, 34375794988998087910228148]],
+            [[18641821199242074631220195, 14998632168277059365628206, 27428078814459491356963292], [30374671207885633176833494, 27350600938446896921570129, 950720336992934613797752], [10411921180575664141535949, 4281300128761270328791920, 36197177778608072400281029]],
+            [[27247317490904607742064184, 31437373742380868496399732, 4824874827143419946209396], [24780683004525698313758208, 19777164770103099305806124, 30025222230980835918270516], [1756430886210642092563600, 29557738391523436442732138, 14838219153670805850764103]]
+        ];
+    } else if (w == 33) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[34930452164149219988627493, 36376009657438916408279490, 1889610977581367527249727], [16564287743204599560096416, 3282541094736084354860642, 13909554852226425000906089], [34492363401752225452387161, 4938383855114044216043310, 12462876477824816940390933]],
+            [[6051888360414715820019862, 29831499211054480535105319, 1369430670886195238665429], [29117098803895516620911104, 30246067636376825640719754, 24396643668097925090802852], [11090962503443451338180962, 31835750509764376503949960, 22673648110706044434770899]],
+            [[25461148224173218322382713, 23438880295113215507232797, 16037658480713247265602378], [32594838693622729351975636, 6443438291511987409145320, 1601527248912902048416459], [27363572198003500414601021, 1428995655663357685734847, 34728492340230586151974251]],
+            [[31183140212080433167877320, 17180242541132465016334027, 37321029079655005216352592], [33781411803026417843117314, 4084358850760489764809575, 12192850898261373623669068], [7329216481738784455616670, 22940949154221654141738492, 24497240592569314822342843]],
+            [[30309174565837207460356602, 8319308029575233051235100, 13662328596521072302919445], [2074043867861351408517470, 21152286981437102223966172, 23262289798943256326097719], [26285529717107795110391311, 20705579052182976335910234, 23581000605836468633740541]],
+            [[20073522845639967417507616, 10990148031628263002502074, 29485387966693663212763773], [10211621201072398858708672, 2984696275243237175252638, 7656760944041167265136463], [35821371283102406360536985, 618365638646954989003271, 6638165449540082193976118]],
+            [[30165343062483001951402594, 6959861284821888874981513, 12381345809548318932345777], [14571963586871300047888917, 7704854908057684839853772, 32538506612146093112926521], [24658523609353196967092906, 6424471709426993940324062, 33396883825643126051427931]],
+            [[26640011950861653021084270, 27489325438396987886667749, 2625180618308597399015579], [291496976684314990354302, 16786296742024213649802417, 22765365218380713808318050], [32105182839040820568178152, 8794190016002295415854817, 4173600771524102570371701]],
+            [[33010831119391125314744176, 15290788430123957724143075, 37531619106621644102147423], [27289354725916456136995277, 22840124825084897954645543, 10673903084397330266168318], [3487079277873756409065763, 32825080761830227172646006, 19878475603378829549777199]],
+            [[4155122093116615049749319, 26029102533167079745352826, 27438506549417010765444114], [3898382091524291319885070, 18200898861292317499896695, 23292728362062489724869645], [10826676133462792870380534, 489730713872576982100128, 2991138384249380571433757]],
+            [[15329847856523828867288452, 20771969687909015199325971, 1424550630755704724253930], [13355581542411077191646578, 7079241804462927479798606, 34812758798692851387990537], [9684686232801962308545414, 30072815860588974218747887, 25479921150579178446966816]],
+            [[10325332823589619767264361, 21890734197833258259283413, 38314223770676632296076534], [3156697499064836328590860, 1979887909597202801757756, 21823490660284899403354085], [1965788483418128148539048, 1818118707685365290261343, 4155475997657201021386168]],
+            [[15270728208198145965888408, 23982942620502306208145798, 31008037374027649313523487], [9271898971276984753260662, 25378236249932685450998014, 15908468655132912345663060], [12275767290429029757606160, 14473644979017533294327647, 19695868894366705545565371]],
+            [[15417002223930760428141708, 23674875988265442728832926, 5863686302573401356873232], [37124775579278316197446239, 7700795529078501620258746, 36966480959144743942218736], [15831497182881878355224748, 38685584793153537258182541, 4719975874820952776090410]],
+            [[19990743194693525911141978, 14676182462068353977089976, 9300507709565161571629856], [16389062560238947905547203, 21261999691079920837201805, 16676561584531849825155137], [23544261255753876812135359, 29705581964778329195692332, 12586315404360533252866803]]
+        ];
+    } else if (w == 34) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[23267805058016433564821660, 36686407266195420286953762, 9889192662942401666521263], [34300419333088539775987822, 34924703653463315302542188, 7200215471458888668437978], [21838162403472608549879402, 30685442802669247013637818, 34493711503504714037246189]],
+            [[23458755919682171287611027, 6326120685410927788865913, 28975595746606106778386164], [21229197743619486990936521, 26490289808529181467890298, 9412472012608408425115676], [24334025099151998629250474, 3476691951500434577721440, 220123234638567646035961]],
+            [[3186995059624377210867926, 32677847151557564528761390, 954186631517109106267790], [28088556163592779842763558, 29473235368029914900909092, 34503370752540069682685888], [3855817431575678933580089, 10162851208557439760362587, 1776981346740463987914738]],
+            [[14174122650923636629457242, 35609551997936091869472649, 17453924672530617687870314], [19956013853520203388568912, 25650387217061961559139969, 36512331496520494205701465], [14434043844403965763034472, 25082895100700593127513313, 126701595318103057787350]],
+            [[3706507304370778462844956, 17659336397462203123942579, 23375581580495868965287886], [32320650236655469570426925, 36803166348461682190869003, 38046821643193281492102362], [7081665738210097049722571, 2449127288799069673356012, 32389017759923875050091121]],
+            [[37929188169605889942494871, 21908080649971099794206465, 28968125469385256656820523], [30259069942344889387898890, 28496667702138571029363069, 21260180521881279652794873], [21591070955552876306391769, 24022407021425752891173313, 1722686865449739230774098]],
+            [[38607776986599242481903869, 38175311926865508974288942, 17932405677096206811459515], [24120906633144247300489621, 10170213199142894174433817, 14949952900101082551529639], [14076013079009017862149250, 2726011044856452908490961, 24103520334215242595234904]],
+            [[38580098298126359513214847, 5911296546050063792285718, 5522105739004407650975728], [25266170737083083884250381, 31937990696760338452205156, 10900922450862437125654717], [24047272418112425819403188, 3661571919831763134672904, 19198866656251583675939284]],
+            [[14876463328215612695652242, 35967544086561059887271953, 11760442215037714983923063], [6859144469632732242990704, 13301312115188007402725208, 12724603196433225448782272], [29654936892718721609293931, 10887143704767132268736139, 4306620431294034522572716]],
+            [[21462862425204678905765447, 29700213707649328118155477, 11334942853524530455103283], [13497747183900546755107538, 24718710434115196311151809, 9416937881408136497550830], [10703361092312338909903487, 34159001249267662569976014, 958797597179203387637717]],
+            [[745341145444821939418561, 19947290614802151830859250, 10053216869913672603589063], [3948806329891606641567943, 37456666487909245954627986, 34817970922145194409702629], [38022507196695706011825480, 31714118356282085959792464, 14851332222912671316051958]],
+            [[18397185795232972847018566, 29667638220008881262545968, 8614270289744126120734079], [27670540584552393978537484, 17721361041803362041020743, 12515817932568994141171648], [9549811598276000594890997, 29144200405258830135382161, 10122104858289849250849431]],
+            [[13163256233322468800460138, 6842551938913395054849555, 22303651210517386498007772], [26968596961847409906910593, 18937329107896361403362316, 29725185068764320284331198], [5096167373409138678324402, 37525264220591705358703670, 21525747194512389720894842]],
+            [[35380464543802837824270778, 12653359692563234710291378, 3973799062112096325143876], [34102846429604761600778608, 7376770302522008916585208, 23029236726188136777187047], [30799501764557759933095551, 36246942591593248980688882, 36470957600891041338370143]],
+            [[1003732375100288433480826, 14227703022395387644969634, 32349241411258130541363062], [28661867782178441031361872, 37892199023812566653429660, 1379296292091086302793934], [13334815861237558583785513, 1684455600657445325572550, 38003810123822101483428580]]
+        ];
+    } else if (w == 35) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[6957319563300574684609508, 13971197909559215985329924, 3242167720830980607188103], [13645671287600903837481971, 32002839517508168217461188, 37411988252138075988691436], [19164444598564451941800441, 38675790319502363066016717, 726263155600926634033580]],
+            [[23329012172682126795769316, 20781948281453676406465557, 35093232557059844191084422], [10020196340638457808070645, 17472574556590315536460754, 10630794603902678621387466], [31333284339097934554450711, 27789993303035852540565457, 1210049346820254268678528]],
+            [[23683086119798226024514907, 17752680817662245178097190, 3798511629500805682015382], [15892537487767377068063494, 37923920140874101549574500, 15266279950734898249590212], [21223127673385449095129576, 20813210530378919090832301, 4072227192219094410220692]],
+            [[12912241179381604289943284, 1651829043989897700866852, 2865350953803910276199887], [21424039047807118726062508, 17795850413196766756861910, 4048922607561665535135016], [32315850534409269894829875, 1087146907228571912591024, 38620767089597068011411227]],
+            [[6705539335494261404358950, 15829044494875088347918809, 30705927115189819345480276], [9975091064426861195735613, 24234713921809833307884185, 32916654535877315045724388], [15589456814420036268049551, 14049813836560063302503289, 34777423521710249029499348]],
+            [[25649679770096008088888523, 29740393566834770484022855, 14551352236501830863860426], [28670215007057289642538829, 36276678786251346632467396, 18387310151996637540107797], [10583694891383577801173401, 19213921414012663525540631, 19138276341919007643397735]],
+            [[37872641316840087242363334, 18340123545654019837568979, 29240968411707654489167594], [22924461935318782391359174, 16134978877531922081299790, 1757791910877360796771666], [14277854068724664081628823, 6009074078380177869682088, 16477795855100384335749947]],
+            [[9340475920628097687460653, 17774063518755895779233090, 32169129066244579841869620], [10713836979005844904863678, 7415088190769173804362336, 22378111529513924268162195], [694057095199241122960129, 28635603763801109647106069, 31452186311265781982151288]],
+            [[24381364276048550161593977, 7177769381854609988647063, 34316454205681060058817081], [5379906972209771678915163, 554901953719379338461223, 6031694662103230103849925], [34059157981026304257151472, 4566679791347978398628718, 4128217190871798832195891]],
+            [[17417762944265013864194693, 14005886377305899054549784, 29668993727020699308669771], [4936532455541381879681877, 31589905833558241430385241, 34785540219264262058772330], [37197001993331630013956609, 12272113469915046728848723, 17374403231762757222003409]],
+            [[31319618217760640138901009, 4377268361611335783383001, 13909940638429083930533562], [23857412743509013337054090, 20634465252379614483698667, 31646415883766195193174763], [5682204200025924544435368, 11022247969679549476875142, 2736837752572327605725526]],
+            [[168967933421764515295559, 5947692620184376122877593, 9667052888998374704345013], [5509373583319203412333202, 32742410941033181855171079, 26341009506046474408241061], [9798281067992641988017786, 23142588656494726149600237, 22642703777150282608109197]],
+            [[19097751184223306279063333, 3772613813182228707618385, 3811815622856516395091710], [25884593000729247023274764, 22951757638189648817269799, 13191020621581707051528207], [1838510667869292389235191, 27276509896880506225893357, 12478928334974565140141738]],
+            [[679983177858252566097933, 36540631483816859180187687, 4115136639123017773075417], [30325459357619081620047911, 27170719908114358388320042, 28656156912800693131053621], [31430762023022545876959567, 26538077456885916145570725, 14845329817478784301499993]],
+            [[419023952825640727535114, 8517634206438085070209522, 1877132468795447249534053], [32216036463409488023012074, 12160367326861902690454189, 38245815216966614709383116], [6043732118567124397621620, 7555984199714541877675584, 27605065075787138417947163]]
+        ];
+    } else if (w == 36) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[21172828527923121944661470, 22788064891207234253330259, 24266652458036106838923425], [11625831892800707617918227, 10110523699012265736772508, 11774625602817651388131277], [32572431494745653577772977, 21319027876403722251342115, 19420235208688806970617942]],
+            [[12829189653223372267179158, 18666993470916521716146487, 6083154428849398000025253], [12957256705529980436392669, 33623837226149408692839204, 5696581742222986668328787], [32208808418555594578286927, 3206984875998937451464081, 8254190214038981654414858]],
+            [[11378140705589585536944465, 2402411246348663470197103, 10761494605069646851226297], [37818356288298280612816561, 21772746769114369248629002, 28997183335833193931268266], [11509062094931900830158952, 24191145447704204544822014, 619010085308186020794716]],
+            [[34626391918456328733383612, 8335549665135979618881251, 806105531776202636416147], [22118216350174817932201097, 14910691939185350976793712, 20907087974109058347790904], [588516177209421433698271, 20776343647041485113735283, 23266497749399805683746298]],
+            [[13130548270917801811342846, 21429934980486321005841635, 6257588313664253806391530], [27923609143784130868801298, 3321710647532308512083706, 27537653432813873481699570], [16683635907062675498770214, 14930265261925697057807812, 14385467723743626873061458]],
+            [[17015277640123063315963478, 1265917070116480646204532, 17655610667500906006088371], [14317591306669741900605185, 10179874551343420676736334, 8916284078524466262683618], [30295796080925210181663834, 19186857829280250063072397, 12556241714023488213435271]],
+            [[25918527041437008267775154, 14287616529925289032635336, 15934040434818710801548817], [18709841011699912886281694, 26878414529523360078864478, 32534924172087946217031053], [26591604335202506203804469, 25185073443303571626851101, 34405003299579344305300714]],
+            [[18911683103740024516566912, 38457625539070325516126288, 35311435855176672136976663], [19824306365575062422511349, 37863829508940383921273013, 8522940538165016547104199], [11542490392229138396727937, 5549322711676326800238937, 22643508725740948711447362]],
+            [[36721148422630968475104060, 17819663727656494538467130, 22173439601012346946969003], [27554284722074185922906945, 5756153805873426465849347, 15897590024904444301715847], [20236112277625757944280441, 23303029318384497832789819, 16559151455060845294722223]],
+            [[24271147796955596118577551, 10941029079813703369842542, 6003461296681032257041054], [26775678537982221151709900, 2247824997738084894399820, 8921942267649800128585547], [29147995979720033223036722, 2723447818873954952843522, 34685027307617891483392342]],
+            [[4204519064700621852026267, 23206662364968459788422012, 20646655788192642220987683], [445482566451806594307135, 5293738850597103189599491, 20929652671657138775656547], [15830329329950758594221423, 4481615083895897154050182, 33671367280216091644468121]],
+            [[11983045746554885992188915, 30454567967939994136759598, 36682195758833151614501191], [35058679943880296845170512, 5094462350480794006542791, 7518928784120137335045467], [24761219228999258901296983, 711105128834944465854246, 1236996191740850564058192]],
+            [[38293580766730147518572101, 22390594547638942502918899, 13919196369461820101696692], [2513125390921551307790535, 12291599703968196416489168, 36198875691612921136501741], [30700799650310388959945991, 25551014330898431094227132, 21034493889604906424179653]],
+            [[30287952193077241553763633, 4620081554201267839541282, 38133106458959150018623128], [37272437937969973614677649, 3153776932822071131014909, 30986029517986617646595191], [12026665756187083940669155, 19004580416549153398969750, 17046791110220051411172047]],
+            [[11316680769828186635902357, 18240225301995239572681940, 14655637343883965997579326], [4710817965070794287286437, 29282422203538336924011841, 20117220800417727724959784], [33495132409244984459331671, 24090447979625062104140837, 35183829650576568336432315]]
+        ];
+    } else if (w == 37) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[30472625244572252726499959, 22208900986790506615871133, 2209213894888526411691644], [28622540956362150289974341, 3102517401421362716037720, 11546120222657499090153211], [19197614322323673062283536, 37751089256726008326185824, 28649946752470919683610748]],
+            [[13020443285836403907885902, 37950885684620367991978334, 16979449135198196056419659], [20039435879031010570561943, 553996608066617517800646, 1071278968497715835902994], [15910998397387095325692070, 20343828442828079693679985, 10179921237699345025258326]],
+            [[10327652139313203450500400, 10540325818970294308721176, 5306431770945818046461297], [35472135641327489566408483, 37427723961111279554514643, 3093255065894177381989568], [2202893452210904537268029, 27151384764358651607332182, 22074351098729547785820196]],
+            [[24267883705627640592215689, 24576225885263604093847668, 4743025105695055741705962], [8033877097305762295707214, 18391014180109652380805228, 13765075270892201430094392], [9705209771201021744484395, 21793869542545722499044431, 2925669489442625401447097]],
+            [[11945571564446196456818748, 22730370157669232148682753, 33128040079600636567882006], [28462368076253655429460432, 36275926844746524965527315, 31114925047586068397433178], [19480625459514200641073955, 30750454200648467346618295, 908591197869583069014481]],
+            [[4917939197235074677556685, 35832281067233709898368486, 17073476200264076583642908], [35282675727478598323657835, 14811708318491451525541227, 17278417908297494957393526], [22683855160230196390904325, 9561244475182503372566441, 29451238222811602112542459]],
+            [[24646196700047903207278511, 32944616574027572742445286, 17344335605272639113560314], [5182388409834967988375100, 33022160387713488123868874, 25813426952399352712272386], [29132049188851254059061217, 178200072400908554410025, 32616947846424906639915631]],
+            [[21522814526336389063225667, 23813121556082140928394238, 2866669727206909748690277], [670324432597888231908667, 34851881678245089766336566, 27357088267326903381388952], [20080835992834111565436106, 27375767073231438281294947, 3043906462404624086273971]],
+            [[18736242502571627734324273, 16057504790133587378258096, 30576693946581059583077965], [33290968796931163855633208, 6807806715945739232015477, 12399415981975577358869537], [31101668285004878237704856, 31724909685609122427107383, 4343528771181667930040098]],
+            [[18211551711615015306573884, 1066806943368631738887831, 1417945232936647730312228], [35309982697117883398235106, 38176668033328571297922693, 6059607352797504213045480], [20226440462072259891620310, 11931484051229781099522767, 3421221436108549006749590]],
+            [[26455337935144483684417777, 18198264479583113227734664, 26868396891222102285144562], [8407069060725464805238455, 20502143030532943724969269, 28570496107106119505683150], [37403100595276126038712895, 18839300691313690932600980, 38120157115484756655973838]],
+            [[37744010255647320545748097, 8895435837969254187169477, 15500837400627397461473162], [24825708418158701301966134, 15781040818011536033743921, 32179341446373710173193487], [13449190769875208172183963, 33686657082241227203697048, 16024943182471667133420790]],
+            [[23077611708001622426902284, 23785254419440009572807150, 15303025097307838128421081], [22521369856447433322683489, 33318755637989448364096138, 30490712366014597221334391], [11904075504886674014328152, 25491967108028178690308327, 25635445216100514439077077]],
+            [[26464012415128978758976643, 10921640771082837857310094, 4127788408350127716693510], [29968946299704371643252604, 1406828954602173898867296, 7585066633252630695097367], [24201373729123424865304398, 5876388267118415430901511, 30271492374945689340370600]],
+            [[5844503587320662172052592, 4802403238346884810203808, 859153666626658381028176], [30627211362592686209249295, 34740859701016306935112890, 19283500660424007036832766], [8150772276386317598665007, 4125752865910596891512108, 6776226406246097539056524]]
+        ];
+    } else if (w == 38) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[5498901985995022798750153, 25215347338532308076866614, 28269247791583702021358084], [10103171859509923768743440, 19467121475318331938609885, 7021983099643126915463566], [30340045628571994354643679, 34408549867796795823847073, 2079967594489584157309769]],
+            [[13802264414742486980128547, 20122047990249532538788093, 14658669242184234238474455], [15736239968136330020062035, 31680920047355819393319228, 38452358403816534787169815], [2332682438136852819836939, 1826548398910227431992904, 14753843921719159936398174]],
+            [[14873625912669127016854451, 4819069851275665019271046, 3194773738941298129918278], [5722615578594720817366864, 30466786774077508810787635, 21181032373498090989495161], [3988900632399197154943022, 9724178771155466234390704, 18070196029735446488783741]],
+            [[19920717391469937002635940, 15794406478910171582690943, 26050781898891332176709135], [5484726345618822347358655, 13274495297638123075104050, 23773223042280959708924773], [15633452674977713502212610, 31631877854260331514703140, 11123576626187989252589661]],
+            [[9751430831955781391663366, 9612162927097876595190508, 19896380349562076277022210], [28025552573447698337958789, 8401764991157030668759473, 25568260209262488747554841], [38675793135288471824243246, 31274092991590531235954322, 22095246586468247515631348]],
+            [[27633381218280039961473703, 32142193047428773567685616, 2704997418575344098280111], [2608138302724046472242337, 33590116401793814233447231, 23260867845013870554942760], [21819597741923675053650877, 30053799444700578143276793, 25100902071248779429826380]],
+            [[13691800662257417141700645, 30366664040538143742571621, 30802176087820866145079816], [795726636322899919290270, 709655306463032611693128, 4141404149448614221638461], [26348060834046668517761891, 2496252740474881735654157, 799168746249471519879041]],
+            [[18892866826467383892555938, 28128130571862160063226413, 18460008743164461263827705], [17340289181192917517039967, 5028733587611851531798839, 16567442207974096707635273], [29288302721959247610201431, 28140447906614177552852963, 14192000397830400930328429]],
+            [[37402650389505770819745801, 8917154331878456382509924, 34608990494457806739114440], [26556320921231753622063167, 5136839375687808024287846, 14073353449383314962255266], [4524929704772929434137874, 30923808710461793268510930, 37173005429284186998994255]],
+            [[23688219766811547960263204, 35232247376534435193591748, 12825250839709855651528039], [12767875651941471339980535, 9673520943690004454585586, 2522906172609028182396314], [21711334515766298597754274, 6392049266793977969500263, 23874918463920794557183288]],
+            [[20786175863644312145332746, 5211459901746450330074471, 23860592570802385332512843], [11089067093094499686559833, 6710447534566219095410206, 16909370872607100453691515], [36447616590627940339463553, 31465723552405293378552568, 8448289284194473384506712]],
+            [[31112639095895794069300067, 28487968858368358686892927, 26232044723284078595047470], [1397223770676491790284205, 9149132988893300603718438, 32574333543674630627100798], [20401345735510022467005458, 14851667671593103740038213, 6647870548730970873998687]],
+            [[35284495000216879606870316, 4226380855767371393817061, 36095211116189234423598045], [17408062893084195328190768, 21751235557694623460159184, 8733320769966742522538352], [18272387916122996829993950, 28421659475182583964771011, 20951627868675297879635769]],
+            [[32675419743280069195792196, 18178059511914329858199076, 33105894025485523906635417], [15242504719114327050591891, 23905416962062537086611858, 10299299711280146380182910], [34676246568335002099218781, 3564006910029926545516728, 19372929230490124031466319]],
+            [[34940946881211936023050714, 18874644219907373481339790, 5473841567921276591166270], [33274801321026507645909454, 2340741359191410994216576, 29629319391540853979522148], [20661958185948504901282403, 6167869412264292823947536, 15548443431674004064267380]]
+        ];
+    } else if (w == 39) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[15654802317771295399218506, 21442137607920258996791838, 20959132306593236737599107], [31119179844951752802410985, 19222151702848086226073853, 12287346805224210476829696], [5005703355070511548833437, 8133062966916881232846001, 16909845067581895020949074]],
+            [[273935135368834776526344, 23517486281641339142380249, 4678093458323605095505046], [3635617165047403726876957, 644641150111500335452687, 14651415287135388630621171], [16407171666883040748330208, 29613475282020803720641872, 25817695322857846382501984]],
+            [[8561217955956229539485879, 14178412708645595692353828, 33636538395581635435123695], [20198534029849164747392006, 13335220712137168349034492, 14287131741414750945116202], [33162198475578665021180522, 3529943671320830095651359, 32135201964847195377986547]],
+            [[23467965382019495742271113, 37967956533914466385651708, 4629358393001430251198603], [34897533144545174981198799, 29139822870466209080855602, 26679758784053338409029142], [22864449893195247298578199, 32570675246720819024669831, 4006097524460183157277262]],
+            [[20433823865879256967837174, 8410530770925733419238876, 31539735760138915215610026], [25726244447392366009698792, 2569475430167543482560170, 24456618840772916285879279], [18964760980680389281657037, 32141112196128539787933849, 28254494869542410833939164]],
+            [[1001467915781386315411362, 4034448246320674559189610, 19104701004004629963625411], [14690714012908115738207586, 20131046235877651089373767, 36476715456395800342036281], [11317128170096800913798280, 35645595537997175463306466, 681791667286063313459530]],
+            [[7171942968697513544670180, 7452937957757567821682477, 21592681013383372959955380], [21131227849015877594311169, 36211908918922531837969812, 23319366990667283553794547], [25802415218118418389561566, 31704493321397664758242158, 22642252648307760144117096]],
+            [[20618170716419876992907148, 30432267503274924909144547, 9194778211843459997899594], [17143212551192493760825586, 29187924374714639693964374, 1339060130663866927415992], [3315877540209358618035902, 37950967460949438000441115, 37773611124543088768987959]],
+            [[18689116452298191614542098, 33960112792702745420948225, 20840009284436454130774402], [12287210764816355773860367, 9636547062121259515709915, 12994857989462793960915704], [35442619905311951613729041, 13668906670365106600306256, 12916796575319719460444594]],
+            [[776175659953176134436165, 23651886626285501490628778, 14063805548042369269971611], [3821331461128367380961253, 18572143893475291123710427, 34542727574463902004135397], [7679952473208963991062515, 20284756899619363470601598, 15586710511203915552992753]],
+            [[25117710517421210999841511, 10466088148072372273062443, 19308734625066979028585331], [8179049213897730441069076, 27894452424654156695070153, 35696609573419869425831207], [20462467133134339334562849, 34856261255290739460631822, 19653283862542907207684555]],
+            [[29077902398840689402505833, 14867569840501259406432925, 24344507127469685035612904], [32336477876646684310629227, 33810897117501009549172071, 32518992014120315982303381], [20774647504744183256841854, 3155868570082029797280976, 6555991656214288508740037]],
+            [[4680785955419695445448591, 17197190970690033680598483, 34663740979257187772839855], [31954396916124515219170838, 17347353910121057358016817, 33247869356814568589097847], [22777943269327388436257704, 35142211857258225941730601, 29387206204459913295300985]],
+            [[12936452907170096268513082, 35892399013879749309413909, 16760518087619492471880873], [21333716041955986913310030, 13489531762379180236835628, 36672418704861499997250605], [23664401602591725020329376, 16543262877021377967940650, 1360952348888868255369473]],
+            [[34584975663948039418700473, 8700268871459631195185383, 8075084175838440378878416], [13427465484457062025617056, 7693797990125816205294188, 31417369355147143315724477], [33953431196156117538988279, 3794237910637494966922722, 17598784789701848121990758]]
+        ];
+    } else if (w == 40) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[19652797260927752092561116, 12954853470734667178564959, 14237312272626967192822134], [26099202261088457723686737, 17199867458447524176948292, 26471827446156475879931211], [20458619128367211278819585, 16034631062583829842389287, 38010614715406882383846722]],
+            [[19736347131152352478616003, 19075870554375010196752989, 38372917426719209888528419], [18122456831900773601154840, 193489909993567883152114, 1303041639502749198699446], [14976279847314011472782297, 11662180175544213812342386, 38526847023951740446874641]],
+            [[38274051928308188833977320, 11747707932294926811178440, 3114416617332212530195792], [20291389269642541159253946, 12901199337486358323818498, 30423478339943120126291942], [32046959995458654115277081, 21894313929768336939615913, 2146892221863156927714739]],
+            [[6511826544656792349555211, 104030103678007139380733, 13368781745948308419106060], [20935464360111438666220593, 20367657359351323078178893, 37601533981615299605478744], [20492654584375161351842143, 15832780254251227134634362, 33654657013913186618463338]],
+            [[37455957882293676025169605, 33254428103781616150513767, 22155137474206779684667025], [29843565047895739552318654, 23962398148801541356258307, 807038152482347644176725], [30989532740987171492924826, 30141850092164047678107773, 32449108547776850134204999]],
+            [[19483202660650034920216980, 10448126722180305308056294, 3290548483838285481492570], [11139248640666077377340706, 25493841174613561242263579, 6946041281125074571633359], [14361660180655695690336610, 37969238743575328449734341, 19193927344824271968011389]],
+            [[6683541271211761609584638, 27287463928944193932953891, 24274216965988712897449567], [3143399759495229917874212, 24624185646525189791293114, 3272465428495480747548431], [21533279740654685078299805, 9672872492356830443392537, 5586658915599821173470655]],
+            [[12345593438392117406235042, 36316666919785557683774102, 16111499206800540617330767], [16918299795793023136282996, 435523179502611327785890, 23829229487734732810129434], [2043474888232113893923189, 1838470764716968398808922, 14560913547857760796934699]],
+            [[36285904227092000759430846, 1135123990462850437902872, 10888080396548787807259551], [36375552791567674247863430, 29990935651252112937635692, 8909728874728045899580883], [34432798458590108648432063, 33848993920993062348411737, 14585941346711932411505292]],
+            [[2089659107591714561594388, 255003762995454137660794, 37988715222564273959694311], [9468031519070672867332594, 6539155010446104986870237, 27730578078359421208824503], [36596051564660528017934973, 19257082516345642323526644, 15188484205113529675265691]],
+            [[12527318298552631804888274, 649963948815231790481584, 3700134698710598892289920], [695533067570773557834421, 14617709470360531572349577, 17400564590978663761413233], [5113203475520438310350339, 35703187992469491403910474, 21457328095356069540576048]],
+            [[24418883473201931617165899, 32602519873923680022212897, 26232240640847499907880670], [14860827312735120187684870, 5626948333505791442344094, 38641529122186849088362690], [28315347620660261794771699, 19908051936471941693704374, 6423949992814662352624382]],
+            [[30491559598382116695207300, 23762267534585458687217929, 20926377643376762262669870], [26859369948024921890762683, 29325478511075527199359843, 35950558094223251618926283], [24720293135961449098690006, 18712948848207782388340963, 11048072347747551987356633]],
+            [[29716253419217310200305254, 12681622888158006994124749, 37110834125286668562211967], [34435148574225948100518229, 17487983105376198818532746, 16928005465192594563304255], [28177034284877336166828176, 12844011098332868632775454, 11661965785265181526491721]],
+            [[432675424079492844217581, 4975787236842607732452083, 37140309315076043868536764], [7366122848692521244074006, 7022651785064017515286420, 24083326637493633566014664], [22814185518790787601616746, 6246866884224105131851105, 24365875051225542898696615]]
+        ];
+    } else if (w == 41) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[34050997961043943830256508, 8566930743040973639306801, 4330842097714084384247908], [1136182632344281840696368, 23581777819829534111323251, 10470148748028525912453609], [5043439809031547601792088, 10727446236825405553862455, 19751244762519069363866591]],
+            [[6943356823994640929857074, 3285122277360679094496288, 6292838484850631969210768], [19547451241984621603342393, 26833908271541469457300861, 1819463783215030364024458], [2040743857524342758997890, 4991733807373957494856781, 34354729335236678102456912]],
+            [[18297587001099158937207548, 12214107581409550843994827, 16158239825266575867324565], [4550326457491863464089941, 35625241361456113093922906, 29126287090982138036791001], [6782194714935723822416945, 12068182826038427399175287, 37043643191835636155643160]],
+            [[28746164413346753988532803, 6585109638723616137245380, 29706152684558378356629680], [27895242859191252934284695, 28016829044797464796856995, 15654158037219081019469844], [26919395411691636345891081, 16845585971465325071360242, 34480541882642680130572383]],
+            [[22597420003555996262116821, 19548384629064455343668777, 23144820660467619878316450], [18928517486187475544780578, 20473722920506418921291182, 10992053239725754137725478], [21155642594318554966030328, 14637277405453738438680904, 31387295995050794260094206]],
+            [[21753367942100563980545543, 21126802547976530421620286, 35712292958604465740771754], [14000251782672713402298508, 31083357615018006827459471, 3841998940095775506439950], [2306307650368146764489592, 16881530217071140445284138, 22104505792704607393511018]],
+            [[16567636698342219902352442, 18128419173489027297406634, 29782877298267616360329092], [3865616333641671874913435, 15266654120403134586465545, 31894860619137389855747281], [13267918088510239108461884, 31554425447294376472863795, 2207176641175401570676438]],
+            [[21231012845740321109965873, 6213331563202941926313337, 21156418308381577797177385], [248888666074155942352008, 14892153469857856154867473, 15754801689488112865806578], [558659257590403880084983, 20483129880783951008015071, 27477745797852241673127682]],
+            [[29201450009054538986505408, 1739742704748820655753286, 13130788486990200487852046], [4930767375635719211545685, 5970152773521490416843934, 22122013530912438055024706], [19967410639394516978792541, 32847097480752111733244892, 26758923369406617158383976]],
+            [[10467907318254597793427302, 31819163141075120151223382, 29254707721310702305015059], [14623763586042340092215085, 11960897434391176948628855, 24159592695925066142849192], [30211866261194009135511231, 2586247130035529106557954, 35488894487162251204957945]],
+            [[2591844540746468466501634, 10706435914433458286040285, 11507468504623612465608660], [29633128239515759719461782, 1152631919761282591427617, 30877436748544072343768401], [30456005045254545184380407, 12543408123978304327256501, 33148655447423416919513337]],
+            [[36700382583832324700540096, 4465120590280211188070355, 20811530418528771083297860], [15794703316817063177942762, 22791624367601037165427243, 16238299629949523934945019], [12157606906740852146264187, 20349280055651655609923676, 27592671324371411257212624]],
+            [[31726579122094259246835456, 15318576724189009129512525, 21940548923628762746986726], [18929557550695236528051946, 15080558264544946336098993, 6111543968142045925583079], [8251933984108073690633877, 29764294889588563363829778, 25669982518905680422066865]],
+            [[38417271344449718150210242, 30483121826520749009577674, 31925379468198778485167541], [30603733217374372887773471, 34708658037593749409952525, 5176278209097775894490669], [20890700601492454385306580, 13482642274122758993186189, 33380297094264378854130420]],
+            [[8319695478396073187166997, 25508915356036980620477646, 6135764359093393288800484], [22292124987646053984250525, 26278162128498389364574962, 14571106832213777777181533], [861312970464796395054054, 26961780765843062819708774, 22880157481998813637598976]]
+        ];
+    } else if (w == 42) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[7545630869079032181565501, 6980013325641540958457100, 5107035129806433639182831], [35562134583019122406257015, 27369726427287142750833957, 4491410341411286146319961], [12043239646093635919449703, 21572263278756031670739237, 21066976405145565688488393]],
+            [[15660855192516431866462113, 12510088809396672159212660, 10115012190788654224338677], [2484865101846528504357860, 33687452443164221206868915, 27838400842341416545998419], [37900296957668067219463055, 23181582367210855513781778, 22636780045426642852650653]],
+            [[32945452415822480806290222, 34729769837425697282696608, 7859019051420897517218874], [26828767107872964136926083, 2751390426057331172266892, 35484280233208591018945293], [37822953762883741975442098, 10294015526643620512613967, 5842940291189285024423069]],
+            [[1355634572410811940197656, 18755037854713614054999678, 36784542152456966649269432], [11511985050508611491365886, 21423627342566236490354496, 27034266157305092953024361], [16092202800867127218632721, 13475746619076834302928226, 24025761598922849445217995]],
+            [[16755240073102017473622062, 16257334521174969542102093, 14990243198426844603026022], [14407192021606416761657854, 15676137987570132187670239, 7634806543001521173308562], [12384747198423291840907666, 5596776778189795645753447, 12705993690711592610910009]],
+            [[20127706921690164782245826, 35136964784018577419677886, 23261058791831174909419708], [26276350399738138205124922, 8827402097862843709088465, 1621854373984910574107160], [16923406262627481500343222, 7816200888346774431196090, 5471085076219459694890782]],
+            [[25067167885432515247426199, 24842793922914064971876737, 15489101151867250016354641], [14009782613905178367394761, 1324711269217572577590721, 24929046574092071803168650], [29278696854827343116191790, 18065323540745320975819633, 32500537191375382229685261]],
+            [[5266886781865186357682701, 7794332134731517143275465, 10800204397999232521333617], [25091505745285937984166775, 8234464941688047772616249, 1345667077641168218651058], [34778214627245073238629893, 33430518733661056260936246, 4891724884897486153492603]],
+            [[9824471412267885445116885, 37324625767674204815994770, 33542556086251319596401243], [36069199476267354215708918, 16760696063350115493723699, 8887564044718842201866308], [13331117687861880042086617, 4670234899684932971353558, 25873859518614036880623277]],
+            [[9945613187183880878450609, 37026908485979071356845773, 21782409272341404315281790], [29917285526564563107271850, 6804785364292280834659672, 208545274318952593794665], [30646513579369003864548417, 8471089099960059351827718, 8015860635276526042813711]],
+            [[27322402053184223716760690, 10172748354637253749984348, 23205357704639033380190395], [23024308177984794393731149, 4433469304446954911468610, 11068217898751419297259630], [1629077113299921027038743, 21132482776158722265514843, 17347310839931235712931199]],
+            [[13825583492878218624234390, 37383502929495719112053085, 948580637711228521777605], [35962398860826964814904026, 15076659588559899289549321, 36135735297774037504078287], [6333205125594774642767083, 5323006864987912482702288, 14927375535117080534856616]],
+            [[34428653849039578803975709, 15096409880312357231937024, 26181823891597866730176434], [31337164045455657389385093, 13906079176590193924463442, 8754785279348098625980620], [33271852452164416100174626, 33182074529480632585257238, 34375776395207247903623650]],
+            [[33879396273947076421530132, 30585404152075258034495708, 24999902576300656369753042], [24560465434490941410016027, 7097609464261643761806099, 25539776395927545026780342], [4040497602890330222388059, 34288757826531762028405531, 38681332522499895423161813]],
+            [[37056172119011206715064716, 36411799537601115553783150, 18346230545305071847236060], [38575260764145900076573551, 14551281448561140979200129, 28463954240624705815186788], [33022380974742255322871496, 26952771948365067340483165, 24102981986534064346891407]]
+        ];
+    } else if (w == 43) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[11420521471499816107380030, 3126501442745223328003334, 22112218030843521244969508], [10868032257480328126620231, 25138429677917699186038163, 26453456832213796202236895], [37622562522027776191759148, 30190547672180978178146851, 23122455497254261686977793]],
+            [[4768318473118791874230638, 12812548266895134487829254, 3088148392845827559374678], [37978511887617559714546820, 6259331810945655517532794, 36458233087471135583916776], [6203481846976249842390571, 29164968852266061547013705, 34659230686207807501810420]],
+            [[22457827136098862360126966, 15321269936080216122607507, 7013265349695170473045555], [19568799809403496484195267, 2300437705989863875766858, 1926018183158744047631547], [3757556371722562920700749, 12800513894503585730208287, 7761114706369890560934881]],
+            [[13767741788105155531168163, 32634505354421572771510921, 14462011891759957783902422], [21936104603858988989355924, 26901860786603891288964249, 12186585965169131061823735], [15183958326608487203182264, 38241007220664425343130273, 30621815793354232715505480]],
+            [[5261459123562232339415679, 32464819086187003713119637, 20760869447103249600875334], [37950733930188885491829164, 21917362400493315303270535, 26086924468248249163309491], [32624248784966274270707299, 34720439702886466591836333, 29914851919712310301971258]],
+            [[11173815946516354584584308, 2617542274727113816700018, 9953647679410017674800587], [35240627369106470943475092, 36579952835693037038161342, 33481303668300594618572842], [446211681266847539898530, 224048175496772774687009, 6620800912229897130224575]],
+            [[23342199069060484468450139, 11642665843873274919648752, 627284857150238981479736], [33882985122113528888582596, 17000153979432795290172576, 26202993863275269966023703], [36586112210286766408582562, 18844255016864397778986238, 37439532444047889614555382]],
+            [[37262433160246820266268099, 19313108690721819399367166, 9493848950212270965344869], [14558799082402546004261393, 2975628514884661813702507, 35067207264843852446604153], [5261636829930340961741450, 12044861098232479246882392, 14386893637581791782433817]],
+            [[9751720843066207934338064, 9858862435802134186340992, 20952101878909642170225232], [14564731561862022554230851, 1528695661034790058524651, 24272762349554044309883231], [5487475301027676874314579, 8905507003343802713194317, 21456810041985341634446122]],
+            [[17643179339153501219975610, 23633536947359052968374291, 35755169004630938724183880], [993446317266384062930881, 106467302779264907941903, 20597174207051063944148475], [1073797763506302729659595, 5628810849769787455874498, 34136589500349500026622133]],
+            [[18167608883594257129261812, 3841425684727080026093019, 16871513673541293487174252], [18298348962714135183910250, 18987879835513390482302574, 29886092516919401798840667], [9554374928013637872288735, 31890383161196030191840248, 29048780815183922524539193]],
+            [[37753421600037258977294287, 4885840038539946754874485, 19685937553843573189989500], [13483596322608493610132280, 21207508867508908361300208, 3944301508121473490755912], [14700479420125810325706249, 16113041815547900108043596, 5305843129641431069157003]],
+            [[21829747343692736084086715, 22908683178818233426724195, 23750875344576242766873972], [23318069371400580587843480, 26977811515613447238779140, 34320709083652222462268241], [23154447996701778444558150, 24781824294659411162420534, 2413258799102271368212334]],
+            [[21915074115140063896834470, 9840106299739973828931394, 26540926158719821458690606], [29039699588403065765441010, 16860907948432244755463769, 4718866723524742671105608], [8898386755508054015216730, 27990084497968057097531152, 32061913552555268315001807]],
+            [[22453846695989087174407469, 9817232044076315354808917, 33329513594146938631593078], [33725315290900103389258138, 35311375922038224892892573, 2692411162845859297854766], [13404006719703581580971190, 35239077041506310930519963, 22036583093455266044671064]]
+        ];
+    } else if (w == 44) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[9400182572551352731780550, 27585403869182666124784316, 16426148362817967976466884], [38681026265886094804458650, 32563862218331174549408095, 19167897156735879021463501], [7935336440360453630089388, 9428501315293792125645694, 37324164747034968035236286]],
+            [[3099910256188757949311245, 2580017641524161336782898, 20010647327021932386535249], [4261058210410427391474331, 36780030013276287770208061, 1132023183007500877328127], [12025956057122591054853621, 1355745434785542919333004, 4378679155686136825262765]],
+            [[1481306160919882259793315, 37372057391100725489017315, 30957521280763524200691397], [34729131568140656975769849, 4778914786637969665199631, 29413656595600755842490549], [6703014920133499801357069, 26387094674790291140478290, 38397303921020708848054163]],
+            [[227664599386899365499759, 37223946714984741078364863, 3966260905942408290824759], [28025336102579561804469152, 27701980792318388336972151, 8833852856470334857824139], [32888934779012424349549020, 11938586996030905318730792, 1306343600113208805888]],
+            [[26661637214628357219970060, 31135529697087684368691822, 17761473209665783011916002], [22655148982705955745212252, 14492127275174394030383810, 30177732539602827366132279], [30178338354085294459659054, 16453448382672821896464366, 15709935171498601323824538]],
+            [[38039645751558765921181206, 7969439564785917253222809, 6876891600460651585907519], [1486577937394488928554984, 28066937076994026178861101, 18364498341529283822419885], [26859915058169731000209713, 15894707688690867572726738, 29957140025664531281878836]],
+            [[27680865079512699175894687, 32683347250013610870215520, 25870767859541413746118501], [29039349313478179412774376, 30495108355487876397391639, 20286311028004563442784611], [12473150361317407535889177, 987057987714126229110031, 37179714161734359363764241]],
+            [[34429381580515352174308931, 33008149117644241771977706, 27110497051161068244570129], [35791031419591090235685574, 13006142065955704881998696, 22007025529946017106765477], [18408812239896933424686705, 24137429736698439329954577, 6690715089903383426925107]],
+            [[25255912495755201018078167, 32680697844910760430665436, 6689397704275808169196998], [28775629531038076708983142, 25695688829736280449309564, 3755955606030091114980874], [31186341105462466900335854, 1522842046152918156299673, 36490990272205269422917522]],
+            [[16368249930471486494954692, 2955183252179468317346517, 12222779099380665155392614], [11902786966043161810601968, 10971114628930826645763747, 11758349264943633595890202], [6450497331936865216032099, 33041754197414704241027944, 24819485206905968414542457]],
+            [[10753744610147206300526964, 7740251076640885510605419, 26799435787993889803997829], [10747568372188573215616061, 32564056435459750535672479, 2966298876137026566755194], [33164220138841267954820880, 20917193932321621880942548, 14866293527536540605682315]],
+            [[12047454592282578110555123, 9231183628485738161499450, 27391754197549161970595284], [34887340273574041681732005, 28455840214678868269200684, 15437163633687554379992875], [35155096983116367344359220, 4749782024088141542734572, 9048990438447165752397521]],
+            [[31093696670670821431512814, 36386263683741081137267378, 2899654688753519432333694], [10294103028649680893832061, 22402729447623881757048588, 25856720247397095120853325], [25277518933169535197565300, 38029099376021855745021072, 28843223249442706318756730]],
+            [[29720132487429339396069121, 12881962881091064765763947, 32472040862234644911103731], [34205001667479195672936852, 22104318030850994351612619, 23737378509814648596356752], [30243494254014746647473820, 20484921982053852342297673, 4072896360259934633375534]],
+            [[37027785173485630964238224, 3839335966047501073917404, 35023717609421599919929151], [34406224070307032651050453, 14238596641463258141444651, 36072230033895382146156219], [28647786555085459075491460, 16882814083769891816783499, 12111800048410751984240056]]
+        ];
+    } else if (w == 45) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[2745151182070464054180591, 25398006369176805442775586, 19702090577941553787398686], [10129633276265245242264510, 38266930178707841931777561, 2781437053602268318360321], [26198668311159060044538998, 28390177605765363781793765, 2414637408794491065300740]],
+            [[865369647596627632663501, 17765751512332415509097851, 8498339950763922406933490], [10288361389823171003738051, 1746022555144087854468258, 390748324433119299142891], [38594606187314267232101996, 15455498532721635449016927, 12420433569593279690460612]],
+            [[27714406976260959153925114, 20729654963558541910799020, 19001143972625788497752513], [28571515943691059631666923, 830051534207361405327978, 27017784765477504115619277], [7752186859999307009452032, 19731034055949054600989572, 26465717849188048137866093]],
+            [[2430092653349693718317551, 33496477252319726702194578, 9217750131414804508075661], [25463714162285991289153446, 2241472487795747761756641, 25312557803682344509149862], [1760959827810378874335167, 22625248291861575142060939, 18914686524738148111671133]],
+            [[22292593087902766628688947, 20463617908209897532117099, 6089826067582715813707508], [30342360688730904110774847, 27058090682978588480973173, 30616866277403744338278299], [28772085790860596911877355, 32747541885964865880651449, 3451656819468929909408246]],
+            [[29702199846793968319921816, 26481096648744791092409973, 37827631690994289591359140], [28501605426564372161931579, 31673388569353172186734291, 86689403079325132396480], [24806814545909780175545184, 33670185826482995834467432, 4991832399751089404531070]],
+            [[5274178203784577751873245, 12735811052773335926337211, 5240994068199067961572759], [24978991337507761342933147, 9617307336449307706879388, 37743840630750864741981910], [11879550490102873733512787, 16819268645809172762745253, 34152477136186554530015832]],
+            [[18457488435538336545478123, 32624333895160949144013435, 38576945223587182851495004], [1957008179204065549183390, 29701251499381931567287507, 8796613235811451350892430], [23586507036099287383275039, 14432326785687842826257266, 26108001480260521307625009]],
+            [[23905671515102481063355324, 24788542179070422265420797, 6120473035554419266287202], [4801707050440642542937768, 6506081946646545696796710, 31111369964946064440517784], [30551365777503472036398108, 22488555720629511232865307, 6845436669852436959005233]],
+            [[13859458437346581190395103, 25500088112416061469607471, 35885955365307719253015260], [7775528890096336235522398, 14604682004822071829009452, 15790112234976164983467622], [25905992030860025329881719, 32278610544890432920891966, 3152737097846697954131187]],
+            [[29719148491364681846618346, 12539080463112609843051808, 4160264443996061767592660], [6668397454078246451421756, 36910609579464505204688319, 29574037308566533418703428], [2879970910818197527552708, 29536514379501218956800843, 22346411047030496018774829]],
+            [[17177253026685034754927735, 17246704680186703193958918, 2623187955109230505875333], [21094041547618012180520006, 9440093547068289685296042, 28989050488438027617032318], [26643128988114127536682110, 36912124435455556464492789, 13591607734259203678657769]],
+            [[18819276101235017279716760, 30930023243130199146407302, 28232387355501305893328817], [8929506534575289948038121, 13073494940107569680405287, 34496053377511126193763596], [18717923670273237425457264, 16279861389130575384545686, 2386954819402968105535652]],
+            [[9529550877849110658848122, 36306717719737186825121333, 30541662654127118407092196], [8089674037489420481149355, 36869066936833123849800303, 23076795327634698539409671], [38101696778001787618757851, 24003814198379642823025266, 11642660666109994403351045]],
+            [[32101954504408948043329350, 18558228499579090216350443, 22155449945476576415346425], [14777517883350108482489875, 9514500585429388771666903, 22763863011165099556186214], [23552303810224051503642774, 19409129159161507486022708, 15486374802608513422892104]]
+        ];
+    } else if (w == 46) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[14546138094091820396347382, 12085959081296674543623073, 13562488619606864227264517], [26774063015888211399640640, 84683952972092940359729, 22409328261696040557902006], [21083616983367578102984042, 2879888394071645093019886, 26333729867228208102899717]],
+            [[30693981009792435337305006, 8809873438419411136739677, 26462801876367581566550639], [36560711792898903687354958, 33732096433412727159733679, 1144240866194592336771397], [2446123108180810533637181, 34033709144472111560402687, 18968175180214883669456038]],
+            [[30350310543805875249249209, 17546512760679738215717641, 13852777776516968334387255], [26307522509042315791880651, 7514483345107821241760263, 4264252770245614600645545], [22277134580278643787597950, 17443636862361590869050972, 34762855544391948395605658]],
+            [[21000783715987303013333230, 32137408060719713742286224, 14586524136044520024146899], [25685421717926323233940276, 27012841577981869288044617, 26702780233657167127809985], [29191301607335837891332450, 35255895884711623697739619, 35765024887435931188585371]],
+            [[8117493819976759505832128, 6032135496976870149711912, 19117765876185580878540740], [25840141556087048842432413, 38541817452251182121465912, 12311156471322145549587705], [35142651345699938816453756, 27279320934845710500118454, 9210732369356604340215718]],
+            [[36347907331449577516033009, 8679263340552032307380212, 30779891775426800824352322], [36111225712014853666800001, 10144568510046900959977804, 21622190471704667668028171], [32376681130543470154535257, 31456680296631466424394808, 6904663596424267473750810]],
+            [[31605649676616921220801045, 16390002196122682261399650, 12382619098182091984465943], [35786000659574899090523523, 23703757997444080179526005, 9549857924391856831094448], [12663314185087091659569110, 25323993411412168685346151, 21014751657114340587073941]],
+            [[12172607965358351932031958, 3309252541975250160093373, 31601955319811915472926534], [4319246950905208719044580, 29760174068210660039920924, 38023924167909715080750710], [26835316530496760380338880, 7388343995094920960405074, 31197615470720875114590090]],
+            [[35546962690492833903052926, 8330355299250269318416389, 24804219548789334358751813], [27758982926417757649104495, 11445950316581129458702115, 31253208355270153699392366], [31364817145982362391940076, 22650025045508828921615175, 18765215734503973328644938]],
+            [[28698993176091295297433962, 20197125455627446612113148, 30331241926172559163767204], [9597394592652174354171153, 5564454383103620013971804, 21353735103609689614710389], [840967226940369850450298, 11368078526075034944521375, 31262475431472231819204801]],
+            [[30882193905179429929176515, 13441555816665023230146910, 17750422447614754720960309], [14677807467576351690173630, 2522387599866173155166446, 19176420656338631840742739], [32586993988035115778497105, 33237930870722600129754297, 14257396959246124123065180]],
+            [[28800830712475740789957762, 35128169682246871910281899, 31917342612852417415873555], [1415461023404922520061867, 30634594702501716016478091, 4854295207010373653376908], [30335414460874707635740852, 32983248997003808133657225, 35187621350789056378373432]],
+            [[5200327385071173564542434, 33132865062724312175045452, 28233241026462692159065108], [22906204658486415920157223, 511755821350857246240300, 10832105568994767075141557], [26269433803338376123773818, 36495143548196140211881735, 10219371543000471896858962]],
+            [[25943784995437449488427843, 2550553096965723491806745, 14932899361550486067485809], [12645520929322449061562527, 8062565607118869308313923, 35547572621252018990441527], [35119250606419555622919803, 20123090285348612932817004, 23482196719260407300812655]],
+            [[21806550051337972956493342, 12142560111425706659137271, 8292422065546586017467788], [38441735155531150483190213, 18387716978800110063391153, 3295919461232131422632657], [19262383740487018341505999, 26958978284772370100529705, 698214758684112483252870]]
+        ];
+    } else if (w == 47) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[3736583965374640804074703, 11830381608352097068583757, 152128855620422310478772], [25737663800855337198393119, 4234440652372336446885118, 9644016173035063688068553], [34597614640034154734733354, 20884419768681660875674683, 1251540698972475492663608]],
+            [[3441323810266402730016607, 34746941270137174428432766, 5229243893377810570087986], [19151914165869756750586439, 22596122578410983898068763, 2458002410286509566844000], [13390080146789019011509411, 626852007985642590662199, 8108693183810498074002250]],
+            [[29274518026908794743310589, 20369464093664331635709139, 16263027081281880854738525], [29585803596587115225939667, 14509172144718977539637474, 19888654410726742300570707], [21250766314983131981070370, 18764835224590791332627672, 30561025314011514635937327]],
+            [[2172525380689721197381071, 9695684865045005190082843, 3311695488548672823338041], [19997241730898432863547038, 28228833281975157520299745, 19524395341362259956104259], [31658156535578130386067945, 19865558708245048119142111, 30962797186688090797819946]],
+            [[36796283553666432871680427, 1416662535860873705943735, 8071981109412973674356361], [6321914621697712674233123, 3415283971587545458332633, 38420879237920107744268850], [2346330797172560083461802, 20458505808687556739482065, 23490986188377639141438890]],
+            [[25460538365207104429229909, 27311453365096501948673575, 16377605485446486468560779], [21119785185823369880632424, 6601596743799355818071183, 28071113099980364291456448], [8303602512812319565725160, 9390505531604781919384933, 24474561971829093812509892]],
+            [[4721240354310509201723226, 1208031552528763289364184, 22257316453880299212383654], [12943363873510062126549436, 30852778021200994043580664, 32084732558499928314216562], [17536289508167938638037216, 18319351463182507276365022, 37703012436086450137382253]],
+            [[20733045284621843327187245, 31915978424995890910869202, 9034200083803848583621086], [29538062128513354984515296, 24886116176130013461814250, 8486905361318919967511525], [25178165730114464349966993, 31585491398707360836194433, 28698108633682068649855606]],
+            [[9734110786414926791599463, 35539837453316124233996990, 32930195247501251424328960], [38184805386850647131350085, 8465662194370967080502030, 24280049560807350016008642], [25657110323540325304155554, 2547006353625924711520874, 30072379486233795618085416]],
+            [[10315170679003377161835465, 22436983247092118560316407, 27573730159529103129710981], [5628120362989236939663133, 3001773055543415227791549, 32419715509411419166769504], [1353679565169222412712686, 24434322372930278152705483, 22967086725104312605843645]],
+            [[37283421884521955788161030, 20377680711535832786676101, 23331024271254061339007525], [19861784778481295366942704, 427906502661015896487139, 1259842890365927525324077], [33994482503773541288390708, 26123200557461409027381774, 3528845964120079085911]],
+            [[17701046975950526442029023, 16309978237197055143344488, 1567984015525978745287587], [19228190864916372732950475, 16743081085747242645285824, 21372121034882379517324646], [15838378559393545898490730, 17214086249658077033034645, 27846039019340260122850481]],
+            [[37676554214486957814031180, 33324177925504606688541037, 26925936264353971401357624], [17167910809730660191832497, 20711220923113604607859276, 349373300785351309569565], [16328742650819367248783170, 11490418530825086888138281, 16431542442992868331577063]],
+            [[29974358999192815389531464, 29337265209867084568872587, 8119694261803696077082138], [5368224054252347802688334, 37239994242232075527986415, 21749326641056014171044929], [36570262595607938679160449, 25311288673159467066357367, 35494033789596001630378008]],
+            [[29770736734267379573130631, 18618296425805672136925527, 8174714945138131722653125], [10298215253836079860700996, 17761288829765824097354165, 3465618031994253966053958], [22703834071115025982309916, 30133957875005620574444528, 28902763581682264461220282]]
+        ];
+    } else if (w == 48) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[35861225604631560210249126, 32050239954267242388620631, 21176690305290053868532858], [29789695890588063119448768, 36214331974437373357826265, 37968679513998133973089020], [21300747363533433142106742, 1284291346704902079093000, 27313616613656727581160216]],
+            [[16701913777369473125268753, 37047664098954775827098024, 16445301577131708613771429], [3779749288069081023792057, 24536852421784977551132470, 20518068488442408046351552], [1486368921243633010008371, 9377166127215674818989261, 32076558129625211211830966]],
+            [[22011631681079610941302367, 11958878174784889900060678, 26723843997597832849290991], [15805796305014783798260451, 27203415036404120139479940, 20919027569123493805856012], [11144298860695406018853131, 17619389981039651172311816, 4438656560003992477434066]],
+            [[14101310722638782587733039, 31146852610351567266067472, 14689863590730786840977533], [3382105700270861087780381, 30182204224135108442921267, 20757398310300721863146231], [11415188583457842402771950, 17163378365444207645354710, 29870305888462233311600825]],
+            [[14630118655019605134709613, 11441599078504942420059216, 27822993010933596189941057], [10976208573890666115332668, 4848979802884059501727735, 6331043974387145768518044], [25615312495495299867006965, 6942458244874413711744205, 28544594902796014848484493]],
+            [[25204954867688016415105407, 36114902453079279297816628, 36250140875244606536974989], [37716332662209766530528062, 16211828070356489520230140, 34060092861667826727600079], [9821595214185181433900108, 34052735810412251150669012, 4292896580299550083848605]],
+            [[2639945140837451090017768, 20539985721856743660718396, 28508950498017427968561129], [24132475089855817267747112, 37267030890084530079167391, 33711640801572106643770501], [32275343696930145853485722, 9784433551279811253439760, 36284188421772776832918943]],
+            [[37840434092034726014150588, 12733017322417647242344675, 4442031141029447610542853], [14817207034170847257700210, 37159005507348456919355732, 9047789823448449343449183], [32744551339982921841874343, 38514868091379251445742731, 21303923873699276358575229]],
+            [[34342078702469215019646189, 18125758828311186316008632, 6780253998585748740441120], [23464614477866543914693259, 1339458617512816449916740, 19030849478848662667423120], [8906966017121885990033082, 16788652086887007286269536, 6286450376666418123823370]],
+            [[7751567900846043134397861, 6318670989789148872230993, 37632925071029358555856966], [12767974268576622376336699, 16950415657767633714218539, 34694800197788612817671848], [13125391102551945559006696, 13250761102522002953917523, 10960497389315996786458178]],
+            [[2525271553549755615094452, 22009011898823228989104807, 15501080370746694640239444], [2277382932868230046507391, 22172051295966479983585130, 20661040417668334006894811], [10935665160629079658932614, 8430508998438576578956711, 12628318926249995486351248]],
+            [[29581005100044533552801477, 16960950315661311765716345, 20478952053674243112105142], [13750244813027209557710090, 26510539570780883474882087, 3306009498474915408008706], [29483683287510470543081170, 27277059236034041688881846, 18538772219763284514636034]],
+            [[19997082653051571056131749, 381810910842386137684407, 37067534156827951624271473], [14727568797480860889599144, 5342259921197852625259787, 19310257912756870920362052], [8270963556612786705695567, 9740341068191451855917358, 20246818889220905014957293]],
+            [[31104251640695790268564349, 21773023642501466331141974, 29243220159409678612344], [34126189720777538915330840, 25173859415608625448842225, 7577244236561997054409939], [71820129891620900862843, 23957512881081512212082296, 1657031326159064678580625]],
+            [[20427667816196819898886877, 37077132433853620623537606, 31839444989551570886781889], [11443694944772996006365764, 34991340677819769912514144, 18719763582330589665579080], [22785859899155571369971606, 27382421944023702499398472, 35790394975410811511417728]]
+        ];
+    } else if (w == 49) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[32335490875166116122799723, 21976898443301228810514564, 20780886245827265333253951], [25606542576864685588202264, 12064499156860723377120960, 24778455973625639241267564], [13763652695008693960485260, 29635822320225393640409435, 33372511562234232814619705]],
+            [[34152853070709755888918865, 36582469477283006572281608, 13648987361264269636752684], [4993043303833171120664712, 6262881520373859631948471, 28802304281231864326303112], [37363374810041620967674586, 9080429932648648624686651, 31107841351572793794293061]],
+            [[15508592594276949882439837, 34319295639319687813598390, 14106855769382362763307458], [25611384581003761022534781, 11381560027731185211170722, 9411237272242000013555332], [32279974907517773266294128, 25500332756206121342472301, 2494290093845501857879206]],
+            [[38622417985653390751871623, 37808401853963127362579171, 912549504844206480281424], [11394088994681901704275179, 35694501370926745572360111, 11006653957353522722638114], [28184009531092576722244385, 38063644705342513945921030, 11381183029498616564917956]],
+            [[14276784951414856741295710, 368659281305832604113500, 37721846680271924759069975], [24360246729654600209708770, 11327487214919227764928585, 2037779351726714806849865], [22963910891245761920119903, 5030609302007096721715794, 28563782644255308873590942]],
+            [[16107811443347081195514460, 22953451615804292288995132, 2966011541475884624714172], [38661533051343692717333620, 10846722725613647707190591, 13537365298834799242060183], [6042931794214439075298926, 8281017181966388543575135, 36931696383189238118188278]],
+            [[28599422740149018460814818, 13549641470542402473868836, 23341599018065150846671666], [26942851843553638067341162, 28431239264202626437544113, 12778271495903672597260678], [5122100392023657813845776, 26806873918955332949178038, 11991662105301148016117512]],
+            [[25546658890200130205846881, 22745798390829368798496628, 24497979402890665772325773], [2117276597710365351413628, 22272440839394654347266309, 2419418303070175155791751], [789278363564120249127907, 13023942213890194433085035, 10803065114139471815771627]],
+            [[38407746129672384764359712, 8518895105558903360848260, 22632265884312949457045485], [11089561603457519031226337, 19185360856912494682347716, 11137896495257141034277810], [38039368263021293049706811, 30502543996234920598868673, 16280430922537211229063247]],
+            [[5776218828487823215360230, 18925133673023743791453360, 3432659994155850107413738], [33910242667640440025459220, 29226351280555326440452551, 6291993885798685458604585], [23261653851773767744830405, 10720544311482233076708427, 34692970077909988896117201]],
+            [[823968328481036880958331, 24542627682906769050684181, 11589581211093297248098153], [13284038655071668555088635, 38270769323603977775021888, 33029242930883055043419693], [29216522321018175055995018, 3130610317050878833622861, 25923031577197555147545466]],
+            [[16978273953455291810467483, 16631251541365597271616120, 35258288372447177384498697], [33615684885430740979568479, 19506939960843414610971646, 26185212514302262670941111], [25546380778161357801271898, 37411996945419193383765433, 32613939531784051463362335]],
+            [[38557493705312107529994477, 14298803346041002022971036, 17843518684985900688154100], [4407923419968771371272752, 34909412037166652041255906, 34782673520361103355586464], [17841848085360929064063486, 2019968830499087087165013, 14038224633730071024556620]],
+            [[38472325826763124330622920, 7612980825283075485451702, 34649732818394203442267379], [5765847359443030903748520, 6394140080707756370933580, 31989400745116043524906888], [29716911192451585522677310, 11016709562600368977618131, 24114280616591558848085461]],
+            [[2541956043840830297443522, 2044290520310153516333319, 20836001365332508796050487], [33514628776995429344543648, 24629195511805374264558405, 570574474559926379824074], [22162468940264901994133893, 31029868857905136284303228, 34722353626372909366494667]]
+        ];
+    } else if (w == 50) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[3667555571483033941790637, 17644184162119862921947061, 34383828492521049822696320], [5557002974025656345225129, 7940086992820053056263858, 14197525726752303490860057], [18315600909161668248761549, 36907940939596917366974245, 27339608743530141006730604]],
+            [[35436705152569147012818069, 7239491886946381884462763, 13821048990798004868412672], [1437491129961477291760788, 1574895771645791911949524, 3158673601117582821505450], [4345824053150997752570316, 31820778268311026150174476, 11665178562399690983479055]],
+            [[35056707173555278493825656, 34515800329787205900811410, 9581966586719626164578822], [22155096366790030848284942, 28636770268996626964596518, 18134233392119663306448335], [8183632451656594501187627, 22961149618948218504424768, 32419032102290796974159049]],
+            [[19341628462039388221064516, 18574583739913254285231864, 27324604277034466253871662], [12965565425134778289884915, 36344390586966242665811824, 34834587907959208859911433], [2685932346843615564471814, 5689563834042453747867185, 18650263252546282935722670]],
+            [[8885832680327030016694744, 11533438455257023955055051, 1268079326893965627030708], [32081713631380278940804565, 11836086025929457076550132, 26928698314289398714973199], [18827651243755490389613230, 16979133569108702268216305, 21131399078170887990670219]],
+            [[18163723282590369768134443, 23174295347660647889704569, 27312893903008904702658189], [33866851732025097046503917, 10799464448608807287035370, 19177303924570125041952807], [11726700675134465103531462, 4801073945704124003906086, 11491328048529831219441736]],
+            [[2299577598883934542823172, 23690124551486918497334195, 25591740736701402817021642], [17891521036678778378970434, 7657918282186807698561054, 4209962350136955173011955], [6960397980552881412723242, 28501659376273792723203325, 29898126445622401018981684]],
+            [[36078029500184623972690749, 7885380862157942032164982, 14008868351911224311357618], [1230869520741539547326580, 16236409445131461493795791, 29487919672919035854891840], [11511760832473032962522, 12740883424568773418521761, 18695565884966888196322816]],
+            [[5831987304644502542461077, 7350801757811218130413019, 12127713834087814991945998], [2977552207903547522374384, 20238206648304865437291715, 7840740450805803439983713], [36219613329549976823172888, 33443029064100521609503372, 33515379594886131281129870]],
+            [[15247813628284366201377996, 19440013422039902542653092, 8259902805898112090234868], [23747155734798718094314227, 24160521666639061367875561, 13458238196454409799977370], [13733876909681217035661511, 5856258297976266129418089, 29600576838423692829285740]],
+            [[37765696145514716784279780, 25418328300997539878301067, 23908970638171330072386932], [10832244475639937896879803, 35558813755066875926364130, 18503402418162613858428741], [9079178140771907158633445, 11541195373517669316569099, 16725445318253511582989799]],
+            [[24057770954565400477028465, 28551434994546884270869772, 13897276480417300528739096], [21269331157017956714982836, 14887066295481127699092592, 26489359795898254929914855], [23401967306591717979096213, 19731184277372256652251256, 11925957915723138075855641]],
+            [[37874053545541250833717726, 26139894674736975312169977, 35330391923858345654381051], [13514743350859280192506535, 11049938040335522562106322, 34272242568413542078199216], [35997436154274106359919363, 27546323480142438964017233, 13470105370381425058511775]],
+            [[6780559520950426941782225, 36634549937242341171582801, 14645654360350601084644321], [31533838716906612457014847, 28658627649195757466993262, 19404163240034623748275087], [27231306329234506531708796, 14574765098576298788046471, 33790549806417907307862506]],
+            [[32863673397094117340737522, 11612845194696435983378441, 13532977481875067151132272], [22483022020235164076190650, 32013008233686747400614512, 14565954938022868088721362], [24456270360720070220473999, 7730900731032466947150436, 34189143698046698966776123]]
+        ];
+    } else if (w == 51) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[24333160010190376901771759, 20429940947852405751957983, 15153596193181368500808355], [7290226717087751043954129, 16916278150812985653336531, 25914696958218510691918180], [14761565159976859529330111, 23439397393673282419155973, 35982872433564698377594037]],
+            [[30493344485489981340420573, 5641848065185448950496739, 2916602539043467640129693], [22965955542823410911441337, 11238126514580757385367980, 6874423860109018589020250], [15371365073032291528685493, 7114063084344958618984814, 2042092632290069035415554]],
+            [[22623316834185244490397815, 31549473403551588473153269, 16368032749768784555356796], [35163929056280785010720860, 3993094653229870028706467, 21373102357521848421278954], [20949449114699247193615328, 24606102108629708895631738, 28600095170969250661089541]],
+            [[6890768067362872831782625, 1447423736573706068622425, 30654695967218009683838540], [11827174866909242672263170, 35234865738085784509926224, 10509299903447805011744732], [16312544224040033357498681, 12808531187402954904269652, 3742946240425549943960229]],
+            [[31592283587742939563537951, 5561545849226928351048278, 21489870134065405098783212], [5701991194123786867987633, 28701779872982196000884621, 20193470245046462796473479], [1073223489078571933520281, 19221280145507597655195205, 8749063157132246745890559]],
+            [[2997038104556669147153068, 9330811607031600494169751, 35288824418651937538262418], [30114505133313305820021039, 16806414364969871675236058, 31561994324916388187107517], [16501906128704392269108647, 15441494771614354716820848, 32058636533306245218551421]],
+            [[37618315547465585098266073, 9852272912877242471182994, 5430710571827963698275119], [21196073993018741386832735, 35176779503328732043892234, 21962216346543910557460700], [7385892156767834811200526, 38427521929527205384506315, 35667298815236177972541223]],
+            [[16498087800603838570625478, 9748535013197857344755446, 10083788851292342898944459], [28577616669439450909641477, 28358301557827838777181545, 19085457195809830415611573], [22697220411385761069986204, 7096230065909333154995597, 6026443559314602942687328]],
+            [[23800562350565498963742767, 17762608636203160549303710, 34514571708885154904619915], [8907160541839703503954307, 2149549291999780713491889, 36842907759257365061113577], [36676457621446589617452479, 29954596329808758915170560, 20332537220094197772758018]],
+            [[18587941197667669338566458, 578987603108463181290636, 9653320399322412306829377], [25508497762074079717176617, 13980353406887817570774333, 20210186760290848908677009], [33457351339724203521005693, 4574209046648756925902681, 23682603347071753477033764]],
+            [[36408173109797286272806091, 9364089050265461441637548, 32213691827400033884380433], [2634169112118673601355751, 36960859865061015625064549, 26798010450706028207578738], [22061957028148521897815228, 27268860364278312753387151, 32424070845194387327201564]],
+            [[36187370374609652277945342, 34997473890992674734662061, 31677488512048084432655581], [1330675848205742112204192, 32335474650118950321579316, 35645724778024963427733625], [14391933212302933427307337, 28590865045324659246122143, 27270016382951477708653168]],
+            [[20191953802090405336501074, 26689528456509932585331689, 37912778923159300207011516], [9346695154785689603490235, 6647033877844542296848536, 27317000263770753574954774], [32066420244989670231361819, 23799485764068820086279006, 8642699682388836135533268]],
+            [[14739139309317083084634897, 20150994411742478631331934, 4000384639613639707610408], [19459269284554631898170539, 27769784490676361343087739, 4825153173553369083890779], [3197524494184890516289028, 9492888756844326919318462, 27276869815037580190304454]],
+            [[35948252975698642627999774, 30460978312273509218964773, 25384707830709664525439295], [37378847072562730393354947, 18481134195106221395169742, 13437924726398392301063344], [6213713334540659135236305, 9640436029519289410105598, 394326373495412096881020]]
+        ];
+    } else if (w == 52) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[18223863223878461404661067, 36567788158070683193269345, 36445467834807587272957953], [9492582931064870512540436, 20256830964545862159940824, 28683631982539848476611320], [11144661793111173016873614, 5332472106833703364020762, 29562471831506408600349668]],
+            [[13792766837554551038092646, 24191096450287287402253248, 33422990788835984126232268], [19607204361787453950686175, 8281962433360115897396535, 27545177141054256375717869], [36785124682169056701207163, 29168442816220601992959958, 36789281226717112366767173]],
+            [[10594996676467804410554050, 1582837562633753926124358, 24298869161796249293882137], [32679196993068580523176820, 20038958861545174652667517, 8358668335109441282333486], [17904399458075748295940436, 14901560179686196042360507, 17380612740796253066734254]],
+            [[8407529686891536144599699, 12281201893081091480963847, 17184729515842051494551914], [341094729109372194418654, 13440992345240853480472930, 14795493241361031564522680], [34750945331130108348831552, 4373046431596266969059276, 29974751332695729284190527]],
+            [[25315868177078840900176806, 29143813468048647792819682, 3368175008694157334988645], [37973632565723081785246887, 1713010500144836922574956, 17636258460292020640965667], [8221397706525167520049863, 35021124948403980637286249, 16014685063089585112246079]],
+            [[30556030937040808075290570, 4930737084106065511864774, 18506788627473463531370402], [13841009849045357394111128, 10315208518808058524285128, 332498025656849694769778], [26373262129719625381975933, 8677718866419159919473476, 26219210260400343137212774]],
+            [[26232638837561648803769879, 33477597995578610468098139, 2842036457515815729513804], [3686938640041547039739650, 9767449284355693392950743, 1071380636033142902655066], [9129803183554170654388216, 16145023446695741922482005, 33356661666685372093062249]],
+            [[35353732757544742133535739, 18136956511837592556074578, 2707176273676564855334000], [15386635822405182858617378, 4516362688293470297410621, 14611800941387790922237513], [17709173078452132554105808, 26508502333520478819960081, 11584701211798289230295522]],
+            [[20579918625847130747310103, 3337622851052386291016472, 2919626088404179962071958], [27948648961949402957690163, 17952921322188493307204494, 34961063188622493043423699], [30625166295755510082940760, 25536730918205323318339597, 21593119507194117852180748]],
+            [[10532608588427826519857891, 15929568069597214394666311, 15400593346042201970925209], [337945683669137020193067, 13887259596641665703504610, 31458889821583592200391262], [2475170688923080587884322, 20748609156653492729441558, 16452189915382314477703665]],
+            [[30131870170896247807057364, 16488251854195713889220950, 26229203253752860159602457], [18938535170869265183522885, 24141658984058066037676624, 2831289670861584194876744], [10221206812029139818210649, 28777061508722892251829212, 9468015808478698573469922]],
+            [[24199922385486864800170087, 4721938147664887587042352, 12895956773285541053414392], [17397427087741121778634919, 14950366432171168644684454, 6913952780119768813295234], [875735134596670373390426, 34225511842648539597216643, 5474505592349315770918196]],
+            [[992038992505854175977906, 22846989481439829314851434, 25071489454754301843783252], [14680339359506284497362506, 18316977685328902130840420, 32828506903642916455035329], [18914736305667621511001391, 15245184427223805656490252, 15635357157061828011715806]],
+            [[18532982067115048095715587, 26654523134705917760470219, 4702920424237958022839423], [35588033533657707124399096, 37897124914899437143551097, 26206414845445817311442844], [28426279869293751921062794, 8305550373142429164186983, 8342163404393234372982973]],
+            [[34472712286464287939016983, 6075297593923499756479169, 4846928499147146331226343], [33859404527428297072275507, 20715034711132348753219719, 11247147470842071357841271], [12253051576955328664252269, 1504374233900300971671263, 17736198965055028808209911]]
+        ];
+    } else if (w == 53) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[31019112376213057282412425, 5929125497819589448765963, 22084794789064585769655523], [29501915040652040489637561, 15487774877703625959194263, 29129281060368369375612967], [21537039495692974293051357, 27100927248583509186948367, 32104889592123594781068586]],
+            [[31611126274396095993934823, 29367495132724710477952735, 20108567406108301983300859], [36518855357179136651337373, 12723873585129582451035335, 9481074154917895760278259], [8986249444655133335800693, 27668047137954750945836780, 10915918073865374022516470]],
+            [[7406536785548155781290230, 21105011397278865067229274, 27733017196633187517710369], [4646983767225729103739832, 7068790340988930325256096, 13230107277897607517336464], [30562508571904255418150291, 28198002189398288364203760, 9630584975363002469057868]],
+            [[31336979093252916217911550, 30353141367417731634481564, 16319907174253104503614224], [36016301372997915767273385, 21774541874080991275672055, 21997526166353318892636044], [10531282815333917893354565, 17265854839531715119463945, 20201882929472999922339186]],
+            [[15512518375723694084796115, 8403260367561085614608925, 33827610982943881057785119], [11456104376606514193737148, 2936302592106867750423, 20918399520423100786521632], [293466763051290693311599, 20924004916803661390808824, 1888092177912399664548088]],
+            [[23702384225539643399169684, 15972204277958680591608340, 27225826354945067802041323], [10371630659715288958003489, 1875114526596783953951174, 31282207915190297444934496], [295502927192244328365492, 5317029646251786724251661, 34799904064327909993946362]],
+            [[20250808368422295126720142, 10458010459917748831357497, 2485004163555845632107446], [27930098550881928939263179, 21416456704789431321712050, 28008724649605257945864517], [36760202117223552901159172, 20426853533536265126829094, 19639775642626193930401321]],
+            [[35771363825911798026876833, 21171928996030164167557224, 18245187065045963549581473], [20812776898984368852240225, 22319823806445594000556926, 22693517153158014431988704], [17416840572950038894949249, 5561803667493924711730103, 29472018966949500574444962]],
+            [[715791894619872068364946, 8252920829425341933776372, 31045543251921391918770135], [27224006601739486304809019, 30728226936213591880470837, 14978542940174183482494466], [38306271586018345691769119, 17541261323514859338118324, 36899240360748400585163168]],
+            [[20456509005878134631942214, 31688812892421180438026393, 25727346523108423543677464], [10104365230364444450596712, 11979059585409018535546290, 29815115460680387113964082], [24778094465694947039026898, 29133369403083852138516646, 4261228996493155852232209]],
+            [[37332785859119143231277806, 29742432646491813338307734, 24662938028849487468046637], [23003160054499153632577182, 31951134400536612496738715, 13181089308032143192194718], [10268624163085650312993216, 7294108623729747614251117, 9413542031746441871665776]],
+            [[7195399082488812807410805, 11138156055665737716846704, 19955048656098595418583088], [38306367824994473182879268, 19112788862355427158523915, 30875081669155364467546429], [3824208344998458982819399, 15158624126861387873013263, 38351591515628230475904849]],
+            [[23039162545830875891989831, 30539033928567919011936778, 29328418061236629864808337], [12356936526148483118329002, 20325989595389800562106141, 34722471539125245399429158], [727684985122502988189098, 37636071970858295679869926, 13114400901533784421046339]],
+            [[33277958295191609176021337, 17813783069512057961645477, 11194874008708205929723146], [6484362140418676597149788, 1204899252734255364212608, 20885043373987970696169594], [18761076396979778886906386, 1009597881631153589746080, 20211356445519862681654781]],
+            [[29603180061419588659409637, 20736319495451191007592842, 5022514608221443477848293], [16131415659172588727536056, 30894352973552792686236025, 13877231690167659912677209], [4143350950771285258050895, 30641291403528502975986355, 28811378330912244251661087]]
+        ];
+    } else if (w == 54) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[28586872317738410939513302, 6135011703545011265070011, 7601690453737903106626909], [12158430840141523051308654, 38369925218479679370438538, 17549346313140502596123791], [38392800342232739536686752, 28908253936808246433690064, 9560210115496026998953160]],
+            [[20953745116175051521628210, 33408089748756975049953727, 36028574440547454919540157], [9737099509902393632330923, 12051159838336176931925640, 35055219821063402288039162], [296568786895885797924019, 26924187158780025163169325, 9447589618934204887948787]],
+            [[2626335572389804335242241, 23421027986229880566956221, 23605879432314330363075958], [37006657876972383380776274, 4195469506845356562487994, 3464718691338470987571408], [5645257717342759430558619, 3762801155778888766217890, 37304140893956941785119065]],
+            [[15516805607698125850623378, 16832578081284967275592452, 33923838164315598081451403], [24457585019350230577042119, 23182214487895658450051584, 25381075303947378001812271], [17930335261436613893837909, 31384380916728681286284077, 17394338405018321537074925]],
+            [[37525678552522700773017843, 9090709402344785674778797, 25293711384620868364996579], [3077539743415900173755378, 28086809002702218479337860, 31919197075002536585990025], [7071705979733043919122892, 22044258604627027244199527, 24720348218323931446784884]],
+            [[32017416911023975261593610, 21677905248021483983963403, 25695180761006398575072789], [34695511572042090782938311, 1938070877853873911293480, 5645781695885267207643759], [25348162869448628685832655, 10948896794350559246049745, 28959100391384914280673949]],
+            [[38579736574340419272682284, 37108357487085687013214291, 2795578382058470736358076], [24586396692819049022999438, 15660585969330958954039734, 38033052300293318762839073], [18303407183406749186365481, 11889198456194384224556765, 14310821427873137230666185]],
+            [[35076991395085943439823711, 8226136248733566419663539, 25492165209935408789429714], [28896721999982587439858433, 13414059160619623070170478, 12888953320808631912214712], [2555112515748434257855567, 4948702142827652338248610, 6017476833605601706461907]],
+            [[34030396335157939272713354, 14026446323517903695449017, 38413571961371335410953781], [36814415880463508596056540, 31500415205784769521877860, 32696653272782439210067217], [36142502933011559206408004, 1670328576360002874144030, 27657342766871375867450434]],
+            [[7083010916669786164609421, 16319237214774894294477116, 30027493868150011561971468], [3504323626655003680891704, 10575159517711190224429022, 12960294368641622381646427], [19629548159738932966909774, 37598149531730715944846007, 32240182599156102461565815]],
+            [[35756247122108708713518230, 37716907607896718511314710, 10799695905428834122560353], [36915587713970725856082887, 17434586775886585943060829, 38366676914557359915642801], [7528771269060080108686640, 22859154445588074937110826, 2873780092611259928802309]],
+            [[32377728287822772098939880, 23105745001777298333324898, 2812106233558347290522178], [34512156609335433023707706, 27205279964790745520788606, 4056719931124723312368812], [17998474531723145090766916, 30855505756662540522012297, 24842551379800068821993893]],
+            [[13524287778031047753424054, 28277916387790596654317013, 14065238330477204052423341], [26355610064216222251630720, 35015837475216238905655551, 17987924076609652069879215], [8274739471700611082619140, 18717543013163803705228077, 4639991676895667604326878]],
+            [[16394562860338094067642968, 30617300590309641729867220, 25258150885213761208846719], [3059492075897416091976462, 9370589289236614055931965, 14930377739513639862641400], [6260486454554210119464427, 28979954691826266339680347, 33807138745388358663450337]],
+            [[3413445240081790899828776, 6522507424295579327092058, 8393685910195192366895067], [26102216547388683363040380, 6769244888060775673228614, 10259111296323003495282171], [9468898010458749265135671, 25671948432023456934899188, 9668996130886092680604614]]
+        ];
+    } else if (w == 55) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[11457545677435973415414783, 30475486288674505093921097, 34357470041716763216871388], [35514467090159150935262844, 13022437947407872073391930, 18597668029008916009638390], [822476580624804913010569, 36737326245862730422967549, 15773156386445593470158842]],
+            [[23425647146924181607006025, 4512781608988329493884579, 3132794812492170840110892], [28410180811467968078361012, 25634079546731869648432466, 33072638783442233294303389], [34116942069637846863479171, 33491766742352017601302026, 15480271182856140068905032]],
+            [[26973460728754544960522165, 5905938313054544211223421, 24925478372009005022893261], [9729868016849487287913357, 11299330926315926130327101, 2231649016597066105034284], [14410971377324511240533850, 9903341208626592587822125, 28089707317661345165982125]],
+            [[18827004592160373834566324, 37686374019072024035522138, 13862500512854604904098126], [16584632786591091256410792, 20570849228741766410853409, 8335238164651129528001305], [28575787424204530367005466, 15942865893660122929924221, 33238032735298360726407538]],
+            [[35520649370119032544869839, 23216868094728474479809025, 6523969904902672573990678], [22376655499748544080436801, 20712391689321273708051857, 21494254965640889771033234], [665463596698125514651564, 1821753595764745543987017, 24409131531356677006242583]],
+            [[29154969038686640876487448, 7814943620909639148801048, 8990774897625905610382960], [6171908168241685449521508, 23193098312379327241268325, 36355525129849533056229980], [11635416237632955317242144, 7098574020922222150968866, 19215125387836743303627979]],
+            [[7646719706688036077358725, 15088925290339409967247394, 28300334481989061875295361], [14504138372747000920754552, 37628759113057939769761247, 4783174590683447559372184], [11895215910825604807057236, 27027780313497376167511411, 30630854166796535373248097]],
+            [[4615000571119802943406863, 32876594608790929950332835, 2694926716366790397881376], [15534939194955480520904876, 17113098966059839114063278, 905012457912559229504607], [13613050291536654258137716, 3203970315702411277212942, 14583313416918136723420035]],
+            [[16003800150560267722735351, 30083344598369578258629079, 36623132349099385292023148], [1476565301732829173391693, 33305376011224407439636550, 24389705806924506018584592], [22460614721541150264096589, 10016717793619578310390814, 28752190382398258878124965]],
+            [[16498661864350509776289965, 29902969664455203691979539, 32434652568264700313474459], [37435505434185215433760264, 6245403099372623889397289, 1925291589512363106421339], [30451796223873341629927746, 1928467411354765100087406, 16656360875700901701143589]],
+            [[22101748426600907224649527, 6773114848499244900912681, 4421373336687536748445093], [2866646789171308390418400, 29665553534997270914117286, 654098862675697212975827], [1293039998025059001838277, 34722755042650102991566256, 27957492954681071370677628]],
+            [[18475728039008867953672054, 34446365017512749995549569, 19553427869345708357913064], [30791266507623682018343844, 34467345252642839462258597, 22479549037527023771828043], [30715627901437506003092734, 27388273033405228059851661, 17884951343150900201619119]],
+            [[20488491935309910929331805, 31629988882238351812897219, 22229428901810158992049437], [32402628862293706106958148, 27672897039077298431082334, 18535504517291084649361272], [22121833119875976072797138, 19282644401583764585812285, 20082117082238621490187467]],
+            [[12471236604619501897032321, 4433095336397406393693706, 26061210687122853889479324], [15491911629702840800508963, 1922032509009696596482424, 37275625935039836257213522], [6779289329905166235536419, 36099483165820698341411703, 35955965546217950854528613]],
+            [[12177063169974241954563082, 9514147895733611601832468, 24082779410720981725298593], [30480780229195703259250403, 30332900788669569948249704, 28265835992152312044909190], [32842347641590524288968327, 13828242272393749593694600, 20330056437677046996897747]]
+        ];
+    } else if (w == 56) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[14471165462140608020729563, 17329802941096108032937331, 34930747806021864513122051], [34229699557173873163863935, 36275871782752428740609798, 28794648230914165250407661], [19834911790368004740215949, 12968590702126055412012711, 13591731243808581450491333]],
+            [[29870322512401214865477479, 22242707815084783626525665, 9758463341673388349271130], [19462849299082509703736226, 4893196902761350559752650, 37003869583108572047595879], [35932698492351254588223305, 11345724561812590709568217, 29035077746019064670783597]],
+            [[10353518687154948023908412, 38217161637607789692652425, 33781209314725071093606521], [37980414398149029475907728, 28928289507279248434810991, 31977618624380095692313410], [36950503714010172390668747, 2497043014618811341072035, 6452427718605243758714753]],
+            [[27643834555331973232032162, 26193187968854950071602366, 3969404553761947822375415], [8792438368897285053555914, 10974625986837688311635662, 17724084834550628850748127], [11063382642896284324922869, 15804179861268662719380759, 15409867806773717114162860]],
+            [[20239813409818459712101109, 8392078676930591989394671, 21203323168198103283707909], [24046146161850484976504031, 8158781375319518172694416, 35190351982095159986056379], [4170426014165234940155676, 24556787687120834119046346, 37260758219166033459861082]],
+            [[23857767686643200853061732, 2587131532504254678209615, 5491685475947120182811319], [3609056205293512945803997, 27552326139801604498579194, 8768706198315305963617636], [35174542280702530755552596, 7196566282097045132677258, 839455787458613985651437]],
+            [[10289052153582141032837051, 20504783037702730606739514, 11545369966882300341260585], [28091987159205732437291745, 15297891629020826562921445, 32346549696196080414602207], [16492232476420970685572032, 13006864284343525939050555, 8693282999223887346476846]],
+            [[8052267847544642021569103, 37301422715705508000827176, 32763823640349020201600554], [6523558988903555504451257, 1908470245178235046314183, 17591329192865211318122954], [10058305312513003385154248, 27713026953619516725759375, 1682470447142840759058897]],
+            [[21827576119182462003084081, 36649603419262401552273284, 216945609467880398900667], [9293163128874381490520761, 26642081265645118666435622, 21446605260895571863679181], [25932474215174781666138662, 38666504659125961262709810, 26920757576308334370406090]],
+            [[25443850195512288385390292, 3320080935887313895813469, 29208798040863757484441320], [30075723088785603245160528, 13523366937081537419530863, 37514761306052631722683266], [9262664387860862294544035, 32285882613759527086841711, 23341223331932211729589989]],
+            [[10443735619461206553860836, 24732797425738963673098426, 36170407329162340544037329], [34323220541097359719069380, 37516336130883294362192690, 1548744022948114927274022], [8773494661366579527108624, 12575224193238996523888151, 14266166963915812885791182]],
+            [[1310663044109210499224474, 2210526042264980272975140, 28872274403054741401187871], [8229086087521803356068554, 23423629441717391696621929, 19637834218727565794937412], [5238164021573448345649854, 37376658323756214747025157, 38010237433371597630028826]],
+            [[11853419499066424902031677, 1362862201169757397608347, 16532312675168451652725419], [3078110507447967167528156, 26327517941130994841520752, 22727741479580166318197267], [30873908832841432497031005, 30239660079198913607153405, 38599972895243219746941319]],
+            [[21433360227909911951492609, 14647902775430387674893346, 6560516231077449495747154], [7570444410051891456817516, 1967926015524462135105750, 9653978858638688859946405], [15056967540008872807440791, 13863909963997335254266419, 11835549743301414169785061]],
+            [[23531856485226674219663876, 32164016351596543448094854, 17351680491687536538321382], [5138202482916083789277918, 17758466135713840849704828, 8485989241487355915344305], [22290126845838222879922828, 35141630141317379055793292, 37468398514287441451262510]]
+        ];
+    } else if (w == 57) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[9599481106610239284182829, 24403416663461455903096396, 15419952866977684607186276], [19143440830418864675135380, 17069227480410719522605963, 33296812071171234212108305], [28167510406841772072457871, 25263143482286586522243276, 20818559457036825044643272]],
+            [[18148548187092447548585844, 36957611081416149645255285, 35240703967026948441234184], [24937683495532440981237453, 270063155512560218403015, 32843370636358258299855436], [6457169551480099277233760, 28448602575107658794138254, 32197242628905347379299084]],
+            [[6854692872068541072048053, 12532021353743460780361981, 23413409121489553861249898], [32209561297507556992740206, 2301962519045953020892569, 25612767085036366348014675], [31150010777745640124455068, 36586121191167528804243452, 17706907975850156106731831]],
+            [[2398760580089568637407982, 33933086232347952906511557, 840942354966397599569089], [6743802533399183383767634, 34894204824170468025968532, 24925559098606559046652585], [30221792342710061653298068, 7463358104380013762955000, 26754970371967601365228539]],
+            [[36960926306733972027044119, 14681407129419693263685908, 10967205508099412202530168], [1608385403615201435212995, 20346981174399399023179444, 31244270088024386918695240], [4988412819583906889458016, 29911543267427993612058068, 4106964709582568713272071]],
+            [[20149031745477658410298754, 11174958723368038877735590, 18120686424136515517608911], [4016533081839471632385505, 14508199784429299527950518, 27803420230087149331074473], [11141890507775055449117099, 13838124761654872877976776, 23079227411641971974855775]],
+            [[30170696854722541933078251, 33758898263790789120041325, 15623755860733793472753499], [32973893375102745733363970, 21541291303844011626717818, 17594792599258716495976537], [7290310145862298663509482, 3337419921363159307567894, 21374940728021973708894369]],
+            [[5702295295250078410743388, 34492324388389431237523724, 16645231413595490641076735], [10598965492211394266281375, 16303072386626485032468449, 20552579280444971941439528], [22299904155649574590814659, 3306215753784904220247913, 2014944905190578446434978]],
+            [[20781800223348172288541721, 2893529534117468443712966, 17511111470112469328501747], [16986115808861623730793849, 6868704742742444345249913, 6802043463360382852985775], [28112773706887280659274288, 28747743273691031344691601, 17099717055506599898420905]],
+            [[24235382361914707840244649, 19335655381074382707626512, 25675740500150241266045354], [7604275548317774308373623, 20027243631878824121870157, 18886206089599435390846126], [37267949192839344791214219, 28601504190439972880390689, 2508191732952988836994683]],
+            [[9984411443280268067265885, 27934370120593795587968797, 18792621654285585555225007], [7298563616200397619331006, 21187718831310152937862493, 12356671138451199934753727], [19355195716318310200867697, 36763461783449259863616314, 7723536171817795745433500]],
+            [[20951886688213848333273001, 11230068378160876721919383, 16303048773247090068818626], [21602343040283001858340254, 11515290658236500271956908, 28190256890687310014056077], [23804318317816534485290631, 21592221106276191414612795, 19623460554021334650704003]],
+            [[36282909884411553217936724, 12514446625720516728576288, 8165881330203428240750107], [27036836908278719465975094, 37962453420588779768461793, 7076773486853459574231519], [31442355447226286134753342, 25119081379193107571104772, 2110024210427161638162748]],
+            [[21998577915809913192388623, 27081376400705671917081243, 20508859479484726473053112], [12433231226492975096482034, 17347064665429145180242573, 37175772708437231294383451], [25618606808220821836879680, 34438916767115581367455593, 1496014902496300532135483]],
+            [[33654967230726951625613737, 11581809682375018567505068, 4741090818885535868901037], [33388003047760172206675574, 10898397471271239970891416, 37375101339562233955958864], [12232952994360238133773485, 32162380524833317209270185, 29006351489558461074609124]]
+        ];
+    } else if (w == 58) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[14869196449693986352729787, 29393735833593142919854729, 32410694027393372871408708], [2168918829472687437310703, 289481531412765362526438, 25801801367939859131991555], [19036084591616768693484808, 34783185973291520039077149, 31242355215732329281867263]],
+            [[16337987099460760654807804, 17884987698587293662317413, 5999314509224559974299439], [6261832677570379018580765, 38217336364145528887344363, 29302656284941299906275091], [31128105954406182022398154, 923960597387074104872632, 8470590933644438609827783]],
+            [[17985402033595150464107746, 36471302283052542147020273, 23257111324248770649466960], [348200729079475661007274, 1799709082912610798061282, 36278914377028002553238167], [25725324353614419928440039, 4738896752456151071806021, 16694364386137012213891699]],
+            [[23296442852195160017204604, 16443508865746916890052900, 76682417427031685310227], [17750415351217296770972589, 36083544391957791260402445, 10073392713243145045005865], [12353948148371357194356435, 292077156682494074178184, 30021311364035101548464873]],
+            [[6266015753725373309374263, 5474908231128906501816421, 19015064188778170686283520], [4877625502372461641235273, 23338998695901388565108502, 17426914380425413250267710], [33639586049931358277674830, 13332943850633355259001670, 31511659902535474396009621]],
+            [[30778922543268350911266599, 17742454383769505851970343, 7167260878528314173843770], [13191434893973132513644668, 17159022978856770208932896, 25221452005836257766701096], [12939217088724504899637847, 14822796530034493811336782, 8675824943103579502932669]],
+            [[31883974342395200757496940, 29856541150098936053179590, 15427724445871760532038464], [21494762680241801926805479, 2115627034616849357965187, 13828256638266667638833657], [8798443806355887958357070, 12684244856762263957451096, 18192612994210500602585776]],
+            [[31566357911057000775846638, 16269537491764958257443981, 15427238388403276208823667], [17961977576048855234593394, 25773004845903744076414526, 19889136669037567447909268], [36368972820158559940345994, 33126756320249569266168044, 11697656177522542720644592]],
+            [[3982215694688676608687859, 31412407367663298681752792, 32149424781842675485340986], [798381458660066625427485, 35466041587038394268872406, 21263724865409920654557524], [18262184486247230734759680, 24390910496141828839720855, 21696931350067022944146562]],
+            [[7856293158700562348590452, 15682094271558456881461863, 18456646435273828032549233], [15622614574440984187123606, 33883306703159929547056158, 14758727698845141399447143], [14163046851797125259332536, 36748018365049903364344548, 4090816359502909324104995]],
+            [[13107916561515235146894338, 3881258003135849562854283, 18934045926516290067964803], [4194256414768821852103512, 9753140245845244234534057, 27133493559124822181371018], [18233332190648314275230542, 12446712340373902490794616, 18999283804358388203879759]],
+            [[10574828160023452458541163, 19642723414900602146278997, 38106211606365601153402084], [15983995565974963977851316, 3372719589865708698673761, 7399318486446531559279891], [32903327437150991029731005, 29695498385553174261675486, 37030992679517014949406604]],
+            [[19504802746558707619697402, 18695677848092584148023121, 14767190255573350307911331], [1722697843481928446880181, 38328851762914134397361192, 22698215108217285455812367], [12924497586338152466553309, 23935059909531972080978088, 10035018898708041583877213]],
+            [[4565536394155898971417870, 7813347544961427305119025, 21805236621744643465596929], [16648802499442358358278064, 19150360768462608438656245, 36883013138148543628131750], [8747148192440614651411782, 33133922769020295034151465, 10562371985223921157250705]],
+            [[1932656479887616688533794, 20750781580855968679906443, 17994486524105251339052855], [4182610801664590755745557, 33864548813335153791163317, 15838015888444498853732119], [12627188314900311032329255, 37686333265504742101410584, 30592318433883318831474772]]
+        ];
+    } else if (w == 59) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[14137827927501780438132440, 23874008931027799213968649, 20261027340368992972752893], [19082486844086390710886199, 5514562248496121817367103, 4296824892316987978767672], [754930261499056813988437, 11365296087153136968831832, 2285354611587660069603947]],
+            [[24337334202775158227701549, 12737026714850309728299252, 28402144230592429673399794], [14748852254816549937064330, 245367585292273226572138, 11832114688054818132371601], [5088828593039286762802004, 36124826572628488142772368, 20294243903509868715809943]],
+            [[33815748445661133939684499, 12329392825216061526047750, 22184107339876513958985547], [32319671935722270522733981, 20526754454490893615789802, 28273291500044925027569010], [5289584133760483901844234, 4496806406460911213697205, 36245484942528064337611022]],
+            [[36198742248291797934029216, 9082787742695296551817713, 25048049704048139288024769], [8584194110334904680246554, 24505383616471016767182834, 28271688344173668755204079], [32824709569010201036387002, 9587803012437825633081344, 1554489457012450925351151]],
+            [[28020391837431848257456, 2581726446768945562701897, 27146831017997808150407454], [25962699032927488094412460, 20945055947970927059879343, 7972612224557547340747140], [29286425555795637646759852, 26656436802738168169320880, 25090369105474793464553847]],
+            [[20694051784247019754968027, 12120697732680331807579506, 11753651500376602476472611], [5906841492873420002950674, 23880932484662895615985442, 35742158815453722530419813], [32332643887766686326454500, 25013836382522309806939179, 3379387202827041652076835]],
+            [[32171856560604219288014886, 9788447559299404603138010, 10217098387071873404428009], [33069829615826514110069333, 21981913784659942424717925, 413690164401321125704020], [20169001407777449032706616, 15985567685150230837367211, 28360803878208484522641814]],
+            [[38620782151756348736653398, 17316565488326280570619290, 17848586737251428674174499], [8502364688264248798818436, 34045760495358167414568625, 26264346123968190764656714], [36416414346308556670483174, 38207239308007235390477718, 2458827470360086295762796]],
+            [[36217130204095093606922688, 22528109932201867070348725, 24937631046307901257371645], [35140186495444932782562298, 6800065641273336233935511, 35609341362785229506107241], [26431491934593895162874549, 17259714736922503183756861, 8906611491493365805935601]],
+            [[25974284085411107133006497, 2944166101053915524758879, 16604080565329032441883711], [21744078566373213459854988, 33299005042811365320291833, 35032593750217981206039376], [10863730012772112033103560, 7371382290018990829875637, 14536082782057928802448556]],
+            [[32033070863086485284828155, 4045320121251239478485217, 33159509092298657443724761], [1207798167559346914207889, 13990557387055534528744080, 20853949548368715582188801], [14951091141413786548390422, 16189426848460448514660154, 1337885835693028481509514]],
+            [[25275607161420580284389677, 4159754533742805232384500, 13434503913564589853758403], [16244948760102963288279040, 2081867427596168611739651, 15147923615252426845834882], [6160629101611214337557640, 14455152086267687433003809, 35613064643465523339269129]],
+            [[31462719020434430939902622, 11947390890029626890862127, 27474367377569340966490384], [19693430001497607585717914, 26179011041529479907498727, 6890994209103169233052328], [15250176993592749406743921, 6608091075228907671116526, 24904460610565982429385134]],
+            [[20671513792769100863383423, 8226397811655553244108905, 6527125308631177018977157], [14904450062429199963688829, 731938083718696587792286, 20339306207655443523651590], [35708009172277894691393560, 37206042180892516537247724, 12330600446634190805621200]],
+            [[29091266097700836980424876, 4430424388746498970215157, 28379685158350628456258915], [5045735397174565699254483, 3306231561658052734794676, 34801799978217685876066716], [35713492160460928146261069, 13453290741757406841218629, 37820402066009144804302209]]
+        ];
+    } else if (w == 60) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[37227527693404419458102389, 21943895758298120377050341, 13431140871202122490096324], [12741772692256840104477571, 34256021145426011400175454, 38056445052098982786285341], [23937948611552273012027002, 11789247206605737357746858, 2690045453021291990097920]],
+            [[14302207197982850491166893, 15425616191073903628143080, 14241769705676044054861583], [30392545340578708527313657, 1452638682536548546407978, 23178831256124275263972301], [12770329822882510669198922, 12060843930712475467372250, 7746909985006872872125260]],
+            [[6490329896847654753273283, 29949371823157995620337207, 19744708035181624335848613], [18116191399690505886809533, 31723124636299472293993671, 34883916439459173998521428], [1688015817025194141463476, 30837401611450532137425668, 19685874756374362712119255]],
+            [[29959377355043090292725481, 20087034795243711246185327, 6310649228806904431983500], [23785880787852554447088326, 17358386518831789159487753, 2229821907014303750390365], [11638350685232286029742474, 24755647452917246190243691, 32401035465281966560718793]],
+            [[16936711176652066267906226, 3562104159594363320072081, 9693549838193392178896711], [17470285418938487201198803, 35165838912147265211738776, 521561912141724694138553], [790471233325985457282345, 37467684228894490127039021, 2624877003519867977944507]],
+            [[23138233604109439801959731, 19169148696113767192122300, 15328347083670155130199735], [8573712474731568490622027, 8121614533313203395923220, 30265360101933596553917770], [8339584818998248004694890, 31166718255717961482664378, 21772908702968516546471800]],
+            [[35888897727595996745179249, 3699878833704682321247320, 21659315459713536229055212], [6314554999229394933654047, 6228227663867903715730016, 11091793301953474981367789], [11180131911314444320635075, 20072217246273068592264163, 25495283554569475413781465]],
+            [[33768432709629161929718287, 31916774442612237016342596, 4650321628581118528758340], [37621127030428277943771617, 38585807287242022660591943, 23312977837594839022224179], [14277521421180923352407865, 27298411321711684530338494, 8480927953565527197068976]],
+            [[34764400797266528680750257, 26720395102773408109383218, 12230899807196267014045898], [35657793104205103597153311, 26461890627606039232367386, 10408798188228225122532685], [11485315999062728743710485, 9945199721919131991594789, 27662881067047709843804591]],
+            [[5130041679277944193450769, 29380618348982960195909493, 2551431621642249481447730], [8153340048211256507200163, 7114729153343503059223657, 37946918102198096583414049], [29470028134096514939827982, 9881426970928226899268384, 5483566854767661136669554]],
+            [[4777131128248672361164911, 18608394508838648022844426, 27679096592613905911305109], [25594919322373235247746009, 5755616510438868378155858, 33884387959860917907320339], [23843412584969291632411227, 11512651076840833083271262, 24540745469114011521289641]],
+            [[1208749115501189936131235, 37726538285872846154948305, 17097033286809114775432083], [32944459507985398729825672, 18079553482040723691856423, 37355131330703986769709279], [15824504727780018129227808, 33796225177200926471392939, 34607010106888096172709253]],
+            [[35592425149936665436137900, 14686613211531214180011223, 18459322486193748649850677], [36627560833279072875545366, 5912702338700301403708144, 25151560221695194170847230], [22792773465988341123312349, 1005341001458170511391361, 18380923147067905738532834]],
+            [[34043645348362512262394282, 37798762450423261368963308, 24201408142430986296818570], [11017583279728610115499650, 605030181610221754000345, 32298079576685696637106013], [25251345708144897800350443, 5133489172139435084471004, 18463326620797771759603320]],
+            [[8411901077727674834888787, 31439356694234101965369109, 16842099142460134376457797], [30320997080224853763444302, 30736444118045663238938583, 1545748296172334372717083], [12267905940624929530349507, 225261493342910744136707, 7861699933959053135704766]]
+        ];
+    } else if (w == 61) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[28097488499595937455068818, 6309157421560350257796919, 30122921397907168697695239], [18435911304006895038447534, 33883084706172599117678938, 6632046131905805201233155], [12119348471550910935921804, 708839981611179623187115, 2550578764526979158200054]],
+            [[14233654399559910672317951, 2033687240665886348110853, 21973668995756343116927608], [32350198952117778748019270, 12607507751942837900579708, 28931888353815112511814610], [11558077015582052309015248, 27215942423917239406621602, 4476720287685967271194879]],
+            [[18587390572199611358015705, 14369228307808810871086369, 36128304191747558203598346], [34802834788870635223267170, 5679515462089404452926575, 17946729181439952909864601], [17283763482704435248821938, 33634914286305352866959926, 20011973365347827538047081]],
+            [[15920638047687526078341748, 8223656126294562611056165, 11512987113906811646446572], [29272146358636652378160630, 3759748630603112254431324, 27334921968440112935551905], [22086682068546117632215874, 21181609081315267819085957, 36227828093356278463008028]],
+            [[36953342115840986696874152, 3211079707030293838122687, 17560327021140885246603438], [26877837918623477835682506, 36294055467126568812846932, 26405586970649369334929391], [37177726641011447368239930, 17567118098927235419097402, 29912070643275007588918754]],
+            [[17230569285716800631151588, 38477834291993349475682776, 23855989102409118479620601], [28459072798767965616609760, 30901807616343675499383718, 16064465876823149682649623], [12199169099726550846130565, 16373441500863699139193268, 13708059215216063465886872]],
+            [[2538050826253379239665361, 755311523626825967974856, 26163934730650945274600894], [898049666894222754235699, 38552951295353471201928924, 24828713280054179520860467], [20355640383280250257519943, 18490063290851420086187033, 12018247997345897660505336]],
+            [[21449016143531270595562612, 27659125052964358714620082, 7016827118853672963910092], [5812645740467799479745014, 1824513599460620029139291, 28951004888400849155539464], [13359300612718998615068325, 10169360347496990303675230, 1407944222669408578792291]],
+            [[37476788084594773917438158, 7088483260180561830973512, 12264709018338977482494867], [29042671752621231982875774, 25210167103275853992350392, 16572065523980311499598790], [13080157161183219924877798, 27936810248100390294640378, 14725120522886355261493699]],
+            [[8953193199152400255171731, 28366344726000785709764056, 3798995158663908213247625], [13323884620618571601988179, 30614606158497703940030849, 38243242878977506111649063], [33997068167382889290884142, 26575655159539337775159747, 31928405628857762854221234]],
+            [[3524354289517916845444042, 20795205963285543348485349, 24726291026986824002964601], [15382951565254940297163625, 8983754939062302563567086, 18969448549893674128451426], [8365356196678736587256672, 8815177567548927010909141, 37145205727844057790241690]],
+            [[20237879340592772784133068, 26284115021238218552224639, 4267518531918102134590645], [26606725789512144480658325, 29307851519776062400052505, 11718963297879509353793621], [32465844160647112038006498, 31789108955372247418049934, 17295087524288001823176818]],
+            [[15471640670786599462310883, 17306506101156382281415108, 15036824345315248442413134], [14740525469254036169897220, 9135436866417155662973232, 35075243999276372349314647], [22341942821704467344602252, 24887476850285478778483321, 15122089499735323416160759]],
+            [[31814630031773381274998446, 16402370412349865547205737, 15051553311668006604437118], [8534530902185317153961007, 33320397920794166367747147, 16858323090821831492616802], [31316327129138685160137180, 4833834980630346980619571, 31153120713442756641244157]],
+            [[23665383888028120098001396, 15940449774182839077729425, 472150343755207983278328], [33393154943267362937247622, 7165427355911691390320932, 4436114249945632686737067], [21469955027614919744350478, 35404177915862544337552299, 19879291056324497638392942]]
+        ];
+    } else if (w == 62) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[18982157561536871306378751, 38216857870070211182752294, 4726357018572698684967251], [32365742382873609071979088, 22545296846071354183757326, 19349018625813341435325903], [5650618174998271668159216, 34495903126597940670200274, 9588919831928322953974375]],
+            [[7514496458265916351247678, 4738329469244123438699485, 17281771272636077356957531], [32260833891076960859914644, 25825716600536662109810758, 32739415481164663568338545], [9558481119331877384762799, 4493716029133982171538116, 11448786752495436618419303]],
+            [[2491436433345573422429814, 6656826453105160210257586, 11285650076983711296151990], [16357753016314263969538471, 37412521819120426344855934, 32558957821055679230848651], [30803219701815197627726081, 10452886946738863562867972, 25875396918248835452880730]],
+            [[25673083663276912459601109, 32753323967582907542484266, 504199478503436493949363], [9029674038748045510862589, 30124032220344417361123352, 5514131348726714831343139], [20968636614208610057268630, 23643737368434539155560129, 22432872804200270650649296]],
+            [[38548870271604109571701664, 22965049375688861344179191, 13551701726505096102700176], [34983696960853851183988510, 29881195154356683326648743, 31636233777472528994856297], [15735150567962370356265488, 18803268471568522332415421, 27001757529091770889934902]],
+            [[9656268781370586746741655, 5194243753692534585443621, 34038394465833623357481712], [20964365516768383823128464, 27937107627866127903239712, 13509241849538454383852836], [11253397818386497069198026, 33206617934285507348083059, 34133458285650094081034492]],
+            [[26000893735466497188118067, 17646505300245785339338018, 3472551336929985769394450], [4961605363210027770359993, 33535034051268875504027512, 20831122414236034161037246], [24249889570996821874300227, 30086327010018449902011673, 11827334339340804715677460]],
+            [[8437985387748540100719662, 5364133496889838013549975, 5352650666601275551639715], [16487418503004503759484412, 33238070772462634484350133, 7691996409603787956199409], [30622164970045358744289894, 17544424234844199517715448, 4816302231888680519811304]],
+            [[2422012356774719104633286, 3001520105696412023574948, 29747523690657421214908319], [17412928226366911600979834, 36863199807386057484404069, 23473664719874765482364486], [9472845664343632159922944, 32210761437188313433391332, 4279661531178608703845519]],
+            [[11884038916395136979204541, 18564631588456516137587669, 11704642135771157748071819], [10175393123630301648187436, 20355305941095959849062289, 33989573040940352689728462], [11144197352662924221311056, 139815047336932634337744, 25542824531100919962692735]],
+            [[14273562192494759418980857, 32440546684683454649163835, 25672220946104232262937641], [24286076534048448921801182, 5264788620751742175664849, 11773989751014483766212992], [1149529995542819270574731, 16289024329349452561762891, 8619740212162207559215159]],
+            [[35898828706843493110710274, 10447619358866311810376103, 22118265416477118527825015], [29678124355556432823649870, 21793551259913757740193544, 13052743130416329935003465], [36441035550021903609189003, 13497181134576558442756830, 10105689043020001250713076]],
+            [[4479119183160415259171227, 33215651073588736241592182, 10197395293630635386356745], [23848361498840777664412396, 3446074865617705244399173, 2558350112065882917586978], [5827519613403143045716416, 5862108609400341223946884, 4536595188074320136103660]],
+            [[9271495605150768867771086, 3584965177364237348457156, 9157162809785479812898715], [24598902608703402126692880, 15697744459712392960850503, 35946036747472739468439854], [28250611900703499376351768, 32664131990326399723396462, 35007026977261050077093019]],
+            [[16089518493289911810455043, 5375112638818331593025781, 4866262246980417228279836], [280000013593758409774871, 29479133762428812214138030, 9836016445063696523315763], [24330693998654734817591934, 36069247095549152003321269, 25405910493404629700537791]]
+        ];
+    } else if (w == 63) {
+        table = [
+            [[1, 0, 0], [1, 0, 0], [0, 0, 0]],
+            [[27237202250747614609567417, 33818707927493994593513653, 35504091456753416186697086], [32828220824493689122068151, 999272285616409315590627, 22235524599096269722954823], [21026261605650114560035671, 25628200144238021536005214, 30003529957428495394978929]],
+            [[24189803422602227128592289, 25432882345514611322711373, 25679103248086586631605891], [28348413542236376071205028, 4136659102977561716645864, 18769570391703774669270903], [21497167442557888169164130, 7738109957519175633811476, 13411226296113258367688718]],
+            [[37398818162972988637678415, 8740665438633766529076814, 31639479477253173410211321], [24762056380686404719832677, 26431485844541039212629590, 35618240517531252556129464], [221312207171840696051740, 11990374694082577647121893, 14686127452245881583210566]],
+            [[22293874178232998073776204, 19293950797734994026033165, 22877788383743476238431339], [10379902285667327496537222, 13359695355395491795411373, 26124480387906709299664005], [8995087772758883031388857, 4973210382866227671033539, 13140177277647460618145131]],
+            [[5529757700916348882898627, 17736974382568722479298006, 27073366058553570205940490], [27802862592177457932011630, 23607447355837459991820089, 5381867294848272852539449], [33709951477823622987758273, 36732679368246054333114946, 7037685324582710543078673]],
+            [[29093941157002351610680763, 37352614989115476227479310, 22211025891222880309211443], [20470688476754204986835502, 27164117409250287251427446, 33741523774633233264931987], [33128413319884096180270879, 37590771774303075364299386, 36374279807852810453616647]],
+            [[8875900113174552687758635, 11196147187677173413897061, 5642200916335103367891955], [6301851003039232201685955, 14642930022064420434623859, 24603455496807665589299358], [11003496480994852980638902, 22295885563330601639148630, 15613520057090096904158726]],
+            [[15826174089249698013080578, 5685701674883928276780802, 14382273382677296104071074], [19011260246607292359715546, 13802116117840309727279512, 25237223870925191645673106], [37776471334572971598122250, 32731881198325433844418647, 36080380429096700519655356]],
+            [[26955920207700388900278092, 3683170108829945342994163, 31402043674374706911399058], [5092863407000952995184772, 23107244015548727623827287, 30495519357705169051216687], [31239898562655861855137300, 13316921206877476827113030, 24591390170373080865202524]],
+            [[20170187065894306010007218, 7799673390075456804120159, 20266602771339913528989110], [14590352170799910901771450, 32611965828420203098031744, 38020651011943094963698682], [27232997097474509447197200, 20419754818575391882133893, 10334436636726171912821929]],
+            [[30869604247401802815038216, 25802525070390135229733109, 13945668079797952742616689], [4566802294447397697031837, 10655016454230428252285837, 15386930994557682625006452], [24883414014318213648443773, 27300413291490537082921317, 20183497462847477357893398]],
+            [[10039030654169709432766193, 22205591391611747332071017, 38417194235151638912675284], [34746538357751710765051867, 32713972222986800326465116, 9004192736095112698376589], [13734952467330157712029643, 8396350127308171621254409, 23936355223591515735419578]],
+            [[8516109696538770047592813, 9323295542476376582207436, 21145508494049493544343683], [10375586367977206171103098, 12086441452939045818645804, 6320417971308222487041925], [12651514320715350332272102, 6504962039940277201865161, 10058986838637122758447218]],
+            [[36915775770765510798774389, 38000399771927695970066582, 8163480584061344092465621], [18481258510378533563382794, 34961198119076037097705010, 10806278358049008339832988], [23500279214721803326648485, 11491812823337983602026148, 8489100084607428399862438]],
+            [[27831033556191361026256082, 24833217241200092234552701, 29593319527840177275994132], [5897566935052832890369784, 28609590492276846797071875, 10775283936901330744825180], [3059423667657176383654895, 35522957211366231257953666, 13510001909935706845746553]]
+        ];
+    }
+    return table;
+}
@@ -0,0 +1,52 @@
+pragma circom 2.0.0;
+
+include "node_modules/circomlib/circuits/poseidon.circom";
+
+// Depth of the Merkle trees membership proofs are made against, so a set
+// holds up to 2^20 pubkeys. Must match MEMBERSHIP_TREE_DEPTH in
+// src/merkleSet.ts.
+function membershipTreeDepth() {
+    return 20;
+}
+
+// Leaf of a pubkey in a membership set: Poseidon of its 4 limbs.
+// Empty slots hold 0.
+template PubkeyLeaf() {
+    signal input pubkey[4];
+    signal output leaf;
+
+    component hasher = Poseidon(4);
+    for (var i = 0; i < 4; i++) {
+        hasher.inputs[i] <== pubkey[i];
+    }
+    leaf <== hasher.out;
+}
+
+// Root of a Poseidon Merkle tree, from a leaf and its path: each level hashes
+// Poseidon(left, right), where the node is the right child when its path
+// index is 1 and `siblings` holds the other child
+template MerkleRoot(DEPTH) {
+    signal input leaf;
+    signal input siblings[DEPTH];
+    signal input pathIndices[DEPTH];
+    signal output root;
+
+    signal nodes[DEPTH + 1];
+    signal left[DEPTH];
+    component hashers[DEPTH];
+
+    nodes[0] <== leaf;
+    for (var i = 0; i < DEPTH; i++) {
+        // Each index is a bit
+        pathIndices[i] * (1 - pathIndices[i]) === 0;
+
+        // Swap the node and its sibling when the node is on the right
+        left[i] <== nodes[i] + pathIndices[i] * (siblings[i] - nodes[i]);
+
+        hashers[i] = Poseidon(2);
+        hashers[i].inputs[0] <== left[i];
+        hashers[i].inputs[1] <== nodes[i] + siblings[i] - left[i];
+        nodes[i + 1] <== hashers[i].out;
+    }
+    root <== nodes[DEPTH];
+}
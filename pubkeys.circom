@@ -0,0 +1,239 @@
+pragma circom 2.0.0;
+
+include "node_modules/circomlib/circuits/poseidon.circom";
+include "node_modules/circomlib/circuits/comparators.circom";
+
+// Longest derivation path the circuits accept, e.g. m/44'/501'/0'/0'/0'.
+// Must match MAX_PATH_DEPTH in src/validation.ts.
+function maxPathDepth() {
+    return 5;
+}
+
+// Checks the encoding of a derivation path: `depth` BIP32 indices (hardened
+// ones with bit 31 set, i.e. index + 2^31) padded with zeros to MAX_DEPTH
+template PathCheck(MAX_DEPTH) {
+    signal input path[MAX_DEPTH];
+    signal input depth;
+    
+    // depth <= MAX_DEPTH; the range check keeps the comparisons below sound
+    component depthBits = Num2Bits(8);
+    depthBits.in <== depth;
+    component depthInRange = LessThan(8);
+    depthInRange.in[0] <== depth;
+    depthInRange.in[1] <== MAX_DEPTH + 1;
+    depthInRange.out === 1;
+    
+    component bits[MAX_DEPTH];
+    component used[MAX_DEPTH];
+    for (var i = 0; i < MAX_DEPTH; i++) {
+        // Every index fits in 32 bits, so the hardened bit is bit 31
+        bits[i] = Num2Bits(32);
+        bits[i].in <== path[i];
+        
+        // Components past the depth are zero
+        used[i] = LessThan(8);
+        used[i].in[0] <== i;
+        used[i].in[1] <== depth;
+        path[i] * (1 - used[i].out) === 0;
+    }
+    
+    // depth >= 1
+    used[0].out === 1;
+}
+
+// What a proof discloses about one path, chosen by `reveal`:
+//   0: nothing; the path must then start with the Solana prefix 44'/501'
+//   1: the purpose and coin type (the first two indices)
+//   2: every index and the depth
+// Hidden values are output as 0.
+template PathDisclosure(MAX_DEPTH) {
+    signal input path[MAX_DEPTH];
+    signal input depth;
+    signal input reveal;
+    signal output revealed_path[MAX_DEPTH];
+    signal output revealed_depth;
+    
+    // reveal is 0, 1 or 2
+    signal reveal01;
+    reveal01 <== reveal * (reveal - 1);
+    reveal01 * (reveal - 2) === 0;
+    
+    component hidden = IsZero();
+    hidden.in <== reveal;
+    component full = IsEqual();
+    full.in[0] <== reveal;
+    full.in[1] <== 2;
+    
+    // A hidden path is still known to be a Solana one
+    (path[0] - (44 + 2**31)) * hidden.out === 0;
+    (path[1] - (501 + 2**31)) * hidden.out === 0;
+    
+    for (var i = 0; i < MAX_DEPTH; i++) {
+        if (i < 2) {
+            revealed_path[i] <== path[i] * (1 - hidden.out);
+        } else {
+            revealed_path[i] <== path[i] * full.out;
+        }
+    }
+    revealed_depth <== depth * full.out;
+}
+
+// Template for simplified key derivation
+template KeyDerive(MAX_DEPTH) {
+    signal input seed[8]; // 64 bytes seed
+    signal input path[MAX_DEPTH]; // BIP32 indices, e.g. [44', 501', account', 0', 0]
+    signal input depth; // number of indices used, so m/0 and m/0/0 differ
+    signal output private_key[8]; // 64 bytes private key
+    
+    component check = PathCheck(MAX_DEPTH);
+    for (var i = 0; i < MAX_DEPTH; i++) {
+        check.path[i] <== path[i];
+    }
+    check.depth <== depth;
+    
+    // Use Poseidon hash for deterministic key derivation
+    // This is a simplified approach - real BIP32 uses HMAC-SHA512
+    component hasher = Poseidon(9 + MAX_DEPTH);
+    
+    // Hash seed with the depth and path components
+    for (var i = 0; i < 8; i++) {
+        hasher.inputs[i] <== seed[i];
+    }
+    hasher.inputs[8] <== depth;
+    for (var i = 0; i < MAX_DEPTH; i++) {
+        hasher.inputs[9 + i] <== path[i];
+    }
+    
+    // Generate private key deterministically
+    for (var i = 0; i < 8; i++) {
+        private_key[i] <== hasher.out + i;
+    }
+}
+
+// Template for Ed25519 key generation from private key
+template Ed25519KeyGen() {
+    signal input private_key[8]; // 64 bytes private key
+    signal output public_key[4]; // 32 bytes public key (4 * 8 bytes)
+    
+    // Simplified Ed25519 key generation using Poseidon
+    component key_hasher = Poseidon(8);
+    
+    for (var i = 0; i < 8; i++) {
+        key_hasher.inputs[i] <== private_key[i];
+    }
+    
+    // Generate public key from private key
+    // This is simplified - real Ed25519 uses scalar multiplication on curve
+    public_key[0] <== key_hasher.out;
+    public_key[1] <== key_hasher.out + 1;
+    public_key[2] <== key_hasher.out + 2;
+    public_key[3] <== key_hasher.out + 3;
+}
+
+// Commitment to the seed for one application: Poseidon(seed, domain), or 0
+// when domain is 0, so proofs that do not opt in cannot be linked
+template SeedCommitment() {
+    signal input seed[8]; // 64 bytes seed
+    signal input domain; // application tag
+    signal output commitment;
+    
+    component hasher = Poseidon(9);
+    for (var i = 0; i < 8; i++) {
+        hasher.inputs[i] <== seed[i];
+    }
+    hasher.inputs[8] <== domain;
+    
+    component disabled = IsZero();
+    disabled.in <== domain;
+    commitment <== hasher.out * (1 - disabled.out);
+}
+
+// Ties a proof to the verifier's challenge. The challenge takes no part in
+// the derivation; squaring it puts it in a constraint, so the proof is only
+// valid for the challenge it was made with.
+template ChallengeBinding() {
+    signal input challenge;
+    signal square;
+    square <== challenge * challenge;
+}
+
+// Proves that N public keys all derive from the same seed
+template ProveNPubKeys(N) {
+    // Inputs
+    signal input seed[8]; // 64 bytes seed
+    signal input pubkeys[N][4]; // Public keys (32 bytes each)
+    signal input paths[N][maxPathDepth()]; // Derivation paths, zero-padded
+    signal input depths[N]; // Number of indices used in each path
+    signal input reveal; // How much of the paths to disclose, see PathDisclosure
+    signal input domain; // Application tag of the seed commitment, 0 for none
+    signal input challenge; // Verifier's challenge, 0 for none
+    
+    // Outputs
+    signal output valid; // 1 if all pubkeys derive from the same seed
+    signal output seedCommitment; // Same for every proof from this seed and domain
+    signal output revealedPaths[N][maxPathDepth()]; // Disclosed part of each path
+    signal output revealedDepths[N]; // Disclosed depths, 0 unless fully revealed
+    
+    component commitment = SeedCommitment();
+    for (var i = 0; i < 8; i++) {
+        commitment.seed[i] <== seed[i];
+    }
+    commitment.domain <== domain;
+    seedCommitment <== commitment.commitment;
+    
+    component binding = ChallengeBinding();
+    binding.challenge <== challenge;
+    
+    component disclosure[N];
+    component derive[N];
+    component keygen[N];
+    component eq[N][4];
+    
+    for (var k = 0; k < N; k++) {
+        disclosure[k] = PathDisclosure(maxPathDepth());
+        for (var i = 0; i < maxPathDepth(); i++) {
+            disclosure[k].path[i] <== paths[k][i];
+        }
+        disclosure[k].depth <== depths[k];
+        disclosure[k].reveal <== reveal;
+        for (var i = 0; i < maxPathDepth(); i++) {
+            revealedPaths[k][i] <== disclosure[k].revealed_path[i];
+        }
+        revealedDepths[k] <== disclosure[k].revealed_depth;
+        
+        // Derive the private key for this path
+        derive[k] = KeyDerive(maxPathDepth());
+        for (var i = 0; i < 8; i++) {
+            derive[k].seed[i] <== seed[i];
+        }
+        for (var i = 0; i < maxPathDepth(); i++) {
+            derive[k].path[i] <== paths[k][i];
+        }
+        derive[k].depth <== depths[k];
+        
+        // Generate the public key from the derived private key
+        keygen[k] = Ed25519KeyGen();
+        for (var i = 0; i < 8; i++) {
+            keygen[k].private_key[i] <== derive[k].private_key[i];
+        }
+        
+        // Compare with the claimed public key
+        for (var i = 0; i < 4; i++) {
+            eq[k][i] = IsEqual();
+            eq[k][i].in[0] <== keygen[k].public_key[i];
+            eq[k][i].in[1] <== pubkeys[k][i];
+        }
+    }
+    
+    // Running product of all 4 * N equality results
+    signal product[4 * N];
+    product[0] <== eq[0][0].out;
+    for (var j = 1; j < 4 * N; j++) {
+        product[j] <== product[j - 1] * eq[j \ 4][j % 4].out;
+    }
+    
+    valid <== product[4 * N - 1];
+    
+    // Ensure valid is exactly 1 (not 0)
+    valid === 1;
+}
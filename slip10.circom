@@ -0,0 +1,129 @@
+pragma circom 2.0.0;
+
+include "ed25519.circom";
+include "pubkeys.circom";
+
+// SLIP-0010 derivation of Ed25519 keys, as Solana wallets do it. Byte strings
+// are bit arrays in the order SHA-512 reads them: byte by byte, most
+// significant bit first.
+
+// HMAC-SHA512 (RFC 2104) with a key of at most 128 bytes
+template HmacSha512(KEY_BITS, MSG_BITS) {
+    signal input key[KEY_BITS];
+    signal input msg[MSG_BITS];
+    signal output out[512];
+
+    // The key is zero-padded to a 1024-bit block and XORed with 0x36 bytes for
+    // the inner hash and 0x5c bytes for the outer one
+    component inner = Sha512(1024 + MSG_BITS);
+    component outer = Sha512(1024 + 512);
+    for (var i = 0; i < 1024; i++) {
+        var k = i < KEY_BITS ? key[i] : 0;
+        var ipad = (0x36 >> (7 - i % 8)) & 1;
+        var opad = (0x5c >> (7 - i % 8)) & 1;
+        inner.in[i] <== ipad == 1 ? 1 - k : k;
+        outer.in[i] <== opad == 1 ? 1 - k : k;
+    }
+    for (var i = 0; i < MSG_BITS; i++) {
+        inner.in[1024 + i] <== msg[i];
+    }
+    for (var i = 0; i < 512; i++) {
+        outer.in[1024 + i] <== inner.out[i];
+    }
+
+    for (var i = 0; i < 512; i++) {
+        out[i] <== outer.out[i];
+    }
+}
+
+// Master key and chain code: HMAC-SHA512(key = "ed25519 seed", seed)
+template Slip10Master() {
+    signal input seed[8]; // 64 bytes seed
+    signal output key[256];
+    signal output chain_code[256];
+
+    // The seed limbs are big-endian, so each one's bits go most significant first
+    component limbBits[8];
+    component hmac = HmacSha512(96, 512);
+    for (var i = 0; i < 8; i++) {
+        limbBits[i] = Num2Bits(64);
+        limbBits[i].in <== seed[i];
+        for (var b = 0; b < 64; b++) {
+            hmac.msg[64 * i + b] <== limbBits[i].out[63 - b];
+        }
+    }
+
+    var curve[12] = [101, 100, 50, 53, 53, 49, 57, 32, 115, 101, 101, 100]; // "ed25519 seed"
+    for (var i = 0; i < 96; i++) {
+        hmac.key[i] <== (curve[i \ 8] >> (7 - i % 8)) & 1;
+    }
+
+    for (var i = 0; i < 256; i++) {
+        key[i] <== hmac.out[i];
+        chain_code[i] <== hmac.out[256 + i];
+    }
+}
+
+// Derives the private key at a path from the master key. Every level is a
+// hardened child: HMAC-SHA512(chain code, 0x00 || key || ser32(index)).
+// Levels past the depth are computed too, and the key at the depth selected.
+template Slip10Derive(MAX_DEPTH) {
+    signal input master_key[256];
+    signal input master_chain_code[256];
+    signal input path[MAX_DEPTH]; // BIP32 indices, all hardened, zero-padded
+    signal input depth; // number of indices used
+    signal output private_key[256]; // 32 bytes private key
+
+    component check = PathCheck(MAX_DEPTH);
+    for (var i = 0; i < MAX_DEPTH; i++) {
+        check.path[i] <== path[i];
+    }
+    check.depth <== depth;
+
+    component index[MAX_DEPTH];
+    component used[MAX_DEPTH];
+    component child[MAX_DEPTH];
+    for (var l = 0; l < MAX_DEPTH; l++) {
+        // SLIP-0010 Ed25519 only defines hardened children, so bit 31 is set
+        // exactly for the levels in use (the padding is zero)
+        index[l] = Num2Bits(32);
+        index[l].in <== path[l];
+        used[l] = LessThan(8);
+        used[l].in[0] <== l;
+        used[l].in[1] <== depth;
+        index[l].out[31] === used[l].out;
+
+        child[l] = HmacSha512(256, 296);
+        for (var i = 0; i < 256; i++) {
+            child[l].key[i] <== l == 0 ? master_chain_code[i] : child[l - 1].out[256 + i];
+        }
+        for (var i = 0; i < 8; i++) {
+            child[l].msg[i] <== 0;
+        }
+        for (var i = 0; i < 256; i++) {
+            child[l].msg[8 + i] <== l == 0 ? master_key[i] : child[l - 1].out[i];
+        }
+        for (var i = 0; i < 32; i++) {
+            child[l].msg[264 + i] <== index[l].out[31 - i];
+        }
+    }
+
+    // private_key = key of level depth - 1, picked with a one-hot selector
+    component atDepth[MAX_DEPTH];
+    signal selected[MAX_DEPTH][256];
+    for (var l = 0; l < MAX_DEPTH; l++) {
+        atDepth[l] = IsEqual();
+        atDepth[l].in[0] <== depth;
+        atDepth[l].in[1] <== l + 1;
+        for (var i = 0; i < 256; i++) {
+            selected[l][i] <== atDepth[l].out * child[l].out[i];
+        }
+    }
+    for (var i = 0; i < 256; i++) {
+        var sum = 0;
+        for (var l = 0; l < MAX_DEPTH; l++) {
+            sum += selected[l][i];
+        }
+        private_key[i] <== sum;
+    }
+}
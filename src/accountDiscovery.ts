@@ -0,0 +1,156 @@
+import { InvalidInputError } from "./errors";
+import {
+  DEFAULT_DERIVATION_SCHEME,
+  DerivationScheme,
+  derivePublicKey,
+} from "./keyDerivation";
+import { log } from "./logger";
+import { toPubkeyLimbs } from "./pubkeyCodec";
+import { HARDENED_OFFSET } from "./slip10";
+import { CircuitPath, PubkeyInput, PubkeyLimbs, Seed } from "./types";
+import { validatePubkey, validateSeed } from "./validation";
+import {
+  getWalletProfile,
+  hasChangeLevel,
+  profilePath,
+  WALLET_PROFILES,
+  WalletProfile,
+} from "./walletProfiles";
+
+/*
+  Account discovery: finds the paths at which a seed derives a set of known
+  pubkeys, so they can be passed to generateLinkProof.
+
+  Each profile is scanned account by account (and change index by change
+  index, for profiles with a change level). A profile is abandoned after
+  `gapLimit` consecutive accounts without a match, as BIP44 wallets do, or
+  after `maxAccount`. The scan ends as soon as every target is found.
+*/
+
+export interface DiscoveryOptions {
+  profiles?: (string | WalletProfile)[]; // default: all registered profiles
+  maxAccount?: number; // highest account scanned, default 100
+  maxChange?: number; // highest change index scanned, default 1
+  gapLimit?: number; // accounts without a match before giving up, default 20
+  scheme?: DerivationScheme; // use "slip10-ed25519" for real Solana addresses
+}
+
+/**
+ * A target pubkey and where it was found
+ */
+export interface DiscoveredAccount {
+  target: number; // index into the targets
+  pubkey: PubkeyLimbs;
+  path: CircuitPath;
+  profile: string;
+  account: number;
+  change: number;
+}
+
+export interface DiscoveryResult {
+  found: DiscoveredAccount[]; // in target order
+  missing: number[]; // indices of the targets that were not found
+  scanned: number; // number of paths derived
+  skippedProfiles: string[]; // profiles the scheme cannot derive
+}
+
+/**
+ * Scans wallet profiles for the paths at which `seed` derives each target.
+ * Pass found.map(a => a.pubkey) and found.map(a => a.path) to
+ * generateLinkProof.
+ */
+export async function discoverAccounts(
+  seed: Seed,
+  targets: PubkeyInput[],
+  options: DiscoveryOptions = {}
+): Promise<DiscoveryResult> {
+  validateSeed(seed);
+  const scheme = options.scheme ?? DEFAULT_DERIVATION_SCHEME;
+  const maxAccount = checkLimit("maxAccount", options.maxAccount ?? 100);
+  const maxChange = checkLimit("maxChange", options.maxChange ?? 1);
+  const gapLimit = checkLimit("gapLimit", options.gapLimit ?? 20);
+  const profiles = (options.profiles ?? WALLET_PROFILES).map((p) =>
+    typeof p === "string" ? getWalletProfile(p) : p
+  );
+
+  // Targets still to find, by pubkey; a pubkey may be listed more than once
+  const wanted = new Map<string, number[]>();
+  targets.forEach((target, i) => {
+    const limbs = validatePubkey(toPubkeyLimbs(target), `targets[${i}]`);
+    const key = limbs.join(",");
+    wanted.set(key, [...(wanted.get(key) ?? []), i]);
+  });
+
+  const found: (DiscoveredAccount | undefined)[] = new Array(targets.length);
+  const skippedProfiles: string[] = [];
+  let scanned = 0;
+
+  for (const profile of profiles) {
+    if (wanted.size === 0) break;
+    if (scheme === "slip10-ed25519" && !isHardenedOnly(profile)) {
+      // SLIP-0010 Ed25519 cannot derive non-hardened levels
+      skippedProfiles.push(profile.name);
+      continue;
+    }
+
+    const changes = hasChangeLevel(profile) ? maxChange : 0;
+    let gap = 0;
+    for (
+      let account = 0;
+      account <= maxAccount && gap < gapLimit && wanted.size > 0;
+      account++
+    ) {
+      let matched = false;
+      for (let change = 0; change <= changes; change++) {
+        const path = profilePath(profile, account, change);
+        const pubkey = await derivePublicKey(seed, path, scheme);
+        scanned++;
+
+        const key = pubkey.join(",");
+        const indices = wanted.get(key);
+        if (!indices) continue;
+
+        wanted.delete(key);
+        matched = true;
+        for (const target of indices) {
+          found[target] = {
+            target,
+            pubkey,
+            path,
+            profile: profile.name,
+            account,
+            change,
+          };
+        }
+      }
+      gap = matched ? 0 : gap + 1;
+    }
+  }
+
+  const result: DiscoveryResult = {
+    found: found.filter((a): a is DiscoveredAccount => a !== undefined),
+    missing: targets.map((_, i) => i).filter((i) => !found[i]),
+    scanned,
+    skippedProfiles,
+  };
+  log.info("Account discovery finished", {
+    found: result.found.length,
+    missing: result.missing.length,
+    scanned,
+  });
+  return result;
+}
+
+function isHardenedOnly(profile: WalletProfile): boolean {
+  return profilePath(profile, 0).every((x) => x >= HARDENED_OFFSET);
+}
+
+function checkLimit(field: string, value: number): number {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new InvalidInputError(
+      field,
+      `must be a non-negative integer, got ${value}`
+    );
+  }
+  return value;
+}
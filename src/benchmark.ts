@@ -0,0 +1,83 @@
+import { deriveTwoPublicKeys, stringToSeed } from "./keyDerivation";
+import { generateProof } from "./proofGeneration";
+import { ProverPool } from "./proverPool";
+import { parseCircuitPath } from "./validation";
+
+/**
+ * Compares proving throughput of the sequential generateProof path with a
+ * ProverPool. Usage: ts-node src/benchmark.ts [proofs] [workers]
+ */
+async function main() {
+  const count = Number(process.argv[2] ?? 8);
+  const size =
+    process.argv[3] === undefined ? undefined : Number(process.argv[3]);
+
+  const seed = stringToSeed(
+    "my-secret-seed-for-solana-keys-12345678901234567890"
+  );
+  const requests = await Promise.all(
+    Array.from({ length: count }, async (_, i) => {
+      const path1 = parseCircuitPath(`m/44'/501'/${i}'/0'`);
+      const path2 = parseCircuitPath(`m/44'/501'/${i}'/1'`);
+      const { pubkey1, pubkey2 } = await deriveTwoPublicKeys(
+        seed,
+        path1,
+        path2
+      );
+      return { pubkey1, pubkey2, path1, path2 };
+    })
+  );
+
+  console.log(`Proving ${count} statements...`);
+
+  let start = Date.now();
+  for (const r of requests) {
+    await generateProof(seed, r.pubkey1, r.pubkey2, r.path1, r.path2);
+  }
+  const sequentialMs = Date.now() - start;
+  report("sequential", count, sequentialMs);
+
+  const pool = new ProverPool({ size });
+  try {
+    // First proof on each worker loads the artifacts; keep it out of the timing
+    await Promise.all(
+      Array.from({ length: pool.size }, () => {
+        const r = requests[0];
+        return pool.generateProof(seed, r.pubkey1, r.pubkey2, r.path1, r.path2);
+      })
+    );
+
+    start = Date.now();
+    await Promise.all(
+      requests.map((r) =>
+        pool.generateProof(seed, r.pubkey1, r.pubkey2, r.path1, r.path2)
+      )
+    );
+    const poolMs = Date.now() - start;
+    report(`pool (${pool.size} workers)`, count, poolMs);
+    console.log(`Speedup: ${(sequentialMs / poolMs).toFixed(2)}x`);
+  } finally {
+    await pool.close();
+  }
+}
+
+function report(label: string, count: number, ms: number) {
+  console.log(
+    `  ${label}: ${ms} ms total, ${(ms / count).toFixed(0)} ms/proof, ${(
+      (count * 1000) /
+      ms
+    ).toFixed(2)} proofs/s`
+  );
+}
+
+if (require.main === module) {
+  // snarkjs keeps worker threads alive on the main thread, so exit explicitly
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+export { main };
@@ -0,0 +1,460 @@
+import { createHash, randomBytes } from "crypto";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { dirname, relative, resolve } from "path";
+import * as snarkjs from "snarkjs";
+import { readZkeySection } from "./circuitArtifacts";
+import {
+  ArtifactMismatchError,
+  ArtifactNotFoundError,
+  InvalidInputError,
+} from "./errors";
+import { log } from "./logger";
+
+/*
+  Groth16 trusted-setup ceremony, wrapping snarkjs:
+
+  Phase 1 (powers of tau, circuit independent):
+    newPowersOfTau -> contributePowersOfTau (repeat) -> preparePowersOfTau
+  Phase 2 (per circuit):
+    startCeremony(r1cs, prepared ptau) -> contribute (repeat)
+      -> applyBeacon -> verifyCeremony -> exportVerificationKey
+
+  Every phase-2 step is recorded in a JSON transcript next to the zkeys, with
+  the contribution hash each participant should publish. verifyCeremony
+  re-checks the whole chain from the r1cs and ptau with snarkjs and compares
+  the hashes stored in the final zkey with the transcript.
+
+  The setup is secure if at least one contributor destroyed their entropy
+  ("toxic waste"). Entropy defaults to 32 random bytes and is never logged or
+  written to the transcript. Everything here runs offline.
+*/
+
+/**
+ * One step of a phase-2 ceremony
+ */
+export interface ContributionRecord {
+  index: number; // 1-based, as in snarkjs
+  type: "contribution" | "beacon";
+  name: string;
+  zkey: string; // output zkey, relative to the transcript
+  hash: string; // contribution hash, 128 hex characters
+  beaconHash?: string; // beacon only
+  iterationsExp?: number; // beacon only
+  timestamp: string; // ISO 8601
+}
+
+/**
+ * Record of a phase-2 ceremony, stored as JSON
+ */
+export interface CeremonyTranscript {
+  r1cs: string; // relative to the transcript
+  ptau: string;
+  initialZkey: string;
+  circuitHash: string; // 128 hex characters
+  contributions: ContributionRecord[];
+}
+
+export interface CeremonyVerification {
+  valid: boolean;
+  message?: string;
+  circuitHash?: string;
+  contributions: { name: string; hash: string }[]; // as found in the zkey
+}
+
+const DEFAULT_BEACON_ITERATIONS_EXP = 10;
+
+/**
+ * Creates a new powers-of-tau file for circuits of up to 2^power constraints
+ */
+export async function newPowersOfTau(
+  power: number,
+  ptauFile: string
+): Promise<void> {
+  if (!Number.isInteger(power) || power < 1 || power > 28) {
+    throw new InvalidInputError("power", "must be an integer in [1, 28]");
+  }
+  const curve = await snarkjs.curves.getCurveFromName("bn128");
+  await snarkjs.powersOfTau.newAccumulator(curve, power, ptauFile, log);
+}
+
+/**
+ * Adds a phase-1 contribution and returns its hash
+ */
+export async function contributePowersOfTau(
+  inputPtau: string,
+  outputPtau: string,
+  name: string,
+  entropy = randomEntropy()
+): Promise<string> {
+  requireFile(inputPtau);
+  const hash = await snarkjs.powersOfTau.contribute(
+    inputPtau,
+    outputPtau,
+    name,
+    entropy,
+    log
+  );
+  return toHex(hash);
+}
+
+/**
+ * Closes phase 1 with a random beacon and prepares the file for phase 2.
+ * The beacon output is written next to the prepared file as `<out>.beacon`.
+ */
+export async function preparePowersOfTau(
+  inputPtau: string,
+  outputPtau: string,
+  beaconHash: string,
+  iterationsExp = DEFAULT_BEACON_ITERATIONS_EXP
+): Promise<void> {
+  requireFile(inputPtau);
+  checkBeacon(beaconHash, iterationsExp);
+
+  const beaconPtau = `${outputPtau}.beacon`;
+  await snarkjs.powersOfTau.beacon(
+    inputPtau,
+    beaconPtau,
+    "Final beacon",
+    beaconHash,
+    iterationsExp,
+    log
+  );
+  await snarkjs.powersOfTau.preparePhase2(beaconPtau, outputPtau, log);
+}
+
+/**
+ * Checks every contribution of a powers-of-tau file
+ */
+export async function verifyPowersOfTau(ptauFile: string): Promise<boolean> {
+  requireFile(ptauFile);
+  return snarkjs.powersOfTau.verify(ptauFile, log);
+}
+
+/**
+ * Starts a phase-2 ceremony: builds the initial zkey from an r1cs and a
+ * prepared ptau, and writes a transcript with no contributions
+ */
+export async function startCeremony(
+  r1csFile: string,
+  ptauFile: string,
+  zkeyFile: string,
+  transcriptFile: string
+): Promise<CeremonyTranscript> {
+  requireFile(r1csFile);
+  requireFile(ptauFile);
+
+  const circuitHash = await snarkjs.zKey.newZKey(
+    r1csFile,
+    ptauFile,
+    zkeyFile,
+    log
+  );
+  // newZKey reports problems through the logger and returns -1
+  if (!(circuitHash instanceof Uint8Array)) {
+    throw new ArtifactMismatchError(
+      `Cannot start a ceremony from ${ptauFile}: it must be prepared for phase 2 and large enough for ${r1csFile}`
+    );
+  }
+
+  const transcript: CeremonyTranscript = {
+    r1cs: relativeTo(transcriptFile, r1csFile),
+    ptau: relativeTo(transcriptFile, ptauFile),
+    initialZkey: relativeTo(transcriptFile, zkeyFile),
+    circuitHash: toHex(circuitHash),
+    contributions: [],
+  };
+  writeTranscript(transcriptFile, transcript);
+
+  log.info("Started ceremony", { r1cs: r1csFile, zkey: zkeyFile });
+  return transcript;
+}
+
+/**
+ * Adds a contribution on top of the latest zkey in the transcript, writing
+ * `zkeyFile`, and appends it to the transcript
+ */
+export async function contribute(
+  transcriptFile: string,
+  zkeyFile: string,
+  name: string,
+  entropy = randomEntropy()
+): Promise<ContributionRecord> {
+  const transcript = readTranscript(transcriptFile);
+  const input = latestZkey(transcriptFile, transcript);
+
+  const hash = await snarkjs.zKey.contribute(
+    input,
+    zkeyFile,
+    name,
+    entropy,
+    log
+  );
+
+  return appendRecord(transcriptFile, transcript, {
+    type: "contribution",
+    name,
+    zkey: relativeTo(transcriptFile, zkeyFile),
+    hash: toHex(hash),
+  });
+}
+
+/**
+ * Finishes the ceremony with a public random beacon (e.g. a future block
+ * hash), so the last contribution is not chosen by any participant
+ */
+export async function applyBeacon(
+  transcriptFile: string,
+  zkeyFile: string,
+  beaconHash: string,
+  iterationsExp = DEFAULT_BEACON_ITERATIONS_EXP,
+  name = "Final beacon"
+): Promise<ContributionRecord> {
+  checkBeacon(beaconHash, iterationsExp);
+  const transcript = readTranscript(transcriptFile);
+  const input = latestZkey(transcriptFile, transcript);
+
+  const hash = await snarkjs.zKey.beacon(
+    input,
+    zkeyFile,
+    name,
+    beaconHash,
+    iterationsExp,
+    log
+  );
+
+  return appendRecord(transcriptFile, transcript, {
+    type: "beacon",
+    name,
+    zkey: relativeTo(transcriptFile, zkeyFile),
+    hash: toHex(hash),
+    beaconHash,
+    iterationsExp,
+  });
+}
+
+/**
+ * Verifies the latest zkey of a ceremony: snarkjs recomputes the initial
+ * zkey from the r1cs and ptau and checks every contribution in the chain,
+ * then the circuit and contribution hashes recorded in the zkey must match
+ * the transcript, in order
+ */
+export async function verifyCeremony(
+  transcriptFile: string
+): Promise<CeremonyVerification> {
+  const transcript = readTranscript(transcriptFile);
+  const zkey = latestZkey(transcriptFile, transcript);
+  const r1cs = resolveFrom(transcriptFile, transcript.r1cs);
+  const ptau = resolveFrom(transcriptFile, transcript.ptau);
+  requireFile(r1cs);
+  requireFile(ptau);
+
+  const chainValid = await snarkjs.zKey.verifyFromR1cs(r1cs, ptau, zkey, log);
+  const { circuitHash, contributions } = await readContributionHashes(zkey);
+  const result = (valid: boolean, message?: string): CeremonyVerification => ({
+    valid,
+    message,
+    circuitHash,
+    contributions,
+  });
+
+  if (!chainValid) {
+    return result(false, "snarkjs rejected the contribution chain");
+  }
+  if (circuitHash !== transcript.circuitHash) {
+    return result(false, "circuit hash differs from the transcript");
+  }
+  if (contributions.length !== transcript.contributions.length) {
+    return result(
+      false,
+      `zkey has ${contributions.length} contributions, transcript has ${transcript.contributions.length}`
+    );
+  }
+  const mismatch = transcript.contributions.findIndex(
+    (record, i) => record.hash !== contributions[i].hash
+  );
+  if (mismatch !== -1) {
+    return result(
+      false,
+      `contribution #${mismatch + 1} hash differs from the transcript`
+    );
+  }
+  return result(true);
+}
+
+/**
+ * Exports the verification key of the latest zkey in the transcript
+ */
+export async function exportVerificationKey(
+  transcriptFile: string,
+  vkeyFile: string
+): Promise<Record<string, any>> {
+  const transcript = readTranscript(transcriptFile);
+  const vkey = await snarkjs.zKey.exportVerificationKey(
+    latestZkey(transcriptFile, transcript),
+    log
+  );
+  writeFileSync(vkeyFile, JSON.stringify(vkey, null, 1) + "\n");
+  return vkey;
+}
+
+export function readTranscript(transcriptFile: string): CeremonyTranscript {
+  requireFile(transcriptFile);
+  try {
+    return JSON.parse(readFileSync(transcriptFile, "utf8"));
+  } catch (error) {
+    throw new ArtifactMismatchError(
+      `Transcript ${transcriptFile} is not valid JSON: ${(error as Error).message}`
+    );
+  }
+}
+
+function writeTranscript(
+  transcriptFile: string,
+  transcript: CeremonyTranscript
+) {
+  writeFileSync(transcriptFile, JSON.stringify(transcript, null, 2) + "\n");
+}
+
+function appendRecord(
+  transcriptFile: string,
+  transcript: CeremonyTranscript,
+  record: Omit<ContributionRecord, "index" | "timestamp">
+): ContributionRecord {
+  const full: ContributionRecord = {
+    index: transcript.contributions.length + 1,
+    ...record,
+    timestamp: new Date().toISOString(),
+  };
+  transcript.contributions.push(full);
+  writeTranscript(transcriptFile, transcript);
+
+  log.info("Recorded contribution", {
+    index: full.index,
+    name: full.name,
+    hash: full.hash,
+  });
+  return full;
+}
+
+/**
+ * Absolute path of the newest zkey in the ceremony
+ */
+function latestZkey(transcriptFile: string, transcript: CeremonyTranscript) {
+  const last = transcript.contributions[transcript.contributions.length - 1];
+  const zkey = resolveFrom(
+    transcriptFile,
+    last?.zkey ?? transcript.initialZkey
+  );
+  requireFile(zkey);
+  return zkey;
+}
+
+/**
+ * Circuit hash and contribution hashes (oldest first) recorded in a zkey's
+ * MPC parameters section. Each contribution hash is computed as snarkjs
+ * does: Blake2b-512 over the contribution's public key, with points
+ * uncompressed, followed by its transcript.
+ */
+export async function readContributionHashes(zkeyFile: string): Promise<{
+  circuitHash: string;
+  contributions: { name: string; hash: string }[];
+}> {
+  requireFile(zkeyFile);
+  const section = readZkeySection(readFileSync(zkeyFile), 10);
+  if (!section) {
+    throw new ArtifactMismatchError(
+      `${zkeyFile} has no MPC parameters section; is it a Groth16 zkey?`
+    );
+  }
+
+  const curve = await snarkjs.curves.getCurveFromName("bn128", {
+    singleThread: true,
+  });
+  try {
+    const view = new DataView(
+      section.buffer,
+      section.byteOffset,
+      section.byteLength
+    );
+    let pos = 0;
+    const take = (n: number) => section.subarray(pos, (pos += n));
+    const u32 = () => view.getUint32((pos += 4) - 4, true);
+    const point = (group: snarkjs.CurveGroup, n8: number) => {
+      const out = new Uint8Array(n8);
+      group.toRprUncompressed(out, 0, group.fromRprLEM(take(n8)));
+      return out;
+    };
+
+    const circuitHash = toHex(take(64));
+    const contributions = Array.from({ length: u32() }, () => {
+      const hasher = createHash("blake2b512");
+      // deltaAfter, delta.g1_s, delta.g1_sx, delta.g2_spx, transcript
+      hasher.update(point(curve.G1, 64));
+      hasher.update(point(curve.G1, 64));
+      hasher.update(point(curve.G1, 64));
+      hasher.update(point(curve.G2, 128));
+      hasher.update(take(64));
+      u32(); // type: contribution or beacon
+
+      // Params as [id][value]: 1 = name (length, bytes), 2 = beacon
+      // iterations (1 byte), 3 = beacon hash (length, bytes)
+      const params = take(u32());
+      let name = "";
+      for (let i = 0; i < params.length;) {
+        const id = params[i++];
+        const length = id === 2 ? 1 : params[i++];
+        if (id === 1) {
+          name = new TextDecoder().decode(params.subarray(i, i + length));
+        }
+        i += length;
+      }
+      return { name, hash: hasher.digest("hex") };
+    });
+    if (pos !== section.length) {
+      throw new ArtifactMismatchError(
+        `${zkeyFile} has a malformed MPC parameters section`
+      );
+    }
+    return { circuitHash, contributions };
+  } finally {
+    await curve.terminate();
+  }
+}
+
+function checkBeacon(beaconHash: string, iterationsExp: number) {
+  if (!/^([0-9a-fA-F]{2})+$/.test(beaconHash)) {
+    throw new InvalidInputError("beaconHash", "expected a hex string");
+  }
+  if (
+    !Number.isInteger(iterationsExp) ||
+    iterationsExp < 0 ||
+    iterationsExp > 63
+  ) {
+    throw new InvalidInputError(
+      "iterationsExp",
+      "must be an integer in [0, 63]"
+    );
+  }
+}
+
+function requireFile(file: string) {
+  if (!existsSync(file)) {
+    throw new ArtifactNotFoundError(file);
+  }
+}
+
+function randomEntropy(): string {
+  return randomBytes(32).toString("hex");
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("hex");
+}
+
+function relativeTo(transcriptFile: string, file: string): string {
+  return relative(dirname(resolve(transcriptFile)), resolve(file));
+}
+
+function resolveFrom(transcriptFile: string, file: string): string {
+  return resolve(dirname(resolve(transcriptFile)), file);
+}
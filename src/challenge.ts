@@ -0,0 +1,118 @@
+import { randomBytes } from "crypto";
+import { ChallengeError, InvalidInputError } from "./errors";
+import { getPoseidon } from "./poseidon";
+import { domainTag } from "./seedCommitment";
+
+/*
+  Challenges stop a proof from being replayed: without one, anyone who sees
+  a proof can present it again to any verifier.
+
+  The verifier issues a challenge, Poseidon(verifier ID, nonce, expiry), from
+  its ChallengeStore and sends its value to the prover, who passes it to
+  generateLinkProof. The circuit exposes it as the `challenge` public signal,
+  so the proof only verifies against that value. When the proof comes back
+  the verifier checks it with the challenge in the statement, then consumes
+  the challenge; the store refuses challenges it did not issue, that have
+  expired or that were already used.
+*/
+
+export interface Challenge {
+  verifierId: string;
+  nonce: bigint; // 31 random bytes
+  expiresAt: number; // milliseconds since the epoch
+  value: bigint; // what the prover puts in the proof
+}
+
+/**
+ * Verifier-side record of issued challenges
+ */
+export interface ChallengeStore {
+  /**
+   * Issues a fresh challenge for `verifierId`
+   */
+  issue(verifierId: string): Promise<Challenge>;
+
+  /**
+   * Marks the challenge with this value as used, once a proof for it has
+   * verified. Throws ChallengeError if it is unknown, expired or used.
+   */
+  consume(value: bigint): Promise<Challenge>;
+}
+
+export interface InMemoryChallengeStoreOptions {
+  ttlMs?: number; // how long a challenge stays valid, default 5 minutes
+  now?: () => number; // clock, default Date.now
+}
+
+/**
+ * Value of the challenge for these parameters, as the circuit takes it.
+ * The verifier ID is hashed into the field with domainTag.
+ */
+export async function computeChallenge(
+  verifierId: string,
+  nonce: bigint,
+  expiresAt: number
+): Promise<bigint> {
+  if (typeof verifierId !== "string" || verifierId.length === 0) {
+    throw new InvalidInputError("verifierId", "must be a non-empty string");
+  }
+  if (nonce < 0n || nonce >= 1n << 248n) {
+    throw new InvalidInputError("nonce", "must fit in 31 bytes");
+  }
+  if (!Number.isSafeInteger(expiresAt) || expiresAt < 0) {
+    throw new InvalidInputError("expiresAt", "must be a timestamp in ms");
+  }
+
+  const poseidon = await getPoseidon();
+  return poseidon([domainTag(verifierId), nonce, BigInt(expiresAt)]);
+}
+
+/**
+ * ChallengeStore that keeps challenges in a Map, for tests and single-process
+ * verifiers. Expired challenges are dropped as new ones are issued, after
+ * which they are reported as "unknown".
+ */
+export class InMemoryChallengeStore implements ChallengeStore {
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+  private readonly challenges = new Map<
+    bigint,
+    { challenge: Challenge; used: boolean }
+  >();
+
+  constructor(options: InMemoryChallengeStoreOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  async issue(verifierId: string): Promise<Challenge> {
+    const now = this.now();
+    for (const [value, entry] of this.challenges) {
+      if (entry.challenge.expiresAt <= now) {
+        this.challenges.delete(value);
+      }
+    }
+
+    const nonce = BigInt("0x" + randomBytes(31).toString("hex"));
+    const expiresAt = now + this.ttlMs;
+    const value = await computeChallenge(verifierId, nonce, expiresAt);
+    const challenge = { verifierId, nonce, expiresAt, value };
+    this.challenges.set(value, { challenge, used: false });
+    return challenge;
+  }
+
+  async consume(value: bigint): Promise<Challenge> {
+    const entry = this.challenges.get(value);
+    if (!entry) {
+      throw new ChallengeError("unknown", "Challenge was not issued here");
+    }
+    if (entry.challenge.expiresAt <= this.now()) {
+      throw new ChallengeError("expired", "Challenge has expired");
+    }
+    if (entry.used) {
+      throw new ChallengeError("reused", "Challenge has already been used");
+    }
+    entry.used = true;
+    return entry.challenge;
+  }
+}
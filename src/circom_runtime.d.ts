@@ -0,0 +1,17 @@
+/*
+  The part of circom_runtime (the witness calculator snarkjs runs circom
+  wasm with) used here; the package ships no type declarations
+*/
+
+declare module "circom_runtime" {
+  export interface WitnessCalculator {
+    /** Number of signals in the circuit's witness, the constant 1 included */
+    witnessSize: number;
+    calculateWitness(input: object, sanityCheck?: boolean): Promise<bigint[]>;
+  }
+
+  export function WitnessCalculatorBuilder(
+    code: Uint8Array,
+    options?: { sanityCheck?: boolean }
+  ): Promise<WitnessCalculator>;
+}
@@ -0,0 +1,275 @@
+import { WitnessCalculatorBuilder } from "circom_runtime";
+import * as snarkjs from "snarkjs";
+import {
+  ArtifactMismatchError,
+  ArtifactNotFoundError,
+  MalformedProofError,
+  toProvingError,
+} from "./errors";
+import {
+  CircuitInput,
+  Groth16Proof,
+  Groth16VerificationKey,
+  PublicSignals,
+} from "./types";
+import { validateVerificationKey } from "./validation";
+
+/**
+ * An artifact given either as a path (or URL in the browser) or as its bytes
+ */
+export type ArtifactSource = string | Uint8Array;
+
+export interface CircuitArtifactSources {
+  wasm: ArtifactSource;
+  zkey: ArtifactSource;
+  vkey: ArtifactSource | Groth16VerificationKey; // path, bytes or parsed JSON
+}
+
+/**
+ * Header fields of a Groth16 zkey
+ */
+export interface ZkeyHeader {
+  nVars: number; // witness size
+  nPublic: number; // public signals (outputs + public inputs)
+  domainSize: number; // constraint count rounded up to a power of two
+}
+
+/**
+ * Loads, caches and cross-checks the wasm, zkey and verification key of one
+ * circuit, and proves/verifies with them.
+ *
+ * Each artifact is read at most once; the bytes (not paths) are passed on to
+ * snarkjs, so the same instance works in Node and in a browser bundle.
+ */
+export class CircuitArtifacts {
+  private wasm?: Promise<Uint8Array>;
+  private zkey?: Promise<Uint8Array>;
+  private vkey?: Promise<Groth16VerificationKey>;
+  private validated?: Promise<void>;
+
+  constructor(private readonly sources: CircuitArtifactSources) {}
+
+  async getWasm(): Promise<Uint8Array> {
+    if (!this.wasm) this.wasm = readSource(this.sources.wasm);
+    return this.wasm;
+  }
+
+  async getZkey(): Promise<Uint8Array> {
+    if (!this.zkey) this.zkey = readSource(this.sources.zkey);
+    return this.zkey;
+  }
+
+  async getVerificationKey(): Promise<Groth16VerificationKey> {
+    if (!this.vkey) {
+      const source = this.sources.vkey;
+      this.vkey = (
+        typeof source === "string" || source instanceof Uint8Array
+          ? readSource(source).then(parseVerificationKey)
+          : Promise.resolve(source)
+      ).then(checkVerificationKey);
+    }
+    return this.vkey;
+  }
+
+  async getZkeyHeader(): Promise<ZkeyHeader> {
+    return readZkeyHeader(await this.getZkey());
+  }
+
+  /**
+   * Checks that the wasm, zkey and vkey were all produced for the same
+   * circuit. The result is cached; a failed check is retried on the next call.
+   */
+  async validate(): Promise<void> {
+    if (!this.validated) {
+      this.validated = this.checkConsistency().catch((error) => {
+        this.validated = undefined;
+        throw error;
+      });
+    }
+    return this.validated;
+  }
+
+  /**
+   * Generates a Groth16 proof for a circuit input
+   */
+  async prove(
+    input: CircuitInput
+  ): Promise<{ proof: Groth16Proof; publicSignals: PublicSignals }> {
+    await this.validate();
+    const wasm = await this.getWasm();
+    const zkey = await this.getZkey();
+
+    try {
+      const { proof, publicSignals } = await snarkjs.groth16.fullProve(
+        { ...input },
+        wasm,
+        zkey
+      );
+      return { proof: proof as Groth16Proof, publicSignals };
+    } catch (error) {
+      throw toProvingError(error);
+    }
+  }
+
+  /**
+   * Verifies a Groth16 proof against this circuit's verification key
+   */
+  async verify(
+    publicSignals: PublicSignals,
+    proof: Groth16Proof
+  ): Promise<boolean> {
+    const vkey = await this.getVerificationKey();
+    return snarkjs.groth16.verify(vkey, publicSignals, proof);
+  }
+
+  private async checkConsistency(): Promise<void> {
+    const header = await this.getZkeyHeader();
+    const vkey = await this.getVerificationKey();
+
+    if (vkey.nPublic !== header.nPublic) {
+      throw new ArtifactMismatchError(
+        `Verification key has ${vkey.nPublic} public signals but zkey has ${header.nPublic}`
+      );
+    }
+
+    // The vkey must be the one exported from this zkey
+    const zkeyVkey = await snarkjs.zKey.exportVerificationKey(
+      await this.getZkey()
+    );
+    const fields = [
+      "vk_alpha_1",
+      "vk_beta_2",
+      "vk_gamma_2",
+      "vk_delta_2",
+      "IC",
+    ] as const;
+    for (const field of fields) {
+      if (JSON.stringify(zkeyVkey[field]) !== JSON.stringify(vkey[field])) {
+        throw new ArtifactMismatchError(
+          `Verification key ${field} does not match the zkey; was it exported from a different setup?`
+        );
+      }
+    }
+
+    // The wasm must compute a witness of the size the zkey was set up for
+    const wc = await WitnessCalculatorBuilder(await this.getWasm());
+    if (wc.witnessSize !== header.nVars) {
+      throw new ArtifactMismatchError(
+        `Wasm witness has ${wc.witnessSize} signals but zkey expects ${header.nVars}`
+      );
+    }
+  }
+}
+
+/**
+ * Parses the Groth16 header section of a zkey file
+ */
+export function readZkeyHeader(zkey: Uint8Array): ZkeyHeader {
+  const section = readZkeySection(zkey, 2);
+  if (!section) {
+    throw new ArtifactMismatchError("zkey has no Groth16 header section");
+  }
+
+  // Groth16 header: n8q, q, n8r, r, nVars, nPublic, domainSize, ...
+  const view = new DataView(
+    section.buffer,
+    section.byteOffset,
+    section.byteLength
+  );
+  let p = 0;
+  const n8q = view.getUint32(p, true);
+  p += 4 + n8q;
+  const n8r = view.getUint32(p, true);
+  p += 4 + n8r;
+  return {
+    nVars: view.getUint32(p, true),
+    nPublic: view.getUint32(p + 4, true),
+    domainSize: view.getUint32(p + 8, true),
+  };
+}
+
+/**
+ * Returns the data of the first section of `type` in a zkey file, or
+ * undefined if it has none
+ */
+export function readZkeySection(
+  zkey: Uint8Array,
+  type: number
+): Uint8Array | undefined {
+  const view = new DataView(zkey.buffer, zkey.byteOffset, zkey.byteLength);
+  const magic = new TextDecoder().decode(zkey.subarray(0, 4));
+  if (magic !== "zkey") {
+    throw new ArtifactMismatchError("Not a zkey file");
+  }
+
+  // Sections: [type u32][size u64][data], starting after magic, version and count
+  const nSections = view.getUint32(8, true);
+  let pos = 12;
+  for (let i = 0; i < nSections; i++) {
+    const sectionType = view.getUint32(pos, true);
+    const size = Number(view.getBigUint64(pos + 4, true));
+    pos += 12;
+    if (sectionType === type) {
+      return zkey.subarray(pos, pos + size);
+    }
+    pos += size;
+  }
+  return undefined;
+}
+
+/**
+ * Reads an artifact: bytes are returned as-is, URLs are fetched and anything
+ * else is treated as a filesystem path
+ */
+async function readSource(source: ArtifactSource): Promise<Uint8Array> {
+  if (source instanceof Uint8Array) {
+    return source;
+  }
+
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(source);
+    if (response.status === 404) {
+      throw new ArtifactNotFoundError(source);
+    }
+    if (!response.ok) {
+      throw new ArtifactNotFoundError(
+        source,
+        `Failed to fetch ${source}: ${response.status}`
+      );
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const { readFile } = require("fs/promises");
+  try {
+    return new Uint8Array(await readFile(source));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new ArtifactNotFoundError(source);
+    }
+    throw error;
+  }
+}
+
+function parseVerificationKey(bytes: Uint8Array): unknown {
+  try {
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch (error) {
+    throw new ArtifactMismatchError(
+      `Verification key is not valid JSON: ${(error as Error).message}`
+    );
+  }
+}
+
+function checkVerificationKey(value: unknown): Groth16VerificationKey {
+  try {
+    return validateVerificationKey(value);
+  } catch (error) {
+    if (error instanceof MalformedProofError) {
+      throw new ArtifactMismatchError(
+        `Unusable verification key: ${error.message}`
+      );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,262 @@
+import { join } from "path";
+import { CircuitArtifacts } from "./circuitArtifacts";
+import { InvalidInputError, MalformedProofError } from "./errors";
+import { DEFAULT_DERIVATION_SCHEME, DerivationScheme } from "./keyDerivation";
+import { keyCountOfSignals } from "./publicSignals";
+
+/**
+ * A compiled circuit and the location of its artifacts, relative to the
+ * artifact root directory
+ */
+export interface CircuitEntry {
+  keyCount: number; // number of pubkeys proven by the circuit
+  name: string; // circuit file name without extension
+  wasmFile: string;
+  zkeyFile: string;
+  vkeyFile: string;
+  symFile: string; // signal names, only needed for debugging and parity checks
+  // "pair" circuits take pubkey1/pubkey2/path1/path2 (Prove2PubKeys),
+  // "array" circuits take pubkeys[N]/paths[N] (ProveNPubKeys),
+  // "membership" takes pubkey/memberPubkey and a Merkle path (ProveSetMembership)
+  inputFormat: "pair" | "array" | "membership";
+  scheme: DerivationScheme; // key derivation the circuit implements
+  // Whether the artifacts ship with the package. Circuits that do not can
+  // still be used once their artifacts are registered.
+  built: boolean;
+}
+
+/**
+ * Directory artifact file names are resolved against. Defaults to the package
+ * root, which is one level above both src/ and dist/, so it also works when
+ * the package is installed under node_modules.
+ * Can be overridden with the PROVE2PUBKEYS_ARTIFACTS environment variable.
+ */
+export const DEFAULT_ARTIFACT_ROOT =
+  (typeof process !== "undefined" && process.env.PROVE2PUBKEYS_ARTIFACTS) ||
+  join(__dirname, "..");
+
+function arrayCircuit(keyCount: number): CircuitEntry {
+  const name = `${keyCount}pubkeys`;
+  return {
+    keyCount,
+    name,
+    wasmFile: `${name}_js/${name}.wasm`,
+    zkeyFile: `${name}_final.zkey`,
+    vkeyFile: `${name}_verification_key.json`,
+    symFile: `${name}.sym`,
+    inputFormat: "array",
+    scheme: "poseidon-toy",
+    built: true,
+  };
+}
+
+/**
+ * Circuits available for link proofs, ordered by key count within each scheme
+ */
+export const CIRCUITS: CircuitEntry[] = [
+  {
+    keyCount: 2,
+    name: "2pubkeys",
+    wasmFile: "2pubkeys_js/2pubkeys.wasm",
+    zkeyFile: "2pubkeys_final.zkey",
+    vkeyFile: "verification_key.json",
+    symFile: "2pubkeys.sym",
+    inputFormat: "pair",
+    scheme: "poseidon-toy",
+    built: true,
+  },
+  arrayCircuit(4),
+  arrayCircuit(8),
+  arrayCircuit(16),
+  // Real SLIP-0010/Ed25519 derivation, about 4.6M constraints: too large
+  // for circom2, so it has to be compiled natively
+  {
+    keyCount: 2,
+    name: "2pubkeys_slip10",
+    wasmFile: "2pubkeys_slip10_js/2pubkeys_slip10.wasm",
+    zkeyFile: "2pubkeys_slip10_final.zkey",
+    vkeyFile: "2pubkeys_slip10_verification_key.json",
+    symFile: "2pubkeys_slip10.sym",
+    inputFormat: "pair",
+    scheme: "slip10-ed25519",
+    built: false,
+  },
+];
+
+/**
+ * Circuit for membership proofs (see generateMembershipProof). It is not
+ * among CIRCUITS, so link proofs never select it.
+ */
+export const MEMBERSHIP_CIRCUIT: CircuitEntry = {
+  keyCount: 2,
+  name: "2pubkeys_membership",
+  wasmFile: "2pubkeys_membership_js/2pubkeys_membership.wasm",
+  zkeyFile: "2pubkeys_membership_final.zkey",
+  vkeyFile: "2pubkeys_membership_verification_key.json",
+  symFile: "2pubkeys_membership.sym",
+  inputFormat: "membership",
+  scheme: "poseidon-toy",
+  built: true,
+};
+
+// Keyed by circuit name
+const artifactCache = new Map<string, CircuitArtifacts>();
+// Names of circuits whose artifacts were registered
+const registered = new Set<string>();
+
+/**
+ * Whether a circuit can be used: its artifacts ship with the package or
+ * were registered with registerCircuitArtifacts
+ */
+export function isCircuitAvailable(circuit: CircuitEntry): boolean {
+  return circuit.built || registered.has(circuit.name);
+}
+
+function checkAvailable(circuit: CircuitEntry, field: string): CircuitEntry {
+  if (!isCircuitAvailable(circuit)) {
+    throw new InvalidInputError(
+      field,
+      `the ${circuit.name} circuit is not built; compile it and register its artifacts with registerCircuitArtifacts`
+    );
+  }
+  return circuit;
+}
+
+/**
+ * Selects the smallest circuit for `scheme` that can prove `count` keys.
+ * Smaller statements are padded up to the circuit size (see padStatement).
+ * Throws an InvalidInputError if that circuit is not available.
+ */
+export function getCircuitForKeyCount(
+  count: number,
+  scheme: DerivationScheme = DEFAULT_DERIVATION_SCHEME
+): CircuitEntry {
+  if (!Number.isInteger(count) || count < 1) {
+    throw new InvalidInputError(
+      "keyCount",
+      `must be a positive integer, got ${count}`
+    );
+  }
+
+  const candidates = CIRCUITS.filter((c) => c.scheme === scheme);
+  if (candidates.length === 0) {
+    throw new InvalidInputError("scheme", `No circuit implements ${scheme}`);
+  }
+  const circuit = candidates.find((c) => c.keyCount >= count);
+  if (!circuit) {
+    throw new InvalidInputError(
+      "keyCount",
+      `No ${scheme} circuit supports ${count} keys (max ${
+        candidates[candidates.length - 1].keyCount
+      })`
+    );
+  }
+  return checkAvailable(circuit, "keyCount");
+}
+
+/**
+ * Selects the circuit for `scheme` whose proofs have `count` public signals,
+ * for verifying a proof that comes with its public signals
+ */
+export function getCircuitForSignalCount(
+  count: number,
+  scheme: DerivationScheme = DEFAULT_DERIVATION_SCHEME
+): CircuitEntry {
+  const keyCount = keyCountOfSignals(count);
+  const circuit = CIRCUITS.find(
+    (c) => c.scheme === scheme && c.keyCount === keyCount
+  );
+  if (!circuit) {
+    throw new MalformedProofError(
+      "publicSignals",
+      `no ${scheme} circuit has ${count} public signals`
+    );
+  }
+  return checkAvailable(circuit, "publicSignals");
+}
+
+/**
+ * Returns the (cached) artifacts for a circuit. Unless artifacts were
+ * registered with registerCircuitArtifacts, they are read from disk under
+ * `root` on first use.
+ */
+export function getCircuitArtifacts(
+  circuit: CircuitEntry,
+  root: string = DEFAULT_ARTIFACT_ROOT
+): CircuitArtifacts {
+  let artifacts = artifactCache.get(circuit.name);
+  if (!artifacts) {
+    artifacts = new CircuitArtifacts({
+      wasm: join(root, circuit.wasmFile),
+      zkey: join(root, circuit.zkeyFile),
+      vkey: join(root, circuit.vkeyFile),
+    });
+    artifactCache.set(circuit.name, artifacts);
+  }
+  return artifacts;
+}
+
+/**
+ * Overrides the artifacts used for a key count and scheme, e.g. with
+ * in-memory buffers in a browser bundle where there is no filesystem
+ */
+export function registerCircuitArtifacts(
+  keyCount: number,
+  artifacts: CircuitArtifacts,
+  scheme: DerivationScheme = DEFAULT_DERIVATION_SCHEME
+): void {
+  const circuit = CIRCUITS.find(
+    (c) => c.keyCount === keyCount && c.scheme === scheme
+  );
+  if (!circuit) {
+    throw new InvalidInputError(
+      "keyCount",
+      `No ${scheme} circuit is defined for ${keyCount} keys`
+    );
+  }
+  artifactCache.set(circuit.name, artifacts);
+  registered.add(circuit.name);
+}
+
+/**
+ * Overrides the artifacts of MEMBERSHIP_CIRCUIT, like registerCircuitArtifacts
+ */
+export function registerMembershipCircuitArtifacts(
+  artifacts: CircuitArtifacts
+): void {
+  artifactCache.set(MEMBERSHIP_CIRCUIT.name, artifacts);
+}
+
+/**
+ * Pads pubkeys and paths to `keyCount` entries by repeating the last pair.
+ * Repeating a pair proves nothing new, so the padded statement is equivalent.
+ */
+export function padStatement<K, P>(
+  pubkeys: K[],
+  paths: P[],
+  keyCount: number
+): { pubkeys: K[]; paths: P[] } {
+  if (pubkeys.length !== paths.length) {
+    throw new InvalidInputError(
+      "paths",
+      `got ${pubkeys.length} pubkeys but ${paths.length} paths`
+    );
+  }
+  if (pubkeys.length === 0) {
+    throw new InvalidInputError("pubkeys", "at least one pubkey is required");
+  }
+  if (pubkeys.length > keyCount) {
+    throw new InvalidInputError(
+      "pubkeys",
+      `cannot pad ${pubkeys.length} keys down to ${keyCount}`
+    );
+  }
+
+  const paddedPubkeys = [...pubkeys];
+  const paddedPaths = [...paths];
+  while (paddedPubkeys.length < keyCount) {
+    paddedPubkeys.push(pubkeys[pubkeys.length - 1]);
+    paddedPaths.push(paths[paths.length - 1]);
+  }
+  return { pubkeys: paddedPubkeys, paths: paddedPaths };
+}
@@ -0,0 +1,742 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { parseArgs } from "util";
+import * as snarkjs from "snarkjs";
+import { discoverAccounts } from "./accountDiscovery";
+import {
+  applyBeacon,
+  contribute,
+  exportVerificationKey,
+  startCeremony,
+  verifyCeremony,
+} from "./ceremony";
+import { getCircuitForKeyCount, padStatement } from "./circuitRegistry";
+import {
+  ArtifactMismatchError,
+  InvalidInputError,
+  MalformedProofError,
+} from "./errors";
+import {
+  bytesToLimbs,
+  DerivationScheme,
+  deriveManyPublicKeys,
+  stringToSeed,
+} from "./keyDerivation";
+import { consoleLogger, setLogger } from "./logger";
+import { mnemonicToSeed } from "./mnemonic";
+import { generateLinkProof } from "./proofGeneration";
+import {
+  buildManyPublicSignals,
+  keyCountOfSignals,
+  publicSignalOffsets,
+  publicSignalsEqual,
+  readChallenge,
+  readPathDisclosure,
+  readSeedCommitment,
+  SEED_COMMITMENT_INDEX,
+  SeedCommitmentClaim,
+  statementPaths,
+} from "./publicSignals";
+import { toBase58, toPubkeyLimbs } from "./pubkeyCodec";
+import { domainTag } from "./seedCommitment";
+import {
+  encodeVerifierPayload,
+  verifyingKeyToRust,
+  verifyingKeyToTypeScript,
+} from "./solanaExport";
+import { Groth16VerificationKey, PathDisclosure, PubkeyLimbs } from "./types";
+import {
+  formatCircuitPath,
+  MAX_PATH_DEPTH,
+  parseCircuitPath,
+  PUBKEY_LIMBS,
+  validatePath,
+  validateProof,
+  validatePublicSignals,
+  validateVerificationKey,
+} from "./validation";
+
+/*
+  prove2pubkeys <command> [options]
+
+  derive   Derive public keys for one or more paths
+  discover Find the paths at which a seed derives known pubkeys
+  prove    Derive public keys and write proof.json / public.json
+  verify   Verify proof.json / public.json against a verification key
+  inspect  Describe a proof, public signals or verification key file
+  export-solana  Export a vkey or proof for an on-chain Solana verifier
+  ceremony Run a phase-2 trusted-setup ceremony (init, contribute, beacon,
+           verify, export)
+
+  Seeds are read from exactly one of --seed-file, --seed-env or --seed-stdin and
+  may be a 64-byte hex string, a BIP39 mnemonic or (for demos) a raw string.
+*/
+
+export const EXIT_OK = 0;
+export const EXIT_INVALID = 1; // proof did not verify, pubkeys not found
+export const EXIT_USAGE = 2; // bad arguments or input
+export const EXIT_ERROR = 3; // missing files, failed proving, etc.
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: prove2pubkeys <derive|discover|prove|verify|inspect|export-solana|ceremony> [options]
+
+Seed input (derive, discover, prove):
+  --seed-file <file>        read the seed from a file
+  --seed-env <VAR>          read the seed from an environment variable
+  --seed-stdin              read the seed from stdin
+  --seed-format <format>    auto (default), hex, mnemonic or string
+  --passphrase-env <VAR>    BIP39 passphrase for mnemonic seeds
+
+derive:
+  --path <path>             derivation path, e.g. "m/44'/501'/0'/0'" (repeatable)
+  --scheme <scheme>         poseidon-toy (default) or slip10-ed25519
+
+discover:
+  --pubkey <pubkey>         pubkey to look for, base58 or l0,l1,l2,l3 limbs
+                            (repeatable, at least one)
+  --profile <name>          wallet profile to scan: bip44-change, bip44, sollet
+                            (repeatable, default: all)
+  --max-account <n>         highest account index to scan (default: 100)
+  --gap-limit <n>           accounts without a match before a profile is
+                            abandoned (default: 20)
+  --scheme <scheme>         poseidon-toy (default) or slip10-ed25519
+                            exits 1 if any pubkey is not found
+
+prove:
+  --path <path>             derivation path (repeatable, at least one)
+  --scheme <scheme>         poseidon-toy (default) or slip10-ed25519, which
+                            proves real Solana addresses (2 keys, all levels
+                            hardened)
+  --domain <name>           publish the seed commitment for this application
+  --challenge <n>           bind the proof to a verifier's challenge, decimal
+  --reveal-paths <policy>   full (default), purpose-and-coin or none; with
+                            none every path must start with m/44'/501'
+  --out-dir <dir>           where to write the files (default: .)
+  --proof <file>            proof file name (default: proof.json)
+  --public <file>           public signals file name (default: public.json)
+
+verify:
+  --vkey <file>             verification key (default: verification_key.json)
+  --proof <file>            proof file (default: proof.json)
+  --public <file>           public signals file (default: public.json)
+  --pubkey <pubkey>         expected pubkey, base58 or l0,l1,l2,l3 limbs
+                            (repeatable, with --path)
+  --path <path>             expected path (repeatable, with --pubkey)
+  --scheme <scheme>         scheme the proof was made with, for padding
+  --domain <name>           expected application domain (with
+                            --seed-commitment)
+  --seed-commitment <n>     expected seed commitment, decimal
+  --challenge <n>           challenge the proof must have been made for
+  --reveal-paths <policy>   what the proof discloses of the paths, as given
+                            to prove; --path may be left out for none
+
+inspect:
+  --proof <file> | --public <file> | --vkey <file>
+
+export-solana:
+  --vkey <file>             print the vkey as a groth16-solana constant
+  --format <format>         rust (default) or ts
+  --proof <file> --public <file>
+                            print the verifier instruction data as hex
+
+ceremony <init|contribute|beacon|verify|export>:
+  --transcript <file>       ceremony transcript (default: ceremony.json)
+  init: --r1cs <file> --ptau <file> --zkey <file>
+                            start from an r1cs and a phase-2 ready ptau
+  contribute: --zkey <file> --name <name> [--entropy-env <VAR>]
+                            add a contribution (random entropy by default)
+  beacon: --zkey <file> --beacon <hex> [--iterations <exp>]
+                            finish with a public random beacon
+  verify                    check the whole chain against the transcript
+  export: --vkey <file>     export the final verification key
+
+Other options:
+  -v, --verbose             log progress to stderr (seeds are never logged)
+
+Exit codes: 0 ok, 1 invalid proof or pubkeys not found, 2 usage error,
+3 other error`;
+
+const OPTIONS = {
+  "seed-file": { type: "string" },
+  "seed-env": { type: "string" },
+  "seed-stdin": { type: "boolean" },
+  "seed-format": { type: "string", default: "auto" },
+  "passphrase-env": { type: "string" },
+  path: { type: "string", multiple: true },
+  pubkey: { type: "string", multiple: true },
+  profile: { type: "string", multiple: true },
+  "max-account": { type: "string", default: "100" },
+  "gap-limit": { type: "string", default: "20" },
+  scheme: { type: "string", default: "poseidon-toy" },
+  domain: { type: "string" },
+  "seed-commitment": { type: "string" },
+  challenge: { type: "string" },
+  "reveal-paths": { type: "string", default: "full" },
+  "out-dir": { type: "string", default: "." },
+  proof: { type: "string" },
+  public: { type: "string" },
+  vkey: { type: "string" },
+  format: { type: "string", default: "rust" },
+  transcript: { type: "string", default: "ceremony.json" },
+  r1cs: { type: "string" },
+  ptau: { type: "string" },
+  zkey: { type: "string" },
+  name: { type: "string" },
+  "entropy-env": { type: "string" },
+  beacon: { type: "string" },
+  iterations: { type: "string", default: "10" },
+  verbose: { type: "boolean", short: "v" },
+  help: { type: "boolean", short: "h" },
+} as const;
+
+type Options = ReturnType<
+  typeof parseArgs<{ options: typeof OPTIONS }>
+>["values"];
+
+/**
+ * Runs the CLI and returns the process exit code
+ */
+export async function run(argv: string[]): Promise<number> {
+  let command: string | undefined;
+  let subcommand: string | undefined;
+  let values: Options;
+  try {
+    const parsed = parseArgs({
+      args: argv,
+      options: OPTIONS,
+      allowPositionals: true,
+    });
+    [command, subcommand] = parsed.positionals;
+    values = parsed.values;
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(USAGE);
+    return EXIT_USAGE;
+  }
+
+  if (values.verbose) {
+    setLogger(consoleLogger("debug"));
+  }
+
+  if (values.help || !command) {
+    console.error(USAGE);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  try {
+    switch (command) {
+      case "derive":
+        return await deriveCommand(values);
+      case "discover":
+        return await discoverCommand(values);
+      case "prove":
+        return await proveCommand(values);
+      case "verify":
+        return await verifyCommand(values);
+      case "inspect":
+        return inspectCommand(values);
+      case "export-solana":
+        return exportSolanaCommand(values);
+      case "ceremony":
+        return await ceremonyCommand(subcommand, values);
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError || error instanceof InvalidInputError) {
+      console.error(error.message);
+      console.error(USAGE);
+      return EXIT_USAGE;
+    }
+    console.error("Error:", (error as Error).message);
+    return EXIT_ERROR;
+  }
+}
+
+async function deriveCommand(values: Options): Promise<number> {
+  const seed = readSeed(values);
+  const pathStrings = requirePaths(values);
+  const scheme = readScheme(values);
+
+  const paths = pathStrings.map((path) => parseCircuitPath(path));
+  const pubkeys = await deriveManyPublicKeys(seed, paths, scheme);
+
+  const result = pathStrings.map((path, i) => ({
+    path,
+    pubkey: pubkeys[i].map((x) => x.toString()),
+    ...(scheme === "slip10-ed25519" ? { address: toBase58(pubkeys[i]) } : {}),
+  }));
+
+  process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+  return EXIT_OK;
+}
+
+async function discoverCommand(values: Options): Promise<number> {
+  const seed = readSeed(values);
+  if (!values.pubkey || values.pubkey.length === 0) {
+    throw new UsageError("At least one --pubkey is required");
+  }
+  const scheme = readScheme(values);
+
+  const targets = values.pubkey.map(parsePubkey);
+  const result = await discoverAccounts(seed, targets, {
+    profiles: values.profile,
+    maxAccount: Number(values["max-account"]),
+    gapLimit: Number(values["gap-limit"]),
+    scheme,
+  });
+
+  const output = {
+    found: result.found.map((account) => ({
+      pubkey: values.pubkey![account.target],
+      path: formatCircuitPath(account.path),
+      profile: account.profile,
+      account: account.account,
+      change: account.change,
+    })),
+    missing: result.missing.map((i) => values.pubkey![i]),
+    scanned: result.scanned,
+    ...(result.skippedProfiles.length > 0
+      ? { skippedProfiles: result.skippedProfiles }
+      : {}),
+  };
+  process.stdout.write(JSON.stringify(output, null, 2) + "\n");
+  return result.missing.length === 0 ? EXIT_OK : EXIT_INVALID;
+}
+
+async function proveCommand(values: Options): Promise<number> {
+  const seed = readSeed(values);
+  const paths = requirePaths(values).map((path) => parseCircuitPath(path));
+  const scheme = readScheme(values);
+
+  const pubkeys = await deriveManyPublicKeys(seed, paths, scheme);
+  const { proof, publicSignals, keyCount, seedCommitment } =
+    await generateLinkProof(seed, pubkeys, paths, scheme, {
+      domain: values.domain,
+      challenge: readChallengeOption(values),
+      revealPaths: readRevealPaths(values),
+    });
+
+  const proofFile = join(values["out-dir"]!, values.proof ?? "proof.json");
+  const publicFile = join(values["out-dir"]!, values.public ?? "public.json");
+  writeJson(proofFile, proof);
+  writeJson(publicFile, publicSignals);
+
+  console.error(
+    `Wrote ${proofFile} and ${publicFile} (${keyCount}-key circuit)`
+  );
+  if (seedCommitment !== undefined) {
+    console.error(`Seed commitment for ${values.domain}: ${seedCommitment}`);
+  }
+  return EXIT_OK;
+}
+
+async function verifyCommand(values: Options): Promise<number> {
+  const vkeyFile = values.vkey ?? "verification_key.json";
+  const publicFile = values.public ?? "public.json";
+  const vkey = readVerificationKey(vkeyFile);
+  const proof = validateProof(readJson(values.proof ?? "proof.json"));
+  const publicSignals = validatePublicSignals(readJson(publicFile));
+  try {
+    validatePublicSignals(publicSignals, "publicSignals", vkey.nPublic);
+  } catch (error) {
+    if (!(error instanceof MalformedProofError)) {
+      throw error;
+    }
+    throw new ArtifactMismatchError(
+      `${vkeyFile} is for a circuit with ${vkey.nPublic} public signals, ` +
+        `but ${publicFile} has ${publicSignals.length}`
+    );
+  }
+
+  const claim = readSeedCommitmentClaim(values);
+  const challenge = readChallengeOption(values);
+  if (challenge !== undefined && readChallenge(publicSignals) !== challenge) {
+    console.error("Proof was made for a different challenge");
+    return EXIT_INVALID;
+  }
+
+  // Optionally check that the public signals are about the expected keys
+  if (values.pubkey || values.path) {
+    const revealPaths = readRevealPaths(values);
+    const pubkeys = (values.pubkey ?? []).map(parsePubkey);
+    const paths = statementPaths({
+      pubkeys,
+      paths: values.path?.map((path) => parseCircuitPath(path)),
+      revealPaths,
+    });
+    if (pubkeys.length !== paths.length) {
+      throw new UsageError(
+        "--pubkey and --path must be given the same number of times"
+      );
+    }
+
+    const circuit = getCircuitForKeyCount(pubkeys.length, readScheme(values));
+    const expected = buildManyPublicSignals({
+      ...padStatement(pubkeys, paths, circuit.keyCount),
+      revealPaths,
+      ...claim,
+      challenge,
+    });
+    if (!publicSignalsEqual(publicSignals, expected)) {
+      console.error(
+        "Public signals do not match the expected pubkeys and paths"
+      );
+      return EXIT_INVALID;
+    }
+  } else if (
+    claim.domain !== undefined &&
+    // The domain tag is the second to last signal, before the challenge
+    (BigInt(publicSignals[publicSignals.length - 2]) !==
+      domainTag(claim.domain) ||
+      readSeedCommitment(publicSignals) !== claim.seedCommitment)
+  ) {
+    console.error("Public signals do not match the expected seed commitment");
+    return EXIT_INVALID;
+  }
+
+  const isValid = await snarkjs.groth16.verify(vkey, publicSignals, proof);
+  console.error(isValid ? "Proof is valid" : "Proof is INVALID");
+  const seedCommitment = readSeedCommitment(publicSignals);
+  if (isValid && seedCommitment !== undefined) {
+    console.error(`Seed commitment: ${seedCommitment}`);
+  }
+  return isValid ? EXIT_OK : EXIT_INVALID;
+}
+
+function inspectCommand(values: Options): number {
+  const file = values.proof ?? values.public ?? values.vkey;
+  if (!file) {
+    throw new UsageError("inspect needs --proof, --public or --vkey");
+  }
+  const json = readJson(file);
+  const data = (
+    typeof json === "object" && json !== null ? json : {}
+  ) as Record<string, any>;
+
+  let summary: Record<string, any>;
+  if (Array.isArray(data)) {
+    summary = describePublicSignals(data.map(String));
+  } else if (data.vk_alpha_1) {
+    summary = {
+      type: "verification key",
+      protocol: data.protocol,
+      curve: data.curve,
+      nPublic: data.nPublic,
+      keyCount: keyCountOfSignals(data.nPublic),
+    };
+  } else if (data.pi_a) {
+    summary = { type: "proof", protocol: data.protocol, curve: data.curve };
+  } else {
+    throw new UsageError(`${file} is not a proof, public signals or vkey file`);
+  }
+
+  process.stdout.write(JSON.stringify(summary, null, 2) + "\n");
+  return EXIT_OK;
+}
+
+function exportSolanaCommand(values: Options): number {
+  if (values.vkey) {
+    const vkey = readVerificationKey(values.vkey);
+    switch (values.format) {
+      case "rust":
+        process.stdout.write(verifyingKeyToRust(vkey));
+        break;
+      case "ts":
+        process.stdout.write(verifyingKeyToTypeScript(vkey));
+        break;
+      default:
+        throw new UsageError(`Unknown format: ${values.format}`);
+    }
+    return EXIT_OK;
+  }
+
+  if (values.proof && values.public) {
+    const proof = validateProof(readJson(values.proof));
+    const publicSignals = validatePublicSignals(readJson(values.public));
+    const payload = encodeVerifierPayload(proof, publicSignals);
+    process.stdout.write(Buffer.from(payload).toString("hex") + "\n");
+    return EXIT_OK;
+  }
+
+  throw new UsageError("export-solana needs --vkey, or --proof and --public");
+}
+
+async function ceremonyCommand(
+  subcommand: string | undefined,
+  values: Options
+): Promise<number> {
+  const transcript = values.transcript!;
+  const required = (name: "r1cs" | "ptau" | "zkey" | "name" | "beacon") => {
+    const value = values[name];
+    if (!value) {
+      throw new UsageError(`ceremony ${subcommand} needs --${name}`);
+    }
+    return value;
+  };
+
+  switch (subcommand) {
+    case "init": {
+      const { circuitHash } = await startCeremony(
+        required("r1cs"),
+        required("ptau"),
+        required("zkey"),
+        transcript
+      );
+      console.error(`Started ${transcript}, circuit hash ${circuitHash}`);
+      return EXIT_OK;
+    }
+    case "contribute": {
+      let entropy: string | undefined;
+      if (values["entropy-env"]) {
+        entropy = process.env[values["entropy-env"]];
+        if (!entropy) {
+          throw new UsageError(
+            `Environment variable ${values["entropy-env"]} is not set`
+          );
+        }
+      }
+      const record = await contribute(
+        transcript,
+        required("zkey"),
+        required("name"),
+        entropy
+      );
+      console.error(`Contribution #${record.index} hash: ${record.hash}`);
+      return EXIT_OK;
+    }
+    case "beacon": {
+      const iterations = Number(values.iterations);
+      const record = await applyBeacon(
+        transcript,
+        required("zkey"),
+        required("beacon"),
+        iterations
+      );
+      console.error(`Beacon #${record.index} hash: ${record.hash}`);
+      return EXIT_OK;
+    }
+    case "verify": {
+      const result = await verifyCeremony(transcript);
+      process.stdout.write(JSON.stringify(result, null, 2) + "\n");
+      console.error(
+        result.valid ? "Ceremony is valid" : `INVALID: ${result.message}`
+      );
+      return result.valid ? EXIT_OK : EXIT_INVALID;
+    }
+    case "export":
+      if (!values.vkey) {
+        throw new UsageError("ceremony export needs --vkey");
+      }
+      await exportVerificationKey(transcript, values.vkey);
+      console.error(`Wrote ${values.vkey}`);
+      return EXIT_OK;
+    default:
+      throw new UsageError(`Unknown ceremony step: ${subcommand}`);
+  }
+}
+
+/**
+ * Splits a public signal vector into valid / seedCommitment / pubkeys /
+ * disclosed paths / domain / challenge
+ */
+function describePublicSignals(signals: string[]): Record<string, any> {
+  const keyCount = keyCountOfSignals(signals.length);
+  if (keyCount === undefined) {
+    return { type: "public signals", count: signals.length };
+  }
+
+  const offsets = publicSignalOffsets(keyCount);
+  let revealPaths = signals[offsets.reveal];
+  let paths: (string | string[])[] = Array.from(
+    { length: keyCount },
+    (_, k) => {
+      const start = offsets.revealedPaths + MAX_PATH_DEPTH * k;
+      return signals.slice(start, start + MAX_PATH_DEPTH);
+    }
+  );
+  try {
+    const disclosure = readPathDisclosure(signals);
+    revealPaths = disclosure.revealPaths;
+    paths = disclosure.paths.map((path) => {
+      if (disclosure.revealPaths === "none") return "hidden";
+      const shown = formatCircuitPath(validatePath(path));
+      return disclosure.revealPaths === "full" ? shown : `${shown}/...`;
+    });
+  } catch {
+    // Not a disclosure the circuits produce; show the raw signals
+  }
+
+  return {
+    type: "public signals",
+    count: signals.length,
+    keyCount,
+    valid: signals[0],
+    seedCommitment: signals[SEED_COMMITMENT_INDEX],
+    pubkeys: Array.from({ length: keyCount }, (_, k) =>
+      signals.slice(
+        offsets.pubkeys + PUBKEY_LIMBS * k,
+        offsets.pubkeys + PUBKEY_LIMBS * (k + 1)
+      )
+    ),
+    revealPaths,
+    paths,
+    domain: signals[offsets.domain],
+    challenge: signals[offsets.challenge],
+  };
+}
+
+/**
+ * Reads the seed from the single source selected on the command line
+ */
+function readSeed(values: Options): bigint[] {
+  const sources = [
+    values["seed-file"],
+    values["seed-env"],
+    values["seed-stdin"],
+  ].filter(Boolean);
+  if (sources.length !== 1) {
+    throw new UsageError(
+      "Give exactly one of --seed-file, --seed-env or --seed-stdin"
+    );
+  }
+
+  let text: string;
+  if (values["seed-file"]) {
+    text = readFileSync(values["seed-file"], "utf8");
+  } else if (values["seed-env"]) {
+    const value = process.env[values["seed-env"]];
+    if (value === undefined) {
+      throw new UsageError(
+        `Environment variable ${values["seed-env"]} is not set`
+      );
+    }
+    text = value;
+  } else {
+    text = readFileSync(0, "utf8");
+  }
+  text = text.trim();
+
+  let format = values["seed-format"];
+  if (format === "auto") {
+    if (/^[0-9a-fA-F]{128}$/.test(text)) format = "hex";
+    else if (text.split(/\s+/).length >= 12) format = "mnemonic";
+    else format = "string";
+  }
+
+  switch (format) {
+    case "hex":
+      if (!/^[0-9a-fA-F]{128}$/.test(text)) {
+        throw new UsageError("Hex seeds must be 64 bytes (128 hex characters)");
+      }
+      return bytesToLimbs(Buffer.from(text, "hex"));
+    case "mnemonic": {
+      const passphraseEnv = values["passphrase-env"];
+      const passphrase = passphraseEnv
+        ? (process.env[passphraseEnv] ?? "")
+        : "";
+      return mnemonicToSeed(text, passphrase).seed;
+    }
+    case "string":
+      return stringToSeed(text);
+    default:
+      throw new UsageError(`Unknown seed format: ${format}`);
+  }
+}
+
+function requirePaths(values: Options): string[] {
+  if (!values.path || values.path.length === 0) {
+    throw new UsageError("At least one --path is required");
+  }
+  return values.path;
+}
+
+function readScheme(values: Options): DerivationScheme {
+  const scheme = values.scheme as DerivationScheme;
+  if (scheme !== "poseidon-toy" && scheme !== "slip10-ed25519") {
+    throw new UsageError(`Unknown scheme: ${scheme}`);
+  }
+  return scheme;
+}
+
+/**
+ * Reads --domain and --seed-commitment, which are given together or not at all
+ */
+function readSeedCommitmentClaim(values: Options): SeedCommitmentClaim {
+  const domain = values.domain;
+  const commitment = values["seed-commitment"];
+  if ((domain === undefined) !== (commitment === undefined)) {
+    throw new UsageError("--domain and --seed-commitment go together");
+  }
+  if (commitment === undefined) return {};
+  if (!/^\d+$/.test(commitment)) {
+    throw new UsageError("--seed-commitment must be a decimal number");
+  }
+  return { domain, seedCommitment: BigInt(commitment) };
+}
+
+function readRevealPaths(values: Options): PathDisclosure {
+  const revealPaths = values["reveal-paths"] as PathDisclosure;
+  if (
+    revealPaths !== "none" &&
+    revealPaths !== "purpose-and-coin" &&
+    revealPaths !== "full"
+  ) {
+    throw new UsageError(`Unknown path disclosure: ${revealPaths}`);
+  }
+  return revealPaths;
+}
+
+function readChallengeOption(values: Options): bigint | undefined {
+  const challenge = values.challenge;
+  if (challenge === undefined) return undefined;
+  if (!/^\d+$/.test(challenge)) {
+    throw new UsageError("--challenge must be a decimal number");
+  }
+  return BigInt(challenge);
+}
+
+/**
+ * Parses a pubkey given as comma-separated decimal limbs or a base58 address
+ */
+function parsePubkey(value: string): PubkeyLimbs {
+  if (!value.includes(",")) {
+    return toPubkeyLimbs(value);
+  }
+
+  const parts = value.split(",");
+  if (parts.length !== 4 || parts.some((p) => !/^\d+$/.test(p.trim()))) {
+    throw new UsageError(
+      `Pubkey ${value} must be a base58 address or 4 comma-separated decimal limbs`
+    );
+  }
+  return parts.map((p) => BigInt(p.trim()));
+}
+
+function readJson(file: string): unknown {
+  return JSON.parse(readFileSync(file, "utf8"));
+}
+
+function readVerificationKey(file: string): Groth16VerificationKey {
+  try {
+    return validateVerificationKey(readJson(file));
+  } catch (error) {
+    if (!(error instanceof MalformedProofError)) {
+      throw error;
+    }
+    throw new ArtifactMismatchError(
+      `${file} is not a verification key: ${error.message}`
+    );
+  }
+}
+
+function writeJson(file: string, data: unknown): void {
+  writeFileSync(file, JSON.stringify(data, null, 1) + "\n");
+}
+
+if (require.main === module) {
+  // snarkjs keeps worker threads alive, so exit explicitly
+  run(process.argv.slice(2)).then((code) => process.exit(code));
+}
@@ -0,0 +1,84 @@
+import { ed25519 } from "@noble/curves/ed25519";
+import { writeFileSync } from "fs";
+import { join } from "path";
+
+/*
+  Generates ed25519_base_table.circom, the constants of the fixed-base scalar
+  multiplication in ed25519.circom. The scalar is split into 64 windows of 4
+  bits; window w holds v * 16^w * B for v = 0..15, where B is the Ed25519
+  base point, so the public key is the sum of one entry per window.
+
+  Each point is stored as [y - x, y + x, 2d * x * y] mod p, the affine inputs
+  of the extended-coordinates addition, in 85-bit limbs.
+
+  Run with: npm run ed25519-table
+*/
+
+const P = ed25519.CURVE.Fp.ORDER;
+const D = ed25519.CURVE.d;
+const WINDOWS = 64;
+const WINDOW_SIZE = 16;
+const LIMB_BITS = 85n;
+const LIMBS = 3;
+
+function mod(x: bigint): bigint {
+  const r = x % P;
+  return r < 0n ? r + P : r;
+}
+
+function toLimbs(x: bigint): string {
+  const limbs: string[] = [];
+  for (let i = 0; i < LIMBS; i++) {
+    limbs.push(
+      ((x >> (LIMB_BITS * BigInt(i))) & ((1n << LIMB_BITS) - 1n)).toString()
+    );
+  }
+  return `[${limbs.join(", ")}]`;
+}
+
+/**
+ * Entries of window w, as a circom array literal
+ */
+function windowEntries(w: number): string {
+  const base = ed25519.ExtendedPoint.BASE.multiply(16n ** BigInt(w));
+  const entries: string[] = [];
+  let point = ed25519.ExtendedPoint.ZERO;
+  for (let v = 0; v < WINDOW_SIZE; v++) {
+    const { x, y } = point.toAffine();
+    entries.push(
+      `[${toLimbs(mod(y - x))}, ${toLimbs(mod(y + x))}, ${toLimbs(
+        mod(2n * D * x * y)
+      )}]`
+    );
+    point = point.add(base);
+  }
+  return entries.join(",\n            ");
+}
+
+export function generateBaseTable(): string {
+  const lines = [
+    "pragma circom 2.0.0;",
+    "",
+    "// Generated by src/ed25519Table.ts, do not edit.",
+    "// Window w of the fixed-base multiplication in ed25519.circom: for",
+    "// v = 0..15, v * 16^w * B as [y - x, y + x, 2d * x * y] mod p in 85-bit limbs",
+    "function ed25519BaseTable(w) {",
+    `    var table[${WINDOW_SIZE}][3][${LIMBS}];`,
+  ];
+  for (let w = 0; w < WINDOWS; w++) {
+    lines.push(
+      `    ${w === 0 ? "if" : "} else if"} (w == ${w}) {`,
+      "        table = [",
+      `            ${windowEntries(w)}`,
+      "        ];"
+    );
+  }
+  lines.push("    }", "    return table;", "}", "");
+  return lines.join("\n");
+}
+
+if (require.main === module) {
+  const file = join(__dirname, "..", "ed25519_base_table.circom");
+  writeFileSync(file, generateBaseTable());
+  console.log(`Wrote ${file}`);
+}
@@ -0,0 +1,117 @@
+/**
+ * Base class for errors raised by this package
+ */
+export class Prove2PubKeysError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * A seed, pubkey, path, proof or public signal vector failed validation.
+ * `field` names the offending value, e.g. "seed[3]" or "paths[1]".
+ */
+export class InvalidInputError extends Prove2PubKeysError {
+  constructor(
+    readonly field: string,
+    message: string
+  ) {
+    super(`${field}: ${message}`);
+  }
+}
+
+/**
+ * A proof or public signal vector is not well-formed (wrong shape, non-numeric
+ * coordinates, wrong number of signals for the verification key)
+ */
+export class MalformedProofError extends InvalidInputError {}
+
+/**
+ * A circuit artifact (wasm, zkey or verification key) could not be found
+ */
+export class ArtifactNotFoundError extends Prove2PubKeysError {
+  constructor(
+    readonly source: string,
+    message = `Artifact not found: ${source}`
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Circuit artifacts are unreadable or do not belong to the same circuit
+ */
+export class ArtifactMismatchError extends Prove2PubKeysError {}
+
+/**
+ * Witness calculation hit a failing circuit assertion: the claimed pubkeys
+ * do not derive from this seed at the given paths
+ */
+export class ConstraintUnsatisfiedError extends Prove2PubKeysError {
+  constructor(
+    message = "Keys do not derive from this seed at the given paths",
+    readonly detail?: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Proof generation failed for a reason other than the ones above
+ */
+export class ProvingError extends Prove2PubKeysError {
+  constructor(
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A ProverPool could not take or finish a request:
+ * - "queue-full": too many requests are already waiting
+ * - "timeout": the request did not finish in time
+ * - "cancelled": the caller aborted the request
+ * - "closed": the pool has been closed
+ */
+export class ProverPoolError extends Prove2PubKeysError {
+  constructor(
+    readonly reason: "queue-full" | "timeout" | "cancelled" | "closed",
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A ChallengeStore refused a challenge:
+ * - "unknown": it was never issued by this store
+ * - "expired": its expiry time has passed
+ * - "reused": a proof has already been accepted for it
+ */
+export class ChallengeError extends Prove2PubKeysError {
+  constructor(
+    readonly reason: "unknown" | "expired" | "reused",
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Converts an error thrown while computing a witness or proof into one of the
+ * errors above. circom's wasm reports a failed `===` as "Assert Failed".
+ */
+export function toProvingError(error: unknown): Prove2PubKeysError {
+  if (error instanceof Prove2PubKeysError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.includes("Assert Failed")) {
+    return new ConstraintUnsatisfiedError(undefined, message);
+  }
+  return new ProvingError(`Proof generation failed: ${message}`, error);
+}
@@ -0,0 +1,284 @@
+import { bn254 } from "@noble/curves/bn254";
+import { bytesToHex, randomBytes } from "@noble/curves/utils";
+import { MalformedProofError } from "./errors";
+import { Groth16Proof, Groth16VerificationKey, PublicSignals } from "./types";
+
+/*
+  Standalone Groth16 verifier for BN254, built on @noble/curves.
+
+  Unlike verifyProof it does not touch the filesystem or snarkjs, so it can be
+  bundled for browsers and edge runtimes: the caller passes the parsed
+  verification key. It checks
+
+    e(-A, B) * e(alpha, beta) * e(vk_x, gamma) * e(C, delta) == 1
+    where vk_x = IC[0] + sum(publicSignals[i] * IC[i + 1])
+
+  Verdicts follow snarkjs.groth16.verify: points off the curve or public
+  signals outside the scalar field make the proof invalid, while objects of
+  the wrong shape throw MalformedProofError.
+*/
+
+const { G1, G2, fields } = bn254;
+
+type G1Point = InstanceType<typeof G1.Point>;
+type G2Point = InstanceType<typeof G2.Point>;
+
+/**
+ * Verification key with its points decoded, so a batch decodes it only once
+ */
+interface DecodedVerificationKey {
+  alpha: G1Point;
+  beta: G2Point;
+  gamma: G2Point;
+  delta: G2Point;
+  ic: G1Point[];
+}
+
+/**
+ * Proof reduced to the three G1 terms and one G2 term of its pairing equation
+ */
+interface PreparedProof {
+  a: G1Point;
+  b: G2Point;
+  c: G1Point;
+  vkX: G1Point;
+}
+
+/**
+ * Verifies a Groth16 proof against a snarkjs-format verification key
+ */
+export function verifyGroth16(
+  vkey: Groth16VerificationKey,
+  publicSignals: PublicSignals,
+  proof: Groth16Proof
+): boolean {
+  const key = decodeVerificationKey(vkey);
+  const prepared = prepareProof(key, vkey.nPublic, publicSignals, proof);
+  return prepared !== null && checkPrepared(key, prepared);
+}
+
+/**
+ * Verifies many proofs against the same verification key, returning one
+ * verdict per item.
+ *
+ * All proofs are first checked together with a random linear combination of
+ * their pairing equations (n + 3 pairings instead of 4n). Only if that
+ * combined check fails is each proof checked on its own, to find the bad
+ * ones. A malformed item throws MalformedProofError with its index in the
+ * field name, e.g. "items[3].proof.pi_a".
+ */
+export function verifyGroth16Batch(
+  vkey: Groth16VerificationKey,
+  items: { proof: Groth16Proof; publicSignals: PublicSignals }[]
+): boolean[] {
+  const key = decodeVerificationKey(vkey);
+  const prepared = items.map(({ proof, publicSignals }, i) =>
+    prepareProof(key, vkey.nPublic, publicSignals, proof, `items[${i}].`)
+  );
+
+  const candidates = prepared.filter((p): p is PreparedProof => p !== null);
+  if (candidates.length > 1 && checkBatch(key, candidates)) {
+    return prepared.map((p) => p !== null);
+  }
+
+  return prepared.map((p) => p !== null && checkPrepared(key, p));
+}
+
+/**
+ * Checks e(-A, B) * e(alpha, beta) * e(vk_x, gamma) * e(C, delta) == 1
+ */
+function checkPrepared(key: DecodedVerificationKey, p: PreparedProof) {
+  return checkPairings([
+    { g1: p.a.negate(), g2: p.b },
+    { g1: key.alpha, g2: key.beta },
+    { g1: p.vkX, g2: key.gamma },
+    { g1: p.c, g2: key.delta },
+  ]);
+}
+
+/**
+ * Checks all equations at once, each scaled by a random 128-bit r_i:
+ *
+ *   prod e(-r_i A_i, B_i) * e(sum(r_i) alpha, beta)
+ *     * e(sum(r_i vk_x_i), gamma) * e(sum(r_i C_i), delta) == 1
+ *
+ * A batch containing an invalid proof passes with probability about 2^-128.
+ */
+function checkBatch(key: DecodedVerificationKey, proofs: PreparedProof[]) {
+  const weights = proofs.map(
+    () => BigInt("0x" + bytesToHex(randomBytes(16))) + 1n
+  );
+  const weightSum = weights.reduce((acc, r) => acc + r, 0n);
+  const combine = (terms: G1Point[]) =>
+    terms.reduce(
+      (acc, t, i) => acc.add(t.multiplyUnsafe(weights[i])),
+      G1.Point.ZERO
+    );
+
+  return checkPairings([
+    ...proofs.map((p, i) => ({
+      g1: p.a.negate().multiplyUnsafe(weights[i]),
+      g2: p.b,
+    })),
+    { g1: key.alpha.multiplyUnsafe(weightSum), g2: key.beta },
+    { g1: combine(proofs.map((p) => p.vkX)), g2: key.gamma },
+    { g1: combine(proofs.map((p) => p.c)), g2: key.delta },
+  ]);
+}
+
+function checkPairings(pairs: { g1: G1Point; g2: G2Point }[]): boolean {
+  // e(0, Q) = e(P, 0) = 1, and noble refuses to pair the point at infinity
+  const nonZero = pairs.filter(({ g1, g2 }) => !g1.is0() && !g2.is0());
+  return fields.Fp12.eql(bn254.pairingBatch(nonZero), fields.Fp12.ONE);
+}
+
+function decodeVerificationKey(
+  vkey: Groth16VerificationKey
+): DecodedVerificationKey {
+  checkVerificationKey(vkey);
+  return {
+    alpha: toG1("vkey.vk_alpha_1", vkey.vk_alpha_1),
+    beta: toG2("vkey.vk_beta_2", vkey.vk_beta_2),
+    gamma: toG2("vkey.vk_gamma_2", vkey.vk_gamma_2),
+    delta: toG2("vkey.vk_delta_2", vkey.vk_delta_2),
+    ic: vkey.IC.map((p, i) => toG1(`vkey.IC[${i}]`, p)),
+  };
+}
+
+/**
+ * Decodes a proof and computes vk_x from its public signals. Returns null
+ * when the proof is well formed but cannot be valid: points off the curve or
+ * signals outside the scalar field.
+ */
+function prepareProof(
+  key: DecodedVerificationKey,
+  nPublic: number,
+  publicSignals: PublicSignals,
+  proof: Groth16Proof,
+  prefix = ""
+): PreparedProof | null {
+  if (!Array.isArray(publicSignals)) {
+    throw new MalformedProofError(
+      `${prefix}publicSignals`,
+      "expected an array"
+    );
+  }
+  if (publicSignals.length !== nPublic) {
+    throw new MalformedProofError(
+      `${prefix}publicSignals`,
+      `expected ${nPublic} elements, got ${publicSignals.length}`
+    );
+  }
+  if (typeof proof !== "object" || proof === null) {
+    throw new MalformedProofError(`${prefix}proof`, "expected an object");
+  }
+
+  const signals = publicSignals.map((x, i) =>
+    toBigint(`${prefix}publicSignals[${i}]`, x)
+  );
+
+  let a: G1Point, b: G2Point, c: G1Point;
+  try {
+    a = toG1(`${prefix}proof.pi_a`, proof.pi_a);
+    b = toG2(`${prefix}proof.pi_b`, proof.pi_b);
+    c = toG1(`${prefix}proof.pi_c`, proof.pi_c);
+  } catch (error) {
+    if (error instanceof MalformedProofError) {
+      throw error;
+    }
+    // Well-formed numbers that are not valid curve points
+    return null;
+  }
+
+  if (signals.some((x) => x >= fields.Fr.ORDER)) {
+    return null;
+  }
+
+  const vkX = signals.reduce(
+    (acc, s, i) => acc.add(key.ic[i + 1].multiplyUnsafe(s)),
+    key.ic[0]
+  );
+  return { a, b, c, vkX };
+}
+
+/**
+ * Checks the shape of a verification key before any point is decoded
+ */
+function checkVerificationKey(vkey: Groth16VerificationKey) {
+  if (typeof vkey !== "object" || vkey === null) {
+    throw new MalformedProofError("vkey", "expected an object");
+  }
+  if (vkey.protocol !== "groth16") {
+    throw new MalformedProofError(
+      "vkey.protocol",
+      `expected "groth16", got ${JSON.stringify(vkey.protocol)}`
+    );
+  }
+  if (vkey.curve !== "bn128") {
+    throw new MalformedProofError(
+      "vkey.curve",
+      `only bn128 is supported, got ${JSON.stringify(vkey.curve)}`
+    );
+  }
+  if (!Array.isArray(vkey.IC) || vkey.IC.length !== vkey.nPublic + 1) {
+    throw new MalformedProofError(
+      "vkey.IC",
+      `expected ${vkey.nPublic + 1} points`
+    );
+  }
+}
+
+function toBigint(field: string, value: unknown): bigint {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new MalformedProofError(field, "expected a decimal string");
+  }
+  return BigInt(value);
+}
+
+function checkLength(field: string, value: unknown, length: number) {
+  if (!Array.isArray(value) || value.length !== length) {
+    throw new MalformedProofError(field, `expected ${length} elements`);
+  }
+}
+
+/**
+ * Decodes a snarkjs G1 point [x, y, z]; z is 1, or 0 for the point at infinity
+ */
+function toG1(field: string, coords: unknown): G1Point {
+  checkLength(field, coords, 3);
+  const [x, y, z] = (coords as unknown[]).map((v, i) =>
+    toBigint(`${field}[${i}]`, v)
+  );
+  if (z === 0n) {
+    return G1.Point.ZERO;
+  }
+  if (z !== 1n) {
+    throw new MalformedProofError(field, "expected affine coordinates");
+  }
+  const point = G1.Point.fromAffine({ x, y });
+  point.assertValidity();
+  return point;
+}
+
+/**
+ * Decodes a snarkjs G2 point [[x.c0, x.c1], [y.c0, y.c1], [z.c0, z.c1]]
+ */
+function toG2(field: string, coords: unknown): G2Point {
+  checkLength(field, coords, 3);
+  const [x, y, z] = (coords as unknown[]).map((pair, i) => {
+    checkLength(`${field}[${i}]`, pair, 2);
+    return fields.Fp2.fromBigTuple([
+      toBigint(`${field}[${i}][0]`, (pair as unknown[])[0]),
+      toBigint(`${field}[${i}][1]`, (pair as unknown[])[1]),
+    ]);
+  });
+  if (fields.Fp2.is0(z)) {
+    return G2.Point.ZERO;
+  }
+  if (!fields.Fp2.eql(z, fields.Fp2.ONE)) {
+    throw new MalformedProofError(field, "expected affine coordinates");
+  }
+  const point = G2.Point.fromAffine({ x, y });
+  point.assertValidity();
+  return point;
+}
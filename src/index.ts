@@ -1,6 +1,9 @@
 import { deriveTwoPublicKeys, stringToSeed } from "./keyDerivation";
+import { consoleLogger, setLogger } from "./logger";
 import { generateProofWithWitness } from "./proofGeneration";
 import { verifyKeyDerivation, verifyWitness } from "./proofVerification";
+import { parseCircuitPath } from "./validation";
+import { VALID_SIGNAL_INDEX } from "./witnessInspector";
 
 /**
  * Main function that demonstrates the complete flow:
@@ -12,6 +15,8 @@ import { verifyKeyDerivation, verifyWitness } from "./proofVerification";
  * not the cryptographic proof. For proper ZK proof verification, use index2.ts
  */
 async function main() {
+  setLogger(consoleLogger("info"));
+
   console.log("🚀 Starting Prove2PubKeys demonstration...\n");
 
   try {
@@ -20,8 +25,8 @@ async function main() {
     const seedString = "my-secret-seed-for-solana-keys-12345678901234567890";
     const seed = stringToSeed(seedString);
 
-    const path1 = [44, 501, 0, 0]; // First derivation path
-    const path2 = [44, 501, 0, 1]; // Second derivation path
+    const path1 = parseCircuitPath("m/44'/501'/0'/0'"); // First derivation path
+    const path2 = parseCircuitPath("m/44'/501'/0'/1'"); // Second derivation path
 
     const { pubkey1, pubkey2 } = await deriveTwoPublicKeys(seed, path1, path2);
 
@@ -40,7 +45,7 @@ async function main() {
 
     // Step 2: Verify key derivation works correctly
     console.log("🔍 Step 2: Verifying key derivation...");
-    const derivationValid = await verifyKeyDerivation(
+    const { valid: derivationValid } = await verifyKeyDerivation(
       seed,
       pubkey1,
       pubkey2,
@@ -65,12 +70,12 @@ async function main() {
 
     console.log("✅ Witness generated successfully");
     console.log(`  Witness length: ${witness.length}`);
-    console.log(`  Output value: ${witness[witness.length - 1]}`);
+    console.log(`  Output value: ${witness[VALID_SIGNAL_INDEX]}`);
     console.log();
 
     // Step 4: Verify the proof
     console.log("✅ Step 4: Verifying proof...");
-    const proofValid = verifyWitness(witness);
+    const { valid: proofValid } = verifyWitness(witness);
     console.log(`✅ Proof verification: ${proofValid ? "PASSED" : "FAILED"}\n`);
 
     // Summary
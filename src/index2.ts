@@ -1,6 +1,12 @@
 import { deriveTwoPublicKeys, stringToSeed } from "./keyDerivation";
+import { consoleLogger, setLogger } from "./logger";
 import { generateProof } from "./proofGeneration";
-import { verifyKeyDerivation, verifyProof } from "./proofVerification";
+import {
+  verifyKeyDerivation,
+  verifyLinkProof,
+  verifyProof,
+} from "./proofVerification";
+import { parseCircuitPath } from "./validation";
 
 /**
  * Main function that demonstrates the complete flow using verifyProof:
@@ -16,6 +22,8 @@ import { verifyKeyDerivation, verifyProof } from "./proofVerification";
  * - Performs cryptographic proof verification instead of just witness output checking
  */
 async function main() {
+  setLogger(consoleLogger("info"));
+
   console.log(
     "🚀 Starting Prove2PubKeys demonstration (with verifyProof)...\n"
   );
@@ -26,8 +34,8 @@ async function main() {
     const seedString = "my-secret-seed-for-solana-keys-12345678901234567890";
     const seed = stringToSeed(seedString);
 
-    const path1 = [44, 501, 0, 0]; // First derivation path
-    const path2 = [44, 501, 0, 1]; // Second derivation path
+    const path1 = parseCircuitPath("m/44'/501'/0'/0'"); // First derivation path
+    const path2 = parseCircuitPath("m/44'/501'/0'/1'"); // Second derivation path
 
     const { pubkey1, pubkey2 } = await deriveTwoPublicKeys(seed, path1, path2);
 
@@ -46,7 +54,7 @@ async function main() {
 
     // Step 2: Verify key derivation works correctly
     console.log("🔍 Step 2: Verifying key derivation...");
-    const derivationValid = await verifyKeyDerivation(
+    const { valid: derivationValid } = await verifyKeyDerivation(
       seed,
       pubkey1,
       pubkey2,
@@ -79,8 +87,17 @@ async function main() {
 
     // Step 4: Verify the proof using snarkjs.groth16.verify
     console.log("✅ Step 4: Verifying proof with verifyProof...");
-    const proofValid = await verifyProof(proof, publicSignals);
-    console.log(`✅ Proof verification: ${proofValid ? "PASSED" : "FAILED"}\n`);
+    const { valid: proofValid } = await verifyProof(proof, publicSignals);
+    console.log(`✅ Proof verification: ${proofValid ? "PASSED" : "FAILED"}`);
+
+    // Step 5: Verify the proof against the keys and paths we expect
+    const { valid: linkValid } = await verifyLinkProof(proof, {
+      pubkey1,
+      pubkey2,
+      path1,
+      path2,
+    });
+    console.log(`✅ Link verification: ${linkValid ? "PASSED" : "FAILED"}\n`);
 
     // Summary
     console.log("📊 Summary:");
@@ -89,8 +106,9 @@ async function main() {
     );
     console.log(`  ✅ Proof generation: SUCCESS`);
     console.log(`  ✅ Proof verification: ${proofValid ? "PASSED" : "FAILED"}`);
+    console.log(`  ✅ Link verification: ${linkValid ? "PASSED" : "FAILED"}`);
 
-    if (derivationValid && proofValid) {
+    if (derivationValid && proofValid && linkValid) {
       console.log(
         "\n🎉 All tests passed! The circuit correctly proves that both public keys derive from the same seed."
       );
@@ -1,30 +1,36 @@
-import { buildPoseidon } from "circomlibjs";
-
-let poseidon: any = null;
-let F: any = null;
+import { PublicKey } from "@solana/web3.js";
+import { InvalidInputError } from "./errors";
+import { log } from "./logger";
+import { getPoseidon } from "./poseidon";
+import { encodePath } from "./publicSignals";
+import { pubkeyBytesToLimbs, toPublicKey } from "./pubkeyCodec";
+import {
+  derivePathFromIndices,
+  ed25519PublicFromPrivateKeyBytes,
+} from "./slip10";
+import { CircuitPath, PubkeyLimbs, Seed } from "./types";
+import { BN254_FIELD_ORDER, validatePath, validateSeed } from "./validation";
 
 /**
- * Initialize the Poseidon hash function
+ * Key derivation schemes supported by the TypeScript layer:
+ * - "poseidon-toy": the Poseidon stand-in implemented by the circuit
+ * - "slip10-ed25519": real SLIP-0010 Ed25519 derivation, as used by Solana wallets
  */
-async function initPoseidon() {
-  if (!poseidon) {
-    poseidon = await buildPoseidon();
-    F = poseidon.F;
-  }
-  return { poseidon, F };
-}
+export type DerivationScheme = "poseidon-toy" | "slip10-ed25519";
+
+export const DEFAULT_DERIVATION_SCHEME: DerivationScheme = "poseidon-toy";
 
 /**
  * Derives a private key from seed and path using the same logic as the circuit
  * This matches the KeyDerive template in the circuit
  */
 export async function derivePrivateKey(
-  seed: bigint[],
-  path: number[]
+  seed: Seed,
+  path: CircuitPath
 ): Promise<bigint[]> {
-  const { poseidon: poseidonFn, F } = await initPoseidon();
+  const poseidon = await getPoseidon();
 
-  // Convert seed to the format expected by Poseidon (12 inputs)
+  // Convert seed to the format expected by Poseidon (14 inputs)
   const inputs: bigint[] = [];
 
   // Add seed (8 elements)
@@ -32,28 +38,25 @@ export async function derivePrivateKey(
     inputs.push(seed[i]);
   }
 
-  // Add path components (4 elements)
-  for (let i = 0; i < 4; i++) {
-    inputs.push(BigInt(path[i]));
+  // Add the depth and the zero-padded path components (1 + 5 elements)
+  const { indices, depth } = encodePath(path);
+  inputs.push(BigInt(depth));
+  for (const index of indices) {
+    inputs.push(BigInt(index));
   }
 
-  // Hash using Poseidon (12 inputs) with proper field arithmetic
-  const hashResult = poseidonFn(inputs);
-  const hashBigInt = BigInt(F.toString(hashResult));
+  // Hash using Poseidon (14 inputs)
+  const hashResult = poseidon(inputs);
 
-  console.log(
-    "TypeScript Poseidon inputs:",
-    inputs.map((x) => x.toString())
-  );
-  console.log("TypeScript Poseidon hash result:", hashBigInt.toString());
+  // The inputs contain the seed and the hash is the private key, so only
+  // the path is logged
+  log.debug("Derived private key", { path });
 
-  // Generate private key deterministically (8 elements) using field arithmetic
-  const privateKey: bigint[] = [];
-  for (let i = 0; i < 8; i++) {
-    privateKey.push(F.add(hashResult, F.e(i)));
-  }
-
-  return privateKey.map((x) => BigInt(F.toString(x)));
+  // Generate private key deterministically (8 elements), adding in the field
+  return Array.from(
+    { length: 8 },
+    (_, i) => (hashResult + BigInt(i)) % BN254_FIELD_ORDER
+  );
 }
 
 /**
@@ -63,51 +66,102 @@ export async function derivePrivateKey(
 export async function generatePublicKey(
   privateKey: bigint[]
 ): Promise<bigint[]> {
-  const { poseidon: poseidonFn, F } = await initPoseidon();
+  const poseidon = await getPoseidon();
+
+  // Hash private key using Poseidon (8 inputs)
+  const hashResult = poseidon(privateKey);
 
-  // Hash private key using Poseidon (8 inputs) with proper field arithmetic
-  const hashResult = poseidonFn(privateKey);
-  const hashBigInt = BigInt(F.toString(hashResult));
+  log.debug("Generated public key", { keyHash: hashResult });
 
-  console.log(
-    "TypeScript private key for hashing:",
-    privateKey.map((x) => x.toString())
+  // Generate public key (4 elements), adding in the field
+  return Array.from(
+    { length: 4 },
+    (_, i) => (hashResult + BigInt(i)) % BN254_FIELD_ORDER
   );
-  console.log("TypeScript key hasher result:", hashBigInt.toString());
+}
 
-  // Generate public key (4 elements) using field arithmetic
-  const publicKey: bigint[] = [];
-  for (let i = 0; i < 4; i++) {
-    publicKey.push(F.add(hashResult, F.e(i)));
-  }
+/**
+ * Derives the real 32-byte Ed25519 public key for a seed and path using SLIP-0010.
+ * SLIP-0010 Ed25519 only defines hardened derivation, so every component of
+ * the path must be hardened.
+ */
+export function deriveSlip10PublicKey(seed: Seed, path: CircuitPath): Buffer {
+  const { priv } = derivePathFromIndices(seedToBuffer(seed), path);
+  return ed25519PublicFromPrivateKeyBytes(priv);
+}
+
+/**
+ * Derives the real Solana public key for a seed and path using SLIP-0010
+ */
+export function deriveSolanaPublicKey(
+  seed: Seed,
+  path: CircuitPath
+): PublicKey {
+  return toPublicKey(deriveSlip10PublicKey(seed, path));
+}
 
-  return publicKey.map((x) => BigInt(F.toString(x)));
+/**
+ * Derives a public key (as 4 limbs) from a seed and path using the given scheme
+ */
+export async function derivePublicKey(
+  seed: Seed,
+  path: CircuitPath,
+  scheme: DerivationScheme = DEFAULT_DERIVATION_SCHEME
+): Promise<PubkeyLimbs> {
+  validateSeed(seed);
+  validatePath(path);
+
+  switch (scheme) {
+    case "poseidon-toy": {
+      const privateKey = await derivePrivateKey(seed, path);
+      return generatePublicKey(privateKey);
+    }
+    case "slip10-ed25519":
+      return pubkeyBytesToLimbs(deriveSlip10PublicKey(seed, path));
+    default:
+      throw new InvalidInputError("scheme", `unknown scheme ${scheme}`);
+  }
 }
 
 /**
  * Derives two public keys from a seed using two different paths
- * This matches the main Prove2PubKeys circuit logic
+ * With the default scheme this matches the main Prove2PubKeys circuit logic
  */
 export async function deriveTwoPublicKeys(
-  seed: bigint[],
-  path1: number[],
-  path2: number[]
-): Promise<{ pubkey1: bigint[]; pubkey2: bigint[] }> {
-  // Derive private keys
-  const privateKey1 = await derivePrivateKey(seed, path1);
-  const privateKey2 = await derivePrivateKey(seed, path2);
-
-  // Generate public keys
-  const pubkey1 = await generatePublicKey(privateKey1);
-  const pubkey2 = await generatePublicKey(privateKey2);
+  seed: Seed,
+  path1: CircuitPath,
+  path2: CircuitPath,
+  scheme: DerivationScheme = DEFAULT_DERIVATION_SCHEME
+): Promise<{ pubkey1: PubkeyLimbs; pubkey2: PubkeyLimbs }> {
+  const [pubkey1, pubkey2] = await deriveManyPublicKeys(
+    seed,
+    [path1, path2],
+    scheme
+  );
 
   return { pubkey1, pubkey2 };
 }
 
+/**
+ * Derives one public key per path from the same seed
+ * With the default scheme this matches the ProveNPubKeys circuit logic
+ */
+export async function deriveManyPublicKeys(
+  seed: Seed,
+  paths: CircuitPath[],
+  scheme: DerivationScheme = DEFAULT_DERIVATION_SCHEME
+): Promise<PubkeyLimbs[]> {
+  const pubkeys: PubkeyLimbs[] = [];
+  for (const path of paths) {
+    pubkeys.push(await derivePublicKey(seed, path, scheme));
+  }
+  return pubkeys;
+}
+
 /**
  * Converts a string seed to bigint array (8 elements of 64-bit chunks)
  */
-export function stringToSeed(seedString: string): bigint[] {
+export function stringToSeed(seedString: string): Seed {
   const seed: bigint[] = [];
   const bytes = new TextEncoder().encode(seedString);
 
@@ -129,3 +183,53 @@ export function stringToSeed(seedString: string): bigint[] {
 
   return seed;
 }
+
+/**
+ * Converts a seed in limb format (8 big-endian 64-bit chunks) back to 64 bytes
+ */
+export function seedToBuffer(seed: Seed): Buffer {
+  return limbsToBytes(validateSeed(seed), 8);
+}
+
+/**
+ * Splits a byte buffer into big-endian 64-bit limbs
+ */
+export function bytesToLimbs(bytes: Uint8Array): bigint[] {
+  if (bytes.length % 8 !== 0) {
+    throw new InvalidInputError(
+      "bytes",
+      `length must be a multiple of 8, got ${bytes.length}`
+    );
+  }
+
+  const limbs: bigint[] = [];
+  for (let i = 0; i < bytes.length; i += 8) {
+    let value = 0n;
+    for (let j = 0; j < 8; j++) {
+      value = (value << 8n) + BigInt(bytes[i + j]);
+    }
+    limbs.push(value);
+  }
+  return limbs;
+}
+
+/**
+ * Joins big-endian 64-bit limbs back into bytes
+ */
+export function limbsToBytes(limbs: bigint[], bytesPerLimb = 8): Buffer {
+  const bytes = Buffer.alloc(limbs.length * bytesPerLimb);
+  limbs.forEach((limb, i) => {
+    if (limb < 0n || limb >= 1n << BigInt(bytesPerLimb * 8)) {
+      throw new InvalidInputError(
+        `limbs[${i}]`,
+        `does not fit in ${bytesPerLimb} bytes`
+      );
+    }
+    let value = limb;
+    for (let j = bytesPerLimb - 1; j >= 0; j--) {
+      bytes[i * bytesPerLimb + j] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+  });
+  return bytes;
+}
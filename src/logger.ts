@@ -0,0 +1,113 @@
+/**
+ * Log levels in increasing severity; "silent" disables logging
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Minimal logger interface. Messages are static strings; values go in
+ * `fields` so they can be redacted before they reach the sink.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVELS: LogLevel[] = ["debug", "info", "warn", "error", "silent"];
+
+/**
+ * Field names whose values are secret. They are replaced with "[REDACTED]"
+ * at any depth, whatever logger is installed and whatever its level.
+ */
+export const REDACTED_FIELDS: ReadonlySet<string> = new Set([
+  "seed",
+  "seedBuffer",
+  "mnemonic",
+  "passphrase",
+  "privateKey",
+  "private_key",
+  "priv",
+  "chainCode",
+]);
+
+export const REDACTED = "[REDACTED]";
+
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Logger writing to stderr, so stdout stays free for program output
+ */
+export function consoleLogger(level: LogLevel = "info"): Logger {
+  const threshold = LEVELS.indexOf(level);
+  const method =
+    (name: Exclude<LogLevel, "silent">) =>
+    (message: string, fields?: LogFields) => {
+      if (LEVELS.indexOf(name) < threshold) return;
+      if (fields) console.error(`[${name}] ${message}`, fields);
+      else console.error(`[${name}] ${message}`);
+    };
+
+  return {
+    debug: method("debug"),
+    info: method("info"),
+    warn: method("warn"),
+    error: method("error"),
+  };
+}
+
+/**
+ * Replaces secret fields (see REDACTED_FIELDS) in plain objects and arrays
+ */
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (value !== null && typeof value === "object") {
+    const proto = Object.getPrototypeOf(value);
+    if (proto !== Object.prototype && proto !== null) {
+      return value;
+    }
+    return Object.fromEntries(
+      Object.entries(value).map(([key, inner]) => [
+        key,
+        REDACTED_FIELDS.has(key) ? REDACTED : redact(inner),
+      ])
+    );
+  }
+  return value;
+}
+
+let sink: Logger = silentLogger;
+
+/**
+ * Installs the logger used by this package. Defaults to silentLogger.
+ */
+export function setLogger(logger: Logger): void {
+  sink = logger;
+}
+
+/**
+ * Logger used inside the package: forwards to the installed logger with
+ * secret fields redacted
+ */
+export const log: Logger = {
+  debug: (message, fields) => sink.debug(message, redactFields(fields)),
+  info: (message, fields) => sink.info(message, redactFields(fields)),
+  warn: (message, fields) => sink.warn(message, redactFields(fields)),
+  error: (message, fields) => sink.error(message, redactFields(fields)),
+};
+
+function redactFields(fields?: LogFields): LogFields | undefined {
+  return fields === undefined ? undefined : (redact(fields) as LogFields);
+}
@@ -0,0 +1,187 @@
+import { InvalidInputError } from "./errors";
+import { getPoseidon, PoseidonHash } from "./poseidon";
+import { toPubkeyLimbs } from "./pubkeyCodec";
+import { PubkeyInput, PubkeyLimbs } from "./types";
+import { validatePubkey } from "./validation";
+
+/*
+  Published sets of pubkeys for membership proofs (see
+  generateMembershipProof), e.g. an allowlist of holders.
+
+  A set is a Poseidon Merkle tree of fixed depth, matching MerkleRoot in
+  merkle.circom: leaf i is Poseidon(pubkey limbs) of the i-th pubkey, unused
+  leaves are 0, and each parent is Poseidon(left, right). Only the root is
+  published; a prover who knows the list rebuilds the same tree to get the
+  path of their member.
+
+  Subtrees with no pubkeys hash to a precomputed value per level, so only
+  the nodes above actual pubkeys are stored.
+*/
+
+/**
+ * Depth of the trees the membership circuit accepts.
+ * Must match membershipTreeDepth() in merkle.circom.
+ */
+export const MEMBERSHIP_TREE_DEPTH = 20;
+
+/**
+ * Path from a leaf to the root: the sibling at each level, bottom first,
+ * and whether the leaf's ancestor at that level is a right child (1) or a
+ * left one (0)
+ */
+export interface MerkleProof {
+  leaf: bigint;
+  siblings: bigint[];
+  pathIndices: number[];
+}
+
+/**
+ * Leaf of a pubkey, matching PubkeyLeaf in merkle.circom
+ */
+export async function computePubkeyLeaf(pubkey: PubkeyInput): Promise<bigint> {
+  const hash = await getPoseidon();
+  return hash(validatePubkey(toPubkeyLimbs(pubkey)));
+}
+
+/**
+ * Merkle tree over a list of pubkeys. Build one with MerkleSet.build.
+ */
+export class MerkleSet {
+  readonly depth: number;
+  readonly pubkeys: PubkeyLimbs[];
+
+  // levels[0] are the leaves, levels[depth] is [root]
+  private readonly levels: bigint[][];
+  // zeros[i] is the root of an empty subtree of height i
+  private readonly zeros: bigint[];
+  private readonly indices = new Map<bigint, number>();
+
+  private constructor(
+    pubkeys: PubkeyLimbs[],
+    depth: number,
+    private readonly hash: PoseidonHash
+  ) {
+    this.depth = depth;
+    this.pubkeys = pubkeys;
+
+    this.zeros = [0n];
+    for (let i = 0; i < depth; i++) {
+      this.zeros.push(hash([this.zeros[i], this.zeros[i]]));
+    }
+
+    const leaves = pubkeys.map((pubkey, i) => {
+      const leaf = hash(pubkey);
+      if (this.indices.has(leaf)) {
+        throw new InvalidInputError(
+          `pubkeys[${i}]`,
+          `duplicate of pubkeys[${this.indices.get(leaf)}]`
+        );
+      }
+      this.indices.set(leaf, i);
+      return leaf;
+    });
+
+    this.levels = [leaves];
+    for (let i = 0; i < depth; i++) {
+      const nodes = this.levels[i];
+      const parents: bigint[] = [];
+      for (let j = 0; j < nodes.length; j += 2) {
+        parents.push(hash([nodes[j], nodes[j + 1] ?? this.zeros[i]]));
+      }
+      this.levels.push(parents);
+    }
+  }
+
+  /**
+   * Builds the tree of `pubkeys`, in order. The list must be non-empty,
+   * without duplicates and at most 2^depth long; membership proofs need the
+   * default depth.
+   */
+  static async build(
+    pubkeys: PubkeyInput[],
+    depth: number = MEMBERSHIP_TREE_DEPTH
+  ): Promise<MerkleSet> {
+    if (!Number.isInteger(depth) || depth < 1 || depth > 32) {
+      throw new InvalidInputError(
+        "depth",
+        `must be an integer from 1 to 32, got ${depth}`
+      );
+    }
+    if (!Array.isArray(pubkeys) || pubkeys.length === 0) {
+      throw new InvalidInputError("pubkeys", "expected a non-empty array");
+    }
+    if (pubkeys.length > 2 ** depth) {
+      throw new InvalidInputError(
+        "pubkeys",
+        `a tree of depth ${depth} holds at most ${2 ** depth} pubkeys, got ${
+          pubkeys.length
+        }`
+      );
+    }
+
+    const limbs = pubkeys.map((p, i) =>
+      validatePubkey(toPubkeyLimbs(p), `pubkeys[${i}]`)
+    );
+    return new MerkleSet(limbs, depth, await getPoseidon());
+  }
+
+  get size(): number {
+    return this.pubkeys.length;
+  }
+
+  /**
+   * The value published for the set and passed to the circuit as merkleRoot
+   */
+  get root(): bigint {
+    return this.levels[this.depth][0];
+  }
+
+  /**
+   * Position of `pubkey` in the set, or -1 if it is not a member
+   */
+  indexOf(pubkey: PubkeyInput): number {
+    const leaf = this.hash(validatePubkey(toPubkeyLimbs(pubkey)));
+    return this.indices.get(leaf) ?? -1;
+  }
+
+  has(pubkey: PubkeyInput): boolean {
+    return this.indexOf(pubkey) !== -1;
+  }
+
+  /**
+   * Inclusion path of a member, in the form the circuit takes it
+   */
+  proof(pubkey: PubkeyInput): MerkleProof {
+    let index = this.indexOf(pubkey);
+    if (index === -1) {
+      throw new InvalidInputError("pubkey", "is not a member of the set");
+    }
+
+    const leaf = this.levels[0][index];
+    const siblings: bigint[] = [];
+    const pathIndices: number[] = [];
+    for (let i = 0; i < this.depth; i++) {
+      siblings.push(this.levels[i][index ^ 1] ?? this.zeros[i]);
+      pathIndices.push(index & 1);
+      index >>= 1;
+    }
+    return { leaf, siblings, pathIndices };
+  }
+}
+
+/**
+ * Root that a leaf and its path lead to; a proof is valid for a set when
+ * this equals the set's root
+ */
+export async function computeMerkleRoot({
+  leaf,
+  siblings,
+  pathIndices,
+}: MerkleProof): Promise<bigint> {
+  const hash = await getPoseidon();
+  return siblings.reduce(
+    (node, sibling, i) =>
+      pathIndices[i] === 1 ? hash([sibling, node]) : hash([node, sibling]),
+    leaf
+  );
+}
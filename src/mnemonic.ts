@@ -0,0 +1,70 @@
+import * as bip39 from "@scure/bip39";
+import { wordlist as englishWordlist } from "@scure/bip39/wordlists/english";
+import { InvalidInputError } from "./errors";
+import { bytesToLimbs } from "./keyDerivation";
+
+/*
+  BIP39 mnemonic -> seed, with @scure/bip39:
+  1) NFKD-normalize the words and check each one against the wordlist
+  2) check the checksum (first ENT/32 bits of SHA-256(entropy))
+  3) seed = PBKDF2-HMAC-SHA512(password = mnemonic, salt = "mnemonic" + passphrase, 2048 rounds, 64 bytes)
+
+  The passphrase ("25th word") only changes the PBKDF2 salt, so the same words
+  with a different passphrase give an entirely different seed.
+*/
+
+const VALID_WORD_COUNTS = [12, 15, 18, 21, 24];
+
+/**
+ * Splits and NFKD-normalizes a mnemonic given as a string or word list
+ */
+function normalizeWords(words: string | string[]): string[] {
+  const joined = Array.isArray(words) ? words.join(" ") : words;
+  return joined.normalize("NFKD").trim().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Checks word count, wordlist membership and checksum of a mnemonic.
+ * Throws an InvalidInputError describing the first problem found.
+ */
+export function validateMnemonic(
+  words: string | string[],
+  wordlist: string[] = englishWordlist
+): void {
+  const normalized = normalizeWords(words);
+
+  if (!VALID_WORD_COUNTS.includes(normalized.length)) {
+    throw new InvalidInputError(
+      "mnemonic",
+      `must have ${VALID_WORD_COUNTS.join(", ")} words, got ${
+        normalized.length
+      }`
+    );
+  }
+
+  const unknown = normalized.find((word) => !wordlist.includes(word));
+  if (unknown !== undefined) {
+    throw new InvalidInputError("mnemonic", `unknown word: ${unknown}`);
+  }
+
+  if (!bip39.validateMnemonic(normalized.join(" "), wordlist)) {
+    throw new InvalidInputError("mnemonic", "invalid checksum");
+  }
+}
+
+/**
+ * Converts a BIP39 mnemonic and optional passphrase into a seed.
+ * Returns the 64-byte buffer used by SLIP-0010 derivation and the same bytes
+ * as 8 big-endian 64-bit limbs used by derivePrivateKey and the circuit.
+ */
+export function mnemonicToSeed(
+  words: string | string[],
+  passphrase = ""
+): { seedBuffer: Buffer; seed: bigint[] } {
+  validateMnemonic(words);
+
+  const seedBuffer = Buffer.from(
+    bip39.mnemonicToSeedSync(normalizeWords(words).join(" "), passphrase)
+  );
+  return { seedBuffer, seed: bytesToLimbs(seedBuffer) };
+}
@@ -0,0 +1,265 @@
+import { randomBytes, randomInt } from "crypto";
+import { CircuitEntry, getCircuitForKeyCount } from "./circuitRegistry";
+import {
+  bytesToLimbs,
+  DEFAULT_DERIVATION_SCHEME,
+  DerivationScheme,
+  derivePrivateKey,
+  generatePublicKey,
+  seedToBuffer,
+} from "./keyDerivation";
+import { calculateWitness } from "./proofGeneration";
+import { pubkeyBytesToLimbs } from "./pubkeyCodec";
+import { computeSeedCommitment } from "./seedCommitment";
+import {
+  derivePathFromIndices,
+  ed25519PublicFromPrivateKeyBytes,
+  HARDENED_OFFSET,
+} from "./slip10";
+import { CircuitPath, PubkeyLimbs, Seed } from "./types";
+import { formatCircuitPath, MAX_PATH_DEPTH } from "./validation";
+import { WitnessInspector } from "./witnessInspector";
+
+/*
+  Parity harness: derives keys in TypeScript, computes the circuit's witness
+  for the same seed and paths, and compares every intermediate signal the
+  circuit kept, found by name in the compiled .sym file:
+
+    derive*.private_key[i]   derivePrivateKey
+    keygen*.public_key[i]    generatePublicKey
+    eq*[i].out, valid        1, since the TypeScript pubkeys are used as input
+    seedCommitment           computeSeedCommitment, for PARITY_DOMAIN
+
+  For "slip10-ed25519" circuits the private key is 256 bits, checked against
+  derivePathFromIndices in slip10.ts, and the public key against
+  ed25519PublicFromPrivateKeyBytes.
+
+  circom's optimizer removes signals that are linear combinations of others
+  (the .sym file gives them witness index -1); those are reported as skipped.
+  Compile with --O0 to keep more of them. If TypeScript derives a different
+  pubkey the `valid === 1` assertion fails and the case reports that instead.
+
+  Run with: npm run parity -- [cases] [keyCount] [scheme]
+*/
+
+export interface ParityMismatch {
+  signal: string;
+  expected: bigint; // TypeScript
+  actual: bigint; // circuit witness
+}
+
+export interface ParityResult {
+  seed: Seed;
+  paths: CircuitPath[];
+  compared: number; // signals checked
+  skipped: string[]; // expected signals the optimizer removed
+  mismatches: ParityMismatch[];
+  error?: string; // witness calculation failed
+}
+
+const MAX_U64 = (1n << 64n) - 1n;
+const MAX_INDEX = 2 ** 32 - 1;
+const PARITY_DOMAIN = "parity";
+
+/**
+ * Names of the per-key signals in a circuit: Prove2PubKeys numbers its
+ * components derive1/derive2, ProveNPubKeys indexes them derive[k]
+ */
+function signalNames(circuit: CircuitEntry, k: number) {
+  if (circuit.inputFormat === "pair") {
+    return {
+      privateKey: (i: number) => `main.derive${k + 1}.private_key[${i}]`,
+      publicKey: (i: number) => `main.keygen${k + 1}.public_key[${i}]`,
+      eq: (i: number) => `main.eq${k + 1}[${i}].out`,
+    };
+  }
+  return {
+    privateKey: (i: number) => `main.derive[${k}].private_key[${i}]`,
+    publicKey: (i: number) => `main.keygen[${k}].public_key[${i}]`,
+    eq: (i: number) => `main.eq[${k}][${i}].out`,
+  };
+}
+
+/**
+ * What the circuit's derive and keygen components should output for a path,
+ * according to TypeScript
+ */
+async function expectedKeys(
+  circuit: CircuitEntry,
+  seed: Seed,
+  path: CircuitPath
+): Promise<{ privateKey: bigint[]; publicKey: PubkeyLimbs }> {
+  if (circuit.scheme === "slip10-ed25519") {
+    const { priv } = derivePathFromIndices(seedToBuffer(seed), path);
+    const bits = [...priv].flatMap((byte) =>
+      Array.from({ length: 8 }, (_, b) => BigInt((byte >> (7 - b)) & 1))
+    );
+    return {
+      privateKey: bits,
+      publicKey: pubkeyBytesToLimbs(ed25519PublicFromPrivateKeyBytes(priv)),
+    };
+  }
+  const privateKey = await derivePrivateKey(seed, path);
+  return { privateKey, publicKey: await generatePublicKey(privateKey) };
+}
+
+/**
+ * Compares the TypeScript derivation with the circuit witness for one seed
+ * and exactly `circuit.keyCount` paths
+ */
+export async function checkParity(
+  circuit: CircuitEntry,
+  inspector: WitnessInspector,
+  seed: Seed,
+  paths: CircuitPath[]
+): Promise<ParityResult> {
+  const result: ParityResult = {
+    seed,
+    paths,
+    compared: 0,
+    skipped: [],
+    mismatches: [],
+  };
+
+  // What the circuit should compute, according to TypeScript
+  const expected = new Map<string, bigint>([
+    ["main.valid", 1n],
+    ["main.seedCommitment", await computeSeedCommitment(seed, PARITY_DOMAIN)],
+  ]);
+  const pubkeys: PubkeyLimbs[] = [];
+  for (let k = 0; k < paths.length; k++) {
+    const names = signalNames(circuit, k);
+    const { privateKey, publicKey } = await expectedKeys(
+      circuit,
+      seed,
+      paths[k]
+    );
+    pubkeys.push(publicKey);
+
+    privateKey.forEach((x, i) => expected.set(names.privateKey(i), x));
+    publicKey.forEach((x, i) => {
+      expected.set(names.publicKey(i), x);
+      expected.set(names.eq(i), 1n);
+    });
+  }
+
+  let witness: bigint[];
+  try {
+    witness = await calculateWitness(circuit, seed, pubkeys, paths, {
+      domain: PARITY_DOMAIN,
+    });
+  } catch (error) {
+    result.error = (error as Error).message;
+    return result;
+  }
+
+  for (const [signal, value] of expected) {
+    const index = inspector.indexOf(signal);
+    if (index < 0) {
+      result.skipped.push(signal);
+      continue;
+    }
+    result.compared++;
+    if (witness[index] !== value) {
+      result.mismatches.push({
+        signal,
+        expected: value,
+        actual: witness[index],
+      });
+    }
+  }
+  return result;
+}
+
+/**
+ * Random seeds and paths of random depth, starting with the edge cases:
+ * all-zero and all-ones seeds, and the shortest and longest paths with the
+ * smallest and largest indices. "slip10-ed25519" paths are all hardened.
+ */
+export function fuzzCases(
+  count: number,
+  keyCount: number,
+  scheme: DerivationScheme = DEFAULT_DERIVATION_SCHEME
+): { seed: Seed; paths: CircuitPath[] }[] {
+  const minIndex = scheme === "slip10-ed25519" ? HARDENED_OFFSET : 0;
+  const randomPath = () =>
+    Array.from({ length: randomInt(1, MAX_PATH_DEPTH + 1) }, () =>
+      randomInt(minIndex, MAX_INDEX + 1)
+    );
+
+  const cases = [
+    {
+      seed: Array(8).fill(0n),
+      paths: Array.from({ length: keyCount }, () => [minIndex]),
+    },
+    {
+      seed: Array(8).fill(MAX_U64),
+      paths: Array.from({ length: keyCount }, () =>
+        Array(MAX_PATH_DEPTH).fill(MAX_INDEX)
+      ),
+    },
+  ];
+  while (cases.length < count) {
+    cases.push({
+      seed: bytesToLimbs(randomBytes(64)),
+      paths: Array.from({ length: keyCount }, randomPath),
+    });
+  }
+  return cases.slice(0, count);
+}
+
+async function main() {
+  const count = Number(process.argv[2] ?? 10);
+  const circuit = getCircuitForKeyCount(
+    Number(process.argv[3] ?? 2),
+    (process.argv[4] ?? DEFAULT_DERIVATION_SCHEME) as DerivationScheme
+  );
+  const inspector = WitnessInspector.load(circuit);
+
+  console.log(`Checking ${count} cases against ${circuit.name}...`);
+
+  let failures = 0;
+  for (const [n, { seed, paths }] of fuzzCases(
+    count,
+    circuit.keyCount,
+    circuit.scheme
+  ).entries()) {
+    const result = await checkParity(circuit, inspector, seed, paths);
+    const ok = !result.error && result.mismatches.length === 0;
+    if (!ok) failures++;
+
+    console.log(
+      `  case ${n + 1}: ${ok ? "ok" : "MISMATCH"} (${result.compared} compared, ${result.skipped.length} optimized away)`
+    );
+    if (!ok) {
+      // Fuzzed seeds are test data, so printing them is fine
+      console.log(`    seed: ${seed.join(",")}`);
+      console.log(`    paths: ${paths.map(formatCircuitPath).join(" ")}`);
+      if (result.error) console.log(`    error: ${result.error}`);
+      for (const m of result.mismatches) {
+        console.log(
+          `    ${m.signal}: typescript ${m.expected}, circuit ${m.actual}`
+        );
+      }
+    }
+  }
+
+  console.log(
+    failures === 0
+      ? "TypeScript and circuit agree"
+      : `${failures} of ${count} cases differ`
+  );
+  return failures === 0 ? 0 : 1;
+}
+
+if (require.main === module) {
+  // snarkjs keeps worker threads alive, so exit explicitly
+  main()
+    .then((code) => process.exit(code))
+    .catch((error) => {
+      console.error(error);
+      process.exit(2);
+    });
+}
+
+export { main };
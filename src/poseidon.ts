@@ -0,0 +1,33 @@
+import { buildPoseidon } from "circomlibjs";
+
+/*
+  Poseidon over the BN254 scalar field, matching circomlib's Poseidon
+  template. circomlibjs builds the hash asynchronously, so callers await
+  getPoseidon() and then hash synchronously.
+*/
+
+/**
+ * Poseidon hash of 1 to 16 field elements
+ */
+export type PoseidonHash = (inputs: bigint[]) => bigint;
+
+/**
+ * The part of circomlibjs's field (an ffjavascript WasmField1) used here;
+ * @types/circomlibjs leaves it as `any`
+ */
+interface PoseidonField {
+  toObject(element: Uint8Array): bigint;
+}
+
+let poseidon: Promise<PoseidonHash> | undefined;
+
+/**
+ * Returns the Poseidon hash, building it on first use
+ */
+export function getPoseidon(): Promise<PoseidonHash> {
+  poseidon ??= buildPoseidon().then((hash) => {
+    const F: PoseidonField = hash.F;
+    return (inputs) => F.toObject(hash(inputs));
+  });
+  return poseidon;
+}
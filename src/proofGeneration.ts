@@ -1,97 +1,373 @@
-import { readFileSync } from "fs";
-import { join } from "path";
+import { WitnessCalculatorBuilder } from "circom_runtime";
 import * as snarkjs from "snarkjs";
+import {
+  CircuitEntry,
+  getCircuitArtifacts,
+  getCircuitForKeyCount,
+  MEMBERSHIP_CIRCUIT,
+  padStatement,
+} from "./circuitRegistry";
+import {
+  ArtifactMismatchError,
+  InvalidInputError,
+  toProvingError,
+} from "./errors";
+import { DEFAULT_DERIVATION_SCHEME, DerivationScheme } from "./keyDerivation";
+import { log } from "./logger";
+import { MEMBERSHIP_TREE_DEPTH, MerkleSet } from "./merkleSet";
+import {
+  buildManyPublicSignals,
+  buildMembershipPublicSignals,
+  encodePath,
+  PATH_DISCLOSURE_CODES,
+  publicSignalsEqual,
+} from "./publicSignals";
+import { computeSeedCommitment, domainTag } from "./seedCommitment";
+import {
+  CircuitInput,
+  CircuitPath,
+  Groth16Proof,
+  LinkProofOptions,
+  MembershipCircuitInput,
+  PublicSignals,
+  PubkeyInput,
+  PubkeyLimbs,
+  Seed,
+  Witness,
+} from "./types";
+import { validateSeed, validateStatement } from "./validation";
 
 /**
- * Generates a proof using the compiled circuit with real ZK proof generation
+ * Generates a proof using the compiled circuit with real ZK proof generation.
+ * See generateLinkProof for the options.
  */
 export async function generateProof(
-  seed: bigint[],
-  pubkey1: bigint[],
-  pubkey2: bigint[],
-  path1: number[],
-  path2: number[]
-): Promise<{ proof: any; publicSignals: any }> {
+  seed: Seed,
+  pubkey1: PubkeyInput,
+  pubkey2: PubkeyInput,
+  path1: CircuitPath,
+  path2: CircuitPath,
+  options: LinkProofOptions = {}
+): Promise<{
+  proof: Groth16Proof;
+  publicSignals: PublicSignals;
+  seedCommitment?: bigint;
+}> {
+  const { proof, publicSignals, seedCommitment } = await generateLinkProof(
+    seed,
+    [pubkey1, pubkey2],
+    [path1, path2],
+    DEFAULT_DERIVATION_SCHEME,
+    options
+  );
+  return { proof, publicSignals, seedCommitment };
+}
+
+/**
+ * Generates a proof that all pubkeys derive from the seed at the given paths.
+ * The smallest circuit for `scheme` that fits is used; the statement is
+ * padded up to its size, and `keyCount` reports which circuit produced the
+ * proof. With "slip10-ed25519" the pubkeys are real Solana addresses.
+ *
+ * Options:
+ * - `domain` (an application name, see seedCommitment.ts): the proof
+ *   publishes `seedCommitment`, which is the same for every proof made from
+ *   this seed for that domain
+ * - `challenge` issued by the verifier (see challenge.ts): binds the proof to
+ *   that verification, so it cannot be replayed elsewhere
+ * - `revealPaths`: how much of the paths the proof discloses; with "none"
+ *   every path must start with m/44'/501'
+ */
+export async function generateLinkProof(
+  seed: Seed,
+  pubkeys: PubkeyInput[],
+  paths: CircuitPath[],
+  scheme: DerivationScheme = DEFAULT_DERIVATION_SCHEME,
+  options: LinkProofOptions = {}
+): Promise<{
+  proof: Groth16Proof;
+  publicSignals: PublicSignals;
+  keyCount: number;
+  seedCommitment?: bigint;
+}> {
+  validateSeed(seed);
+  const statement = validateStatement(pubkeys, paths);
+  const { domain, challenge, revealPaths = "full" } = options;
+  const seedCommitment =
+    domain === undefined
+      ? undefined
+      : await computeSeedCommitment(seed, domain);
+
   try {
-    // Load the compiled circuit files
-    const wasmPath = join(__dirname, "../2pubkeys_js/2pubkeys.wasm");
-    const zkeyPath = join(__dirname, "../2pubkeys_final.zkey");
+    const circuit = getCircuitForKeyCount(statement.pubkeys.length, scheme);
+    const padded = padStatement(
+      statement.pubkeys,
+      statement.paths,
+      circuit.keyCount
+    );
+
+    // The circuit exposes the keys and the disclosed part of the paths as
+    // public signals; the proof must be about the statement we asked for
+    const expectedSignals = buildManyPublicSignals({
+      ...padded,
+      revealPaths,
+      domain,
+      seedCommitment,
+      challenge,
+    });
 
     // Prepare input for the circuit
-    const input = {
-      seed: seed.map((x) => x.toString()),
-      pubkey1: pubkey1.map((x) => x.toString()),
-      pubkey2: pubkey2.map((x) => x.toString()),
-      path1: path1.map((x) => x.toString()),
-      path2: path2.map((x) => x.toString()),
+    const input = buildCircuitInput(
+      circuit,
+      seed,
+      padded.pubkeys,
+      padded.paths,
+      options
+    );
+
+    log.debug("Generating ZK proof", {
+      circuit: circuit.name,
+      pubkeys: padded.pubkeys,
+      paths: padded.paths,
+      revealPaths,
+      domain,
+      challenge,
+    });
+
+    // Generate proof using snarkjs with the cached circuit artifacts
+    const { proof, publicSignals } =
+      await getCircuitArtifacts(circuit).prove(input);
+
+    if (!publicSignalsEqual(publicSignals, expectedSignals)) {
+      throw new ArtifactMismatchError(
+        "Public signals do not match the requested pubkeys and paths; are the circuit artifacts up to date?"
+      );
+    }
+
+    log.info("Generated ZK proof", { circuit: circuit.name, publicSignals });
+
+    return {
+      proof,
+      publicSignals,
+      keyCount: circuit.keyCount,
+      ...(seedCommitment === undefined ? {} : { seedCommitment }),
     };
+  } catch (error) {
+    throw toProvingError(error);
+  }
+}
 
-    console.log(
-      "Generating real ZK proof with input:",
-      JSON.stringify(input, null, 2)
+/**
+ * Generates a proof that `pubkey` shares a seed with some member of `set`
+ * without revealing which: `memberPubkey` and `memberPath` stay private, and
+ * the proof only carries the set's root. `path` is disclosed according to
+ * options.revealPaths; the other options work as in generateLinkProof.
+ */
+export async function generateMembershipProof(
+  seed: Seed,
+  pubkey: PubkeyInput,
+  path: CircuitPath,
+  memberPubkey: PubkeyInput,
+  memberPath: CircuitPath,
+  set: MerkleSet,
+  options: LinkProofOptions = {}
+): Promise<{
+  proof: Groth16Proof;
+  publicSignals: PublicSignals;
+  merkleRoot: bigint;
+  seedCommitment?: bigint;
+}> {
+  validateSeed(seed);
+  const statement = validateStatement(
+    [pubkey, memberPubkey],
+    [path, memberPath]
+  );
+  if (set.depth !== MEMBERSHIP_TREE_DEPTH) {
+    throw new InvalidInputError(
+      "set",
+      `must have depth ${MEMBERSHIP_TREE_DEPTH}, got ${set.depth}`
     );
+  }
+  if (!set.has(statement.pubkeys[1])) {
+    throw new InvalidInputError("memberPubkey", "is not a member of the set");
+  }
 
-    // Generate proof using snarkjs
-    const { proof, publicSignals } = await snarkjs.groth16.fullProve(
-      input,
-      wasmPath,
-      zkeyPath
-    );
+  const { domain, challenge, revealPaths = "full" } = options;
+  const seedCommitment =
+    domain === undefined
+      ? undefined
+      : await computeSeedCommitment(seed, domain);
+  const merkleRoot = set.root;
 
-    console.log("Generated real ZK proof successfully");
-    console.log("Proof structure:", Object.keys(proof));
-    console.log(
-      "Public signals:",
-      publicSignals.map((x: any) => x.toString())
-    );
+  try {
+    const expectedSignals = buildMembershipPublicSignals({
+      pubkey: statement.pubkeys[0],
+      path: statement.paths[0],
+      merkleRoot,
+      revealPaths,
+      domain,
+      seedCommitment,
+      challenge,
+    });
+
+    const { siblings, pathIndices } = set.proof(statement.pubkeys[1]);
+    const toStrings = (values: (bigint | number)[]) =>
+      values.map((x) => x.toString());
+    const [encoded, memberEncoded] = statement.paths.map(encodePath);
+    const input: MembershipCircuitInput = {
+      seed: toStrings(seed),
+      pubkey: toStrings(statement.pubkeys[0]),
+      path: toStrings(encoded.indices),
+      depth: encoded.depth.toString(),
+      memberPubkey: toStrings(statement.pubkeys[1]),
+      memberPath: toStrings(memberEncoded.indices),
+      memberDepth: memberEncoded.depth.toString(),
+      siblings: toStrings(siblings),
+      pathIndices: toStrings(pathIndices),
+      merkleRoot: merkleRoot.toString(),
+      reveal: PATH_DISCLOSURE_CODES[revealPaths].toString(),
+      domain: (domain === undefined ? 0n : domainTag(domain)).toString(),
+      challenge: (challenge ?? 0n).toString(),
+    };
+
+    log.debug("Generating membership proof", {
+      circuit: MEMBERSHIP_CIRCUIT.name,
+      pubkey: statement.pubkeys[0],
+      merkleRoot,
+      revealPaths,
+      domain,
+      challenge,
+    });
 
-    return { proof, publicSignals };
+    const { proof, publicSignals } =
+      await getCircuitArtifacts(MEMBERSHIP_CIRCUIT).prove(input);
+
+    if (!publicSignalsEqual(publicSignals, expectedSignals)) {
+      throw new ArtifactMismatchError(
+        "Public signals do not match the requested pubkey and set; are the circuit artifacts up to date?"
+      );
+    }
+
+    log.info("Generated membership proof", {
+      circuit: MEMBERSHIP_CIRCUIT.name,
+      publicSignals,
+    });
+
+    return {
+      proof,
+      publicSignals,
+      merkleRoot,
+      ...(seedCommitment === undefined ? {} : { seedCommitment }),
+    };
   } catch (error) {
-    console.error("Error generating proof:", error);
-    throw error;
+    throw toProvingError(error);
+  }
+}
+
+/**
+ * Computes the full witness of any registered circuit for a statement of
+ * exactly `circuit.keyCount` pubkeys and paths. A failing circuit assertion
+ * throws ConstraintUnsatisfiedError.
+ */
+export async function calculateWitness(
+  circuit: CircuitEntry,
+  seed: Seed,
+  pubkeys: PubkeyLimbs[],
+  paths: CircuitPath[],
+  options: LinkProofOptions = {}
+): Promise<Witness> {
+  try {
+    const wasm = await getCircuitArtifacts(circuit).getWasm();
+    const input = buildCircuitInput(circuit, seed, pubkeys, paths, options);
+
+    const wtns: snarkjs.MemFile = { type: "mem" };
+    await snarkjs.wtns.calculate({ ...input }, wasm, wtns);
+    const witness = await snarkjs.wtns.exportJson(wtns);
+    return witness.map((x) => BigInt(x));
+  } catch (error) {
+    throw toProvingError(error);
+  }
+}
+
+/**
+ * Builds the circuit input object in the shape the given circuit expects
+ */
+function buildCircuitInput(
+  circuit: CircuitEntry,
+  seed: Seed,
+  pubkeys: PubkeyLimbs[],
+  paths: CircuitPath[],
+  { domain, challenge, revealPaths = "full" }: LinkProofOptions = {}
+): CircuitInput {
+  const toStrings = (values: (bigint | number)[]) =>
+    values.map((x) => x.toString());
+
+  const encoded = paths.map(encodePath);
+  const tag = (domain === undefined ? 0n : domainTag(domain)).toString();
+  const challengeInput = (challenge ?? 0n).toString();
+  const reveal = PATH_DISCLOSURE_CODES[revealPaths].toString();
+
+  if (circuit.inputFormat === "pair") {
+    return {
+      seed: toStrings(seed),
+      pubkey1: toStrings(pubkeys[0]),
+      pubkey2: toStrings(pubkeys[1]),
+      path1: toStrings(encoded[0].indices),
+      path2: toStrings(encoded[1].indices),
+      depth1: encoded[0].depth.toString(),
+      depth2: encoded[1].depth.toString(),
+      reveal,
+      domain: tag,
+      challenge: challengeInput,
+    };
   }
+
+  return {
+    seed: toStrings(seed),
+    pubkeys: pubkeys.map(toStrings),
+    paths: encoded.map(({ indices }) => toStrings(indices)),
+    depths: encoded.map(({ depth }) => depth.toString()),
+    reveal,
+    domain: tag,
+    challenge: challengeInput,
+  };
 }
 
 /**
  * Generates a proof using the witness calculator (alternative approach)
  */
 export async function generateProofWithWitness(
-  seed: bigint[],
-  pubkey1: bigint[],
-  pubkey2: bigint[],
-  path1: number[],
-  path2: number[]
-): Promise<{ witness: any }> {
+  seed: Seed,
+  pubkey1: PubkeyInput,
+  pubkey2: PubkeyInput,
+  path1: CircuitPath,
+  path2: CircuitPath
+): Promise<{ witness: Witness }> {
+  validateSeed(seed);
+  const statement = validateStatement([pubkey1, pubkey2], [path1, path2]);
+
   try {
-    // Import the witness calculator
-    const witnessCalculator = require("../2pubkeys_js/witness_calculator.js");
-    const wasmBuffer = readFileSync(
-      join(__dirname, "../2pubkeys_js/2pubkeys.wasm")
-    );
+    const circuit = getCircuitForKeyCount(2);
+    const wasmBuffer = await getCircuitArtifacts(circuit).getWasm();
 
     // Prepare input for the circuit
-    const input = {
-      seed: seed.map((x) => x.toString()),
-      pubkey1: pubkey1.map((x) => x.toString()),
-      pubkey2: pubkey2.map((x) => x.toString()),
-      path1: path1.map((x) => x.toString()),
-      path2: path2.map((x) => x.toString()),
-    };
-
-    console.log(
-      "Generating witness with input:",
-      JSON.stringify(input, null, 2)
+    const input = buildCircuitInput(
+      circuit,
+      seed,
+      statement.pubkeys,
+      statement.paths
     );
 
+    log.debug("Generating witness", statement);
+
     // Create witness calculator
-    const wc = await witnessCalculator(wasmBuffer);
+    const wc = await WitnessCalculatorBuilder(wasmBuffer);
 
     // Calculate witness
-    const witness = await wc.calculateWitness(input, 0);
+    const witness: Witness = await wc.calculateWitness(input);
 
     return { witness };
   } catch (error) {
-    console.error("Error generating witness:", error);
-    throw error;
+    throw toProvingError(error);
   }
 }
@@ -1,103 +1,405 @@
-import { join } from "path";
 import * as snarkjs from "snarkjs";
+import {
+  CircuitEntry,
+  getCircuitArtifacts,
+  getCircuitForKeyCount,
+  getCircuitForSignalCount,
+  MEMBERSHIP_CIRCUIT,
+  padStatement,
+} from "./circuitRegistry";
+import { ArtifactMismatchError, MalformedProofError } from "./errors";
+import { verifyGroth16Batch } from "./groth16Verifier";
+import { DEFAULT_DERIVATION_SCHEME, DerivationScheme } from "./keyDerivation";
+import { log } from "./logger";
+import {
+  buildManyPublicSignals,
+  buildMembershipPublicSignals,
+  LinkStatement,
+  ManyLinkStatement,
+  MEMBERSHIP_PUBLIC_SIGNAL_COUNT,
+  MembershipStatement,
+  publicSignalCount,
+  readChallenge,
+  readSeedCommitment,
+  statementPaths,
+} from "./publicSignals";
+import {
+  CircuitPath,
+  Groth16Proof,
+  PublicSignals,
+  PubkeyInput,
+  PubkeyLimbs,
+  Seed,
+  VerificationResult,
+  Witness,
+} from "./types";
+import {
+  validateProof,
+  validatePublicSignals,
+  validateSeed,
+  validateStatement,
+} from "./validation";
+import { VALID_SIGNAL_INDEX, WitnessInspector } from "./witnessInspector";
 
 /**
- * Verifies a proof using the compiled circuit with real ZK proof verification
+ * Verifies a proof using the compiled circuit with real ZK proof verification.
+ * The circuit is the one of `scheme` with as many public signals as the
+ * proof has. A valid proof made with a domain reports its seedCommitment.
+ * Pass the challenge the proof was requested with to reject proofs made for
+ * another.
  */
 export async function verifyProof(
-  proof: any,
-  publicSignals: any
-): Promise<boolean> {
-  try {
-    // Load the verification key
-    const vkeyPath = join(__dirname, "../verification_key.json");
-    const fs = require("fs");
-    const vkey = JSON.parse(fs.readFileSync(vkeyPath, "utf8"));
-
-    console.log("Verifying real ZK proof using snarkjs.groth16.verify");
-    console.log("Proof structure:", Object.keys(proof));
-    console.log(
-      "Public signals:",
-      publicSignals.map((x: any) => x.toString())
+  proof: Groth16Proof,
+  publicSignals: PublicSignals,
+  challenge?: bigint,
+  scheme: DerivationScheme = DEFAULT_DERIVATION_SCHEME
+): Promise<VerificationResult> {
+  validateProof(proof);
+  validatePublicSignals(publicSignals);
+
+  // Load the verification key
+  const vkey = await getCircuitArtifacts(
+    getCircuitForSignalCount(publicSignals.length, scheme)
+  ).getVerificationKey();
+  validatePublicSignals(publicSignals, "publicSignals", vkey.nPublic);
+
+  if (challenge !== undefined && readChallenge(publicSignals) !== challenge) {
+    return challengeMismatch();
+  }
+
+  log.debug("Verifying ZK proof", { curve: vkey.curve, publicSignals });
+
+  // Verify the proof using snarkjs with the loaded vkey object
+  const isValid = await groth16Verify(vkey, publicSignals, proof);
+
+  log.info("Proof verification result", { valid: isValid });
+  return isValid
+    ? validResult(readSeedCommitment(publicSignals))
+    : {
+        valid: false,
+        reason: "proof-rejected",
+        message: "Groth16 pairing check failed",
+      };
+}
+
+/**
+ * Verifies many proofs, loading each circuit's verification key once. Each
+ * proof is checked against the circuit of `scheme` with as many public
+ * signals as it has. The proofs of each circuit are checked together with a
+ * randomized batch pairing check and only re-checked one by one if the batch
+ * fails, so a block of valid proofs costs about a quarter of the pairings of
+ * separate verifyProof calls.
+ *
+ * Returns one result per item, in order. A malformed item is reported as
+ * "malformed-proof" rather than thrown, so it cannot hide the other verdicts.
+ * Items with a challenge are checked against it as in verifyProof.
+ */
+export async function verifyProofBatch(
+  items: {
+    proof: Groth16Proof;
+    publicSignals: PublicSignals;
+    challenge?: bigint;
+  }[],
+  scheme: DerivationScheme = DEFAULT_DERIVATION_SCHEME
+): Promise<VerificationResult[]> {
+  const results: VerificationResult[] = new Array(items.length);
+  // Indices of the well-formed items, by circuit
+  const groups = new Map<CircuitEntry, number[]>();
+  for (const [i, { proof, publicSignals, challenge }] of items.entries()) {
+    try {
+      validateProof(proof, `items[${i}].proof`);
+      validatePublicSignals(publicSignals, `items[${i}].publicSignals`);
+      const circuit = getCircuitForSignalCount(publicSignals.length, scheme);
+      const vkey = await getCircuitArtifacts(circuit).getVerificationKey();
+      validatePublicSignals(
+        publicSignals,
+        `items[${i}].publicSignals`,
+        vkey.nPublic
+      );
+      if (
+        challenge !== undefined &&
+        readChallenge(publicSignals) !== challenge
+      ) {
+        results[i] = challengeMismatch();
+      } else {
+        groups.set(circuit, [...(groups.get(circuit) ?? []), i]);
+      }
+    } catch (error) {
+      if (!(error instanceof MalformedProofError)) {
+        throw error;
+      }
+      results[i] = {
+        valid: false,
+        reason: "malformed-proof",
+        message: error.message,
+      };
+    }
+  }
+
+  log.debug("Verifying ZK proof batch", {
+    count: items.length,
+    circuits: [...groups.keys()].map((c) => c.name),
+  });
+
+  for (const [circuit, indices] of groups) {
+    const vkey = await getCircuitArtifacts(circuit).getVerificationKey();
+    const verdicts = verifyGroth16Batch(
+      vkey,
+      indices.map((i) => items[i])
     );
-    console.log("Verification key curve:", vkey.curve);
+    indices.forEach((index, k) => {
+      results[index] = verdicts[k]
+        ? validResult(readSeedCommitment(items[index].publicSignals))
+        : {
+            valid: false,
+            reason: "proof-rejected",
+            message: "Groth16 pairing check failed",
+          };
+    });
+  }
 
-    // Verify the proof using snarkjs with the loaded vkey object
-    const isValid = await snarkjs.groth16.verify(vkey, publicSignals, proof);
+  log.info("Proof batch verification result", {
+    count: items.length,
+    valid: results.filter((r) => r.valid).length,
+  });
+  return results;
+}
 
-    console.log("Proof verification result:", isValid);
-    return isValid;
-  } catch (error) {
-    console.error("Error verifying proof:", error);
-    return false;
+/**
+ * Verifies that a proof links the given public keys and paths.
+ * The public signals are reconstructed from the caller-supplied statement,
+ * so the proof is only accepted if it was produced for exactly these keys.
+ */
+export async function verifyLinkProof(
+  proof: Groth16Proof,
+  statement: LinkStatement,
+  scheme: DerivationScheme = DEFAULT_DERIVATION_SCHEME
+): Promise<VerificationResult> {
+  return verifyManyLinkProof(
+    proof,
+    {
+      pubkeys: [statement.pubkey1, statement.pubkey2],
+      paths: [statement.path1, statement.path2],
+      revealPaths: statement.revealPaths,
+      domain: statement.domain,
+      seedCommitment: statement.seedCommitment,
+      challenge: statement.challenge,
+    },
+    scheme
+  );
+}
+
+/**
+ * Verifies that a proof links all of the given public keys and paths.
+ * The statement is padded the same way generateLinkProof pads it, so the
+ * verifier passes the same pubkeys and paths the prover did.
+ *
+ * To check that the proof comes from the same seed as an earlier one, pass
+ * the domain and the seedCommitment that proof reported. To reject replayed
+ * proofs, pass the challenge issued for this verification and consume it
+ * from the ChallengeStore once the proof is accepted.
+ *
+ * For a proof that hides its paths, pass the same revealPaths policy; only
+ * what it disclosed is compared.
+ *
+ * As the public signals are rebuilt from the statement, a proof about other
+ * keys or paths fails the pairing check and is reported as "proof-rejected".
+ */
+export async function verifyManyLinkProof(
+  proof: Groth16Proof,
+  statement: ManyLinkStatement,
+  scheme: DerivationScheme = DEFAULT_DERIVATION_SCHEME
+): Promise<VerificationResult> {
+  validateProof(proof);
+  const { pubkeys, paths } = validateStatement(
+    statement.pubkeys,
+    statementPaths(statement)
+  );
+
+  const circuit = getCircuitForKeyCount(pubkeys.length, scheme);
+  const padded = padStatement(pubkeys, paths, circuit.keyCount);
+
+  const artifacts = getCircuitArtifacts(circuit);
+  const vkey = await artifacts.getVerificationKey();
+
+  const expectedCount = publicSignalCount(circuit.keyCount);
+  if (vkey.nPublic !== expectedCount) {
+    throw new ArtifactMismatchError(
+      `Verification key expects ${vkey.nPublic} public signals, circuit layout has ${expectedCount}`
+    );
   }
+
+  const publicSignals = buildManyPublicSignals({
+    ...padded,
+    revealPaths: statement.revealPaths,
+    domain: statement.domain,
+    seedCommitment: statement.seedCommitment,
+    challenge: statement.challenge,
+  });
+
+  log.debug("Verifying link proof", { publicSignals });
+
+  const isValid = await groth16Verify(vkey, publicSignals, proof);
+
+  log.info("Link proof verification result", { valid: isValid });
+  return isValid
+    ? validResult(statement.seedCommitment)
+    : {
+        valid: false,
+        reason: "proof-rejected",
+        message:
+          "Proof does not link these pubkeys and paths" +
+          (statement.domain === undefined ? "" : " to this seed commitment") +
+          (statement.challenge === undefined ? "" : " for this challenge"),
+      };
 }
 
 /**
- * Verifies a proof using a simple witness check (alternative approach)
+ * Verifies that a proof shows `statement.pubkey` shares a seed with some
+ * member of the set with root `statement.merkleRoot`. Domain, challenge and
+ * revealPaths are checked as in verifyManyLinkProof.
  */
-export function verifyWitness(witness: any[]): boolean {
-  try {
-    // The witness should contain the output signal at the end
-    // For our circuit, the output is the 'valid' signal
-    const outputIndex = witness.length - 1;
-    const outputValue = witness[outputIndex];
+export async function verifyMembershipProof(
+  proof: Groth16Proof,
+  statement: MembershipStatement
+): Promise<VerificationResult> {
+  validateProof(proof);
 
-    console.log(`  Output value: ${outputValue}`);
-    console.log(`  Output type: ${typeof outputValue}`);
-    console.log(`  Is BigInt: ${typeof outputValue === "bigint"}`);
+  const vkey =
+    await getCircuitArtifacts(MEMBERSHIP_CIRCUIT).getVerificationKey();
+  if (vkey.nPublic !== MEMBERSHIP_PUBLIC_SIGNAL_COUNT) {
+    throw new ArtifactMismatchError(
+      `Verification key expects ${vkey.nPublic} public signals, circuit layout has ${MEMBERSHIP_PUBLIC_SIGNAL_COUNT}`
+    );
+  }
 
-    // The circuit should output 1 if the proof is valid
-    // This means the derived keys match the input keys
-    const isValid =
-      outputValue === 1n || outputValue === 1 || outputValue.toString() === "1";
+  const publicSignals = buildMembershipPublicSignals(statement);
 
-    console.log(`  Is valid: ${isValid}`);
+  log.debug("Verifying membership proof", { publicSignals });
 
-    if (!isValid) {
-      console.log(
-        `  ❌ Circuit output is ${outputValue}, expected 1. Proof is invalid.`
-      );
-      console.log(`  This means the derived keys don't match the input keys.`);
-    } else {
-      console.log(`  ✅ Circuit output is 1. Proof is valid!`);
-    }
+  const isValid = await groth16Verify(vkey, publicSignals, proof);
 
-    return isValid;
-  } catch (error) {
-    console.error("Error verifying witness:", error);
-    return false;
+  log.info("Membership proof verification result", { valid: isValid });
+  return isValid
+    ? validResult(statement.seedCommitment)
+    : {
+        valid: false,
+        reason: "proof-rejected",
+        message:
+          "Proof does not link this pubkey and path to a member of this set" +
+          (statement.domain === undefined ? "" : " with this seed commitment") +
+          (statement.challenge === undefined ? "" : " for this challenge"),
+      };
+}
+
+/**
+ * Verifies a proof using a simple witness check (alternative approach).
+ * Reads main.valid from its fixed position; pass an inspector to look it up
+ * in the circuit's .sym file instead.
+ */
+export function verifyWitness(
+  witness: Witness,
+  inspector?: WitnessInspector
+): VerificationResult {
+  const outputValue = inspector
+    ? inspector.get(witness, "main.valid")
+    : witness[VALID_SIGNAL_INDEX];
+
+  log.debug("Witness output", { valid: outputValue });
+
+  // The circuit should output 1 if the proof is valid
+  // This means the derived keys match the input keys
+  if (outputValue !== 1n) {
+    return {
+      valid: false,
+      reason: "constraint-unsatisfied",
+      message: `Circuit output is ${outputValue}, expected 1; the derived keys don't match the input keys`,
+    };
   }
+
+  return { valid: true };
 }
 
 /**
  * Simple verification that checks if the derived keys match the expected keys
  */
 export async function verifyKeyDerivation(
-  seed: bigint[],
-  expectedPubkey1: bigint[],
-  expectedPubkey2: bigint[],
-  path1: number[],
-  path2: number[]
-): Promise<boolean> {
-  try {
-    // Import the key derivation function
-    const { deriveTwoPublicKeys } = require("./keyDerivation");
+  seed: Seed,
+  expectedPubkey1: PubkeyInput,
+  expectedPubkey2: PubkeyInput,
+  path1: CircuitPath,
+  path2: CircuitPath
+): Promise<VerificationResult> {
+  return verifyManyKeyDerivation(
+    seed,
+    [expectedPubkey1, expectedPubkey2],
+    [path1, path2]
+  );
+}
 
-    // Derive the keys
-    const { pubkey1, pubkey2 } = await deriveTwoPublicKeys(seed, path1, path2);
+/**
+ * Checks that every expected pubkey derives from the seed at its path.
+ * Use the "slip10-ed25519" scheme to check real Solana addresses.
+ */
+export async function verifyManyKeyDerivation(
+  seed: Seed,
+  expectedPubkeys: PubkeyInput[],
+  paths: CircuitPath[],
+  scheme: DerivationScheme = DEFAULT_DERIVATION_SCHEME
+): Promise<VerificationResult> {
+  validateSeed(seed);
+  const expected = validateStatement(expectedPubkeys, paths);
 
-    // Check if they match
-    const match1 = pubkey1.every(
-      (val: bigint, i: number) => val === expectedPubkey1[i]
-    );
-    const match2 = pubkey2.every(
-      (val: bigint, i: number) => val === expectedPubkey2[i]
-    );
+  // Import the key derivation function
+  const { deriveManyPublicKeys } = require("./keyDerivation");
+
+  // Derive the keys
+  const pubkeys: PubkeyLimbs[] = await deriveManyPublicKeys(
+    seed,
+    paths,
+    scheme
+  );
+
+  // Check if they match
+  const mismatch = pubkeys.findIndex((pubkey, k) =>
+    pubkey.some((val, i) => val !== expected.pubkeys[k][i])
+  );
+  if (mismatch !== -1) {
+    return {
+      valid: false,
+      reason: "pubkey-mismatch",
+      message: `pubkeys[${mismatch}] does not derive from this seed at paths[${mismatch}]`,
+    };
+  }
+
+  return { valid: true };
+}
 
-    return match1 && match2;
+function validResult(seedCommitment?: bigint): VerificationResult {
+  return seedCommitment === undefined
+    ? { valid: true }
+    : { valid: true, seedCommitment };
+}
+
+function challengeMismatch(): VerificationResult {
+  return {
+    valid: false,
+    reason: "challenge-mismatch",
+    message: "Proof was made for a different challenge",
+  };
+}
+
+/**
+ * Runs snarkjs verification, reporting proofs it cannot even parse as malformed
+ */
+async function groth16Verify(
+  vkey: Record<string, any>,
+  publicSignals: PublicSignals,
+  proof: Groth16Proof
+): Promise<boolean> {
+  try {
+    return await snarkjs.groth16.verify(vkey, publicSignals, proof);
   } catch (error) {
-    console.error("Error verifying key derivation:", error);
-    return false;
+    throw new MalformedProofError("proof", (error as Error).message);
   }
 }
@@ -0,0 +1,416 @@
+import { availableParallelism } from "os";
+import { extname, join } from "path";
+import { Worker } from "worker_threads";
+import { getCircuitForKeyCount } from "./circuitRegistry";
+import {
+  ArtifactMismatchError,
+  ArtifactNotFoundError,
+  ConstraintUnsatisfiedError,
+  InvalidInputError,
+  MalformedProofError,
+  Prove2PubKeysError,
+  ProverPoolError,
+  ProvingError,
+} from "./errors";
+import { DEFAULT_DERIVATION_SCHEME, DerivationScheme } from "./keyDerivation";
+import { log } from "./logger";
+import {
+  CircuitPath,
+  Groth16Proof,
+  LinkProofOptions,
+  PublicSignals,
+  PubkeyInput,
+  PubkeyLimbs,
+  Seed,
+} from "./types";
+import { validateSeed, validateStatement } from "./validation";
+
+/*
+  Proof generation on a pool of worker threads.
+
+  Each worker runs generateLinkProof, so its circuit artifacts stay loaded
+  between requests. Requests wait in a bounded queue; when it is full new
+  requests are rejected with ProverPoolError("queue-full") so callers (e.g. an
+  HTTP service) can shed load instead of piling up work.
+
+  A running proof cannot be interrupted inside snarkjs, so a request that
+  times out or is cancelled while proving terminates its worker and a fresh
+  one is started in its place. A worker that dies on its own is replaced the
+  same way, failing the request it was running.
+
+  Workers resolve artifacts themselves (the PROVE2PUBKEYS_ARTIFACTS
+  environment variable is inherited); registerCircuitArtifacts in the main
+  thread does not reach them.
+*/
+
+export interface ProverPoolOptions {
+  size?: number; // worker count, default: CPU count - 1 (at least 1)
+  maxQueue?: number; // requests waiting for a worker, default 64
+  timeoutMs?: number; // per request, counted from submission; default none
+}
+
+export interface ProveOptions extends LinkProofOptions {
+  scheme?: DerivationScheme; // default DEFAULT_DERIVATION_SCHEME
+  timeoutMs?: number; // overrides the pool default
+  signal?: AbortSignal; // aborting rejects with ProverPoolError("cancelled")
+}
+
+/**
+ * Request sent to a worker. Inputs are validated and normalized to limbs in
+ * the main thread, so only plain bigints and numbers cross the boundary.
+ */
+export interface ProverJob {
+  id: number;
+  seed: Seed;
+  pubkeys: PubkeyLimbs[];
+  paths: CircuitPath[];
+  scheme: DerivationScheme;
+  options: LinkProofOptions;
+}
+
+/**
+ * Reply from a worker: either the proof or the error it failed with
+ */
+export type ProverReply =
+  | {
+      id: number;
+      proof: Groth16Proof;
+      publicSignals: PublicSignals;
+      keyCount: number;
+      seedCommitment?: bigint;
+    }
+  | { id: number; error: SerializedError };
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  field?: string;
+  source?: string;
+  detail?: string;
+}
+
+type ProofResult = {
+  proof: Groth16Proof;
+  publicSignals: PublicSignals;
+  keyCount: number;
+  seedCommitment?: bigint;
+};
+
+interface Task {
+  job: ProverJob;
+  resolve: (result: ProofResult) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+interface Slot {
+  worker: Worker;
+  task?: Task;
+}
+
+const WORKER_FILE = join(__dirname, `proverWorker${extname(__filename)}`);
+
+/**
+ * Pool of worker threads that generate proofs concurrently
+ */
+export class ProverPool {
+  readonly size: number;
+  private readonly maxQueue: number;
+  private readonly timeoutMs?: number;
+  private readonly slots: Slot[] = [];
+  private readonly queue: Task[] = [];
+  private nextId = 0;
+  private closed = false;
+
+  constructor(options: ProverPoolOptions = {}) {
+    this.size = options.size ?? Math.max(1, availableParallelism() - 1);
+    this.maxQueue = options.maxQueue ?? 64;
+    this.timeoutMs = options.timeoutMs;
+
+    for (let i = 0; i < this.size; i++) {
+      this.slots.push(this.spawn());
+    }
+    log.debug("Started prover pool", { size: this.size });
+  }
+
+  /**
+   * Number of requests waiting for a worker
+   */
+  get queued(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Same as generateProof in proofGeneration.ts, run on a worker
+   */
+  async generateProof(
+    seed: Seed,
+    pubkey1: PubkeyInput,
+    pubkey2: PubkeyInput,
+    path1: CircuitPath,
+    path2: CircuitPath,
+    options: ProveOptions = {}
+  ): Promise<{
+    proof: Groth16Proof;
+    publicSignals: PublicSignals;
+    seedCommitment?: bigint;
+  }> {
+    const { proof, publicSignals, seedCommitment } =
+      await this.generateLinkProof(
+        seed,
+        [pubkey1, pubkey2],
+        [path1, path2],
+        options
+      );
+    return { proof, publicSignals, seedCommitment };
+  }
+
+  /**
+   * Same as generateLinkProof in proofGeneration.ts, run on a worker
+   */
+  generateLinkProof(
+    seed: Seed,
+    pubkeys: PubkeyInput[],
+    paths: CircuitPath[],
+    options: ProveOptions = {}
+  ): Promise<ProofResult> {
+    if (this.closed) {
+      return Promise.reject(
+        new ProverPoolError("closed", "Prover pool is closed")
+      );
+    }
+
+    validateSeed(seed);
+    const statement = validateStatement(pubkeys, paths);
+    const scheme = options.scheme ?? DEFAULT_DERIVATION_SCHEME;
+    getCircuitForKeyCount(statement.pubkeys.length, scheme);
+
+    if (options.signal?.aborted) {
+      return Promise.reject(
+        new ProverPoolError("cancelled", "Proof request was cancelled")
+      );
+    }
+    if (this.queue.length >= this.maxQueue && !this.idleSlot()) {
+      return Promise.reject(
+        new ProverPoolError(
+          "queue-full",
+          `Prover queue is full (${this.maxQueue} waiting)`
+        )
+      );
+    }
+
+    return new Promise<ProofResult>((resolve, reject) => {
+      const job: ProverJob = {
+        id: this.nextId++,
+        seed,
+        ...statement,
+        scheme,
+        options: {
+          domain: options.domain,
+          challenge: options.challenge,
+          revealPaths: options.revealPaths,
+        },
+      };
+
+      const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+      const timer =
+        timeoutMs === undefined
+          ? undefined
+          : setTimeout(
+              () =>
+                this.abort(
+                  task,
+                  new ProverPoolError(
+                    "timeout",
+                    `Proof request timed out after ${timeoutMs} ms`
+                  )
+                ),
+              timeoutMs
+            );
+      const onAbort = () =>
+        this.abort(
+          task,
+          new ProverPoolError("cancelled", "Proof request was cancelled")
+        );
+      options.signal?.addEventListener("abort", onAbort);
+
+      const task: Task = {
+        job,
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(timer);
+          options.signal?.removeEventListener("abort", onAbort);
+        },
+      };
+
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Rejects queued requests, waits for running ones and stops the workers
+   */
+  async close(): Promise<void> {
+    if (this.closed) return;
+    this.closed = true;
+
+    for (const task of this.queue.splice(0)) {
+      task.cleanup();
+      task.reject(new ProverPoolError("closed", "Prover pool is closed"));
+    }
+
+    await Promise.all(
+      this.slots.map(
+        (slot) =>
+          new Promise<void>((resolve) => {
+            if (!slot.task) return resolve();
+            const { resolve: done, reject: fail } = slot.task;
+            slot.task.resolve = (result) => {
+              done(result);
+              resolve();
+            };
+            slot.task.reject = (error) => {
+              fail(error);
+              resolve();
+            };
+          })
+      )
+    );
+    await Promise.all(this.slots.map((slot) => slot.worker.terminate()));
+    log.debug("Closed prover pool");
+  }
+
+  private spawn(): Slot {
+    // Under ts-node the worker is a .ts file and needs the same loader.
+    // The web-worker polyfill loaded by snarkjs treats every worker thread as
+    // one of its own and runs workerData.mod in it; give it nothing to run.
+    const worker = new Worker(WORKER_FILE, {
+      workerData: { mod: "data:," },
+      execArgv:
+        extname(__filename) === ".ts"
+          ? ["--require", "ts-node/register"]
+          : undefined,
+    });
+    const slot: Slot = { worker };
+
+    worker.on("message", (reply: ProverReply) => {
+      const task = slot.task;
+      if (!task || task.job.id !== reply.id) return;
+      slot.task = undefined;
+      task.cleanup();
+
+      if ("error" in reply) {
+        task.reject(deserializeError(reply.error));
+      } else {
+        const { proof, publicSignals, keyCount, seedCommitment } = reply;
+        task.resolve({
+          proof,
+          publicSignals,
+          keyCount,
+          ...(seedCommitment === undefined ? {} : { seedCommitment }),
+        });
+      }
+      this.dispatch();
+    });
+
+    worker.on("error", (error) => {
+      log.error("Prover worker failed", { error: error.message });
+      this.replace(
+        slot,
+        new ProvingError(`Prover worker failed: ${error.message}`, error)
+      );
+    });
+
+    worker.on("exit", (code) => {
+      if (this.closed) return;
+      log.error("Prover worker exited", { code });
+      this.replace(
+        slot,
+        new ProvingError(`Prover worker exited with code ${code}`)
+      );
+    });
+
+    return slot;
+  }
+
+  private idleSlot(): Slot | undefined {
+    return this.slots.find((slot) => !slot.task);
+  }
+
+  private dispatch() {
+    let slot: Slot | undefined;
+    while (this.queue.length > 0 && (slot = this.idleSlot())) {
+      const task = this.queue.shift()!;
+      slot.task = task;
+      slot.worker.postMessage(task.job);
+    }
+  }
+
+  /**
+   * Gives up on a request, wherever it is: queued requests are dropped,
+   * running ones take their worker down with them
+   */
+  private abort(task: Task, error: ProverPoolError) {
+    const queued = this.queue.indexOf(task);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+      task.cleanup();
+      task.reject(error);
+      return;
+    }
+
+    const slot = this.slots.find((s) => s.task === task);
+    if (slot) {
+      log.warn("Terminating prover worker", { reason: error.reason });
+      this.replace(slot, error);
+    }
+  }
+
+  /**
+   * Fails the slot's request, if any, and swaps in a fresh worker
+   */
+  private replace(slot: Slot, error: Error) {
+    const task = slot.task;
+    slot.task = undefined;
+    slot.worker.removeAllListeners();
+    slot.worker.terminate();
+
+    const index = this.slots.indexOf(slot);
+    if (!this.closed && index !== -1) {
+      this.slots[index] = this.spawn();
+    }
+
+    if (task) {
+      task.cleanup();
+      task.reject(error);
+    }
+    this.dispatch();
+  }
+}
+
+/**
+ * Rebuilds the error a worker failed with, keeping its class and field for
+ * the errors generateLinkProof can raise, e.g. InvalidInputError for options
+ * that are only checked on the worker
+ */
+function deserializeError(error: SerializedError): Prove2PubKeysError {
+  if (error.field !== undefined) {
+    // InvalidInputError prefixes its message with the field again
+    const message = error.message.slice(error.field.length + 2);
+    return error.name === "MalformedProofError"
+      ? new MalformedProofError(error.field, message)
+      : new InvalidInputError(error.field, message);
+  }
+  switch (error.name) {
+    case "ConstraintUnsatisfiedError":
+      return new ConstraintUnsatisfiedError(error.message, error.detail);
+    case "ArtifactNotFoundError":
+      return new ArtifactNotFoundError(error.source ?? "", error.message);
+    case "ArtifactMismatchError":
+      return new ArtifactMismatchError(error.message);
+    default:
+      return new ProvingError(error.message);
+  }
+}
@@ -0,0 +1,61 @@
+import * as snarkjs from "snarkjs";
+import { parentPort } from "worker_threads";
+import { Prove2PubKeysError } from "./errors";
+import { generateLinkProof } from "./proofGeneration";
+import { ProverJob, ProverReply, SerializedError } from "./proverPool";
+
+/*
+  Worker thread of ProverPool: proves one job at a time with
+  generateLinkProof. The module-level artifact cache of circuitRegistry.ts
+  lives as long as the worker, which keeps the wasm and zkey warm.
+
+  snarkjs cannot start its own helper threads from inside a worker, so a
+  single-threaded curve is built up front and stored where ffjavascript looks
+  for its cached bn128 curve; every snarkjs call in this thread then uses it.
+*/
+
+declare global {
+  /**
+   * ffjavascript's cached bn128 curve. buildBn128 returns it instead of
+   * building a multi-threaded curve, which is what groth16.fullProve and
+   * the zkey readers ask for; ffjavascript/src/bn128.js sets it to null on
+   * load.
+   */
+  var curve_bn128: snarkjs.Curve | null;
+}
+
+const ready = (async () => {
+  globalThis.curve_bn128 = await snarkjs.curves.getCurveFromName("bn128", {
+    singleThread: true,
+  });
+})();
+
+parentPort?.on("message", async (job: ProverJob) => {
+  let reply: ProverReply;
+  try {
+    await ready;
+    const result = await generateLinkProof(
+      job.seed,
+      job.pubkeys,
+      job.paths,
+      job.scheme,
+      job.options
+    );
+    reply = { id: job.id, ...result };
+  } catch (error) {
+    reply = { id: job.id, error: serializeError(error) };
+  }
+  parentPort?.postMessage(reply);
+});
+
+function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Prove2PubKeysError)) {
+    return { name: "Error", message: String(error) };
+  }
+  const { field, source, detail } = error as {
+    field?: string;
+    source?: string;
+    detail?: string;
+  };
+  return { name: error.name, message: error.message, field, source, detail };
+}
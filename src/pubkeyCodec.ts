@@ -0,0 +1,152 @@
+import { PublicKey } from "@solana/web3.js";
+import { InvalidInputError } from "./errors";
+import { PubkeyInput, PubkeyLimbs } from "./types";
+
+/*
+  Limb layouts for a 32-byte Ed25519 public key, both big-endian (the first
+  limb holds the first bytes of the key, i.e. the same byte order as base58):
+
+  "4x64":  4 limbs of 8 bytes, each < 2^64   (used by the circuits today)
+  "2x128": 2 limbs of 16 bytes, each < 2^128
+
+  Both fit a limb comfortably below the BN254 field order (~2^254), so a limb
+  never wraps inside the circuit.
+
+  Poseidon "toy" pubkeys are already 4 field elements with no 32-byte form;
+  they pass through toPubkeyLimbs unchanged.
+*/
+
+export type LimbLayout = "4x64" | "2x128";
+
+export const PUBKEY_BYTES = 32;
+
+const LAYOUTS: Record<LimbLayout, { count: number; bytes: number }> = {
+  "4x64": { count: 4, bytes: 8 },
+  "2x128": { count: 2, bytes: 16 },
+};
+
+/**
+ * Splits a 32-byte public key into big-endian limbs
+ */
+export function pubkeyBytesToLimbs(
+  bytes: Uint8Array,
+  layout: LimbLayout = "4x64"
+): PubkeyLimbs {
+  if (bytes.length !== PUBKEY_BYTES) {
+    throw new InvalidInputError(
+      "pubkey",
+      `expected ${PUBKEY_BYTES} bytes, got ${bytes.length}`
+    );
+  }
+
+  const { count, bytes: limbBytes } = LAYOUTS[layout];
+  const limbs: PubkeyLimbs = [];
+  for (let i = 0; i < count; i++) {
+    let value = 0n;
+    for (let j = 0; j < limbBytes; j++) {
+      value = (value << 8n) + BigInt(bytes[i * limbBytes + j]);
+    }
+    limbs.push(value);
+  }
+  return limbs;
+}
+
+/**
+ * Joins big-endian limbs back into a 32-byte public key.
+ * Every limb must fit in its slot, so the packing is unambiguous.
+ */
+export function limbsToPubkeyBytes(
+  limbs: PubkeyLimbs,
+  layout: LimbLayout = "4x64"
+): Uint8Array {
+  const { count, bytes: limbBytes } = LAYOUTS[layout];
+  if (limbs.length !== count) {
+    throw new InvalidInputError(
+      "pubkey",
+      `${layout} layout needs ${count} limbs, got ${limbs.length}`
+    );
+  }
+
+  const max = 1n << BigInt(limbBytes * 8);
+  const bytes = new Uint8Array(PUBKEY_BYTES);
+  limbs.forEach((limb, i) => {
+    if (typeof limb !== "bigint" || limb < 0n || limb >= max) {
+      throw new InvalidInputError(
+        `pubkey[${i}]`,
+        `must be in [0, 2^${limbBytes * 8})`
+      );
+    }
+    let value = limb;
+    for (let j = limbBytes - 1; j >= 0; j--) {
+      bytes[i * limbBytes + j] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+  });
+  return bytes;
+}
+
+/**
+ * Converts any supported pubkey representation to a web3.js PublicKey
+ */
+export function toPublicKey(
+  input: PubkeyInput,
+  layout: LimbLayout = "4x64"
+): PublicKey {
+  return new PublicKey(toPubkeyBytes(input, layout));
+}
+
+/**
+ * Converts any supported pubkey representation to its 32 raw bytes
+ */
+export function toPubkeyBytes(
+  input: PubkeyInput,
+  layout: LimbLayout = "4x64"
+): Uint8Array {
+  if (input instanceof PublicKey) {
+    return input.toBytes();
+  }
+  if (typeof input === "string") {
+    try {
+      return new PublicKey(input).toBytes();
+    } catch (error) {
+      throw new InvalidInputError(
+        "pubkey",
+        `not a valid base58 public key: ${input}`
+      );
+    }
+  }
+  if (input instanceof Uint8Array) {
+    if (input.length !== PUBKEY_BYTES) {
+      throw new InvalidInputError(
+        "pubkey",
+        `expected ${PUBKEY_BYTES} bytes, got ${input.length}`
+      );
+    }
+    return input;
+  }
+  return limbsToPubkeyBytes(input, layout);
+}
+
+/**
+ * Converts any supported pubkey representation to circuit limbs.
+ * Limb arrays are returned as-is, so Poseidon toy pubkeys pass through.
+ */
+export function toPubkeyLimbs(
+  input: PubkeyInput,
+  layout: LimbLayout = "4x64"
+): PubkeyLimbs {
+  if (Array.isArray(input)) {
+    return input;
+  }
+  return pubkeyBytesToLimbs(toPubkeyBytes(input, layout), layout);
+}
+
+/**
+ * Converts any supported pubkey representation to a base58 address
+ */
+export function toBase58(
+  input: PubkeyInput,
+  layout: LimbLayout = "4x64"
+): string {
+  return toPublicKey(input, layout).toBase58();
+}
@@ -0,0 +1,471 @@
+import { InvalidInputError, MalformedProofError } from "./errors";
+import { toPubkeyLimbs } from "./pubkeyCodec";
+import { domainTag } from "./seedCommitment";
+import { HARDENED_OFFSET } from "./slip10";
+import {
+  CircuitPath,
+  PathDisclosure,
+  PublicSignals,
+  PubkeyInput,
+} from "./types";
+import {
+  BN254_FIELD_ORDER,
+  MAX_PATH_DEPTH,
+  PUBKEY_LIMBS,
+  validatePath,
+} from "./validation";
+
+/**
+ * Optional part of a statement: the proof's seed commitment and the
+ * application domain it was made for (see seedCommitment.ts). Give both or
+ * neither.
+ */
+export interface SeedCommitmentClaim {
+  domain?: string;
+  seedCommitment?: bigint;
+}
+
+/**
+ * Public statement of a link proof: the two public keys and the paths they
+ * were derived at. These are the values the verifier supplies; only the part
+ * of the paths the proof discloses (see PathDisclosure) is compared.
+ */
+export interface LinkStatement extends SeedCommitmentClaim {
+  pubkey1: PubkeyInput;
+  pubkey2: PubkeyInput;
+  path1: CircuitPath;
+  path2: CircuitPath;
+  revealPaths?: PathDisclosure; // what the proof discloses, default "full"
+  challenge?: bigint; // the verifier's challenge, see challenge.ts
+}
+
+/**
+ * Public statement of a link proof over any number of keys. `paths` may be
+ * left out when revealPaths is "none"; with "purpose-and-coin" only their
+ * first two levels are compared, so m/44'/501' will do.
+ */
+export interface ManyLinkStatement extends SeedCommitmentClaim {
+  pubkeys: PubkeyInput[];
+  paths?: CircuitPath[];
+  revealPaths?: PathDisclosure; // what the proof discloses, default "full"
+  challenge?: bigint; // the verifier's challenge, see challenge.ts
+}
+
+/**
+ * Public statement of a membership proof: `pubkey` and its path, and the
+ * root of the set (see MerkleSet) holding a hidden key from the same seed.
+ * `path` may be left out when revealPaths is "none".
+ */
+export interface MembershipStatement extends SeedCommitmentClaim {
+  pubkey: PubkeyInput;
+  path?: CircuitPath;
+  merkleRoot: bigint;
+  revealPaths?: PathDisclosure; // what the proof discloses, default "full"
+  challenge?: bigint; // the verifier's challenge, see challenge.ts
+}
+
+/**
+ * Order of the public signals produced by the circuit.
+ * circom emits outputs first (`valid`, `seedCommitment` and the disclosed
+ * paths), followed by the public inputs in the order they are declared in
+ * Prove2PubKeys.
+ */
+export const PUBLIC_SIGNAL_LAYOUT = [
+  { name: "valid", length: 1 },
+  { name: "seedCommitment", length: 1 },
+  { name: "revealedPath1", length: 5 },
+  { name: "revealedPath2", length: 5 },
+  { name: "revealedDepth1", length: 1 },
+  { name: "revealedDepth2", length: 1 },
+  { name: "pubkey1", length: 4 },
+  { name: "pubkey2", length: 4 },
+  { name: "reveal", length: 1 },
+  { name: "domain", length: 1 },
+  { name: "challenge", length: 1 },
+] as const;
+
+/**
+ * Order of the public signals of the ProveSetMembership circuit
+ */
+export const MEMBERSHIP_PUBLIC_SIGNAL_LAYOUT = [
+  { name: "valid", length: 1 },
+  { name: "seedCommitment", length: 1 },
+  { name: "revealedPath", length: 5 },
+  { name: "revealedDepth", length: 1 },
+  { name: "pubkey", length: 4 },
+  { name: "merkleRoot", length: 1 },
+  { name: "reveal", length: 1 },
+  { name: "domain", length: 1 },
+  { name: "challenge", length: 1 },
+] as const;
+
+/**
+ * Value of the circuit's `reveal` input for each disclosure policy
+ */
+export const PATH_DISCLOSURE_CODES: Record<PathDisclosure, number> = {
+  none: 0,
+  "purpose-and-coin": 1,
+  full: 2,
+};
+
+/**
+ * First two levels every hidden path must have: m/44'/501'
+ */
+export const SOLANA_PATH_PREFIX: CircuitPath = [
+  44 + HARDENED_OFFSET,
+  501 + HARDENED_OFFSET,
+];
+
+/**
+ * Position of seedCommitment in every circuit's public signals
+ */
+export const SEED_COMMITMENT_INDEX = 1;
+
+export const PUBLIC_SIGNAL_COUNT = PUBLIC_SIGNAL_LAYOUT.reduce(
+  (total, entry) => total + entry.length,
+  0
+);
+
+export const MEMBERSHIP_PUBLIC_SIGNAL_COUNT =
+  MEMBERSHIP_PUBLIC_SIGNAL_LAYOUT.reduce(
+    (total, entry) => total + entry.length,
+    0
+  );
+
+/**
+ * Number of public signals of a circuit proving `keyCount` keys:
+ * [valid, seedCommitment, revealedPaths[keyCount][5],
+ *  revealedDepths[keyCount], pubkeys[keyCount][4], reveal, domain, challenge]
+ */
+export function publicSignalCount(keyCount: number): number {
+  return 5 + (PUBKEY_LIMBS + MAX_PATH_DEPTH + 1) * keyCount;
+}
+
+/**
+ * Where each part of the public signals of a `keyCount`-key circuit starts
+ */
+export function publicSignalOffsets(keyCount: number): {
+  revealedPaths: number;
+  revealedDepths: number;
+  pubkeys: number;
+  reveal: number;
+  domain: number;
+  challenge: number;
+} {
+  const revealedPaths = SEED_COMMITMENT_INDEX + 1;
+  const revealedDepths = revealedPaths + MAX_PATH_DEPTH * keyCount;
+  const pubkeys = revealedDepths + keyCount;
+  const reveal = pubkeys + PUBKEY_LIMBS * keyCount;
+  return {
+    revealedPaths,
+    revealedDepths,
+    pubkeys,
+    reveal,
+    domain: reveal + 1,
+    challenge: reveal + 2,
+  };
+}
+
+/**
+ * Inverse of publicSignalCount, or undefined if no key count has `count`
+ * public signals
+ */
+export function keyCountOfSignals(count: number): number | undefined {
+  const keyCount = (count - 5) / (PUBKEY_LIMBS + MAX_PATH_DEPTH + 1);
+  return Number.isInteger(keyCount) && keyCount > 0 ? keyCount : undefined;
+}
+
+/**
+ * The seed commitment a proof's public signals carry, or undefined if it
+ * was made without a domain
+ */
+export function readSeedCommitment(
+  publicSignals: PublicSignals
+): bigint | undefined {
+  const value = BigInt(publicSignals[SEED_COMMITMENT_INDEX]);
+  return value === 0n ? undefined : value;
+}
+
+/**
+ * The challenge a proof's public signals carry (always the last signal), or
+ * undefined if it was made without one
+ */
+export function readChallenge(
+  publicSignals: PublicSignals
+): bigint | undefined {
+  const value = BigInt(publicSignals[publicSignals.length - 1]);
+  return value === 0n ? undefined : value;
+}
+
+/**
+ * What a proof's public signals disclose about its paths: the policy, and
+ * for each key the revealed indices (none, the first two or all of them)
+ */
+export function readPathDisclosure(publicSignals: PublicSignals): {
+  revealPaths: PathDisclosure;
+  paths: CircuitPath[];
+} {
+  const keyCount = keyCountOfSignals(publicSignals.length);
+  if (keyCount === undefined) {
+    throw new MalformedProofError(
+      "publicSignals",
+      `no circuit has ${publicSignals.length} public signals`
+    );
+  }
+
+  const offsets = publicSignalOffsets(keyCount);
+  const code = Number(publicSignals[offsets.reveal]);
+  const revealPaths = (
+    Object.keys(PATH_DISCLOSURE_CODES) as PathDisclosure[]
+  ).find((policy) => PATH_DISCLOSURE_CODES[policy] === code);
+  if (revealPaths === undefined) {
+    throw new MalformedProofError(
+      `publicSignals[${offsets.reveal}]`,
+      `unknown path disclosure ${publicSignals[offsets.reveal]}`
+    );
+  }
+
+  const paths = Array.from({ length: keyCount }, (_, k) => {
+    const start = offsets.revealedPaths + MAX_PATH_DEPTH * k;
+    const length =
+      revealPaths === "full"
+        ? Number(publicSignals[offsets.revealedDepths + k])
+        : revealPaths === "purpose-and-coin"
+          ? SOLANA_PATH_PREFIX.length
+          : 0;
+    return publicSignals.slice(start, start + length).map(Number);
+  });
+  return { revealPaths, paths };
+}
+
+/**
+ * Encodes a path the way the circuits take it: the indices padded with
+ * zeros to MAX_PATH_DEPTH, and the number of indices used. The depth keeps
+ * e.g. m/0 and m/0/0 apart.
+ */
+export function encodePath(path: CircuitPath): {
+  indices: number[];
+  depth: number;
+} {
+  const indices = [...path];
+  while (indices.length < MAX_PATH_DEPTH) {
+    indices.push(0);
+  }
+  return { indices, depth: path.length };
+}
+
+/**
+ * The part of a path a proof discloses under `revealPaths`, encoded like
+ * encodePath; hidden indices and depths are 0. Hidden paths must start with
+ * SOLANA_PATH_PREFIX, as the circuit enforces.
+ */
+export function disclosePath(
+  path: CircuitPath,
+  revealPaths: PathDisclosure,
+  field = "path"
+): { indices: number[]; depth: number } {
+  const { indices, depth } = encodePath(path);
+  if (revealPaths === "full") {
+    return { indices, depth };
+  }
+
+  const shown = SOLANA_PATH_PREFIX.length;
+  if (revealPaths === "none") {
+    if (SOLANA_PATH_PREFIX.some((index, i) => indices[i] !== index)) {
+      throw new InvalidInputError(
+        field,
+        "hidden paths must start with m/44'/501'"
+      );
+    }
+    return { indices: indices.map(() => 0), depth: 0 };
+  }
+  if (depth < shown) {
+    throw new InvalidInputError(
+      field,
+      "needs purpose and coin type levels to reveal them"
+    );
+  }
+  return { indices: indices.map((x, i) => (i < shown ? x : 0)), depth: 0 };
+}
+
+/**
+ * The paths of a statement as far as the verifier knows them. Paths left out
+ * under revealPaths "none" are only known to start with SOLANA_PATH_PREFIX.
+ */
+export function statementPaths(statement: ManyLinkStatement): CircuitPath[] {
+  if (statement.paths !== undefined) {
+    return statement.paths;
+  }
+  if ((statement.revealPaths ?? "full") !== "none") {
+    throw new InvalidInputError(
+      "paths",
+      'required unless revealPaths is "none"'
+    );
+  }
+  return statement.pubkeys.map(() => SOLANA_PATH_PREFIX);
+}
+
+/**
+ * Builds the public signal vector for a statement, in the order the
+ * verification key expects. `valid` is always 1 for an accepted proof.
+ */
+export function buildPublicSignals(statement: LinkStatement): PublicSignals {
+  // ProveNPubKeys(2) lays its signals out exactly like Prove2PubKeys
+  return buildManyPublicSignals({
+    pubkeys: [statement.pubkey1, statement.pubkey2],
+    paths: [statement.path1, statement.path2],
+    revealPaths: statement.revealPaths,
+    domain: statement.domain,
+    seedCommitment: statement.seedCommitment,
+    challenge: statement.challenge,
+  });
+}
+
+/**
+ * Builds the public signal vector for an N-key statement: the seed
+ * commitment, the disclosed part of every path (zero-padded and flattened
+ * in order), their depths, all pubkeys, then the disclosure code, the domain
+ * tag and the challenge.
+ */
+export function buildManyPublicSignals(
+  statement: ManyLinkStatement
+): PublicSignals {
+  const revealPaths = checkStatementOptions(statement);
+
+  const { pubkeys } = statement;
+  const paths = statementPaths(statement);
+  if (pubkeys.length !== paths.length) {
+    throw new InvalidInputError(
+      "paths",
+      `got ${pubkeys.length} pubkeys but ${paths.length} paths`
+    );
+  }
+
+  const { domain, seedCommitment, challenge } = statement;
+  const signals: string[] = ["1", (seedCommitment ?? 0n).toString()];
+  const push = (values: (bigint | number)[]) =>
+    signals.push(...values.map((x) => x.toString()));
+
+  const disclosed = paths.map((path, i) =>
+    disclosePath(validatePath(path, `paths[${i}]`), revealPaths, `paths[${i}]`)
+  );
+  disclosed.forEach(({ indices }) => push(indices));
+  push(disclosed.map(({ depth }) => depth));
+
+  pubkeys.forEach((pubkey, i) =>
+    push(statementPubkey(pubkey, `pubkeys[${i}]`))
+  );
+
+  push([PATH_DISCLOSURE_CODES[revealPaths]]);
+  push([domain === undefined ? 0n : domainTag(domain)]);
+  push([challenge ?? 0n]);
+
+  return signals;
+}
+
+/**
+ * Builds the public signal vector for a membership statement, laid out as
+ * MEMBERSHIP_PUBLIC_SIGNAL_LAYOUT
+ */
+export function buildMembershipPublicSignals(
+  statement: MembershipStatement
+): PublicSignals {
+  const revealPaths = checkStatementOptions(statement);
+
+  let { path } = statement;
+  if (path === undefined) {
+    if (revealPaths !== "none") {
+      throw new InvalidInputError(
+        "path",
+        'required unless revealPaths is "none"'
+      );
+    }
+    path = SOLANA_PATH_PREFIX;
+  }
+
+  const { merkleRoot } = statement;
+  if (
+    typeof merkleRoot !== "bigint" ||
+    merkleRoot < 0n ||
+    merkleRoot >= BN254_FIELD_ORDER
+  ) {
+    throw new InvalidInputError("merkleRoot", "must be a field element");
+  }
+
+  const { domain, seedCommitment, challenge } = statement;
+  const { indices, depth } = disclosePath(validatePath(path), revealPaths);
+  return [
+    1n,
+    seedCommitment ?? 0n,
+    ...indices,
+    depth,
+    ...statementPubkey(statement.pubkey, "pubkey"),
+    merkleRoot,
+    PATH_DISCLOSURE_CODES[revealPaths],
+    domain === undefined ? 0n : domainTag(domain),
+    challenge ?? 0n,
+  ].map((x) => x.toString());
+}
+
+/**
+ * Checks the parts every statement shares and returns its disclosure policy
+ */
+function checkStatementOptions(statement: {
+  revealPaths?: PathDisclosure;
+  domain?: string;
+  seedCommitment?: bigint;
+  challenge?: bigint;
+}): PathDisclosure {
+  const revealPaths = statement.revealPaths ?? "full";
+  if (
+    !Object.prototype.hasOwnProperty.call(PATH_DISCLOSURE_CODES, revealPaths)
+  ) {
+    throw new InvalidInputError(
+      "revealPaths",
+      'expected "none", "purpose-and-coin" or "full"'
+    );
+  }
+
+  const { domain, seedCommitment } = statement;
+  if ((domain === undefined) !== (seedCommitment === undefined)) {
+    throw new InvalidInputError(
+      domain === undefined ? "domain" : "seedCommitment",
+      "domain and seedCommitment must be given together"
+    );
+  }
+  if (seedCommitment !== undefined && seedCommitment <= 0n) {
+    throw new InvalidInputError("seedCommitment", "must be positive");
+  }
+  const { challenge } = statement;
+  if (
+    challenge !== undefined &&
+    (challenge <= 0n || challenge >= BN254_FIELD_ORDER)
+  ) {
+    throw new InvalidInputError(
+      "challenge",
+      "must be a non-zero field element"
+    );
+  }
+  return revealPaths;
+}
+
+function statementPubkey(pubkey: PubkeyInput, field: string): bigint[] {
+  const limbs = toPubkeyLimbs(pubkey);
+  if (limbs.length !== PUBKEY_LIMBS) {
+    throw new InvalidInputError(
+      field,
+      `expected ${PUBKEY_LIMBS} elements, got ${limbs.length}`
+    );
+  }
+  return limbs;
+}
+
+/**
+ * Checks whether two public signal vectors are identical
+ */
+export function publicSignalsEqual(
+  a: PublicSignals,
+  b: PublicSignals
+): boolean {
+  return a.length === b.length && a.every((x, i) => x === b[i]);
+}
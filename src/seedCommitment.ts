@@ -0,0 +1,42 @@
+import { createHash } from "crypto";
+import { InvalidInputError } from "./errors";
+import { getPoseidon } from "./poseidon";
+import { Seed } from "./types";
+import { validateSeed } from "./validation";
+
+/*
+  Seed commitments let a verifier tell that separately produced proofs (keys
+  A and B today, C and D next month) come from the same seed, without
+  learning anything else about it.
+
+  A proof made with a domain carries Poseidon(seed, domainTag(domain)) as its
+  seedCommitment public signal. The domain names the application, so the
+  same seed gives unrelated commitments in different applications and
+  proofs cannot be linked across them. Proofs made without a domain carry 0.
+*/
+
+/**
+ * Field element standing for an application domain: the first 31 bytes of
+ * SHA-256(domain), which is always below the BN254 field order
+ */
+export function domainTag(domain: string): bigint {
+  if (typeof domain !== "string" || domain.length === 0) {
+    throw new InvalidInputError("domain", "must be a non-empty string");
+  }
+  const digest = createHash("sha256").update(domain, "utf8").digest();
+  return BigInt("0x" + digest.subarray(0, 31).toString("hex"));
+}
+
+/**
+ * Commitment to `seed` for one application, matching the SeedCommitment
+ * template in the circuit
+ */
+export async function computeSeedCommitment(
+  seed: Seed,
+  domain: string
+): Promise<bigint> {
+  validateSeed(seed);
+  const tag = domainTag(domain);
+  const poseidon = await getPoseidon();
+  return poseidon([...seed, tag]);
+}
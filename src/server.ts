@@ -0,0 +1,402 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { CIRCUITS, getCircuitArtifacts } from "./circuitRegistry";
+import {
+  ArtifactNotFoundError,
+  ConstraintUnsatisfiedError,
+  InvalidInputError,
+  ProverPoolError,
+} from "./errors";
+import {
+  bytesToLimbs,
+  DEFAULT_DERIVATION_SCHEME,
+  DerivationScheme,
+  deriveManyPublicKeys,
+} from "./keyDerivation";
+import { consoleLogger, log, setLogger } from "./logger";
+import { mnemonicToSeed } from "./mnemonic";
+import { generateLinkProof } from "./proofGeneration";
+import { verifyManyLinkProof, verifyProof } from "./proofVerification";
+import { ProverPool } from "./proverPool";
+import { publicSignalCount } from "./publicSignals";
+import { toBase58 } from "./pubkeyCodec";
+import { CircuitPath, PathDisclosure, PubkeyInput, Seed } from "./types";
+import {
+  formatCircuitPath,
+  parseCircuitPath,
+  validatePath,
+  validateProof,
+  validatePublicSignals,
+} from "./validation";
+
+/*
+  JSON-over-HTTP front end:
+
+  GET  /circuits  available circuits and their public signal counts
+  POST /derive    { seed | mnemonic, passphrase?, paths, scheme? }
+                  -> { pubkeys: [{ path, pubkey, address? }] }
+  POST /prove     { seed | mnemonic, passphrase?, paths, pubkeys?, scheme?,
+                    domain?, challenge?, revealPaths? }
+                  -> { proof, publicSignals, keyCount, seedCommitment? }
+  POST /verify    { proof, publicSignals, challenge? } or
+                  { proof, pubkeys, paths?, domain?, seedCommitment?,
+                    challenge?, revealPaths? }
+                  -> VerificationResult
+
+  `seed` is 64 bytes as 128 hex characters; `paths` are "m/44'/501'/0'/0'"
+  strings or arrays of BIP32 indices (hardened ones + 2^31); `pubkeys` are
+  base58 addresses or 4 decimal limbs. If /prove gets no pubkeys they are
+  derived from the seed. With a `domain` the proof carries the seed's
+  commitment for it (see seedCommitment.ts), a decimal string. A
+  `challenge` (decimal, see challenge.ts) binds the proof to one
+  verification. `revealPaths` ("none", "purpose-and-coin" or the default
+  "full") sets how much of the paths the proof discloses; /verify needs no
+  paths for "none".
+
+  Secrets never leave the server: responses and logs carry no seed, mnemonic
+  or passphrase, and errors about them do not quote the offending value.
+  Invalid requests get 400, failing statements 422, an overloaded prover
+  pool 503/504.
+*/
+
+export interface ServerOptions {
+  maxBodyBytes?: number; // default 64 KiB
+  pool?: ProverPool; // prove on worker threads instead of the event loop
+}
+
+const DEFAULT_MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * An error that maps directly to an HTTP status
+ */
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A JSON object request body, as checked by readJsonBody. Each handler
+ * narrows the fields it reads with the validators below.
+ */
+type RequestBody = Record<string, unknown>;
+
+type Handler = (body: RequestBody) => Promise<unknown>;
+
+/**
+ * Creates the HTTP server; call `listen` on the result to start it
+ */
+export function createProverServer(options: ServerOptions = {}): Server {
+  const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+
+  const routes: Record<string, Handler> = {
+    "GET /circuits": listCircuits,
+    "POST /derive": derive,
+    "POST /prove": (body) => prove(body, options.pool),
+    "POST /verify": verify,
+  };
+
+  return createServer(async (req, res) => {
+    const route = `${req.method} ${(req.url ?? "").split("?")[0]}`;
+    try {
+      const handler = routes[route];
+      if (!handler) {
+        throw new HttpError(404, `No route for ${route}`);
+      }
+      const body =
+        req.method === "POST" ? await readJsonBody(req, maxBodyBytes) : {};
+      sendJson(res, 200, await handler(body));
+    } catch (error) {
+      const { status, body } = toErrorResponse(error);
+      if (status >= 500) {
+        log.error("Request failed", { route, error: (error as Error).message });
+      }
+      sendJson(res, status, body);
+    }
+  });
+}
+
+async function listCircuits(): Promise<unknown> {
+  const circuits = await Promise.all(
+    CIRCUITS.map(async (circuit) => {
+      let available = true;
+      try {
+        await getCircuitArtifacts(circuit).getVerificationKey();
+      } catch (error) {
+        if (!(error instanceof ArtifactNotFoundError)) throw error;
+        available = false;
+      }
+      return {
+        keyCount: circuit.keyCount,
+        name: circuit.name,
+        scheme: circuit.scheme,
+        publicSignals: publicSignalCount(circuit.keyCount),
+        available,
+      };
+    })
+  );
+  return { circuits };
+}
+
+async function derive(body: RequestBody): Promise<unknown> {
+  const seed = readSeed(body);
+  const paths = readPaths(body.paths);
+  const scheme = readScheme(body.scheme);
+
+  const pubkeys = await deriveManyPublicKeys(seed, paths, scheme);
+  return {
+    pubkeys: pubkeys.map((pubkey, i) => ({
+      path: formatCircuitPath(paths[i]),
+      pubkey: pubkey.map((x) => x.toString()),
+      ...(scheme === "slip10-ed25519" ? { address: toBase58(pubkey) } : {}),
+    })),
+  };
+}
+
+async function prove(body: RequestBody, pool?: ProverPool): Promise<unknown> {
+  const seed = readSeed(body);
+  const paths = readPaths(body.paths);
+  const scheme = readScheme(body.scheme);
+  const pubkeys =
+    body.pubkeys === undefined
+      ? await deriveManyPublicKeys(seed, paths, scheme)
+      : readPubkeys(body.pubkeys);
+
+  const options = {
+    domain: readDomain(body.domain),
+    challenge: readDecimal(body.challenge, "challenge"),
+    revealPaths: readRevealPaths(body.revealPaths),
+  };
+
+  return pool
+    ? pool.generateLinkProof(seed, pubkeys, paths, { ...options, scheme })
+    : generateLinkProof(seed, pubkeys, paths, scheme, options);
+}
+
+async function verify(body: RequestBody): Promise<unknown> {
+  const proof = validateProof(body.proof);
+  const challenge = readDecimal(body.challenge, "challenge");
+
+  if (body.publicSignals !== undefined) {
+    return verifyProof(
+      proof,
+      validatePublicSignals(body.publicSignals),
+      challenge
+    );
+  }
+  return verifyManyLinkProof(proof, {
+    pubkeys: readPubkeys(body.pubkeys),
+    paths: body.paths === undefined ? undefined : readPaths(body.paths),
+    revealPaths: readRevealPaths(body.revealPaths),
+    domain: readDomain(body.domain),
+    seedCommitment: readDecimal(body.seedCommitment, "seedCommitment"),
+    challenge,
+  });
+}
+
+/**
+ * Reads the seed from `seed` (hex) or `mnemonic` (+ `passphrase`). Errors
+ * describe what is wrong without repeating any part of the secret.
+ */
+function readSeed(body: RequestBody): Seed {
+  const { seed, mnemonic, passphrase } = body;
+  if ((seed === undefined) === (mnemonic === undefined)) {
+    throw new InvalidInputError("seed", "give exactly one of seed, mnemonic");
+  }
+
+  if (seed !== undefined) {
+    if (typeof seed !== "string" || !/^[0-9a-fA-F]{128}$/.test(seed)) {
+      throw new InvalidInputError(
+        "seed",
+        "expected 64 bytes as 128 hex characters"
+      );
+    }
+    return bytesToLimbs(Buffer.from(seed, "hex"));
+  }
+
+  if (typeof mnemonic !== "string") {
+    throw new InvalidInputError("mnemonic", "expected a string");
+  }
+  if (passphrase !== undefined && typeof passphrase !== "string") {
+    throw new InvalidInputError("passphrase", "expected a string");
+  }
+  try {
+    return mnemonicToSeed(mnemonic, passphrase).seed;
+  } catch {
+    throw new InvalidInputError("mnemonic", "not a valid BIP39 mnemonic");
+  }
+}
+
+function readPaths(value: unknown): CircuitPath[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new InvalidInputError("paths", "expected a non-empty array");
+  }
+  return value.map((path, i) =>
+    typeof path === "string"
+      ? parseCircuitPath(path, `paths[${i}]`)
+      : validatePath(path, `paths[${i}]`)
+  );
+}
+
+function readScheme(value: unknown): DerivationScheme {
+  if (value === undefined) return DEFAULT_DERIVATION_SCHEME;
+  if (value !== "poseidon-toy" && value !== "slip10-ed25519") {
+    throw new InvalidInputError("scheme", `unknown scheme ${value}`);
+  }
+  return value;
+}
+
+function readDomain(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || value.length === 0) {
+    throw new InvalidInputError("domain", "expected a non-empty string");
+  }
+  return value;
+}
+
+function readRevealPaths(value: unknown): PathDisclosure | undefined {
+  if (value === undefined) return undefined;
+  if (value !== "none" && value !== "purpose-and-coin" && value !== "full") {
+    throw new InvalidInputError(
+      "revealPaths",
+      'expected "none", "purpose-and-coin" or "full"'
+    );
+  }
+  return value;
+}
+
+function readDecimal(value: unknown, field: string): bigint | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new InvalidInputError(field, "expected a decimal string");
+  }
+  return BigInt(value);
+}
+
+function readPubkeys(value: unknown): PubkeyInput[] {
+  if (!Array.isArray(value)) {
+    throw new InvalidInputError("pubkeys", "expected an array");
+  }
+  return value.map((pubkey, i) => {
+    if (typeof pubkey === "string") return pubkey;
+    if (
+      Array.isArray(pubkey) &&
+      pubkey.every((x) => typeof x === "string" && /^\d+$/.test(x))
+    ) {
+      return pubkey.map((x) => BigInt(x));
+    }
+    throw new InvalidInputError(
+      `pubkeys[${i}]`,
+      "expected a base58 address or 4 decimal strings"
+    );
+  });
+}
+
+/**
+ * Reads and parses a JSON object body, refusing bodies over the size limit
+ */
+async function readJsonBody(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<RequestBody> {
+  if (Number(req.headers["content-length"] ?? 0) > maxBytes) {
+    throw new HttpError(413, `Request body exceeds ${maxBytes} bytes`);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      throw new HttpError(413, `Request body exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(chunk);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    // The parser's message quotes the body, which may contain a seed
+    throw new HttpError(400, "Request body is not valid JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new HttpError(400, "Request body must be a JSON object");
+  }
+  return body as RequestBody;
+}
+
+function toErrorResponse(error: unknown): {
+  status: number;
+  body: Record<string, unknown>;
+} {
+  if (error instanceof HttpError) {
+    return { status: error.status, body: { error: error.message } };
+  }
+  if (error instanceof InvalidInputError) {
+    return {
+      status: 400,
+      body: { error: error.name, field: error.field, message: error.message },
+    };
+  }
+  if (error instanceof ConstraintUnsatisfiedError) {
+    return { status: 422, body: { error: error.name, message: error.message } };
+  }
+  if (error instanceof ArtifactNotFoundError) {
+    // Don't reveal where the server keeps its files
+    return {
+      status: 503,
+      body: {
+        error: error.name,
+        message: "Circuit artifacts are not available",
+      },
+    };
+  }
+  if (error instanceof ProverPoolError) {
+    const status = error.reason === "timeout" ? 504 : 503;
+    return { status, body: { error: error.name, reason: error.reason } };
+  }
+  // Anything else is our problem; don't leak internals
+  return { status: 500, body: { error: "Internal error" } };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  const text = JSON.stringify(body, (_, value) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+  res.writeHead(status, {
+    "content-type": "application/json",
+    "content-length": Buffer.byteLength(text),
+  });
+  res.end(text);
+}
+
+async function main() {
+  const port = Number(process.env.PORT ?? 8080);
+  const host = process.env.HOST ?? "127.0.0.1";
+  setLogger(consoleLogger("info"));
+
+  const pool = new ProverPool();
+  const server = createProverServer({ pool });
+  server.listen(port, host, () =>
+    log.info("Listening", { url: `http://${host}:${port}` })
+  );
+
+  const shutdown = () => {
+    server.close();
+    pool.close().then(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
+}
+
+export { main };
@@ -0,0 +1,96 @@
+import { createHmac, createPrivateKey, createPublicKey } from "crypto";
+import { InvalidInputError } from "./errors";
+
+/*
+  SLIP-0010 derivation of Ed25519 keys, as Solana wallets do it:
+
+  1) master = HMAC-SHA512(key = "ed25519 seed", seed); the key is its first
+     32 bytes and the chain code the last 32
+  2) for each (hardened) index i:
+     I = HMAC-SHA512(chain code, 0x00 || key || ser32(i)), split the same way
+  3) the public key is the RFC 8032 public key of the final 32-byte key
+
+  slip10.circom implements the same steps in the circuit.
+*/
+
+/**
+ * Added to an index to make it hardened, e.g. 44' is 44 + HARDENED_OFFSET
+ */
+export const HARDENED_OFFSET = 0x80000000;
+
+/**
+ * A private key and chain code at some node of the derivation tree
+ */
+export interface Slip10Node {
+  key: Buffer;
+  chainCode: Buffer;
+}
+
+// DER prefixes of a PKCS#8 Ed25519 private key and an SPKI Ed25519 public
+// key; the 32 raw key bytes follow them
+const PKCS8_ED25519_PREFIX = Buffer.from(
+  "302e020100300506032b657004220420",
+  "hex"
+);
+const SPKI_ED25519_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+function hmacSha512(key: Buffer, data: Buffer): Slip10Node {
+  const I = createHmac("sha512", key).update(data).digest();
+  return { key: I.subarray(0, 32), chainCode: I.subarray(32, 64) };
+}
+
+/**
+ * Master node of a seed (16 to 64 bytes; BIP39 seeds are 64)
+ */
+export function getMasterKeyFromSeed(seed: Buffer): Slip10Node {
+  return hmacSha512(Buffer.from("ed25519 seed", "utf8"), seed);
+}
+
+/**
+ * Hardened child `index` (already including HARDENED_OFFSET) of a node
+ */
+export function deriveChild(
+  key: Buffer,
+  chainCode: Buffer,
+  index: number
+): Slip10Node {
+  const ser32 = Buffer.alloc(4);
+  ser32.writeUInt32BE(index >>> 0);
+  return hmacSha512(chainCode, Buffer.concat([Buffer.from([0]), key, ser32]));
+}
+
+/**
+ * Private key and chain code at a path given as indices. SLIP-0010 only
+ * defines hardened derivation for Ed25519, so every index must be hardened.
+ */
+export function derivePathFromIndices(
+  seed: Buffer,
+  indices: number[]
+): { priv: Buffer; chainCode: Buffer } {
+  let { key, chainCode } = getMasterKeyFromSeed(seed);
+  indices.forEach((index, i) => {
+    if (index < HARDENED_OFFSET) {
+      throw new InvalidInputError(
+        `path[${i}]`,
+        "SLIP-0010 Ed25519 only supports hardened components"
+      );
+    }
+    ({ key, chainCode } = deriveChild(key, chainCode, index));
+  });
+  return { priv: key, chainCode };
+}
+
+/**
+ * Raw 32-byte Ed25519 public key of a 32-byte private key
+ */
+export function ed25519PublicFromPrivateKeyBytes(privateKey: Buffer): Buffer {
+  const publicKey = createPublicKey(
+    createPrivateKey({
+      key: Buffer.concat([PKCS8_ED25519_PREFIX, privateKey]),
+      format: "der",
+      type: "pkcs8",
+    })
+  );
+  const spki = publicKey.export({ format: "der", type: "spki" });
+  return spki.subarray(SPKI_ED25519_PREFIX.length);
+}
@@ -0,0 +1,26 @@
+import { bytesToLimbs, deriveSolanaPublicKey } from "./keyDerivation";
+import { parseCircuitPath } from "./validation";
+
+/*
+  Prints the Solana addresses of a seed at two BIP44 paths, derived with
+  SLIP-0010 (see slip10.ts).
+
+  A BIP39 passphrase (the "25th word") does not change the derivation: it
+  is salt to PBKDF2 when the mnemonic is turned into a seed, so the same
+  words with another passphrase give an unrelated seed and unrelated
+  addresses. See mnemonicToSeed in mnemonic.ts.
+*/
+
+function main() {
+  // Demo seed only: replace it with the 64-byte BIP39 seed of your wallet
+  const seed = bytesToLimbs(
+    Buffer.from("000102030405060708090a0b0c0d0e0f".repeat(4), "hex")
+  );
+
+  for (const path of ["m/44'/501'/0'/0'", "m/44'/501'/0'/1'"]) {
+    const pubkey = deriveSolanaPublicKey(seed, parseCircuitPath(path));
+    console.log(`${path} -> ${pubkey.toBase58()}`);
+  }
+}
+
+main();
@@ -0,0 +1,66 @@
+import "snarkjs";
+
+/*
+  Parts of snarkjs that @types/snarkjs leaves out or declares differently
+  from what snarkjs 0.7 implements
+*/
+
+declare module "snarkjs" {
+  /**
+   * In-memory file, accepted by snarkjs wherever it takes a file name.
+   * `data` holds the contents once snarkjs has written it.
+   */
+  export interface MemFile {
+    type: "mem";
+    data?: Uint8Array;
+  }
+
+  /**
+   * Group of an ffjavascript curve; points are held in Uint8Arrays
+   */
+  export interface CurveGroup {
+    /** Reads a point as stored in zkey and ptau files */
+    fromRprLEM(buff: Uint8Array, offset?: number): Uint8Array;
+    /** Writes a point in the form snarkjs hashes contributions over */
+    toRprUncompressed(
+      buff: Uint8Array,
+      offset: number,
+      point: Uint8Array
+    ): void;
+  }
+
+  /**
+   * ffjavascript curve, as built by snarkjs
+   */
+  export interface Curve {
+    name: string;
+    G1: CurveGroup;
+    G2: CurveGroup;
+    terminate(): Promise<void>;
+  }
+
+  /**
+   * `singleThread` builds a curve that does all its work in the calling
+   * thread instead of starting helper threads
+   */
+  export namespace curves {
+    function getCurveFromName(
+      name: string,
+      options?: { singleThread?: boolean }
+    ): Promise<Curve>;
+  }
+
+  export namespace powersOfTau {
+    // @types/snarkjs declares verify(curve, cur, prev, logger) instead
+    function verify(ptauFile: string, logger?: unknown): Promise<boolean>;
+  }
+
+  export namespace wtns {
+    function calculate(
+      input: CircuitSignals,
+      wasm: Uint8Array | string,
+      wtnsFile: MemFile | string
+    ): Promise<void>;
+    function exportJson(wtnsFile: MemFile | string): Promise<bigint[]>;
+  }
+}
@@ -0,0 +1,357 @@
+import {
+  AccountMeta,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  TransactionInstruction,
+} from "@solana/web3.js";
+import { InvalidInputError } from "./errors";
+import { Groth16Proof, PublicSignals } from "./types";
+import {
+  BN254_BASE_FIELD_ORDER,
+  validateProof,
+  validatePublicSignals,
+} from "./validation";
+
+/*
+  Byte layout used by Solana's alt_bn128 syscalls and groth16-solana style
+  verifiers (EIP-197 encoding):
+
+  - field elements are 32-byte big-endian
+  - G1 point: x || y                                   (64 bytes)
+  - G2 point: x.c1 || x.c0 || y.c1 || y.c0             (128 bytes)
+    snarkjs stores Fq2 elements as [c0, c1], so each pair is reversed
+  - proof A is negated (y -> q - y), so the on-chain check can be written as
+    e(-A, B) * e(alpha, beta) * e(vk_x, gamma) * e(C, delta) == 1
+  - public inputs: one 32-byte big-endian scalar each
+
+  Instruction data is: [discriminator] || proofA || proofB || proofC || inputs
+
+  That is 256 + 32 * nPublic bytes, and a whole transaction, with the
+  accounts passed to the instruction, must fit in PACKET_DATA_SIZE (1232
+  bytes). The 2-key circuit (25 signals) and the membership circuit (16) fit;
+  the 4-key circuit and larger (45+ signals) do not, so their proofs cannot
+  be sent to a verifier program.
+*/
+
+export const G1_BYTES = 64;
+export const G2_BYTES = 128;
+export const SCALAR_BYTES = 32;
+
+/**
+ * Bytes of the smallest transaction carrying an instruction, besides its
+ * data: one signature, the message header, the fee payer and program
+ * accounts, the blockhash and the instruction's own header
+ */
+const MIN_TRANSACTION_OVERHEAD = 1 + 64 + 3 + 1 + 2 * 32 + 32 + 1 + 1 + 1 + 2;
+
+/**
+ * Most instruction data a transaction can carry, without accounts passed to
+ * the instruction
+ */
+export const MAX_INSTRUCTION_DATA_BYTES =
+  PACKET_DATA_SIZE - MIN_TRANSACTION_OVERHEAD;
+
+/**
+ * Bytes each account passed to the instruction takes from the same packet:
+ * its key in the message and its index in the instruction
+ */
+export const ACCOUNT_BYTES = 32 + 1;
+
+/**
+ * Groth16 proof in the Solana verifier byte layout
+ */
+export interface SolanaProof {
+  proofA: Uint8Array; // negated pi_a, 64 bytes
+  proofB: Uint8Array; // pi_b, 128 bytes
+  proofC: Uint8Array; // pi_c, 64 bytes
+}
+
+/**
+ * Verification key in the Solana verifier byte layout
+ */
+export interface SolanaVerifyingKey {
+  nPublic: number;
+  alphaG1: Uint8Array;
+  betaG2: Uint8Array;
+  gammaG2: Uint8Array;
+  deltaG2: Uint8Array;
+  ic: Uint8Array[]; // nPublic + 1 G1 points
+}
+
+/**
+ * Encodes a field element as 32 big-endian bytes
+ */
+export function encodeFieldElement(value: bigint | string): Uint8Array {
+  let x = BigInt(value);
+  if (x < 0n || x >= BN254_BASE_FIELD_ORDER) {
+    throw new InvalidInputError("fieldElement", "outside the BN254 base field");
+  }
+
+  const bytes = new Uint8Array(SCALAR_BYTES);
+  for (let i = SCALAR_BYTES - 1; i >= 0; i--) {
+    bytes[i] = Number(x & 0xffn);
+    x >>= 8n;
+  }
+  return bytes;
+}
+
+/**
+ * Decodes a 32-byte big-endian field element
+ */
+export function decodeFieldElement(bytes: Uint8Array): bigint {
+  let x = 0n;
+  for (const b of bytes) {
+    x = (x << 8n) + BigInt(b);
+  }
+  return x;
+}
+
+/**
+ * Encodes an affine snarkjs G1 point [x, y, "1"], optionally negated
+ */
+export function encodeG1(point: string[], negate = false): Uint8Array {
+  if (point[2] !== undefined && point[2] !== "1") {
+    throw new InvalidInputError("g1", "point must be in affine form (z = 1)");
+  }
+
+  const x = BigInt(point[0]);
+  let y = BigInt(point[1]);
+  if (negate && y !== 0n) {
+    y = BN254_BASE_FIELD_ORDER - y;
+  }
+  return concat([encodeFieldElement(x), encodeFieldElement(y)]);
+}
+
+/**
+ * Encodes an affine snarkjs G2 point [[x0, x1], [y0, y1], ["1", "0"]]
+ */
+export function encodeG2(point: string[][]): Uint8Array {
+  if (point[2] !== undefined && (point[2][0] !== "1" || point[2][1] !== "0")) {
+    throw new InvalidInputError("g2", "point must be in affine form (z = 1)");
+  }
+
+  const [x, y] = point;
+  return concat([
+    encodeFieldElement(x[1]),
+    encodeFieldElement(x[0]),
+    encodeFieldElement(y[1]),
+    encodeFieldElement(y[0]),
+  ]);
+}
+
+/**
+ * Converts a snarkjs Groth16 proof to the Solana verifier layout
+ */
+export function encodeProofForSolana(proof: Groth16Proof): SolanaProof {
+  validateProof(proof);
+  return {
+    proofA: encodeG1(proof.pi_a, true),
+    proofB: encodeG2(proof.pi_b),
+    proofC: encodeG1(proof.pi_c),
+  };
+}
+
+/**
+ * Converts a Solana-layout proof back to snarkjs JSON (undoing the negation of A)
+ */
+export function decodeSolanaProof(proof: SolanaProof): Groth16Proof {
+  const g1 = (bytes: Uint8Array, negate = false) => {
+    if (bytes.length !== G1_BYTES) {
+      throw new InvalidInputError("g1", `expected ${G1_BYTES} bytes`);
+    }
+    const x = decodeFieldElement(bytes.subarray(0, 32));
+    let y = decodeFieldElement(bytes.subarray(32, 64));
+    if (negate && y !== 0n) {
+      y = BN254_BASE_FIELD_ORDER - y;
+    }
+    return [x.toString(), y.toString(), "1"];
+  };
+
+  if (proof.proofB.length !== G2_BYTES) {
+    throw new InvalidInputError("g2", `expected ${G2_BYTES} bytes`);
+  }
+  const b = [0, 1, 2, 3].map((i) =>
+    decodeFieldElement(proof.proofB.subarray(i * 32, (i + 1) * 32)).toString()
+  );
+
+  return {
+    pi_a: g1(proof.proofA, true),
+    pi_b: [
+      [b[1], b[0]],
+      [b[3], b[2]],
+      ["1", "0"],
+    ],
+    pi_c: g1(proof.proofC),
+    protocol: "groth16",
+    curve: "bn128",
+  };
+}
+
+/**
+ * Encodes public signals as 32-byte big-endian scalars
+ */
+export function encodePublicInputs(publicSignals: PublicSignals): Uint8Array[] {
+  validatePublicSignals(publicSignals);
+  return publicSignals.map((x) => encodeFieldElement(x));
+}
+
+/**
+ * Converts a snarkjs verification_key.json to the Solana verifier layout
+ */
+export function encodeVerifyingKey(
+  vkey: Record<string, any>
+): SolanaVerifyingKey {
+  if (vkey.protocol !== "groth16" || vkey.curve !== "bn128") {
+    throw new InvalidInputError(
+      "vkey",
+      `expected a groth16 bn128 key, got ${vkey.protocol} ${vkey.curve}`
+    );
+  }
+  if (!Array.isArray(vkey.IC) || vkey.IC.length !== vkey.nPublic + 1) {
+    throw new InvalidInputError("vkey.IC", "must have nPublic + 1 points");
+  }
+
+  return {
+    nPublic: vkey.nPublic,
+    alphaG1: encodeG1(vkey.vk_alpha_1),
+    betaG2: encodeG2(vkey.vk_beta_2),
+    gammaG2: encodeG2(vkey.vk_gamma_2),
+    deltaG2: encodeG2(vkey.vk_delta_2),
+    ic: vkey.IC.map((point: string[]) => encodeG1(point)),
+  };
+}
+
+/**
+ * Renders a verification key as a Rust constant for groth16-solana.
+ * Note that the crate spells the gamma field `vk_gamme_g2`.
+ */
+export function verifyingKeyToRust(
+  vkey: Record<string, any>,
+  name = "VERIFYINGKEY"
+): string {
+  const key = encodeVerifyingKey(vkey);
+  const bytes = (b: Uint8Array, indent: string) =>
+    "[\n" +
+    chunk(Array.from(b), 16)
+      .map((row) => `${indent}    ${row.join(", ")},`)
+      .join("\n") +
+    `\n${indent}]`;
+
+  return `use groth16_solana::groth16::Groth16Verifyingkey;
+
+pub const ${name}: Groth16Verifyingkey = Groth16Verifyingkey {
+    nr_pubinputs: ${key.nPublic},
+    vk_alpha_g1: ${bytes(key.alphaG1, "    ")},
+    vk_beta_g2: ${bytes(key.betaG2, "    ")},
+    vk_gamme_g2: ${bytes(key.gammaG2, "    ")},
+    vk_delta_g2: ${bytes(key.deltaG2, "    ")},
+    vk_ic: &[
+${key.ic.map((p) => `        ${bytes(p, "        ")},`).join("\n")}
+    ],
+};
+`;
+}
+
+/**
+ * Renders a verification key as a TypeScript constant of hex strings
+ */
+export function verifyingKeyToTypeScript(
+  vkey: Record<string, any>,
+  name = "VERIFYING_KEY"
+): string {
+  const key = encodeVerifyingKey(vkey);
+  const hex = (b: Uint8Array) => JSON.stringify(Buffer.from(b).toString("hex"));
+
+  return `export const ${name} = {
+  nPublic: ${key.nPublic},
+  alphaG1: ${hex(key.alphaG1)},
+  betaG2: ${hex(key.betaG2)},
+  gammaG2: ${hex(key.gammaG2)},
+  deltaG2: ${hex(key.deltaG2)},
+  ic: [
+${key.ic.map((p) => `    ${hex(p)},`).join("\n")}
+  ],
+} as const;
+`;
+}
+
+/**
+ * Serializes a proof and its public signals into verifier instruction data.
+ * Throws InvalidInputError when the data, sent along with `accountCount`
+ * accounts, cannot fit in a transaction, e.g. for circuits of 4 keys or more.
+ */
+export function encodeVerifierPayload(
+  proof: Groth16Proof,
+  publicSignals: PublicSignals,
+  discriminator: Uint8Array = new Uint8Array(),
+  accountCount = 0
+): Uint8Array {
+  const length =
+    discriminator.length +
+    2 * G1_BYTES +
+    G2_BYTES +
+    SCALAR_BYTES * publicSignals.length;
+  const limit = MAX_INSTRUCTION_DATA_BYTES - ACCOUNT_BYTES * accountCount;
+  if (length > limit) {
+    throw new InvalidInputError(
+      "publicSignals",
+      `${publicSignals.length} public signals need ${length} bytes of ` +
+        `instruction data, more than the ${limit} a Solana transaction ` +
+        `with ${accountCount} instruction accounts can carry`
+    );
+  }
+
+  const { proofA, proofB, proofC } = encodeProofForSolana(proof);
+  return concat([
+    discriminator,
+    proofA,
+    proofB,
+    proofC,
+    ...encodePublicInputs(publicSignals),
+  ]);
+}
+
+/**
+ * Builds a TransactionInstruction calling an on-chain Groth16 verifier
+ * program with the proof and public signals as instruction data. Throws
+ * InvalidInputError when it cannot fit in a transaction with its accounts.
+ */
+export function buildVerifyInstruction(params: {
+  programId: PublicKey;
+  proof: Groth16Proof;
+  publicSignals: PublicSignals;
+  keys?: AccountMeta[];
+  discriminator?: Uint8Array;
+}): TransactionInstruction {
+  const keys = params.keys ?? [];
+  return new TransactionInstruction({
+    programId: params.programId,
+    keys,
+    data: Buffer.from(
+      encodeVerifierPayload(
+        params.proof,
+        params.publicSignals,
+        params.discriminator,
+        keys.length
+      )
+    ),
+  });
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const rows: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    rows.push(items.slice(i, i + size));
+  }
+  return rows;
+}
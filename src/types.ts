@@ -0,0 +1,159 @@
+import { PublicKey } from "@solana/web3.js";
+
+/**
+ * Groth16 proof in snarkjs JSON format (projective coordinates as decimal strings)
+ */
+export interface Groth16Proof {
+  pi_a: string[]; // G1: [x, y, z]
+  pi_b: string[][]; // G2: [[x0, x1], [y0, y1], [z0, z1]]
+  pi_c: string[]; // G1: [x, y, z]
+  protocol: "groth16";
+  curve: string;
+}
+
+/**
+ * Groth16 verification key in snarkjs JSON format (as written by
+ * `snarkjs zkey export verificationkey`)
+ */
+export interface Groth16VerificationKey {
+  protocol: "groth16";
+  curve: string;
+  nPublic: number;
+  vk_alpha_1: string[]; // G1
+  vk_beta_2: string[][]; // G2
+  vk_gamma_2: string[][]; // G2
+  vk_delta_2: string[][]; // G2
+  vk_alphabeta_12?: string[][][]; // precomputed e(alpha, beta), unused here
+  IC: string[][]; // nPublic + 1 G1 points
+}
+
+/**
+ * Public signals as decimal strings, in the order of PUBLIC_SIGNAL_LAYOUT:
+ * the outputs (valid, seedCommitment, revealed paths and depths), then the
+ * public inputs (pubkeys, reveal, domain, challenge)
+ */
+export type PublicSignals = string[];
+
+/**
+ * 64-byte seed as 8 big-endian 64-bit limbs
+ */
+export type Seed = bigint[];
+
+/**
+ * Public key as 4 limbs, each a BN254 field element
+ */
+export type PubkeyLimbs = bigint[];
+
+/**
+ * Any accepted pubkey representation: base58 address, web3.js PublicKey,
+ * 32 raw bytes or circuit limbs (see pubkeyCodec.ts)
+ */
+export type PubkeyInput = string | PublicKey | Uint8Array | PubkeyLimbs;
+
+/**
+ * Derivation path: 1 to 5 BIP32 indices, hardened ones with bit 31 set,
+ * e.g. [44 + 2^31, 501 + 2^31, 2^31, 2^31] for m/44'/501'/0'/0'.
+ * Use parseCircuitPath to build one from a string.
+ */
+export type CircuitPath = number[];
+
+/**
+ * How much of each derivation path a proof discloses:
+ * - "full": every index and the depth (the default)
+ * - "purpose-and-coin": the first two indices, e.g. 44'/501'
+ * - "none": nothing; the circuit still requires the Solana prefix 44'/501'
+ */
+export type PathDisclosure = "none" | "purpose-and-coin" | "full";
+
+/**
+ * Optional parts of a link proof (see generateLinkProof)
+ */
+export interface LinkProofOptions {
+  domain?: string; // publish the seed commitment for this domain
+  challenge?: bigint; // bind the proof to this verifier challenge
+  revealPaths?: PathDisclosure; // default "full"
+}
+
+/**
+ * Input of the Prove2PubKeys circuit
+ */
+export interface PairCircuitInput {
+  seed: string[];
+  pubkey1: string[];
+  pubkey2: string[];
+  path1: string[];
+  path2: string[];
+  depth1: string;
+  depth2: string;
+  reveal: string; // path disclosure code, see PATH_DISCLOSURE_CODES
+  domain: string; // domain tag of the seed commitment, "0" for none
+  challenge: string; // verifier's challenge, "0" for none
+}
+
+/**
+ * Input of the ProveNPubKeys(N) circuits
+ */
+export interface ArrayCircuitInput {
+  seed: string[];
+  pubkeys: string[][];
+  paths: string[][];
+  depths: string[];
+  reveal: string;
+  domain: string;
+  challenge: string;
+}
+
+/**
+ * Input of the ProveSetMembership circuit
+ */
+export interface MembershipCircuitInput {
+  seed: string[];
+  pubkey: string[];
+  path: string[];
+  depth: string;
+  memberPubkey: string[];
+  memberPath: string[];
+  memberDepth: string;
+  siblings: string[]; // Merkle path of the member, see MerkleSet
+  pathIndices: string[];
+  merkleRoot: string;
+  reveal: string;
+  domain: string;
+  challenge: string;
+}
+
+export type CircuitInput =
+  PairCircuitInput | ArrayCircuitInput | MembershipCircuitInput;
+
+/**
+ * Full witness computed by the circuit's witness calculator
+ */
+export type Witness = bigint[];
+
+/**
+ * Why a verification did not succeed:
+ * - "proof-rejected": the Groth16 pairing check failed, which is also how a
+ *   proof about different keys or paths fails
+ * - "pubkey-mismatch": a derived pubkey differs from the expected one
+ * - "constraint-unsatisfied": the circuit's `valid` output is not 1
+ * - "challenge-mismatch": the proof was made for a different challenge
+ * - "malformed-proof": a batch item is not a well-formed proof; single
+ *   verifications throw MalformedProofError instead
+ */
+export type VerificationFailureReason =
+  | "proof-rejected"
+  | "pubkey-mismatch"
+  | "constraint-unsatisfied"
+  | "challenge-mismatch"
+  | "malformed-proof";
+
+/**
+ * Verdict of a verification. Problems with the inputs or artifacts themselves
+ * are thrown as errors (see errors.ts) rather than reported here.
+ */
+export interface VerificationResult {
+  valid: boolean;
+  reason?: VerificationFailureReason;
+  message?: string;
+  seedCommitment?: bigint; // set when a valid proof was made with a domain
+}
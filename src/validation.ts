@@ -0,0 +1,289 @@
+import { InvalidInputError, MalformedProofError } from "./errors";
+import { toPubkeyLimbs } from "./pubkeyCodec";
+import { HARDENED_OFFSET } from "./slip10";
+import {
+  CircuitPath,
+  Groth16Proof,
+  Groth16VerificationKey,
+  PublicSignals,
+  PubkeyInput,
+  PubkeyLimbs,
+  Seed,
+} from "./types";
+
+/**
+ * Order of the BN254 scalar field; every circuit signal must be below it
+ */
+export const BN254_FIELD_ORDER =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+/**
+ * Order of the BN254 base field, in which curve point coordinates live
+ */
+export const BN254_BASE_FIELD_ORDER =
+  21888242871839275222246405745257275088696311157297823662689037894645226208583n;
+
+export const SEED_LIMBS = 8;
+export const PUBKEY_LIMBS = 4;
+/**
+ * Longest derivation path the circuits accept; must match maxPathDepth() in
+ * pubkeys.circom
+ */
+export const MAX_PATH_DEPTH = 5;
+
+const MAX_U64 = (1n << 64n) - 1n;
+const MAX_U32 = 2 ** 32 - 1;
+const DECIMAL = /^\d+$/;
+
+/**
+ * Checks that a value is a bigint in [0, max]
+ */
+function checkBigint(field: string, value: unknown, max: bigint, what: string) {
+  if (typeof value !== "bigint") {
+    throw new InvalidInputError(
+      field,
+      `expected a bigint, got ${typeof value}`
+    );
+  }
+  if (value < 0n) {
+    throw new InvalidInputError(field, "must not be negative");
+  }
+  if (value > max) {
+    throw new InvalidInputError(field, `exceeds ${what}`);
+  }
+}
+
+function checkArray(
+  field: string,
+  value: unknown,
+  length: number,
+  ErrorClass = InvalidInputError
+) {
+  if (!Array.isArray(value)) {
+    throw new ErrorClass(field, "expected an array");
+  }
+  if (value.length !== length) {
+    throw new ErrorClass(
+      field,
+      `expected ${length} elements, got ${value.length}`
+    );
+  }
+}
+
+/**
+ * Validates a seed: 8 limbs, each fitting in 64 bits
+ */
+export function validateSeed(value: unknown, field = "seed"): Seed {
+  checkArray(field, value, SEED_LIMBS);
+  (value as unknown[]).forEach((x, i) =>
+    checkBigint(`${field}[${i}]`, x, MAX_U64, "64 bits")
+  );
+  return value as Seed;
+}
+
+/**
+ * Validates a pubkey: 4 limbs, each a BN254 field element
+ */
+export function validatePubkey(value: unknown, field = "pubkey"): PubkeyLimbs {
+  checkArray(field, value, PUBKEY_LIMBS);
+  (value as unknown[]).forEach((x, i) =>
+    checkBigint(`${field}[${i}]`, x, BN254_FIELD_ORDER - 1n, "the BN254 field")
+  );
+  return value as PubkeyLimbs;
+}
+
+/**
+ * Validates a circuit path: 1 to MAX_PATH_DEPTH BIP32 indices, each a 32-bit
+ * unsigned integer. Hardened indices have bit 31 set, e.g. m/44'/501'/0' is
+ * [44 + 2^31, 501 + 2^31, 2^31].
+ */
+export function validatePath(value: unknown, field = "path"): CircuitPath {
+  if (!Array.isArray(value)) {
+    throw new InvalidInputError(field, "expected an array");
+  }
+  if (value.length === 0 || value.length > MAX_PATH_DEPTH) {
+    throw new InvalidInputError(
+      field,
+      `expected 1 to ${MAX_PATH_DEPTH} indices, got ${value.length}`
+    );
+  }
+  value.forEach((x, i) => {
+    if (typeof x !== "number" || !Number.isInteger(x)) {
+      throw new InvalidInputError(`${field}[${i}]`, "expected an integer");
+    }
+    if (x < 0 || x > MAX_U32) {
+      throw new InvalidInputError(
+        `${field}[${i}]`,
+        `must be in [0, 2^32), got ${x}`
+      );
+    }
+  });
+  return value as CircuitPath;
+}
+
+/**
+ * Validates a list of pubkeys and their paths, which must have equal length.
+ * Pubkeys may be given in any PubkeyInput form and are returned as limbs.
+ */
+export function validateStatement(
+  pubkeys: PubkeyInput[],
+  paths: unknown[]
+): { pubkeys: PubkeyLimbs[]; paths: CircuitPath[] } {
+  if (pubkeys.length !== paths.length) {
+    throw new InvalidInputError(
+      "paths",
+      `got ${pubkeys.length} pubkeys but ${paths.length} paths`
+    );
+  }
+  return {
+    pubkeys: pubkeys.map((p, i) =>
+      validatePubkey(toPubkeyLimbs(p), `pubkeys[${i}]`)
+    ),
+    paths: paths.map((p, i) => validatePath(p, `paths[${i}]`)),
+  };
+}
+
+/**
+ * Parses a path string such as "m/44'/501'/0'/0'" or "m/501'/0'/0/0" into a
+ * circuit path. Components ending in ' (or h) are hardened.
+ */
+export function parseCircuitPath(path: string, field = "path"): CircuitPath {
+  if (typeof path !== "string" || !path.startsWith("m/")) {
+    throw new InvalidInputError(field, 'expected a path starting with "m/"');
+  }
+
+  const indices = path
+    .slice(2)
+    .split("/")
+    .map((part, i) => {
+      const match = /^(\d+)(['h]?)$/.exec(part);
+      if (!match) {
+        throw new InvalidInputError(
+          `${field}[${i}]`,
+          `bad path component "${part}"`
+        );
+      }
+      const index = Number(match[1]);
+      if (index >= HARDENED_OFFSET) {
+        throw new InvalidInputError(
+          `${field}[${i}]`,
+          `must be below 2^31, got ${match[1]}`
+        );
+      }
+      return match[2] ? index + HARDENED_OFFSET : index;
+    });
+
+  return validatePath(indices, field);
+}
+
+/**
+ * Formats a circuit path as a string, e.g. "m/44'/501'/0'/0'"
+ */
+export function formatCircuitPath(path: CircuitPath): string {
+  const parts = path.map((x) =>
+    x >= HARDENED_OFFSET ? `${x - HARDENED_OFFSET}'` : `${x}`
+  );
+  return ["m", ...parts].join("/");
+}
+
+/**
+ * Validates public signals: decimal strings below the BN254 field order.
+ * If `expectedLength` is given (the vkey's nPublic), the count must match.
+ */
+export function validatePublicSignals(
+  value: unknown,
+  field = "publicSignals",
+  expectedLength?: number
+): PublicSignals {
+  if (!Array.isArray(value)) {
+    throw new MalformedProofError(field, "expected an array");
+  }
+  if (expectedLength !== undefined) {
+    checkArray(field, value, expectedLength, MalformedProofError);
+  }
+  value.forEach((x, i) => checkFieldString(`${field}[${i}]`, x));
+  return value as PublicSignals;
+}
+
+/**
+ * Validates the shape of a snarkjs Groth16 proof
+ */
+export function validateProof(value: unknown, field = "proof"): Groth16Proof {
+  if (typeof value !== "object" || value === null) {
+    throw new MalformedProofError(field, "expected an object");
+  }
+  const proof = value as Record<string, unknown>;
+
+  if (proof.protocol !== "groth16") {
+    throw new MalformedProofError(
+      `${field}.protocol`,
+      `expected "groth16", got ${JSON.stringify(proof.protocol)}`
+    );
+  }
+
+  for (const key of ["pi_a", "pi_c"]) {
+    checkArray(`${field}.${key}`, proof[key], 3, MalformedProofError);
+    (proof[key] as unknown[]).forEach((x, i) =>
+      checkDecimalString(`${field}.${key}[${i}]`, x)
+    );
+  }
+
+  checkArray(`${field}.pi_b`, proof.pi_b, 3, MalformedProofError);
+  (proof.pi_b as unknown[]).forEach((pair, i) => {
+    checkArray(`${field}.pi_b[${i}]`, pair, 2, MalformedProofError);
+    (pair as unknown[]).forEach((x, j) =>
+      checkDecimalString(`${field}.pi_b[${i}][${j}]`, x)
+    );
+  });
+
+  return value as Groth16Proof;
+}
+
+/**
+ * Validates the parts of a snarkjs Groth16 verification key that tie it to a
+ * circuit: the protocol and nPublic, with one IC point per public signal
+ * plus one
+ */
+export function validateVerificationKey(
+  value: unknown,
+  field = "vkey"
+): Groth16VerificationKey {
+  if (typeof value !== "object" || value === null) {
+    throw new MalformedProofError(field, "expected an object");
+  }
+  const vkey = value as Record<string, unknown>;
+
+  if (vkey.protocol !== "groth16") {
+    throw new MalformedProofError(
+      `${field}.protocol`,
+      `expected "groth16", got ${JSON.stringify(vkey.protocol)}`
+    );
+  }
+  if (!Number.isInteger(vkey.nPublic) || (vkey.nPublic as number) < 0) {
+    throw new MalformedProofError(
+      `${field}.nPublic`,
+      "expected a non-negative integer"
+    );
+  }
+  checkArray(
+    `${field}.IC`,
+    vkey.IC,
+    (vkey.nPublic as number) + 1,
+    MalformedProofError
+  );
+
+  return value as Groth16VerificationKey;
+}
+
+function checkDecimalString(field: string, value: unknown) {
+  if (typeof value !== "string" || !DECIMAL.test(value)) {
+    throw new MalformedProofError(field, "expected a decimal string");
+  }
+}
+
+function checkFieldString(field: string, value: unknown) {
+  checkDecimalString(field, value);
+  if (BigInt(value as string) >= BN254_FIELD_ORDER) {
+    throw new MalformedProofError(field, "exceeds the BN254 field");
+  }
+}
@@ -0,0 +1,116 @@
+import { InvalidInputError } from "./errors";
+import { HARDENED_OFFSET } from "./slip10";
+import { CircuitPath } from "./types";
+import { parseCircuitPath } from "./validation";
+
+/**
+ * How a wallet lays out its Solana accounts. `template` is a path string in
+ * which "{account}" stands for the account number and the optional
+ * "{change}" for the change index, e.g. "m/44'/501'/{account}'/{change}'".
+ */
+export interface WalletProfile {
+  name: string;
+  description: string;
+  template: string;
+}
+
+/**
+ * Known wallet derivation schemes
+ */
+export const WALLET_PROFILES: WalletProfile[] = [
+  {
+    name: "bip44-change",
+    description: "Phantom, Solflare and solana-keygen: m/44'/501'/n'/0'",
+    template: "m/44'/501'/{account}'/{change}'",
+  },
+  {
+    name: "bip44",
+    description: "Phantom legacy accounts: m/44'/501'/n'",
+    template: "m/44'/501'/{account}'",
+  },
+  {
+    name: "sollet",
+    description: "Deprecated Sollet wallet: m/501'/n'/0/0",
+    template: "m/501'/{account}'/0/0",
+  },
+];
+
+/**
+ * Looks up a wallet profile by name
+ */
+export function getWalletProfile(name: string): WalletProfile {
+  const profile = WALLET_PROFILES.find((p) => p.name === name);
+  if (!profile) {
+    throw new InvalidInputError(
+      "profile",
+      `unknown wallet profile ${name} (known: ${WALLET_PROFILES.map(
+        (p) => p.name
+      ).join(", ")})`
+    );
+  }
+  return profile;
+}
+
+/**
+ * Adds a wallet profile, or replaces the one with the same name
+ */
+export function registerWalletProfile(profile: WalletProfile): void {
+  // Fail now rather than on first use if the template is not a valid path
+  profilePath(profile, 0);
+
+  const index = WALLET_PROFILES.findIndex((p) => p.name === profile.name);
+  if (index === -1) {
+    WALLET_PROFILES.push(profile);
+  } else {
+    WALLET_PROFILES[index] = profile;
+  }
+}
+
+/**
+ * Whether a profile has a change level that can vary
+ */
+export function hasChangeLevel(profile: WalletProfile): boolean {
+  return profile.template.includes("{change}");
+}
+
+/**
+ * Path of account number `account` in a wallet profile, e.g.
+ * profilePath("bip44-change", 2) is m/44'/501'/2'/0'. `change` must be 0 for
+ * profiles without a change level.
+ */
+export function profilePath(
+  profile: string | WalletProfile,
+  account: number,
+  change = 0
+): CircuitPath {
+  const resolved =
+    typeof profile === "string" ? getWalletProfile(profile) : profile;
+  const { name, template } = resolved;
+
+  checkIndex("account", account);
+  checkIndex("change", change);
+  if (change !== 0 && !hasChangeLevel(resolved)) {
+    throw new InvalidInputError("change", `${name} has no change level`);
+  }
+  if (!template.includes("{account}")) {
+    throw new InvalidInputError(
+      "profile",
+      `template of ${name} has no {account} placeholder`
+    );
+  }
+  return parseCircuitPath(
+    template
+      .replace("{account}", String(account))
+      .replace("{change}", String(change)),
+    `profile ${name}`
+  );
+}
+
+function checkIndex(field: string, value: number) {
+  if (!Number.isInteger(value) || value < 0 || value >= HARDENED_OFFSET) {
+    throw new InvalidInputError(
+      field,
+      `must be an integer in [0, 2^31), got ${value}`
+    );
+  }
+}
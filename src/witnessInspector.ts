@@ -0,0 +1,195 @@
+import { readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import * as snarkjs from "snarkjs";
+import {
+  CircuitEntry,
+  DEFAULT_ARTIFACT_ROOT,
+  getCircuitForKeyCount,
+} from "./circuitRegistry";
+import { ArtifactNotFoundError, InvalidInputError } from "./errors";
+import { Witness } from "./types";
+import { BN254_FIELD_ORDER } from "./validation";
+
+/*
+  Named access to witnesses, for debugging circuits.
+
+  circom lays out a witness as the constant 1, then main's outputs, then its
+  public and private inputs, then every other signal it kept. The .sym file
+  written with --sym maps each signal name to its witness index, or to -1
+  when the optimizer replaced it by a linear combination of other signals.
+*/
+
+/**
+ * Witness index of main.valid: the first output of every circuit (see
+ * PUBLIC_SIGNAL_LAYOUT), placed right after the constant 1 signal
+ */
+export const VALID_SIGNAL_INDEX = 1;
+
+const FIELD_BYTES = 32;
+
+/**
+ * Resolves signal names to witness values using a circuit's .sym file
+ */
+export class WitnessInspector {
+  constructor(private readonly symbols: Map<string, number>) {}
+
+  /**
+   * Parses the contents of a .sym file: one "signal,witness,component,name"
+   * line per signal
+   */
+  static parse(text: string): WitnessInspector {
+    const symbols = new Map<string, number>();
+    for (const line of text.split("\n")) {
+      const parts = line.split(",");
+      if (parts.length < 4) continue;
+      symbols.set(parts.slice(3).join(","), Number(parts[1]));
+    }
+    return new WitnessInspector(symbols);
+  }
+
+  /**
+   * Loads the .sym file of a registered circuit, by default 2pubkeys.sym
+   */
+  static load(
+    circuit: CircuitEntry = getCircuitForKeyCount(2),
+    root: string = DEFAULT_ARTIFACT_ROOT
+  ): WitnessInspector {
+    const file = join(root, circuit.symFile);
+    let text: string;
+    try {
+      text = readFileSync(file, "utf8");
+    } catch {
+      throw new ArtifactNotFoundError(file);
+    }
+    return WitnessInspector.parse(text);
+  }
+
+  /**
+   * All signal names in the file, including those the optimizer removed
+   */
+  get signalNames(): string[] {
+    return [...this.symbols.keys()];
+  }
+
+  /**
+   * Witness index of a signal, or -1 if the optimizer removed it
+   */
+  indexOf(name: string): number {
+    const index = this.symbols.get(name);
+    if (index === undefined) {
+      throw new InvalidInputError("signal", `no signal named ${name}`);
+    }
+    return index;
+  }
+
+  /**
+   * Value of a signal, e.g. get(witness, "main.derive1.private_key[0]")
+   */
+  get(witness: Witness, name: string): bigint {
+    const index = this.indexOf(name);
+    if (index < 0) {
+      throw new InvalidInputError(
+        "signal",
+        `${name} was optimized away; compile with --O0 to keep it`
+      );
+    }
+    if (index >= witness.length) {
+      throw new InvalidInputError(
+        "witness",
+        `has ${witness.length} values, ${name} is at ${index}; is it from another circuit?`
+      );
+    }
+    return witness[index];
+  }
+
+  /**
+   * Values of every signal whose name starts with `prefix`, e.g.
+   * "main.derive1."; removed signals map to undefined
+   */
+  inspect(witness: Witness, prefix = ""): Record<string, bigint | undefined> {
+    const values: Record<string, bigint | undefined> = {};
+    for (const [name, index] of this.symbols) {
+      if (!name.startsWith(prefix)) continue;
+      values[name] = index < 0 ? undefined : this.get(witness, name);
+    }
+    return values;
+  }
+
+  /**
+   * Named witness as JSON-friendly decimal strings, skipping removed signals
+   */
+  toJson(witness: Witness, prefix = ""): Record<string, string> {
+    const json: Record<string, string> = {};
+    for (const [name, value] of Object.entries(this.inspect(witness, prefix))) {
+      if (value !== undefined) json[name] = value.toString();
+    }
+    return json;
+  }
+
+  /**
+   * Writes the named witness as JSON
+   */
+  writeJson(witness: Witness, file: string, prefix = "") {
+    writeFileSync(file, JSON.stringify(this.toJson(witness, prefix), null, 1));
+  }
+}
+
+/**
+ * Writes a witness in the binary .wtns format read by snarkjs (e.g.
+ * `snarkjs groth16 prove circuit.zkey witness.wtns` or `snarkjs wtns check`)
+ */
+export function writeWtns(witness: Witness, file: string) {
+  const header = Buffer.alloc(4 + FIELD_BYTES + 4);
+  header.writeUInt32LE(FIELD_BYTES, 0);
+  writeField(header, 4, BN254_FIELD_ORDER);
+  header.writeUInt32LE(witness.length, 4 + FIELD_BYTES);
+
+  const values = Buffer.alloc(witness.length * FIELD_BYTES);
+  witness.forEach((x, i) => writeField(values, i * FIELD_BYTES, x));
+
+  writeFileSync(
+    file,
+    Buffer.concat([
+      Buffer.from("wtns"),
+      u32(2), // version
+      u32(2), // sections
+      sectionHeader(1, header.length),
+      header,
+      sectionHeader(2, values.length),
+      values,
+    ])
+  );
+}
+
+/**
+ * Reads a .wtns file, e.g. one written by the circom-generated
+ * generate_witness.js
+ */
+export async function readWtns(file: string): Promise<Witness> {
+  const witness = (await snarkjs.wtns.exportJson(file)) as bigint[];
+  return witness.map((x) => BigInt(x));
+}
+
+function u32(value: number): Buffer {
+  const buf = Buffer.alloc(4);
+  buf.writeUInt32LE(value);
+  return buf;
+}
+
+function sectionHeader(type: number, size: number): Buffer {
+  const buf = Buffer.alloc(12);
+  buf.writeUInt32LE(type, 0);
+  buf.writeBigUInt64LE(BigInt(size), 4);
+  return buf;
+}
+
+/**
+ * Writes a field element as 32 little-endian bytes
+ */
+function writeField(buf: Buffer, offset: number, value: bigint) {
+  let x = value;
+  for (let i = 0; i < FIELD_BYTES; i++) {
+    buf[offset + i] = Number(x & 0xffn);
+    x >>= 8n;
+  }
+}
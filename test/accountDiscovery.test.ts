@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { discoverAccounts } from "../src/accountDiscovery";
+import { derivePublicKey, stringToSeed } from "../src/keyDerivation";
+import { PubkeyLimbs } from "../src/types";
+import { profilePath } from "../src/walletProfiles";
+
+const seed = stringToSeed("test-seed-for-account-discovery-0123456789abcd");
+
+function pubkeyAt(
+  profile: string,
+  account: number,
+  change = 0
+): Promise<PubkeyLimbs> {
+  return derivePublicKey(seed, profilePath(profile, account, change));
+}
+
+describe("discoverAccounts", () => {
+  test("finds targets across profiles, in target order", async () => {
+    const targets = [
+      await pubkeyAt("bip44", 1),
+      await pubkeyAt("bip44-change", 3, 1),
+    ];
+    const result = await discoverAccounts(seed, [...targets, targets[0]], {
+      profiles: ["bip44-change", "bip44"],
+    });
+
+    assert.deepEqual(
+      result.found.map(({ target, profile, account, change }) => [
+        target,
+        profile,
+        account,
+        change,
+      ]),
+      [
+        [0, "bip44", 1, 0],
+        [1, "bip44-change", 3, 1],
+        [2, "bip44", 1, 0],
+      ]
+    );
+    assert.deepEqual(result.missing, []);
+    assert.deepEqual(result.found[1].pubkey, targets[1]);
+  });
+
+  test("stops once every target is found", async () => {
+    const result = await discoverAccounts(seed, [await pubkeyAt("bip44", 1)], {
+      profiles: ["bip44", "sollet"],
+    });
+    // Accounts 0 and 1 of the first profile, nothing of the second
+    assert.equal(result.scanned, 2);
+  });
+
+  test("gives up on a profile after gapLimit accounts without a match", async () => {
+    const target = await pubkeyAt("bip44", 5);
+
+    const tooShort = await discoverAccounts(seed, [target], {
+      profiles: ["bip44"],
+      gapLimit: 5,
+    });
+    assert.deepEqual(tooShort.missing, [0]);
+    assert.equal(tooShort.scanned, 5);
+
+    const enough = await discoverAccounts(seed, [target], {
+      profiles: ["bip44"],
+      gapLimit: 6,
+    });
+    assert.equal(enough.found[0].account, 5);
+
+    // A match resets the gap
+    const spaced = await discoverAccounts(
+      seed,
+      [await pubkeyAt("bip44", 2), await pubkeyAt("bip44", 6)],
+      { profiles: ["bip44"], gapLimit: 4 }
+    );
+    assert.deepEqual(spaced.missing, []);
+    assert.equal(spaced.scanned, 7);
+  });
+
+  test("scans no further than maxAccount", async () => {
+    const result = await discoverAccounts(seed, [await pubkeyAt("bip44", 3)], {
+      profiles: ["bip44"],
+      maxAccount: 2,
+    });
+    assert.deepEqual(result.missing, [0]);
+    assert.equal(result.scanned, 3);
+  });
+
+  test("skips profiles SLIP-0010 cannot derive", async () => {
+    const result = await discoverAccounts(seed, [await pubkeyAt("bip44", 0)], {
+      profiles: ["sollet", "bip44"],
+      maxAccount: 1,
+      scheme: "slip10-ed25519",
+    });
+    assert.deepEqual(result.skippedProfiles, ["sollet"]);
+    assert.equal(result.scanned, 2);
+  });
+});
@@ -0,0 +1,109 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { before, describe, test } from "node:test";
+import {
+  applyBeacon,
+  contribute,
+  contributePowersOfTau,
+  exportVerificationKey,
+  newPowersOfTau,
+  preparePowersOfTau,
+  readContributionHashes,
+  readTranscript,
+  startCeremony,
+  verifyCeremony,
+  verifyPowersOfTau,
+} from "../src/ceremony";
+import { compileSource } from "./circom";
+
+const MULTIPLIER = `pragma circom 2.0.0;
+template Multiplier() {
+  signal input a;
+  signal input b;
+  signal output c;
+  c <== a * b;
+}
+component main = Multiplier();
+`;
+
+// Hex of a made-up beacon, e.g. a block hash
+const BEACON =
+  "0102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f20";
+
+describe("ceremony", () => {
+  const dir = mkdtempSync(join(tmpdir(), "prove2pubkeys-ceremony-"));
+  const file = (name: string) => join(dir, name);
+  let r1cs: string;
+
+  before(async () => {
+    r1cs = compileSource("multiplier", MULTIPLIER).r1cs;
+
+    await newPowersOfTau(4, file("pot_0000.ptau"));
+    await contributePowersOfTau(
+      file("pot_0000.ptau"),
+      file("pot_0001.ptau"),
+      "phase 1",
+      "test entropy"
+    );
+    await preparePowersOfTau(file("pot_0001.ptau"), file("pot.ptau"), BEACON);
+  });
+
+  test("phase 1 verifies", async () => {
+    assert.equal(await verifyPowersOfTau(file("pot_0001.ptau")), true);
+  });
+
+  test("init, contribute, beacon, verify, export", async () => {
+    const transcriptFile = file("transcript.json");
+    const started = await startCeremony(
+      r1cs,
+      file("pot.ptau"),
+      file("c_0000.zkey"),
+      transcriptFile
+    );
+    const first = await contribute(
+      transcriptFile,
+      file("c_0001.zkey"),
+      "alice",
+      "alice's entropy"
+    );
+    const beacon = await applyBeacon(
+      transcriptFile,
+      file("c_final.zkey"),
+      BEACON
+    );
+    assert.deepEqual(
+      readTranscript(transcriptFile).contributions.map((c) => c.type),
+      ["contribution", "beacon"]
+    );
+
+    // The hashes read back from the zkey are the ones snarkjs returned
+    assert.deepEqual(await readContributionHashes(file("c_final.zkey")), {
+      circuitHash: started.circuitHash,
+      contributions: [
+        { name: "alice", hash: first.hash },
+        { name: "Final beacon", hash: beacon.hash },
+      ],
+    });
+
+    const verification = await verifyCeremony(transcriptFile);
+    assert.equal(verification.valid, true, verification.message);
+
+    const vkey = await exportVerificationKey(transcriptFile, file("vkey.json"));
+    assert.equal(vkey.nPublic, 1);
+    assert.deepEqual(JSON.parse(readFileSync(file("vkey.json"), "utf8")), vkey);
+  });
+
+  test("rejects a transcript whose hashes differ from the zkey", async () => {
+    const transcriptFile = file("transcript.json");
+    const transcript = readTranscript(transcriptFile);
+    transcript.contributions[0].hash = "0".repeat(128);
+    const tampered = file("tampered.json");
+    writeFileSync(tampered, JSON.stringify(transcript));
+
+    const verification = await verifyCeremony(tampered);
+    assert.equal(verification.valid, false);
+    assert.match(verification.message ?? "", /contribution #1/);
+  });
+});
@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { computeChallenge, InMemoryChallengeStore } from "../src/challenge";
+import { ChallengeError, InvalidInputError } from "../src/errors";
+import { BN254_FIELD_ORDER } from "../src/validation";
+
+const TTL_MS = 60_000;
+
+/**
+ * Store on a clock the test moves by hand
+ */
+function storeWithClock() {
+  const clock = { now: 1_700_000_000_000 };
+  const store = new InMemoryChallengeStore({
+    ttlMs: TTL_MS,
+    now: () => clock.now,
+  });
+  return { store, clock };
+}
+
+function rejectsWith(reason: ChallengeError["reason"]) {
+  return (error: unknown) =>
+    error instanceof ChallengeError && error.reason === reason;
+}
+
+describe("InMemoryChallengeStore", () => {
+  test("issues fresh challenges", async () => {
+    const { store, clock } = storeWithClock();
+    const challenge = await store.issue("verifier.example");
+
+    assert.equal(challenge.verifierId, "verifier.example");
+    assert.equal(challenge.expiresAt, clock.now + TTL_MS);
+    assert.equal(
+      challenge.value,
+      await computeChallenge(
+        challenge.verifierId,
+        challenge.nonce,
+        challenge.expiresAt
+      )
+    );
+    assert.ok(challenge.value > 0n && challenge.value < BN254_FIELD_ORDER);
+
+    const next = await store.issue("verifier.example");
+    assert.notEqual(next.nonce, challenge.nonce);
+    assert.notEqual(next.value, challenge.value);
+  });
+
+  test("consumes a challenge once", async () => {
+    const { store } = storeWithClock();
+    const challenge = await store.issue("verifier.example");
+
+    assert.deepEqual(await store.consume(challenge.value), challenge);
+    await assert.rejects(store.consume(challenge.value), rejectsWith("reused"));
+    await assert.rejects(
+      store.consume(challenge.value + 1n),
+      rejectsWith("unknown")
+    );
+  });
+
+  test("refuses expired challenges, then forgets them", async () => {
+    const { store, clock } = storeWithClock();
+    const challenge = await store.issue("verifier.example");
+
+    clock.now += TTL_MS - 1;
+    const fresh = await store.issue("verifier.example");
+    clock.now += 1;
+    await assert.rejects(
+      store.consume(challenge.value),
+      rejectsWith("expired")
+    );
+
+    // Issuing drops expired challenges
+    await store.issue("verifier.example");
+    await assert.rejects(
+      store.consume(challenge.value),
+      rejectsWith("unknown")
+    );
+    assert.deepEqual(await store.consume(fresh.value), fresh);
+  });
+});
+
+describe("computeChallenge", () => {
+  test("rejects parameters the circuit cannot take", async () => {
+    const rejectsField = (field: string) => (error: unknown) =>
+      error instanceof InvalidInputError && error.field === field;
+
+    await assert.rejects(
+      computeChallenge("", 1n, 0),
+      rejectsField("verifierId")
+    );
+    await assert.rejects(
+      computeChallenge("verifier.example", 1n << 248n, 0),
+      rejectsField("nonce")
+    );
+    await assert.rejects(
+      computeChallenge("verifier.example", 1n, -1),
+      rejectsField("expiresAt")
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import { execFileSync } from "node:child_process";
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { basename, join, resolve } from "node:path";
+import * as snarkjs from "snarkjs";
+import { DEFAULT_ARTIFACT_ROOT } from "../src/circuitRegistry";
+import { WitnessInspector } from "../src/witnessInspector";
+
+/*
+  Compiles circuits with circom2 (circom built to wasm, a dev dependency) for
+  tests that need circuits the repository does not ship built: the larger
+  link circuits and small test mains around single templates. Output goes to
+  a temporary directory and is reused within one test process.
+*/
+
+export interface CompiledCircuit {
+  wasm: string;
+  r1cs: string;
+  sym: string;
+}
+
+const compiled = new Map<string, CompiledCircuit>();
+let outRoot: string | undefined;
+
+function outputRoot(): string {
+  outRoot ??= mkdtempSync(join(tmpdir(), "prove2pubkeys-test-"));
+  return outRoot;
+}
+
+/**
+ * Compiles `file` (relative to the repository root, or absolute) once.
+ * Includes resolve against the repository root.
+ */
+export function compileCircuit(file: string): CompiledCircuit {
+  const cached = compiled.get(file);
+  if (cached) {
+    return cached;
+  }
+
+  const name = basename(file, ".circom");
+  const dir = join(outputRoot(), `${compiled.size}-${name}`);
+  mkdirSync(dir);
+  execFileSync(
+    process.execPath,
+    [
+      require.resolve("circom2/cli.js"),
+      resolve(DEFAULT_ARTIFACT_ROOT, file),
+      "--r1cs",
+      "--wasm",
+      "--sym",
+      "-l",
+      DEFAULT_ARTIFACT_ROOT,
+      "-o",
+      dir,
+    ],
+    { cwd: DEFAULT_ARTIFACT_ROOT, stdio: "pipe" }
+  );
+
+  const result = {
+    wasm: join(dir, `${name}_js`, `${name}.wasm`),
+    r1cs: join(dir, `${name}.r1cs`),
+    sym: join(dir, `${name}.sym`),
+  };
+  compiled.set(file, result);
+  return result;
+}
+
+/**
+ * Compiles a test main given as source, e.g. one instantiating a single
+ * template from merkle.circom
+ */
+export function compileSource(name: string, source: string): CompiledCircuit {
+  const file = join(outputRoot(), `${name}.circom`);
+  writeFileSync(file, source);
+  return compileCircuit(file);
+}
+
+/**
+ * Computes the witness of a compiled circuit and returns a lookup of its
+ * signals by name, e.g. `signal("main.root")`. A failing assertion rejects.
+ */
+export async function computeWitness(
+  circuit: CompiledCircuit,
+  input: snarkjs.CircuitSignals
+): Promise<(name: string) => bigint> {
+  const wtns: snarkjs.MemFile = { type: "mem" };
+  await snarkjs.wtns.calculate(input, circuit.wasm, wtns);
+  const witness = (await snarkjs.wtns.exportJson(wtns)).map(BigInt);
+  const inspector = WitnessInspector.parse(readFileSync(circuit.sym, "utf8"));
+  return (name: string) => inspector.get(witness, name);
+}
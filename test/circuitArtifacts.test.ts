@@ -0,0 +1,53 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, test } from "node:test";
+import { CircuitArtifacts } from "../src/circuitArtifacts";
+import {
+  DEFAULT_ARTIFACT_ROOT,
+  getCircuitForKeyCount,
+} from "../src/circuitRegistry";
+import { ArtifactMismatchError } from "../src/errors";
+
+function sources(keyCount: number) {
+  const circuit = getCircuitForKeyCount(keyCount);
+  return {
+    wasm: join(DEFAULT_ARTIFACT_ROOT, circuit.wasmFile),
+    zkey: join(DEFAULT_ARTIFACT_ROOT, circuit.zkeyFile),
+    vkey: join(DEFAULT_ARTIFACT_ROOT, circuit.vkeyFile),
+  };
+}
+
+describe("CircuitArtifacts.validate", () => {
+  test("accepts the shipped artifacts of each circuit", async () => {
+    for (const keyCount of [2, 4]) {
+      await new CircuitArtifacts(sources(keyCount)).validate();
+    }
+  });
+
+  test("rejects a wasm from another circuit", async () => {
+    const artifacts = new CircuitArtifacts({
+      ...sources(2),
+      wasm: sources(4).wasm,
+    });
+    await assert.rejects(
+      artifacts.validate(),
+      (error: unknown) =>
+        error instanceof ArtifactMismatchError &&
+        /Wasm witness has \d+ signals but zkey expects \d+/.test(error.message)
+    );
+  });
+
+  test("rejects a verification key that is not a Groth16 key", async () => {
+    const vkey = JSON.parse(readFileSync(sources(2).vkey, "utf8"));
+    const artifacts = new CircuitArtifacts({
+      ...sources(2),
+      vkey: { ...vkey, IC: vkey.IC.slice(1) },
+    });
+    await assert.rejects(
+      artifacts.getVerificationKey(),
+      (error: unknown) =>
+        error instanceof ArtifactMismatchError && /vkey\.IC/.test(error.message)
+    );
+  });
+});
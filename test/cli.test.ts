@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, test } from "node:test";
+import { EXIT_ERROR, EXIT_OK, run } from "../src/cli";
+import { twoKeyProof } from "./proofs";
+
+async function writeProofFiles(publicSignals?: string[]) {
+  const fixture = await twoKeyProof();
+  const dir = mkdtempSync(join(tmpdir(), "prove2pubkeys-cli-"));
+  const proof = join(dir, "proof.json");
+  const pub = join(dir, "public.json");
+  writeFileSync(proof, JSON.stringify(fixture.proof));
+  writeFileSync(pub, JSON.stringify(publicSignals ?? fixture.publicSignals));
+  return { proof, pub };
+}
+
+describe("cli verify", () => {
+  test("accepts a proof of the shipped circuit", async () => {
+    const { proof, pub } = await writeProofFiles();
+    assert.equal(
+      await run(["verify", "--proof", proof, "--public", pub]),
+      EXIT_OK
+    );
+  });
+
+  test("reports public signals that do not fit the vkey", async () => {
+    const { publicSignals } = await twoKeyProof();
+    const { proof, pub } = await writeProofFiles(publicSignals.slice(0, 7));
+    const errors: unknown[][] = [];
+    const consoleError = console.error;
+    console.error = (...args: unknown[]) => errors.push(args);
+    try {
+      assert.equal(
+        await run(["verify", "--proof", proof, "--public", pub]),
+        EXIT_ERROR
+      );
+    } finally {
+      console.error = consoleError;
+    }
+    assert.match(
+      errors.flat().join(" "),
+      /verification_key\.json is for a circuit with 25 public signals, but .* has 7/
+    );
+  });
+});
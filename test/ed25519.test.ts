@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { randomBytes } from "node:crypto";
+import { describe, test } from "node:test";
+import { ed25519 } from "@noble/curves/ed25519";
+import { bytesToLimbs } from "../src/keyDerivation";
+import { compileSource, computeWitness } from "./circom";
+
+/*
+  Differential tests of the GF(2^255 - 19) and Ed25519 templates in
+  ed25519.circom against @noble/curves. Their witnesses come from `<--`
+  hints, so these check that the hints satisfy the constraints and that the
+  constrained results are the right ones.
+*/
+
+const P = ed25519.CURVE.Fp.ORDER;
+const D = ed25519.CURVE.d;
+const LIMB_BITS = 85n;
+const LIMB_MASK = (1n << LIMB_BITS) - 1n;
+
+function mod(x: bigint): bigint {
+  const r = x % P;
+  return r < 0n ? r + P : r;
+}
+
+function random256(): bigint {
+  return BigInt("0x" + randomBytes(32).toString("hex"));
+}
+
+function randomPoint() {
+  const scalar = random256() % ed25519.CURVE.n;
+  return ed25519.ExtendedPoint.BASE.multiply(scalar || 1n);
+}
+
+function toLimbs(x: bigint): bigint[] {
+  return [0n, 1n, 2n].map((i) => (x >> (LIMB_BITS * i)) & LIMB_MASK);
+}
+
+function readLimbs(signal: (name: string) => bigint, name: string): bigint {
+  return [2, 1, 0].reduce(
+    (x, i) => (x << LIMB_BITS) + signal(`${name}[${i}]`),
+    0n
+  );
+}
+
+function main(template: string): string {
+  return `pragma circom 2.0.0;
+include "ed25519.circom";
+component main = ${template};
+`;
+}
+
+/**
+ * A point in extended coordinates with a random Z, as the circuit carries
+ * them between additions
+ */
+function extended(point: typeof ed25519.ExtendedPoint.BASE) {
+  const { x, y } = point.toAffine();
+  const z = mod(random256()) || 1n;
+  return { X: mod(x * z), Y: mod(y * z), Z: z, T: mod(x * y * z) };
+}
+
+describe("ed25519.circom", () => {
+  test("FpReduce(5, 178) reduces mod p", async () => {
+    const circuit = compileSource("fp_reduce", main("FpReduce(5, 178)"));
+    const max = (1n << 178n) - 1n;
+    const cases = [
+      [0n, 0n, 0n, 0n, 0n],
+      [P & LIMB_MASK, (P >> 85n) & LIMB_MASK, P >> 170n, 0n, 0n], // p
+      [max, max, max, max, max],
+      ...Array.from({ length: 5 }, () =>
+        Array.from({ length: 5 }, () => random256() & max)
+      ),
+    ];
+
+    for (const limbs of cases) {
+      const value = limbs.reduce(
+        (sum, limb, k) => sum + (limb << (LIMB_BITS * BigInt(k))),
+        0n
+      );
+      const signal = await computeWitness(circuit, { in: limbs });
+      assert.equal(readLimbs(signal, "main.out"), mod(value));
+    }
+  });
+
+  test("FpMul multiplies mod p", async () => {
+    const circuit = compileSource("fp_mul", main("FpMul()"));
+    for (let i = 0; i < 5; i++) {
+      // Limbs may be above 85 bits: here b is the limbwise sum of 4 elements
+      const a = mod(random256());
+      const terms = Array.from({ length: 4 }, () => random256() >> 1n);
+      const b = terms
+        .map(toLimbs)
+        .reduce((sum, limbs) => sum.map((limb, k) => limb + limbs[k]));
+      const signal = await computeWitness(circuit, {
+        a: toLimbs(a),
+        b,
+      });
+      const product = a * terms.reduce((sum, term) => sum + term);
+      assert.equal(readLimbs(signal, "main.out"), mod(product));
+    }
+  });
+
+  test("Ed25519AddAffine adds points", async () => {
+    const circuit = compileSource("ed25519_add", main("Ed25519AddAffine()"));
+    for (let i = 0; i < 3; i++) {
+      const p1 = randomPoint();
+      const p2 = randomPoint();
+      const { X, Y, Z, T } = extended(p1);
+      const { x, y } = p2.toAffine();
+
+      const signal = await computeWitness(circuit, {
+        X1: toLimbs(X),
+        Y1: toLimbs(Y),
+        Z1: toLimbs(Z),
+        T1: toLimbs(T),
+        p2: [mod(y - x), mod(y + x), mod(2n * D * x * y)].map(toLimbs),
+      });
+      const [X3, Y3, Z3] = ["X3", "Y3", "Z3"].map((name) =>
+        readLimbs(signal, `main.${name}`)
+      );
+      const expected = p1.add(p2).toAffine();
+      const zInverse = ed25519.CURVE.Fp.inv(mod(Z3));
+      assert.equal(mod(X3 * zInverse), expected.x);
+      assert.equal(mod(Y3 * zInverse), expected.y);
+    }
+  });
+
+  test("Ed25519Compress encodes as RFC 8032", async () => {
+    const circuit = compileSource(
+      "ed25519_compress",
+      main("Ed25519Compress()")
+    );
+    const points = [
+      ed25519.ExtendedPoint.BASE,
+      ...Array.from({ length: 4 }, () => randomPoint()),
+    ];
+
+    for (const point of points) {
+      const { X, Y, Z } = extended(point);
+      const signal = await computeWitness(circuit, {
+        X: toLimbs(X),
+        Y: toLimbs(Y),
+        Z: toLimbs(Z),
+      });
+      const out = [0, 1, 2, 3].map((m) => signal(`main.out[${m}]`));
+      assert.deepEqual(out, bytesToLimbs(point.toRawBytes()));
+    }
+  });
+});
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, test } from "node:test";
+import * as snarkjs from "snarkjs";
+import { DEFAULT_ARTIFACT_ROOT } from "../src/circuitRegistry";
+import { verifyGroth16, verifyGroth16Batch } from "../src/groth16Verifier";
+import {
+  Groth16Proof,
+  Groth16VerificationKey,
+  PublicSignals,
+} from "../src/types";
+import { twoKeyProof } from "./proofs";
+
+const vkey: Groth16VerificationKey = JSON.parse(
+  readFileSync(join(DEFAULT_ARTIFACT_ROOT, "verification_key.json"), "utf8")
+);
+
+// Each case is checked by both verifiers, which must agree
+const cases: {
+  name: string;
+  expected: boolean;
+  tamper: (p: { proof: Groth16Proof; publicSignals: PublicSignals }) => {
+    proof: Groth16Proof;
+    publicSignals: PublicSignals;
+  };
+}[] = [
+  { name: "valid proof", expected: true, tamper: (p) => p },
+  {
+    name: "tampered proof",
+    expected: false,
+    // pi_c is a valid G1 point, just not the right one for A
+    tamper: ({ proof, publicSignals }) => ({
+      proof: { ...proof, pi_a: proof.pi_c },
+      publicSignals,
+    }),
+  },
+  {
+    name: "tampered public signal",
+    expected: false,
+    tamper: ({ proof, publicSignals }) => ({
+      proof,
+      publicSignals: publicSignals.map((s, i) =>
+        i === 1 ? (BigInt(s) + 1n).toString() : s
+      ),
+    }),
+  },
+  {
+    name: "point off the curve",
+    expected: false,
+    tamper: ({ proof, publicSignals }) => ({
+      proof: {
+        ...proof,
+        pi_a: [proof.pi_a[0], (BigInt(proof.pi_a[1]) + 1n).toString(), "1"],
+      },
+      publicSignals,
+    }),
+  },
+];
+
+describe("verifyGroth16 agrees with snarkjs", () => {
+  for (const { name, expected, tamper } of cases) {
+    test(name, async () => {
+      const { proof, publicSignals } = tamper(await twoKeyProof());
+      assert.equal(
+        await snarkjs.groth16.verify(vkey, publicSignals, proof),
+        expected
+      );
+      assert.equal(verifyGroth16(vkey, publicSignals, proof), expected);
+    });
+  }
+
+  test("batch gives the per-proof verdicts", async () => {
+    const fixture = await twoKeyProof();
+    const items = cases.map(({ tamper }) => tamper(fixture));
+    assert.deepEqual(
+      verifyGroth16Batch(vkey, items),
+      cases.map(({ expected }) => expected)
+    );
+    assert.deepEqual(verifyGroth16Batch(vkey, [fixture, fixture]), [
+      true,
+      true,
+    ]);
+  });
+});
@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { CircuitArtifacts } from "../src/circuitArtifacts";
+import {
+  getCircuitForKeyCount,
+  getCircuitForSignalCount,
+  isCircuitAvailable,
+  registerCircuitArtifacts,
+} from "../src/circuitRegistry";
+import { InvalidInputError } from "../src/errors";
+import { deriveManyPublicKeys, stringToSeed } from "../src/keyDerivation";
+import { generateLinkProof } from "../src/proofGeneration";
+import { verifyManyLinkProof, verifyProof } from "../src/proofVerification";
+import { publicSignalCount } from "../src/publicSignals";
+import { parseCircuitPath } from "../src/validation";
+
+const seed = stringToSeed("test-seed-for-the-shipped-n-key-circuits-012345");
+
+function accountPaths(count: number) {
+  return Array.from({ length: count }, (_, i) =>
+    parseCircuitPath(`m/44'/501'/${i}'/0'`)
+  );
+}
+
+describe("link proofs of more than 2 keys", () => {
+  test("3 keys are proven with the 4-key circuit", async () => {
+    const paths = accountPaths(3);
+    const pubkeys = await deriveManyPublicKeys(seed, paths);
+    const { proof, publicSignals, keyCount } = await generateLinkProof(
+      seed,
+      pubkeys,
+      paths
+    );
+
+    assert.equal(keyCount, 4);
+    assert.equal(publicSignals.length, publicSignalCount(4));
+    assert.equal(
+      (await verifyManyLinkProof(proof, { pubkeys, paths })).valid,
+      true
+    );
+    assert.equal((await verifyProof(proof, publicSignals)).valid, true);
+
+    // The same proof is not about another account
+    const other = await deriveManyPublicKeys(seed, accountPaths(4));
+    const result = await verifyManyLinkProof(proof, {
+      pubkeys: [other[0], other[1], other[3]],
+      paths: [paths[0], paths[1], accountPaths(4)[3]],
+    });
+    assert.equal(!result.valid && result.reason, "proof-rejected");
+  });
+
+  test("8 keys", async () => {
+    const paths = accountPaths(8);
+    const pubkeys = await deriveManyPublicKeys(seed, paths);
+    const { proof, keyCount } = await generateLinkProof(seed, pubkeys, paths);
+
+    assert.equal(keyCount, 8);
+    assert.equal(
+      (await verifyManyLinkProof(proof, { pubkeys, paths })).valid,
+      true
+    );
+  });
+});
+
+describe("circuits without artifacts", () => {
+  test("are refused until their artifacts are registered", () => {
+    const isNotBuilt = (error: unknown) =>
+      error instanceof InvalidInputError &&
+      /2pubkeys_slip10 circuit is not built/.test(error.message);
+
+    assert.throws(
+      () => getCircuitForKeyCount(2, "slip10-ed25519"),
+      (error: unknown) =>
+        isNotBuilt(error) && (error as InvalidInputError).field === "keyCount"
+    );
+    assert.throws(
+      () => getCircuitForSignalCount(publicSignalCount(2), "slip10-ed25519"),
+      isNotBuilt
+    );
+
+    registerCircuitArtifacts(
+      2,
+      new CircuitArtifacts({ wasm: "", zkey: "", vkey: "" }),
+      "slip10-ed25519"
+    );
+    const circuit = getCircuitForKeyCount(2, "slip10-ed25519");
+    assert.equal(isCircuitAvailable(circuit), true);
+  });
+});
@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, mock, test } from "node:test";
+import { inspect } from "node:util";
+import {
+  consoleLogger,
+  log,
+  LogFields,
+  Logger,
+  REDACTED,
+  setLogger,
+  silentLogger,
+} from "../src/logger";
+
+const MNEMONIC =
+  "legal winner thank year wave sausage worth useful legal winner thank yellow";
+const SEED = [0x1234567890abcdefn, 0xfedcba0987654321n];
+const PRIVATE_KEY =
+  "68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3";
+
+/**
+ * Logger recording every call, at every level
+ */
+function recordingLogger(): { logger: Logger; calls: unknown[] } {
+  const calls: unknown[] = [];
+  const record = (message: string, fields?: LogFields) =>
+    calls.push({ message, fields });
+  return {
+    logger: { debug: record, info: record, warn: record, error: record },
+    calls,
+  };
+}
+
+function assertNoSecrets(output: string) {
+  for (const secret of [
+    MNEMONIC,
+    "legal winner",
+    ...SEED.map(String),
+    PRIVATE_KEY,
+  ]) {
+    assert.ok(!output.includes(secret), `output contains ${secret}`);
+  }
+}
+
+describe("log", () => {
+  afterEach(() => setLogger(silentLogger));
+
+  test("redacts secret fields at any depth", () => {
+    const { logger, calls } = recordingLogger();
+    setLogger(logger);
+
+    log.debug("top level", { seed: SEED, mnemonic: MNEMONIC });
+    log.info("nested", {
+      request: { body: { mnemonic: MNEMONIC, passphrase: "TREZOR" } },
+      keys: [{ privateKey: PRIVATE_KEY, path: "m/44'/501'/0'/0'" }],
+    });
+    log.error("failed", { seedBuffer: Buffer.from(PRIVATE_KEY, "hex") });
+
+    assert.deepEqual(calls[0], {
+      message: "top level",
+      fields: { seed: REDACTED, mnemonic: REDACTED },
+    });
+    assert.deepEqual(calls[1], {
+      message: "nested",
+      fields: {
+        request: { body: { mnemonic: REDACTED, passphrase: REDACTED } },
+        keys: [{ privateKey: REDACTED, path: "m/44'/501'/0'/0'" }],
+      },
+    });
+    assert.deepEqual(calls[2], {
+      message: "failed",
+      fields: { seedBuffer: REDACTED },
+    });
+    assertNoSecrets(inspect(calls, { depth: null }));
+  });
+
+  test("consoleLogger never writes a seed or mnemonic", () => {
+    const error = mock.method(console, "error", () => {});
+    try {
+      setLogger(consoleLogger("debug"));
+      log.debug("deriving", { seed: SEED, path: [44, 501] });
+      log.warn("bad request", { body: { mnemonic: MNEMONIC } });
+
+      assert.equal(error.mock.callCount(), 2);
+      assertNoSecrets(
+        inspect(
+          error.mock.calls.map((call) => call.arguments),
+          { depth: null }
+        )
+      );
+    } finally {
+      error.mock.restore();
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { deriveTwoPublicKeys, stringToSeed } from "../src/keyDerivation";
+import {
+  computeMerkleRoot,
+  computePubkeyLeaf,
+  MerkleSet,
+} from "../src/merkleSet";
+import { generateMembershipProof } from "../src/proofGeneration";
+import { verifyMembershipProof } from "../src/proofVerification";
+import { PubkeyLimbs } from "../src/types";
+import { parseCircuitPath } from "../src/validation";
+import { compileSource, computeWitness } from "./circom";
+
+// PubkeyLeaf and MerkleRoot of merkle.circom at a small depth
+const DEPTH = 4;
+const MERKLE_MAIN = `pragma circom 2.0.0;
+include "merkle.circom";
+template MemberRoot(DEPTH) {
+  signal input pubkey[4];
+  signal input siblings[DEPTH];
+  signal input pathIndices[DEPTH];
+  signal output leaf;
+  signal output root;
+
+  component leafHash = PubkeyLeaf();
+  leafHash.pubkey <== pubkey;
+  component merkle = MerkleRoot(DEPTH);
+  merkle.leaf <== leafHash.leaf;
+  merkle.siblings <== siblings;
+  merkle.pathIndices <== pathIndices;
+  leaf <== leafHash.leaf;
+  root <== merkle.root;
+}
+component main = MemberRoot(${DEPTH});
+`;
+
+function pubkeys(count: number): PubkeyLimbs[] {
+  return Array.from({ length: count }, (_, i) =>
+    [1n, 2n, 3n, 4n].map((limb) => limb * 1000n + BigInt(i))
+  );
+}
+
+describe("MerkleSet", () => {
+  test("matches PubkeyLeaf and MerkleRoot in merkle.circom", async () => {
+    const circuit = compileSource("merkle_root", MERKLE_MAIN);
+    // 5 of 16 leaves, so some siblings are empty subtrees
+    const members = pubkeys(5);
+    const set = await MerkleSet.build(members, DEPTH);
+
+    for (const pubkey of members) {
+      const proof = set.proof(pubkey);
+      assert.equal(await computePubkeyLeaf(pubkey), proof.leaf);
+      assert.equal(await computeMerkleRoot(proof), set.root);
+
+      const signal = await computeWitness(circuit, {
+        pubkey: pubkey.map(String),
+        siblings: proof.siblings.map(String),
+        pathIndices: proof.pathIndices.map(String),
+      });
+      assert.equal(signal("main.leaf"), proof.leaf);
+      assert.equal(signal("main.root"), set.root);
+    }
+  });
+
+  test("proves and verifies membership with the shipped circuit", async () => {
+    const seed = stringToSeed(
+      "test-seed-for-the-membership-circuit-0123456789"
+    );
+    const path = parseCircuitPath("m/44'/501'/0'/0'");
+    const memberPath = parseCircuitPath("m/44'/501'/7'/0'");
+    const { pubkey1: pubkey, pubkey2: memberPubkey } =
+      await deriveTwoPublicKeys(seed, path, memberPath);
+    const set = await MerkleSet.build([...pubkeys(3), memberPubkey]);
+
+    const { proof, merkleRoot } = await generateMembershipProof(
+      seed,
+      pubkey,
+      path,
+      memberPubkey,
+      memberPath,
+      set
+    );
+    assert.equal(merkleRoot, set.root);
+
+    const result = await verifyMembershipProof(proof, {
+      pubkey,
+      path,
+      merkleRoot,
+    });
+    assert.equal(result.valid, true);
+
+    const other = await MerkleSet.build(pubkeys(3));
+    const rejected = await verifyMembershipProof(proof, {
+      pubkey,
+      path,
+      merkleRoot: other.root,
+    });
+    assert.equal(rejected.valid, false);
+  });
+});
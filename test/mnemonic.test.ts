@@ -0,0 +1,87 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { InvalidInputError } from "../src/errors";
+import { bytesToLimbs } from "../src/keyDerivation";
+import { mnemonicToSeed, validateMnemonic } from "../src/mnemonic";
+
+// English test vectors from the BIP39 reference implementation
+// (trezor/python-mnemonic), all with the passphrase "TREZOR"
+const VECTORS = [
+  {
+    mnemonic:
+      "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about",
+    seed: "c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04",
+  },
+  {
+    mnemonic:
+      "legal winner thank year wave sausage worth useful legal winner thank yellow",
+    seed: "2e8905819b8723fe2c1d161860e5ee1830318dbf49a83bd451cfb8440c28bd6fa457fe1296106559a3c80937a1c1069be3a3a5bd381ee6260e8d9739fce1f607",
+  },
+  {
+    mnemonic:
+      "letter advice cage absurd amount doctor acoustic avoid letter advice cage above",
+    seed: "d71de856f81a8acc65e6fc851a38d4d7ec216fd0796d0a6827a3ad6ed5511a30fa280f12eb2e47ed2ac03b5c462a0358d18d69fe4f985ec81778c1b370b652a8",
+  },
+  {
+    mnemonic: "zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo zoo wrong",
+    seed: "ac27495480225222079d7be181583751e86f571027b0497b5b5d11218e0a8a13332572917f0f8e5a589620c6f15b11c61dee327651a14c34e18231052e48c069",
+  },
+  {
+    mnemonic:
+      "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon art",
+    seed: "bda85446c68413707090a52022edd26a1c9462295029f2e60cd7c4f2bbd3097170af7a4d73245cafa9c3cca8d561a7c3de6f5d4a10be8ed2a5e608d68f92fcc8",
+  },
+];
+
+function rejects(words: string, message: RegExp) {
+  assert.throws(
+    () => validateMnemonic(words),
+    (error: unknown) =>
+      error instanceof InvalidInputError &&
+      error.field === "mnemonic" &&
+      message.test(error.message)
+  );
+}
+
+describe("mnemonicToSeed", () => {
+  test("matches the BIP39 test vectors", () => {
+    for (const { mnemonic, seed } of VECTORS) {
+      const result = mnemonicToSeed(mnemonic, "TREZOR");
+      assert.equal(result.seedBuffer.toString("hex"), seed, mnemonic);
+      assert.deepEqual(result.seed, bytesToLimbs(result.seedBuffer));
+    }
+  });
+
+  test("takes a word list and extra whitespace", () => {
+    const { mnemonic, seed } = VECTORS[1];
+    const words = mnemonic.split(" ");
+    assert.equal(
+      mnemonicToSeed(words, "TREZOR").seedBuffer.toString("hex"),
+      seed
+    );
+    assert.equal(
+      mnemonicToSeed(`  ${words.join("  \n")} `, "TREZOR").seedBuffer.toString(
+        "hex"
+      ),
+      seed
+    );
+  });
+
+  test("the passphrase changes the seed", () => {
+    const { mnemonic, seed } = VECTORS[0];
+    assert.notEqual(mnemonicToSeed(mnemonic).seedBuffer.toString("hex"), seed);
+  });
+
+  test("rejects a bad checksum", () => {
+    // The last word carries the checksum; "abandon" in place of "about"
+    // keeps the entropy but breaks it
+    const words = VECTORS[0].mnemonic.replace(/about$/, "abandon");
+    rejects(words, /invalid checksum/);
+    assert.throws(() => mnemonicToSeed(words), InvalidInputError);
+  });
+
+  test("rejects unknown words and bad word counts", () => {
+    rejects(VECTORS[1].mnemonic.replace("legal", "legali"), /unknown word/);
+    rejects("abandon abandon about", /got 3/);
+  });
+});
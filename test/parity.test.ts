@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, test } from "node:test";
+import { CircuitArtifacts } from "../src/circuitArtifacts";
+import {
+  CIRCUITS,
+  CircuitEntry,
+  DEFAULT_ARTIFACT_ROOT,
+  registerCircuitArtifacts,
+} from "../src/circuitRegistry";
+import { checkParity, fuzzCases } from "../src/parity";
+import { formatCircuitPath } from "../src/validation";
+import { WitnessInspector } from "../src/witnessInspector";
+import { compileCircuit } from "./circom";
+
+function isBuilt(circuit: CircuitEntry): boolean {
+  return [circuit.wasmFile, circuit.symFile].every((file) =>
+    existsSync(join(DEFAULT_ARTIFACT_ROOT, file))
+  );
+}
+
+/**
+ * The shipped wasm and .sym of a circuit, or ones compiled for the test
+ */
+function loadCircuit(circuit: CircuitEntry): WitnessInspector {
+  if (isBuilt(circuit)) {
+    return WitnessInspector.load(circuit);
+  }
+
+  const { wasm, sym } = compileCircuit(`${circuit.name}.circom`);
+  registerCircuitArtifacts(
+    circuit.keyCount,
+    new CircuitArtifacts({ wasm, zkey: "", vkey: "" }),
+    circuit.scheme
+  );
+  return WitnessInspector.parse(readFileSync(sym, "utf8"));
+}
+
+// The slip10 circuit is too large for circom2, so it is only checked when
+// built natively
+describe("TypeScript/circuit parity", () => {
+  for (const circuit of CIRCUITS) {
+    const skip =
+      circuit.scheme !== "poseidon-toy" && !isBuilt(circuit)
+        ? "too large for circom2, build it natively to check it"
+        : false;
+
+    test(circuit.name, { skip }, async () => {
+      const inspector = loadCircuit(circuit);
+      const cases = fuzzCases(3, circuit.keyCount, circuit.scheme);
+      for (const { seed, paths } of cases) {
+        const result = await checkParity(circuit, inspector, seed, paths);
+        const label = paths.map(formatCircuitPath).join(" ");
+        assert.equal(result.error, undefined, label);
+        assert.deepEqual(result.mismatches, [], label);
+        assert.ok(result.compared > 0, label);
+      }
+    });
+  }
+});
@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { InvalidInputError } from "../src/errors";
+import {
+  disclosePath,
+  encodePath,
+  PATH_DISCLOSURE_CODES,
+} from "../src/publicSignals";
+import { PathDisclosure } from "../src/types";
+import { MAX_PATH_DEPTH, parseCircuitPath } from "../src/validation";
+import { compileSource, computeWitness } from "./circom";
+
+const SOLANA = parseCircuitPath("m/44'/501'/3'/0'");
+const ETHEREUM = parseCircuitPath("m/44'/60'/0'/0/0");
+const SOLLET = parseCircuitPath("m/501'/0'/0/0");
+
+function rejectsHidden(error: unknown) {
+  return (
+    error instanceof InvalidInputError &&
+    error.field === "paths[0]" &&
+    /must start with m\/44'\/501'/.test(error.message)
+  );
+}
+
+describe("disclosePath", () => {
+  test("\"none\" accepts m/44'/501' paths and hides them entirely", () => {
+    assert.deepEqual(disclosePath(SOLANA, "none"), {
+      indices: [0, 0, 0, 0, 0],
+      depth: 0,
+    });
+  });
+
+  test("\"none\" rejects paths outside m/44'/501'", () => {
+    for (const path of [ETHEREUM, SOLLET]) {
+      assert.throws(
+        () => disclosePath(path, "none", "paths[0]"),
+        rejectsHidden
+      );
+    }
+  });
+
+  test("the other policies show the purpose and coin, or everything", () => {
+    const { indices, depth } = encodePath(SOLANA);
+    assert.deepEqual(disclosePath(SOLANA, "purpose-and-coin"), {
+      indices: [indices[0], indices[1], 0, 0, 0],
+      depth: 0,
+    });
+    assert.deepEqual(disclosePath(ETHEREUM, "full"), encodePath(ETHEREUM));
+    assert.equal(disclosePath(SOLANA, "full").depth, depth);
+  });
+});
+
+describe("PathDisclosure template", () => {
+  const circuit = () =>
+    compileSource(
+      "path_disclosure",
+      `pragma circom 2.0.0;
+include "pubkeys.circom";
+component main = PathDisclosure(${MAX_PATH_DEPTH});
+`
+    );
+
+  async function disclose(path: number[], reveal: PathDisclosure) {
+    const { indices, depth } = encodePath(path);
+    const signal = await computeWitness(circuit(), {
+      path: indices,
+      depth,
+      reveal: PATH_DISCLOSURE_CODES[reveal],
+    });
+    return {
+      indices: indices.map((_, i) =>
+        Number(signal(`main.revealed_path[${i}]`))
+      ),
+      depth: Number(signal("main.revealed_depth")),
+    };
+  }
+
+  test("matches disclosePath", async () => {
+    for (const reveal of ["none", "purpose-and-coin", "full"] as const) {
+      assert.deepEqual(
+        await disclose(SOLANA, reveal),
+        disclosePath(SOLANA, reveal),
+        reveal
+      );
+    }
+  });
+
+  test("\"none\" fails for paths outside m/44'/501'", async () => {
+    for (const path of [ETHEREUM, SOLLET]) {
+      await assert.rejects(disclose(path, "none"));
+      // Disclosed, the same paths are fine
+      assert.deepEqual(
+        await disclose(path, "full"),
+        disclosePath(path, "full")
+      );
+    }
+  });
+});
@@ -0,0 +1,33 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { MalformedProofError } from "../src/errors";
+import { verifyProof, verifyProofBatch } from "../src/proofVerification";
+import { twoKeyProof } from "./proofs";
+
+describe("verifyProof", () => {
+  test("verifies a proof of the 2-key circuit", async () => {
+    const { proof, publicSignals } = await twoKeyProof();
+    assert.equal((await verifyProof(proof, publicSignals)).valid, true);
+  });
+
+  test("rejects a signal count that matches no circuit", async () => {
+    const { proof, publicSignals } = await twoKeyProof();
+    await assert.rejects(
+      verifyProof(proof, publicSignals.slice(0, 7)),
+      (error: unknown) =>
+        error instanceof MalformedProofError &&
+        /no poseidon-toy circuit has 7 public signals/.test(error.message)
+    );
+  });
+
+  test("batch: reports a signal count that matches no circuit per item", async () => {
+    const { proof, publicSignals } = await twoKeyProof();
+    const results = await verifyProofBatch([
+      { proof, publicSignals },
+      { proof, publicSignals: publicSignals.slice(0, 7) },
+    ]);
+    assert.equal(results[0].valid, true);
+    assert.equal(results[1].valid, false);
+    assert.equal(!results[1].valid && results[1].reason, "malformed-proof");
+  });
+});
@@ -0,0 +1,28 @@
+import { deriveTwoPublicKeys, stringToSeed } from "../src/keyDerivation";
+import { generateProof } from "../src/proofGeneration";
+import { Groth16Proof, PublicSignals } from "../src/types";
+import { parseCircuitPath } from "../src/validation";
+
+/*
+  A proof made with the shipped 2-key circuit, generated once per test process
+*/
+
+export interface LinkProofFixture {
+  proof: Groth16Proof;
+  publicSignals: PublicSignals;
+}
+
+let fixture: Promise<LinkProofFixture> | undefined;
+
+export function twoKeyProof(): Promise<LinkProofFixture> {
+  fixture ??= (async () => {
+    const seed = stringToSeed(
+      "test-seed-for-the-shipped-2-key-circuit-0123456"
+    );
+    const path1 = parseCircuitPath("m/44'/501'/0'/0'");
+    const path2 = parseCircuitPath("m/44'/501'/1'/0'");
+    const { pubkey1, pubkey2 } = await deriveTwoPublicKeys(seed, path1, path2);
+    return generateProof(seed, pubkey1, pubkey2, path1, path2);
+  })();
+  return fixture;
+}
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { after, describe, test } from "node:test";
+import { InvalidInputError, ProvingError } from "../src/errors";
+import { deriveTwoPublicKeys, stringToSeed } from "../src/keyDerivation";
+import { verifyProof } from "../src/proofVerification";
+import { ProverPool } from "../src/proverPool";
+import { parseCircuitPath } from "../src/validation";
+
+const seed = stringToSeed("test-seed-for-the-prover-pool-0123456789abcdef");
+const path1 = parseCircuitPath("m/44'/501'/0'/0'");
+const path2 = parseCircuitPath("m/44'/501'/2'/0'");
+
+describe("ProverPool", () => {
+  const pool = new ProverPool({ size: 1 });
+  after(() => pool.close());
+
+  // The worker proves with the single-threaded curve it installs on start
+  test("proves on a worker thread", async () => {
+    const { pubkey1, pubkey2 } = await deriveTwoPublicKeys(seed, path1, path2);
+
+    const { proof, publicSignals } = await pool.generateProof(
+      seed,
+      pubkey1,
+      pubkey2,
+      path1,
+      path2
+    );
+    assert.equal((await verifyProof(proof, publicSignals)).valid, true);
+  });
+
+  test("keeps the field of options rejected on the worker", async () => {
+    const { pubkey1, pubkey2 } = await deriveTwoPublicKeys(seed, path1, path2);
+    const rejectsField = (field: string) => (error: unknown) =>
+      error instanceof InvalidInputError && error.field === field;
+
+    await assert.rejects(
+      pool.generateProof(seed, pubkey1, pubkey2, path1, path2, {
+        challenge: 0n,
+      }),
+      rejectsField("challenge")
+    );
+
+    const other = parseCircuitPath("m/44'/60'/0'/0'");
+    const { pubkey2: ethereumKey } = await deriveTwoPublicKeys(
+      seed,
+      path1,
+      other
+    );
+    await assert.rejects(
+      pool.generateProof(seed, pubkey1, ethereumKey, path1, other, {
+        revealPaths: "none",
+      }),
+      (error: unknown) =>
+        rejectsField("paths[1]")(error) &&
+        /must start with m\/44'\/501'/.test((error as Error).message)
+    );
+  });
+
+  test("fails the running request when its worker exits", async () => {
+    const { pubkey1, pubkey2 } = await deriveTwoPublicKeys(seed, path1, path2);
+    const proving = pool.generateProof(seed, pubkey1, pubkey2, path1, path2);
+    pool["slots"][0].worker.terminate();
+
+    await assert.rejects(
+      proving,
+      (error: unknown) =>
+        error instanceof ProvingError && /exited with code/.test(error.message)
+    );
+
+    // The replacement worker takes new requests
+    const { proof, publicSignals } = await pool.generateProof(
+      seed,
+      pubkey1,
+      pubkey2,
+      path1,
+      path2
+    );
+    assert.equal((await verifyProof(proof, publicSignals)).valid, true);
+  });
+});
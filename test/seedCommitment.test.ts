@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { createHash } from "node:crypto";
+import { describe, test } from "node:test";
+import { InvalidInputError } from "../src/errors";
+import { stringToSeed } from "../src/keyDerivation";
+import { computeSeedCommitment, domainTag } from "../src/seedCommitment";
+import { BN254_FIELD_ORDER } from "../src/validation";
+import { compileSource, computeWitness } from "./circom";
+
+const seed = stringToSeed("test-seed-for-seed-commitments-0123456789abcdef");
+const otherSeed = stringToSeed("another-seed-for-seed-commitments-0123456789a");
+
+describe("seed commitments", () => {
+  test("are stable per seed and domain", async () => {
+    const first = await computeSeedCommitment(seed, "example.org");
+    assert.equal(await computeSeedCommitment(seed, "example.org"), first);
+    assert.ok(first > 0n && first < BN254_FIELD_ORDER);
+
+    assert.notEqual(await computeSeedCommitment(seed, "example.com"), first);
+    assert.notEqual(
+      await computeSeedCommitment(otherSeed, "example.org"),
+      first
+    );
+  });
+
+  test("domain tags are the first 31 bytes of SHA-256", () => {
+    const digest = createHash("sha256").update("example.org").digest();
+    assert.equal(
+      domainTag("example.org"),
+      BigInt("0x" + digest.subarray(0, 31).toString("hex"))
+    );
+    assert.throws(() => domainTag(""), InvalidInputError);
+  });
+
+  test("the SeedCommitment template computes the same value", async () => {
+    const circuit = compileSource(
+      "seed_commitment",
+      `pragma circom 2.0.0;
+include "pubkeys.circom";
+component main = SeedCommitment();
+`
+    );
+    const commitment = async (domain: bigint) =>
+      (await computeWitness(circuit, { seed, domain }))("main.commitment");
+
+    for (const domain of ["example.org", "example.com"]) {
+      assert.equal(
+        await commitment(domainTag(domain)),
+        await computeSeedCommitment(seed, domain)
+      );
+    }
+    // Without a domain the proof carries 0
+    assert.equal(await commitment(0n), 0n);
+  });
+});
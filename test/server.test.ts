@@ -0,0 +1,172 @@
+import assert from "node:assert/strict";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, test } from "node:test";
+import { ProverPool } from "../src/proverPool";
+import { createProverServer } from "../src/server";
+
+const SEED = "ab".repeat(64);
+const PATHS = ["m/44'/501'/0'/0'", "m/44'/501'/1'/0'"];
+
+// Response bodies, whose shape the assertions check
+type JsonBody = Record<string, any>;
+
+/**
+ * Starts the server on a free port for the tests of one describe block and
+ * returns a function posting JSON to it
+ */
+function serve(server: Server) {
+  let url: string;
+
+  before(async () => {
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  after(() => new Promise((resolve) => server.close(resolve)));
+
+  return {
+    url: () => url,
+    post: async (path: string, body: unknown) => {
+      const res = await fetch(url + path, {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: typeof body === "string" ? body : JSON.stringify(body),
+      });
+      return { status: res.status, body: (await res.json()) as JsonBody };
+    },
+  };
+}
+
+describe("prover server", () => {
+  const { url, post } = serve(createProverServer({ maxBodyBytes: 4096 }));
+
+  test("GET /circuits lists the circuits", async () => {
+    const res = await fetch(`${url()}/circuits`);
+    assert.equal(res.status, 200);
+    const { circuits } = (await res.json()) as JsonBody;
+    assert.ok(
+      circuits.some(
+        (c: { keyCount: number; available: boolean }) =>
+          c.keyCount === 2 && c.available
+      )
+    );
+  });
+
+  test("proves and verifies with a challenge", async () => {
+    const proved = await post("/prove", {
+      seed: SEED,
+      paths: PATHS,
+      challenge: "42",
+    });
+    assert.equal(proved.status, 200);
+    assert.equal(proved.body.keyCount, 2);
+
+    const { proof, publicSignals } = proved.body;
+    const verified = await post("/verify", {
+      proof,
+      publicSignals,
+      challenge: "42",
+    });
+    assert.equal(verified.status, 200);
+    assert.equal(verified.body.valid, true);
+
+    const replayed = await post("/verify", {
+      proof,
+      publicSignals,
+      challenge: "43",
+    });
+    assert.equal(replayed.status, 200);
+    assert.equal(replayed.body.valid, false);
+    assert.equal(replayed.body.reason, "challenge-mismatch");
+  });
+
+  test("400 for invalid input, naming the field without the secret", async () => {
+    const bad = await post("/derive", {
+      seed: "zz" + SEED.slice(2),
+      paths: PATHS,
+    });
+    assert.equal(bad.status, 400);
+    assert.equal(bad.body.field, "seed");
+    assert.ok(!JSON.stringify(bad.body).includes(SEED.slice(2)));
+
+    const scheme = await post("/derive", {
+      seed: SEED,
+      paths: PATHS,
+      scheme: 1,
+    });
+    assert.equal(scheme.status, 400);
+    assert.equal(scheme.body.field, "scheme");
+
+    assert.equal((await post("/derive", "{")).status, 400);
+    assert.equal((await post("/derive", [])).status, 400);
+  });
+
+  test("413 for bodies over the limit", async () => {
+    const res = await post("/derive", {
+      seed: SEED,
+      padding: "x".repeat(5000),
+    });
+    assert.equal(res.status, 413);
+  });
+
+  test("422 for pubkeys that do not derive from the seed", async () => {
+    const derived = await post("/derive", { seed: SEED, paths: PATHS });
+    assert.equal(derived.status, 200);
+    const [first, second] = derived.body.pubkeys.map(
+      (p: { pubkey: string[] }) => p.pubkey
+    );
+
+    const res = await post("/prove", {
+      seed: SEED,
+      paths: PATHS,
+      pubkeys: [second, first],
+    });
+    assert.equal(res.status, 422);
+    assert.equal(res.body.error, "ConstraintUnsatisfiedError");
+  });
+});
+
+describe("prover server with a prover pool", () => {
+  const pool = new ProverPool({ size: 1 });
+  const { post } = serve(createProverServer({ pool }));
+  after(() => pool.close());
+
+  test("400 for options the worker rejects, naming the field", async () => {
+    const challenge = await post("/prove", {
+      seed: SEED,
+      paths: PATHS,
+      challenge: "0",
+    });
+    assert.equal(challenge.status, 400);
+    assert.equal(challenge.body.field, "challenge");
+
+    const hidden = await post("/prove", {
+      seed: SEED,
+      paths: [PATHS[0], "m/44'/60'/0'/0'"],
+      revealPaths: "none",
+    });
+    assert.equal(hidden.status, 400);
+    assert.equal(hidden.body.field, "paths[1]");
+  });
+
+  test("/prove reads the scheme", async () => {
+    const unknown = await post("/prove", {
+      seed: SEED,
+      paths: PATHS,
+      scheme: "bip32-secp256k1",
+    });
+    assert.equal(unknown.status, 400);
+    assert.equal(unknown.body.field, "scheme");
+
+    // The SLIP-0010 circuit ships without artifacts
+    const slip10 = await post("/prove", {
+      seed: SEED,
+      paths: PATHS,
+      scheme: "slip10-ed25519",
+    });
+    assert.equal(slip10.status, 400);
+    assert.match(slip10.body.message, /2pubkeys_slip10 circuit is not built/);
+  });
+});
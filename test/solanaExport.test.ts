@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, test } from "node:test";
+import { Keypair, PublicKey, Transaction } from "@solana/web3.js";
+import * as snarkjs from "snarkjs";
+import { DEFAULT_ARTIFACT_ROOT } from "../src/circuitRegistry";
+import { InvalidInputError } from "../src/errors";
+import { verifyGroth16 } from "../src/groth16Verifier";
+import {
+  buildVerifyInstruction,
+  decodeFieldElement,
+  decodeSolanaProof,
+  encodeFieldElement,
+  encodeProofForSolana,
+  encodeVerifierPayload,
+  encodeVerifyingKey,
+  G1_BYTES,
+  G2_BYTES,
+  SCALAR_BYTES,
+} from "../src/solanaExport";
+import { Groth16VerificationKey } from "../src/types";
+import { BN254_BASE_FIELD_ORDER } from "../src/validation";
+import { twoKeyProof } from "./proofs";
+
+const vkey: Groth16VerificationKey = JSON.parse(
+  readFileSync(join(DEFAULT_ARTIFACT_ROOT, "verification_key.json"), "utf8")
+);
+
+describe("Solana export", () => {
+  test("field elements round-trip", () => {
+    for (const x of [0n, 1n, BN254_BASE_FIELD_ORDER - 1n]) {
+      assert.equal(decodeFieldElement(encodeFieldElement(x)), x);
+    }
+  });
+
+  test("a decoded proof still verifies", async () => {
+    const { proof, publicSignals } = await twoKeyProof();
+    const decoded = decodeSolanaProof(encodeProofForSolana(proof));
+    assert.deepEqual(decoded.pi_a, proof.pi_a);
+    assert.deepEqual(decoded.pi_b, proof.pi_b);
+    assert.deepEqual(decoded.pi_c, proof.pi_c);
+    assert.equal(
+      await snarkjs.groth16.verify(vkey, publicSignals, decoded),
+      true
+    );
+  });
+
+  test("instruction data decodes to a verifying proof", async () => {
+    const { proof, publicSignals } = await twoKeyProof();
+    const discriminator = Uint8Array.of(7);
+    const data = encodeVerifierPayload(proof, publicSignals, discriminator);
+    assert.equal(
+      data.length,
+      1 + 2 * G1_BYTES + G2_BYTES + SCALAR_BYTES * publicSignals.length
+    );
+
+    let offset = discriminator.length;
+    const take = (n: number) => data.subarray(offset, (offset += n));
+    const decoded = decodeSolanaProof({
+      proofA: take(G1_BYTES),
+      proofB: take(G2_BYTES),
+      proofC: take(G1_BYTES),
+    });
+    const inputs = publicSignals.map(() =>
+      decodeFieldElement(take(SCALAR_BYTES)).toString()
+    );
+    assert.deepEqual(inputs, publicSignals);
+    assert.equal(verifyGroth16(vkey, inputs, decoded), true);
+  });
+
+  test("the verifying key has one IC point per signal plus one", () => {
+    const key = encodeVerifyingKey(vkey);
+    assert.equal(key.nPublic, vkey.nPublic);
+    assert.equal(key.ic.length, vkey.nPublic + 1);
+  });
+
+  test("a 2-key proof fits in a transaction", async () => {
+    const { proof, publicSignals } = await twoKeyProof();
+    const payer = Keypair.generate();
+    const transaction = new Transaction({
+      feePayer: payer.publicKey,
+      recentBlockhash: PublicKey.default.toBase58(),
+    }).add(
+      buildVerifyInstruction({
+        programId: Keypair.generate().publicKey,
+        proof,
+        publicSignals,
+      })
+    );
+    transaction.sign(payer);
+    assert.ok(transaction.serialize().length <= 1232);
+  });
+
+  test("instruction accounts count against the transaction size", async () => {
+    const { proof, publicSignals } = await twoKeyProof();
+    const programId = Keypair.generate().publicKey;
+    const account = {
+      pubkey: Keypair.generate().publicKey,
+      isSigner: false,
+      isWritable: false,
+    };
+    const serializedLength = (
+      instruction: ReturnType<typeof buildVerifyInstruction>
+    ) => {
+      const payer = Keypair.generate();
+      const transaction = new Transaction({
+        feePayer: payer.publicKey,
+        recentBlockhash: PublicKey.default.toBase58(),
+      }).add(instruction);
+      transaction.sign(payer);
+      return transaction.serialize().length;
+    };
+    const isTooLarge = (error: unknown) =>
+      error instanceof InvalidInputError && error.field === "publicSignals";
+
+    // The limits are exact: the largest payloads accepted fill the packet
+    const discriminator = new Uint8Array(6);
+    assert.equal(
+      serializedLength(
+        buildVerifyInstruction({
+          programId,
+          proof,
+          publicSignals,
+          discriminator,
+        })
+      ),
+      1232
+    );
+    assert.equal(
+      serializedLength(
+        buildVerifyInstruction({
+          programId,
+          proof,
+          publicSignals: publicSignals.slice(0, 24),
+          keys: [account],
+          discriminator: new Uint8Array(5),
+        })
+      ),
+      1232
+    );
+
+    // One more account or an 8-byte Anchor discriminator does not fit
+    assert.throws(
+      () =>
+        buildVerifyInstruction({
+          programId,
+          proof,
+          publicSignals,
+          keys: [account],
+        }),
+      isTooLarge
+    );
+    assert.throws(
+      () =>
+        buildVerifyInstruction({
+          programId,
+          proof,
+          publicSignals,
+          discriminator: new Uint8Array(8),
+        }),
+      isTooLarge
+    );
+  });
+
+  test("rejects proofs too large for a transaction", async () => {
+    const { proof, publicSignals } = await twoKeyProof();
+    // As many signals as the 4-key circuit has
+    const signals = Array.from({ length: 45 }, (_, i) => publicSignals[i % 25]);
+    assert.throws(
+      () => encodeVerifierPayload(proof, signals),
+      (error: unknown) =>
+        error instanceof InvalidInputError && error.field === "publicSignals"
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { InvalidInputError } from "../src/errors";
+import { HARDENED_OFFSET } from "../src/slip10";
+import { formatCircuitPath } from "../src/validation";
+import {
+  getWalletProfile,
+  hasChangeLevel,
+  profilePath,
+  registerWalletProfile,
+} from "../src/walletProfiles";
+
+function rejectsField(field: string) {
+  return (error: unknown) =>
+    error instanceof InvalidInputError && error.field === field;
+}
+
+describe("wallet profiles", () => {
+  test("lay out accounts as the wallets do", () => {
+    const paths: [string, number, number, string][] = [
+      ["bip44-change", 0, 0, "m/44'/501'/0'/0'"],
+      ["bip44-change", 2, 1, "m/44'/501'/2'/1'"],
+      ["bip44", 7, 0, "m/44'/501'/7'"],
+      ["sollet", 3, 0, "m/501'/3'/0/0"],
+    ];
+    for (const [profile, account, change, expected] of paths) {
+      assert.equal(
+        formatCircuitPath(profilePath(profile, account, change)),
+        expected
+      );
+    }
+
+    // Sollet's last two levels are not hardened
+    assert.deepEqual(profilePath("sollet", 3), [
+      HARDENED_OFFSET + 501,
+      HARDENED_OFFSET + 3,
+      0,
+      0,
+    ]);
+    assert.equal(hasChangeLevel(getWalletProfile("bip44-change")), true);
+    assert.equal(hasChangeLevel(getWalletProfile("bip44")), false);
+  });
+
+  test("reject indices the profile cannot hold", () => {
+    assert.throws(() => profilePath("bip44", 0, 1), rejectsField("change"));
+    assert.throws(() => profilePath("bip44", -1), rejectsField("account"));
+    assert.throws(
+      () => profilePath("bip44", HARDENED_OFFSET),
+      rejectsField("account")
+    );
+    assert.throws(() => profilePath("bip44", 1.5), rejectsField("account"));
+    assert.throws(() => profilePath("exodus", 0), rejectsField("profile"));
+  });
+
+  test("registered profiles are checked up front", () => {
+    assert.throws(
+      () =>
+        registerWalletProfile({
+          name: "no-account",
+          description: "",
+          template: "m/44'/501'/0'",
+        }),
+      rejectsField("profile")
+    );
+
+    registerWalletProfile({
+      name: "ledger-live",
+      description: "Ledger Live: m/44'/501'/n'/0'/0'",
+      template: "m/44'/501'/{account}'/0'/0'",
+    });
+    assert.equal(
+      formatCircuitPath(profilePath("ledger-live", 4)),
+      "m/44'/501'/4'/0'/0'"
+    );
+  });
+});
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict";
+import { mkdtempSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { before, describe, test } from "node:test";
+import { getCircuitForKeyCount } from "../src/circuitRegistry";
+import { InvalidInputError } from "../src/errors";
+import { deriveManyPublicKeys, stringToSeed } from "../src/keyDerivation";
+import { calculateWitness } from "../src/proofGeneration";
+import { computeSeedCommitment } from "../src/seedCommitment";
+import { PubkeyLimbs, Witness } from "../src/types";
+import { parseCircuitPath } from "../src/validation";
+import {
+  readWtns,
+  VALID_SIGNAL_INDEX,
+  WitnessInspector,
+  writeWtns,
+} from "../src/witnessInspector";
+
+const seed = stringToSeed("test-seed-for-the-witness-inspector-0123456789");
+const paths = ["m/44'/501'/0'/0'", "m/44'/501'/3'/0'"].map((path) =>
+  parseCircuitPath(path)
+);
+const DOMAIN = "example.org";
+
+describe("WitnessInspector", () => {
+  const inspector = WitnessInspector.load();
+  let pubkeys: PubkeyLimbs[];
+  let witness: Witness;
+
+  before(async () => {
+    pubkeys = await deriveManyPublicKeys(seed, paths);
+    witness = await calculateWitness(
+      getCircuitForKeyCount(2),
+      seed,
+      pubkeys,
+      paths,
+      { domain: DOMAIN }
+    );
+  });
+
+  test("resolves names from the .sym file against a real witness", async () => {
+    assert.equal(inspector.indexOf("main.valid"), VALID_SIGNAL_INDEX);
+    assert.equal(inspector.get(witness, "main.valid"), 1n);
+    assert.deepEqual(
+      [0, 1, 2, 3].map((i) => inspector.get(witness, `main.pubkey2[${i}]`)),
+      pubkeys[1]
+    );
+
+    // An internal signal: the Poseidon hash behind the seed commitment
+    assert.equal(
+      inspector.get(witness, "main.commitment.hasher.out"),
+      await computeSeedCommitment(seed, DOMAIN)
+    );
+    assert.equal(
+      inspector.toJson(witness, "main.seedCommitment")["main.seedCommitment"],
+      (await computeSeedCommitment(seed, DOMAIN)).toString()
+    );
+  });
+
+  test("rejects unknown and optimized-away signals", () => {
+    const removed = inspector.signalNames.find(
+      (name) => inspector.indexOf(name) < 0
+    );
+    assert.ok(removed);
+    assert.throws(
+      () => inspector.get(witness, removed),
+      (error: unknown) =>
+        error instanceof InvalidInputError &&
+        /optimized away/.test(error.message)
+    );
+    assert.throws(
+      () => inspector.get(witness, "main.nonexistent"),
+      InvalidInputError
+    );
+    assert.throws(
+      () => inspector.get(witness.slice(0, 10), "main.seed[0]"),
+      (error: unknown) =>
+        error instanceof InvalidInputError && error.field === "witness"
+    );
+  });
+
+  test("writes .wtns files snarkjs reads back", async () => {
+    const file = join(
+      mkdtempSync(join(tmpdir(), "prove2pubkeys-wtns-")),
+      "witness.wtns"
+    );
+    writeWtns(witness, file);
+    assert.deepEqual(await readWtns(file), witness);
+  });
+});